@@ -0,0 +1,332 @@
+/**
+ * @file stub-idp.mjs
+ * @description A minimal OAuth 2.0 / OpenID Connect identity provider for local development.
+ * It implements just enough of the protocol to exercise the dashboard's `oidc` auth mode end to end:
+ * discovery, an authorization endpoint with an approve/deny page, the token endpoint
+ * (`authorization_code` with PKCE S256, and `refresh_token`) and userinfo.
+ *
+ * Tokens are unsigned JWTs (`alg: none`) and all state is kept in memory. Never use this outside development.
+ *
+ * Usage: `npm run stub-idp` (listens on http://localhost:9400, override with `STUB_IDP_PORT`).
+ */
+import { createServer } from 'node:http';
+import { createHash, randomBytes } from 'node:crypto';
+
+const PORT = Number(process.env.STUB_IDP_PORT) || 9400;
+const ISSUER = `http://localhost:${PORT}`;
+const ACCESS_TOKEN_TTL = Number(process.env.STUB_IDP_TOKEN_TTL) || 300; // Seconds
+const CODE_TTL = 60 * 1000; // Authorization codes are valid for one minute
+const ROLES = ['admin', 'moderator', 'user'];
+
+/** Pending authorization codes, keyed by code. Each code can be exchanged once. */
+const codes = new Map();
+/** Issued refresh tokens, keyed by token. */
+const refreshTokens = new Map();
+/** Users who signed in, keyed by access token (for userinfo). */
+const accessTokens = new Map();
+
+/**
+ * @function base64Url
+ * @description Encodes a buffer or string as base64url without padding.
+ * @param {Buffer | string} value - The value to encode.
+ * @returns {string} The encoded string.
+ */
+const base64Url = (value) => Buffer.from(value).toString('base64url');
+
+/**
+ * @function createToken
+ * @description Creates an unsigned JWT with standard timing claims.
+ * @param {Record<string, unknown>} claims - The token claims.
+ * @param {number} ttl - Lifetime in seconds.
+ * @returns {string} The encoded token.
+ */
+const createToken = (claims, ttl) => {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64Url(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  const payload = base64Url(JSON.stringify({ iss: ISSUER, iat: now, exp: now + ttl, ...claims }));
+  return `${header}.${payload}.`;
+};
+
+/**
+ * @function toSubject
+ * @description Derives a stable subject identifier from an email address.
+ * @param {string} email - The email address.
+ * @returns {string} The subject.
+ */
+const toSubject = (email) => createHash('sha256').update(email.toLowerCase()).digest('hex').slice(0, 16);
+
+/**
+ * @function escapeHtml
+ * @description Escapes a value for use in HTML text and attribute values.
+ * @param {string} value - The value to escape.
+ * @returns {string} The escaped value.
+ */
+const escapeHtml = (value) =>
+  String(value).replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+/**
+ * @function send
+ * @description Writes a response with CORS headers, so the dashboard can call the token and userinfo endpoints.
+ * @param {import('node:http').ServerResponse} res - The response.
+ * @param {number} status - The HTTP status.
+ * @param {unknown} body - The body. Objects are sent as JSON, strings as HTML.
+ * @param {Record<string, string>} [headers] - Extra headers.
+ */
+const send = (res, status, body, headers = {}) => {
+  const isJson = typeof body !== 'string';
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Cache-Control': 'no-store',
+    'Content-Type': isJson ? 'application/json' : 'text/html; charset=utf-8',
+    ...headers,
+  });
+  res.end(body === undefined ? undefined : isJson ? JSON.stringify(body) : body);
+};
+
+/**
+ * @function oauthError
+ * @description Sends an OAuth 2.0 error response.
+ * @param {import('node:http').ServerResponse} res - The response.
+ * @param {number} status - The HTTP status.
+ * @param {string} error - The OAuth error code.
+ * @param {string} description - A human-readable description.
+ */
+const oauthError = (res, status, error, description) =>
+  send(res, status, { error, error_description: description });
+
+/**
+ * @function readForm
+ * @description Reads a form-encoded request body.
+ * @param {import('node:http').IncomingMessage} req - The request.
+ * @returns {Promise<URLSearchParams>} The parsed body.
+ */
+const readForm = async (req) => {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return new URLSearchParams(body);
+};
+
+/**
+ * @function redirectWith
+ * @description Redirects back to the client's `redirect_uri` with the given query parameters.
+ * @param {import('node:http').ServerResponse} res - The response.
+ * @param {string} redirectUri - The client's redirect URI.
+ * @param {Record<string, string>} params - Parameters to append.
+ */
+const redirectWith = (res, redirectUri, params) => {
+  const url = new URL(redirectUri);
+  for (const [key, value] of Object.entries(params)) {
+    if (value) url.searchParams.set(key, value);
+  }
+  send(res, 302, undefined, { Location: url.href });
+};
+
+/**
+ * @function renderAuthorizePage
+ * @description Renders the sign-in page. The user picks any email, name and role; the original
+ * authorization request is carried through hidden fields.
+ * @param {URLSearchParams} params - The authorization request parameters.
+ * @returns {string} The HTML page.
+ */
+const renderAuthorizePage = (params) => {
+  const hidden = [...params]
+    .map(([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(value)}">`)
+    .join('\n      ');
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8">
+    <title>Stub IdP - Sign in</title>
+    <style>
+      body { font-family: system-ui, sans-serif; display: flex; justify-content: center; padding-top: 10vh; background: #f5f5f7; }
+      form { background: white; padding: 24px 32px; border-radius: 12px; box-shadow: 0 2px 12px rgba(0, 0, 0, 0.08); min-width: 320px; }
+      label { display: block; margin: 12px 0 4px; font-size: 14px; }
+      input[type="email"], input[type="text"], select { width: 100%; padding: 8px; box-sizing: border-box; }
+      .actions { display: flex; gap: 8px; margin-top: 20px; }
+      button { flex: 1; padding: 8px; cursor: pointer; }
+      small { color: #666; }
+    </style>
+  </head>
+  <body>
+    <form method="post" action="/authorize">
+      <h2>Stub IdP</h2>
+      <small>Client: ${escapeHtml(params.get('client_id') || '')}</small>
+      ${hidden}
+      <label for="email">Email</label>
+      <input id="email" name="email" type="email" value="jane.doe@example.com" required>
+      <label for="name">Name</label>
+      <input id="name" name="name" type="text" value="Jane Doe">
+      <label for="role">Role</label>
+      <select id="role" name="role">
+        <option value="admin">Admin</option>
+        <option value="moderator">Moderator</option>
+        <option value="user">User</option>
+      </select>
+      <div class="actions">
+        <button type="submit" name="decision" value="approve">Sign in</button>
+        <button type="submit" name="decision" value="deny" formnovalidate>Deny</button>
+      </div>
+    </form>
+  </body>
+</html>`;
+};
+
+/**
+ * @function validateAuthorizeRequest
+ * @description Checks the parameters of an authorization request.
+ * @param {URLSearchParams} params - The request parameters.
+ * @returns {string | null} An error description, or null if the request is valid.
+ */
+const validateAuthorizeRequest = (params) => {
+  if (params.get('response_type') !== 'code') return 'Only response_type=code is supported';
+  if (!params.get('client_id')) return 'client_id is required';
+  if (!params.get('redirect_uri')) return 'redirect_uri is required';
+  if (!params.get('code_challenge') || params.get('code_challenge_method') !== 'S256') {
+    return 'PKCE with code_challenge_method=S256 is required';
+  }
+  return null;
+};
+
+/**
+ * @function issueTokens
+ * @description Issues an access token, ID token and refresh token for a user.
+ * @param {{ sub: string; email: string; name: string; role: string }} user - The signed-in user.
+ * @param {string} clientId - The client the tokens are issued to.
+ * @param {string} [nonce] - The nonce from the authorization request.
+ * @returns {Record<string, unknown>} The token response.
+ */
+const issueTokens = (user, clientId, nonce) => {
+  const accessToken = createToken({ sub: user.sub, aud: clientId, scope: 'openid profile email' }, ACCESS_TOKEN_TTL);
+  const idToken = createToken({ ...user, aud: clientId, ...(nonce ? { nonce } : {}) }, ACCESS_TOKEN_TTL);
+  const refreshToken = randomBytes(32).toString('base64url');
+
+  accessTokens.set(accessToken, user);
+  refreshTokens.set(refreshToken, { user, clientId });
+
+  return {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: ACCESS_TOKEN_TTL,
+    refresh_token: refreshToken,
+    id_token: idToken,
+  };
+};
+
+/**
+ * @function handleToken
+ * @description Handles `POST /token` for the `authorization_code` and `refresh_token` grants.
+ * @param {URLSearchParams} form - The request body.
+ * @param {import('node:http').ServerResponse} res - The response.
+ */
+const handleToken = (form, res) => {
+  const grantType = form.get('grant_type');
+
+  if (grantType === 'authorization_code') {
+    const entry = codes.get(form.get('code'));
+    codes.delete(form.get('code')); // Codes are single-use, even if the exchange fails
+    if (!entry || entry.expiresAt < Date.now()) {
+      return oauthError(res, 400, 'invalid_grant', 'The authorization code is invalid or expired');
+    }
+    if (entry.clientId !== form.get('client_id') || entry.redirectUri !== form.get('redirect_uri')) {
+      return oauthError(res, 400, 'invalid_grant', 'client_id or redirect_uri does not match the authorization request');
+    }
+    const challenge = createHash('sha256').update(form.get('code_verifier') || '').digest('base64url');
+    if (challenge !== entry.codeChallenge) {
+      return oauthError(res, 400, 'invalid_grant', 'code_verifier does not match the code challenge');
+    }
+    return send(res, 200, issueTokens(entry.user, entry.clientId, entry.nonce));
+  }
+
+  if (grantType === 'refresh_token') {
+    const entry = refreshTokens.get(form.get('refresh_token'));
+    if (!entry || entry.clientId !== form.get('client_id')) {
+      return oauthError(res, 400, 'invalid_grant', 'The refresh token is invalid');
+    }
+    refreshTokens.delete(form.get('refresh_token')); // Refresh tokens are rotated on every use
+    return send(res, 200, issueTokens(entry.user, entry.clientId));
+  }
+
+  return oauthError(res, 400, 'unsupported_grant_type', `Unsupported grant_type "${grantType}"`);
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', ISSUER);
+
+  try {
+    if (req.method === 'OPTIONS') return send(res, 204, undefined);
+
+    if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+      return send(res, 200, {
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        userinfo_endpoint: `${ISSUER}/userinfo`,
+        response_types_supported: ['code'],
+        grant_types_supported: ['authorization_code', 'refresh_token'],
+        code_challenge_methods_supported: ['S256'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['none'],
+        scopes_supported: ['openid', 'profile', 'email'],
+        token_endpoint_auth_methods_supported: ['none'],
+      });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/authorize') {
+      const error = validateAuthorizeRequest(url.searchParams);
+      if (error) return send(res, 400, `<p>Invalid authorization request: ${escapeHtml(error)}</p>`);
+      return send(res, 200, renderAuthorizePage(url.searchParams));
+    }
+
+    if (req.method === 'POST' && url.pathname === '/authorize') {
+      const form = await readForm(req);
+      const error = validateAuthorizeRequest(form);
+      if (error) return send(res, 400, `<p>Invalid authorization request: ${escapeHtml(error)}</p>`);
+
+      const redirectUri = form.get('redirect_uri');
+      const state = form.get('state') || '';
+      if (form.get('decision') !== 'approve') {
+        return redirectWith(res, redirectUri, { error: 'access_denied', error_description: 'The user denied the request', state });
+      }
+
+      const email = (form.get('email') || '').trim();
+      const code = randomBytes(24).toString('base64url');
+      codes.set(code, {
+        clientId: form.get('client_id'),
+        redirectUri,
+        codeChallenge: form.get('code_challenge'),
+        nonce: form.get('nonce') || undefined,
+        user: {
+          sub: toSubject(email),
+          email,
+          name: (form.get('name') || '').trim() || email.split('@')[0],
+          role: ROLES.includes(form.get('role')) ? form.get('role') : 'user',
+        },
+        expiresAt: Date.now() + CODE_TTL,
+      });
+      return redirectWith(res, redirectUri, { code, state });
+    }
+
+    if (req.method === 'POST' && url.pathname === '/token') {
+      return handleToken(await readForm(req), res);
+    }
+
+    if (req.method === 'GET' && url.pathname === '/userinfo') {
+      const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+      const user = accessTokens.get(token);
+      if (!user) return oauthError(res, 401, 'invalid_token', 'The access token is invalid');
+      return send(res, 200, user);
+    }
+
+    send(res, 404, { error: 'not_found', error_description: `${req.method} ${url.pathname} is not supported` });
+  } catch (error) {
+    console.error(error);
+    oauthError(res, 500, 'server_error', 'Unexpected error');
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Stub IdP listening on ${ISSUER}`);
+  console.log(`Discovery: ${ISSUER}/.well-known/openid-configuration`);
+});
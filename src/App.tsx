@@ -6,11 +6,13 @@
 import { Routes, Route, Navigate } from 'react-router-dom'
 import { Theme } from '@radix-ui/themes'
 import DashboardLayout from './components/DashboardLayout'
+import SessionTimeoutDialog from './components/SessionTimeoutDialog'
 import Dashboard from './pages/dashboard/Dashboard'
 import Login from './pages/auth/Login'
 import Register from './pages/auth/Register'
 import ForgotPassword from './pages/auth/ForgotPassword'
 import ResetPassword from './pages/auth/ResetPassword'
+import AuthCallback from './pages/auth/AuthCallback'
 import Profile from './pages/dashboard/Profile'
 import Settings from './pages/dashboard/Settings'
 import Forms from './pages/dashboard/Forms'
@@ -22,15 +24,18 @@ import Transactions from './pages/dashboard/Transactions'
 import Tracking from './pages/dashboard/Tracking'
 import NotFound from './pages/errors/NotFound'
 import ServerError from './pages/errors/ServerError'
+import Forbidden from './pages/errors/Forbidden'
 import { ThemeProvider, useTheme } from './lib/theme-context'
 import { AuthProvider, ProtectedRoute, useAuth } from './lib/auth-context'
+import { ROUTE_PERMISSIONS } from './lib/permissions'
 import { ToastProvider } from './components/notifications/toast-context'
 import { ErrorBoundary } from './components/ui/ErrorBoundary'
 
 /**
  * @function AppRoutes
  * @description Defines the application's routing structure and applies the selected theme.
- * It determines which component to render based on the current URL and authentication status.
+ * It determines which component to render based on the current URL and authentication status,
+ * and hosts the inactivity warning so it is styled by the theme.
  * @returns {JSX.Element} The rendered routes within the application's theme.
  */
 function AppRoutes() {
@@ -57,6 +62,8 @@ function AppRoutes() {
         <Route path="/register" element={<Register />} />
         <Route path="/forgot-password" element={<ForgotPassword />} />
         <Route path="/reset-password" element={<ResetPassword />} />
+        <Route path="/auth/callback" element={<AuthCallback />} />
+        <Route path="/403" element={<Forbidden />} />
         <Route path="/500" element={<ServerError />} />
         <Route path="/dashboard" element={
           <ProtectedRoute>
@@ -67,15 +74,40 @@ function AppRoutes() {
           <Route path="profile" element={<Profile />} />
           <Route path="settings" element={<Settings />} />
           <Route path="forms" element={<Forms />} />
-          <Route path="users" element={<Users />} />
-          <Route path="products" element={<Products />} />
-          <Route path="orders" element={<Orders />} />
-          <Route path="analytics" element={<Analytics />} />
-          <Route path="transactions" element={<Transactions />} />
-          <Route path="tracking" element={<Tracking />} />
+          <Route path="users" element={
+            <ProtectedRoute requiredPermissions={ROUTE_PERMISSIONS['/dashboard/users']}>
+              <Users />
+            </ProtectedRoute>
+          } />
+          <Route path="products" element={
+            <ProtectedRoute requiredPermissions={ROUTE_PERMISSIONS['/dashboard/products']}>
+              <Products />
+            </ProtectedRoute>
+          } />
+          <Route path="orders" element={
+            <ProtectedRoute requiredPermissions={ROUTE_PERMISSIONS['/dashboard/orders']}>
+              <Orders />
+            </ProtectedRoute>
+          } />
+          <Route path="analytics" element={
+            <ProtectedRoute requiredPermissions={ROUTE_PERMISSIONS['/dashboard/analytics']}>
+              <Analytics />
+            </ProtectedRoute>
+          } />
+          <Route path="transactions" element={
+            <ProtectedRoute requiredPermissions={ROUTE_PERMISSIONS['/dashboard/transactions']}>
+              <Transactions />
+            </ProtectedRoute>
+          } />
+          <Route path="tracking" element={
+            <ProtectedRoute requiredPermissions={ROUTE_PERMISSIONS['/dashboard/tracking']}>
+              <Tracking />
+            </ProtectedRoute>
+          } />
         </Route>
         <Route path="*" element={<NotFound />} />
       </Routes>
+      <SessionTimeoutDialog />
     </Theme>
   )
 }
@@ -83,18 +115,19 @@ function AppRoutes() {
 /**
  * @function App
  * @description The main application component.
- * It wraps the application with error boundaries and context providers for theme, authentication, and toasts.
+ * It wraps the application with error boundaries and context providers for theme, toasts, and authentication.
+ * `ToastProvider` wraps `AuthProvider` so that session expiry can be announced with a toast.
  * @returns {JSX.Element} The main application structure.
  */
 function App() {
   return (
     <ErrorBoundary showErrorDetails={true}>
       <ThemeProvider>
-        <AuthProvider>
-          <ToastProvider>
+        <ToastProvider>
+          <AuthProvider>
             <AppRoutes />
-          </ToastProvider>
-        </AuthProvider>
+          </AuthProvider>
+        </ToastProvider>
       </ThemeProvider>
     </ErrorBoundary>
   )
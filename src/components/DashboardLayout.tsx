@@ -2,6 +2,7 @@
  * @file DashboardLayout.tsx
  * @description This file defines the main layout for the dashboard pages.
  * It includes a sidebar for navigation and a header with user information and actions.
+ * Sidebar links to pages the user has no permission for are hidden (see `ROUTE_PERMISSIONS`).
  * The main content of each dashboard page is rendered via the <Outlet /> component.
  */
 import { Outlet, Link, useNavigate, useLocation } from 'react-router-dom'
@@ -22,7 +23,8 @@ import {
   ActivityLogIcon,
   RocketIcon
 } from '@radix-ui/react-icons'
-import { useAuth } from '../lib/auth-context'
+import { Can, useAuth } from '../lib/auth-context'
+import { ROUTE_PERMISSIONS } from '../lib/permissions'
 import { NotificationCenter } from './notifications/NotificationCenter'
 import { ThemeSelector } from './ThemeSelector'
 
@@ -70,48 +72,60 @@ export default function DashboardLayout() {
               
               <Separator my="3" />
               
-              <Link to="/dashboard/users" asChild>
-                <SidebarItem 
-                  icon={<PeopleIcon />} 
-                  label="Users" 
-                  active={location.pathname === '/dashboard/users'}
-                />
-              </Link>
-              <Link to="/dashboard/products" asChild>
-                <SidebarItem 
-                  icon={<CubeIcon />} 
-                  label="Products" 
-                  active={location.pathname === '/dashboard/products'}
-                />
-              </Link>
-              <Link to="/dashboard/orders" asChild>
-                <SidebarItem 
-                  icon={<ReaderIcon />} 
-                  label="Orders" 
-                  active={location.pathname === '/dashboard/orders'}
-                />
-              </Link>
-              <Link to="/dashboard/transactions" asChild>
-                <SidebarItem 
-                  icon={<ActivityLogIcon />} 
-                  label="Transactions" 
-                  active={location.pathname === '/dashboard/transactions'}
-                />
-              </Link>
-              <Link to="/dashboard/analytics" asChild>
-                <SidebarItem 
-                  icon={<BarChartIcon />} 
-                  label="Analytics" 
-                  active={location.pathname === '/dashboard/analytics'}
-                />
-              </Link>
-              <Link to="/dashboard/tracking" asChild>
-                <SidebarItem 
-                  icon={<RocketIcon />} 
-                  label="Tracking" 
-                  active={location.pathname === '/dashboard/tracking'}
-                />
-              </Link>
+              <Can permission={ROUTE_PERMISSIONS['/dashboard/users']}>
+                <Link to="/dashboard/users" asChild>
+                  <SidebarItem 
+                    icon={<PeopleIcon />} 
+                    label="Users" 
+                    active={location.pathname === '/dashboard/users'}
+                  />
+                </Link>
+              </Can>
+              <Can permission={ROUTE_PERMISSIONS['/dashboard/products']}>
+                <Link to="/dashboard/products" asChild>
+                  <SidebarItem 
+                    icon={<CubeIcon />} 
+                    label="Products" 
+                    active={location.pathname === '/dashboard/products'}
+                  />
+                </Link>
+              </Can>
+              <Can permission={ROUTE_PERMISSIONS['/dashboard/orders']}>
+                <Link to="/dashboard/orders" asChild>
+                  <SidebarItem 
+                    icon={<ReaderIcon />} 
+                    label="Orders" 
+                    active={location.pathname === '/dashboard/orders'}
+                  />
+                </Link>
+              </Can>
+              <Can permission={ROUTE_PERMISSIONS['/dashboard/transactions']}>
+                <Link to="/dashboard/transactions" asChild>
+                  <SidebarItem 
+                    icon={<ActivityLogIcon />} 
+                    label="Transactions" 
+                    active={location.pathname === '/dashboard/transactions'}
+                  />
+                </Link>
+              </Can>
+              <Can permission={ROUTE_PERMISSIONS['/dashboard/analytics']}>
+                <Link to="/dashboard/analytics" asChild>
+                  <SidebarItem 
+                    icon={<BarChartIcon />} 
+                    label="Analytics" 
+                    active={location.pathname === '/dashboard/analytics'}
+                  />
+                </Link>
+              </Can>
+              <Can permission={ROUTE_PERMISSIONS['/dashboard/tracking']}>
+                <Link to="/dashboard/tracking" asChild>
+                  <SidebarItem 
+                    icon={<RocketIcon />} 
+                    label="Tracking" 
+                    active={location.pathname === '/dashboard/tracking'}
+                  />
+                </Link>
+              </Can>
               
               <Separator my="3" />
               
@@ -0,0 +1,350 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import type { ComponentProps } from 'react';
+import { Theme } from '@radix-ui/themes';
+import { MemoryRouter } from 'react-router-dom';
+import DataTable, { type DataTableViewState } from './DataTable';
+import { ToastProvider } from './notifications/toast-context';
+import { validators } from './ui/FormField';
+import { base64UrlEncode } from '../lib/jwt';
+
+interface Product {
+  id: number;
+  name: string;
+}
+
+const rows: Product[] = [
+  { id: 1, name: 'Wireless Mouse' },
+  { id: 2, name: 'USB Cable' },
+];
+
+const columns = [{ key: 'name', header: 'Name', filter: { type: 'text' as const } }];
+
+const view: DataTableViewState = {
+  columns: [{ key: 'name', pinned: null, hidden: false }],
+  sort: [],
+  pageSize: 10,
+  search: '',
+  filters: {},
+  filter: { combinator: 'and', conditions: [] },
+  groupBy: null,
+};
+
+// Renders a table with the providers it needs, at the given URL
+const renderTable = <T extends Record<string, any>>(props: ComponentProps<typeof DataTable<T>>, url = '/products') => {
+  const wrap = (tableProps: ComponentProps<typeof DataTable<T>>) => (
+    <MemoryRouter initialEntries={[url]}>
+      <Theme>
+        <ToastProvider>
+          <DataTable {...tableProps} />
+        </ToastProvider>
+      </Theme>
+    </MemoryRouter>
+  );
+  const result = render(wrap(props));
+  return { ...result, rerender: (next: ComponentProps<typeof DataTable<T>>) => result.rerender(wrap(next)) };
+};
+
+// The URL of the products page opened from a share link carrying a view
+const sharedViewUrl = (state: unknown) =>
+  `/products?view=${base64UrlEncode(JSON.stringify({ table: 'products', name: 'Shared with me', state }))}`;
+
+// Renders a products table opened from a share link carrying a view
+const openSharedView = (state: unknown) => {
+  renderTable({ data: rows, columns, viewId: 'products' }, sharedViewUrl(state));
+};
+
+// The header cell of a column
+const header = (text: string) => screen.getByText(text, { selector: 'th span' }).closest('th')!;
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
+
+describe('DataTable shared views', () => {
+  it('applies a valid shared view', () => {
+    openSharedView({
+      ...view,
+      filter: { combinator: 'and', conditions: [{ key: 'name', type: 'text', operator: 'regex', value: '^usb' }] },
+    });
+    expect(screen.queryByText('Shared with me')).not.toBeNull();
+    expect(screen.queryByText('USB Cable')).not.toBeNull();
+    expect(screen.queryByText('Wireless Mouse')).toBeNull();
+  });
+
+  it('ignores links with invalid fields', () => {
+    openSharedView({ ...view, pageSize: 1_000_000, sort: [{ key: 'password', direction: 'asc' }] });
+    expect(screen.queryByText('Shared with me')).toBeNull();
+    expect(screen.queryByText('Wireless Mouse')).not.toBeNull();
+    expect(screen.queryByText('USB Cable')).not.toBeNull();
+  });
+
+  it('ignores links with regular expressions prone to catastrophic backtracking', () => {
+    openSharedView({
+      ...view,
+      filter: { combinator: 'and', conditions: [{ key: 'name', type: 'text', operator: 'regex', value: '^(\\w+\\s?)*$' }] },
+    });
+    expect(screen.queryByText('Shared with me')).toBeNull();
+    expect(screen.queryByText('Wireless Mouse')).not.toBeNull();
+    expect(screen.queryByText('USB Cable')).not.toBeNull();
+  });
+});
+
+describe('DataTable server mode', () => {
+  it('reports the query and renders the page the server returned', () => {
+    const onQueryChange = vi.fn();
+    const response = { success: true, data: [rows[0]], pagination: { page: 1, limit: 10, total: 25, totalPages: 3 } };
+    renderTable({ mode: 'server', columns, response, onQueryChange });
+
+    expect(onQueryChange).toHaveBeenLastCalledWith(expect.objectContaining({ page: 1, pageSize: 10, sort: [], search: '' }));
+    expect(screen.queryByText('Wireless Mouse')).not.toBeNull();
+    expect(screen.queryByText('Page 1 of 3 (25 total)')).not.toBeNull();
+
+    fireEvent.click(header('Name'));
+    expect(onQueryChange).toHaveBeenLastCalledWith(expect.objectContaining({ page: 1, sort: [{ key: 'name', direction: 'asc' }] }));
+  });
+
+  it('shows skeleton rows while loading, and the error with a retry button', () => {
+    const onRetry = vi.fn();
+    const props = { mode: 'server' as const, columns, response: null, onQueryChange: () => {}, onRetry };
+    const { container, rerender } = renderTable({ ...props, loading: true });
+    expect(container.querySelectorAll('tbody tr')).toHaveLength(10);
+
+    rerender({ ...props, error: { message: 'The server is unavailable' } });
+    expect(screen.queryByText('The server is unavailable')).not.toBeNull();
+    fireEvent.click(screen.getByText('Retry'));
+    expect(onRetry).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('DataTable infinite paging', () => {
+  const ledger = Array.from({ length: 100_000 }, (_, index) => ({ id: index, name: `Entry ${index}` }));
+  const renderLedger = (props: Partial<ComponentProps<typeof DataTable<Product>>> = {}) =>
+    renderTable({ data: ledger, columns, paging: 'infinite', rowHeight: 40, scrollHeight: 400, ...props });
+
+  it('renders only the rows around the visible ones', () => {
+    const { container } = renderLedger();
+    expect(screen.queryByText('100000 of 100000 rows')).not.toBeNull();
+    expect(container.querySelectorAll('tbody tr').length).toBeLessThan(50);
+    expect(screen.queryByText('Entry 0')).not.toBeNull();
+
+    const viewport = container.querySelector('[data-radix-scroll-area-viewport]')!;
+    Object.defineProperty(viewport, 'scrollTop', { configurable: true, value: 50_000 * 40 });
+    fireEvent.scroll(viewport);
+    expect(screen.queryByText('Entry 50000')).not.toBeNull();
+    expect(screen.queryByText('Entry 0')).toBeNull();
+    expect(container.querySelectorAll('tbody tr').length).toBeLessThan(50);
+  });
+
+  it('moves the active row with the keyboard, and opens or selects it', () => {
+    const onRowClick = vi.fn();
+    renderLedger({ onRowClick, selectable: true });
+    const table = screen.getByRole('group');
+
+    fireEvent.keyDown(table, { key: 'End' });
+    expect(table.getAttribute('aria-activedescendant')).toMatch(/-row-99999$/);
+    fireEvent.keyDown(table, { key: 'ArrowUp' });
+    fireEvent.keyDown(table, { key: 'Enter' });
+    expect(onRowClick).toHaveBeenCalledWith(ledger[99_998]);
+    fireEvent.keyDown(table, { key: ' ' });
+    expect(screen.queryByText('1 selected')).not.toBeNull();
+  });
+});
+
+describe('DataTable column layout', () => {
+  const layoutColumns = [
+    { key: 'id', header: 'ID', width: '100px' },
+    { key: 'name', header: 'Name', pinned: 'right' as const },
+    { key: 'sku', header: 'SKU', pinned: 'left' as const },
+  ];
+  const headerOrder = (container: HTMLElement) =>
+    Array.from(container.querySelectorAll('thead th span')).map(span => span.textContent).filter(text => ['ID', 'Name', 'SKU'].includes(text ?? ''));
+  const dataTransfer = { effectAllowed: '', setData: () => {} };
+
+  it('puts left pinned columns first and right pinned columns last, sticking to their edge', () => {
+    const { container } = renderTable({ data: rows, columns: layoutColumns });
+    expect(headerOrder(container)).toEqual(['SKU', 'ID', 'Name']);
+    expect(header('SKU').style.position).toBe('sticky');
+    expect(header('Name').style.position).toBe('sticky');
+    expect(header('ID').style.position).not.toBe('sticky');
+  });
+
+  it('resizes a column with the keyboard and reports the layout', () => {
+    const onLayoutChange = vi.fn();
+    renderTable({ data: rows, columns: layoutColumns, onLayoutChange });
+    expect(onLayoutChange).not.toHaveBeenCalled();
+
+    fireEvent.keyDown(screen.getByLabelText('Resize ID column'), { key: 'ArrowRight' });
+    expect(onLayoutChange).toHaveBeenLastCalledWith(expect.arrayContaining([expect.objectContaining({ key: 'id', width: '110px' })]));
+    fireEvent.keyDown(screen.getByLabelText('Resize ID column'), { key: 'ArrowLeft' });
+    fireEvent.keyDown(screen.getByLabelText('Resize ID column'), { key: 'ArrowLeft' });
+    expect(onLayoutChange).toHaveBeenLastCalledWith(expect.arrayContaining([expect.objectContaining({ key: 'id', width: '90px' })]));
+  });
+
+  it('moves a dragged column to where it is dropped, taking on its pinning', () => {
+    const onLayoutChange = vi.fn();
+    const { container } = renderTable({ data: rows, columns: layoutColumns, onLayoutChange });
+
+    fireEvent.dragStart(header('ID'), { dataTransfer });
+    fireEvent.drop(header('SKU'), { dataTransfer });
+    expect(headerOrder(container)).toEqual(['ID', 'SKU', 'Name']);
+    expect(header('ID').style.position).toBe('sticky');
+    expect(onLayoutChange).toHaveBeenLastCalledWith([
+      expect.objectContaining({ key: 'id', pinned: 'left' }),
+      expect.objectContaining({ key: 'sku', pinned: 'left' }),
+      expect.objectContaining({ key: 'name', pinned: 'right' }),
+    ]);
+  });
+});
+
+describe('DataTable row grouping', () => {
+  interface Order {
+    id: number;
+    customer: string;
+    status: string;
+    total: number;
+  }
+  const orders: Order[] = [
+    { id: 1, customer: 'Acme', status: 'paid', total: 100 },
+    { id: 2, customer: 'Globex', status: 'pending', total: 40 },
+    { id: 3, customer: 'Initech', status: 'paid', total: 25.5 },
+  ];
+  const orderColumns = [
+    { key: 'customer', header: 'Customer' },
+    {
+      key: 'status',
+      header: 'Status',
+      groupable: true,
+      filter: { type: 'enum' as const, options: [{ value: 'paid', label: 'Paid' }, { value: 'pending', label: 'Pending' }] },
+    },
+    { key: 'total', header: 'Total', aggregate: 'sum' as const },
+  ];
+  const renderOrders = () => renderTable<Order>(
+    { data: orders, columns: orderColumns, viewId: 'products' },
+    sharedViewUrl({
+      ...view,
+      columns: orderColumns.map(column => ({ key: column.key, pinned: null, hidden: false })),
+      groupBy: 'status',
+    })
+  );
+  const groupRow = (label: string) => screen.getByLabelText(`Collapse ${label}`).closest('tr')!;
+
+  it('shows a group row with the label and subtotals of each group, and the totals', () => {
+    renderOrders();
+    expect(groupRow('Paid').textContent).toContain('Status: Paid');
+    expect(groupRow('Paid').textContent).toContain('125.5');
+    expect(groupRow('Pending').textContent).toContain('40');
+    expect(screen.getByText('Total', { selector: 'td *' }).closest('tr')!.textContent).toContain('165.5');
+  });
+
+  it('collapses and expands a group', () => {
+    renderOrders();
+    fireEvent.click(screen.getByLabelText('Collapse Paid'));
+    expect(screen.queryByText('Acme')).toBeNull();
+    expect(screen.queryByText('Initech')).toBeNull();
+    expect(screen.queryByText('Globex')).not.toBeNull();
+    expect(screen.getByLabelText('Expand Paid').closest('tr')!.getAttribute('aria-expanded')).toBe('false');
+
+    fireEvent.click(screen.getByLabelText('Expand Paid'));
+    expect(screen.queryByText('Acme')).not.toBeNull();
+  });
+});
+
+describe('DataTable inline editing', () => {
+  const editableColumns = [
+    { key: 'name', header: 'Name', editor: { type: 'text' as const }, validators: [validators.required] },
+  ];
+  // Opens the editor of a cell and enters a value
+  const editCell = (text: string, value: string) => {
+    fireEvent.click(screen.getByText(text, { selector: 'td' }));
+    const field = screen.getByRole('textbox', { name: 'Name' });
+    fireEvent.change(field, { target: { value } });
+    fireEvent.keyDown(field, { key: 'Enter' });
+  };
+
+  it('saves edited rows through onRowsChange', async () => {
+    const onRowsChange = vi.fn().mockResolvedValue(undefined);
+    renderTable({ data: rows, columns: editableColumns, onRowsChange });
+
+    editCell('Wireless Mouse', 'Optical Mouse');
+    expect(screen.queryByText('Optical Mouse', { selector: 'td' })).not.toBeNull();
+    expect(screen.queryByText('1 unsaved change')).not.toBeNull();
+
+    fireEvent.click(screen.getByText('Save'));
+    expect(onRowsChange).toHaveBeenCalledWith([
+      { row: rows[0], changes: { name: 'Optical Mouse' }, updated: { id: 1, name: 'Optical Mouse' } },
+    ]);
+    await waitFor(() => expect(screen.queryByText('1 unsaved change')).toBeNull());
+  });
+
+  it('does not save invalid values, and discards the edits on cancel', () => {
+    const onRowsChange = vi.fn();
+    const { container } = renderTable({ data: rows, columns: editableColumns, onRowsChange });
+
+    editCell('USB Cable', '');
+    expect(screen.queryByText('1 invalid value')).not.toBeNull();
+    expect(screen.getByText('Save').closest('button')!.disabled).toBe(true);
+    expect(container.querySelectorAll('td[aria-invalid="true"]').length).toBe(1);
+
+    fireEvent.click(screen.getByText('Cancel'));
+    expect(onRowsChange).not.toHaveBeenCalled();
+    expect(screen.queryByText('1 unsaved change')).toBeNull();
+    expect(screen.queryByText('USB Cable', { selector: 'td' })).not.toBeNull();
+  });
+
+  it('does not open editors without onRowsChange', () => {
+    renderTable({ data: rows, columns: editableColumns });
+    fireEvent.click(screen.getByText('Wireless Mouse', { selector: 'td' }));
+    expect(screen.queryByRole('textbox', { name: 'Name' })).toBeNull();
+  });
+});
+
+describe('DataTable expandable rows', () => {
+  const renderExpanded = (row: Product) => `Details of ${row.name}`;
+  const rowOf = (text: string) => screen.getByText(text, { selector: 'td' }).closest('tr')!;
+
+  it('shows the details of an expanded row beneath it, without clicking the row', () => {
+    const onRowClick = vi.fn();
+    renderTable({ data: rows, columns, renderExpanded, onRowClick });
+    expect(screen.queryByText('Details of Wireless Mouse')).toBeNull();
+
+    const [expand] = screen.getAllByLabelText('Expand row');
+    fireEvent.click(expand);
+    expect(onRowClick).not.toHaveBeenCalled();
+    expect(expand.getAttribute('aria-expanded')).toBe('true');
+    const details = screen.getByText('Details of Wireless Mouse').closest('tr')!;
+    expect(rowOf('Wireless Mouse').nextElementSibling).toBe(details);
+    expect(expand.getAttribute('aria-controls')).toBe(details.id);
+    expect(screen.queryByText('Details of USB Cable')).toBeNull();
+
+    fireEvent.click(screen.getByLabelText('Collapse row'));
+    expect(screen.queryByText('Details of Wireless Mouse')).toBeNull();
+  });
+
+  it('expands and collapses every row from the header', () => {
+    renderTable({ data: rows, columns, renderExpanded });
+    fireEvent.click(screen.getByLabelText('Expand all rows'));
+    expect(screen.queryByText('Details of Wireless Mouse')).not.toBeNull();
+    expect(screen.queryByText('Details of USB Cable')).not.toBeNull();
+
+    fireEvent.click(screen.getByLabelText('Collapse all rows'));
+    expect(screen.queryByText('Details of Wireless Mouse')).toBeNull();
+    expect(screen.queryByText('Details of USB Cable')).toBeNull();
+  });
+
+  it('keeps a row expanded when the rows are reordered', () => {
+    const { rerender } = renderTable({ data: rows, columns, renderExpanded });
+    fireEvent.click(screen.getAllByLabelText('Expand row')[0]);
+
+    rerender({ data: [...rows].reverse(), columns, renderExpanded });
+    expect(screen.queryByText('Details of USB Cable')).toBeNull();
+    expect(rowOf('Wireless Mouse').nextElementSibling).toBe(screen.getByText('Details of Wireless Mouse').closest('tr'));
+  });
+
+  it('has no expand buttons with infinite paging', () => {
+    renderTable({ data: rows, columns, renderExpanded, paging: 'infinite', rowHeight: 40, scrollHeight: 400 });
+    expect(screen.queryByLabelText('Expand row')).toBeNull();
+    expect(screen.queryByLabelText('Expand all rows')).toBeNull();
+  });
+});
@@ -3,8 +3,48 @@
  * @description This file defines a generic and reusable DataTable component.
  * It supports features like searching, sorting, pagination, column selection,
  * row selection, custom cell rendering, actions, and data export.
+ *
+ * In the default client mode, the table searches, sorts and pages the `data` prop in memory. In server mode
+ * (for collections too large to load at once), it reports every change as a `DataTableQuery`, the page fetches
+ * that page from the API (see `toListParams`), and the table renders the resulting `PaginatedResponse`.
+ *
+ * With `paging="infinite"`, the table scrolls through all rows instead of showing one page at a time (in server
+ * mode, further pages are requested as the user nears the end). Only the rows in view are rendered, so long
+ * datasets (100k rows) scroll smoothly; this requires every row to have the same height (`rowHeight`).
+ *
+ * Users can pin columns to either side, resize them by dragging the edge of their header, and reorder them by
+ * dragging headers. The Columns dialog and the resize handles offer the same from the keyboard, and every change
+ * is reported to `onLayoutChange`.
+ *
+ * Clicking a header sorts by that column; shift-clicking adds it as a further sort level. Values are compared by
+ * type (`Column.sortType` or a custom `compare`; see `lib/table-sort.ts`), with strings collated for the locale.
+ *
+ * Columns can declare a `filter` (see `lib/table-filters.ts`); the table then shows a filter bar where users
+ * build conditions on those columns, combined with AND or OR.
+ *
+ * Users can group rows by a `groupable` column: each group starts with a row that collapses or expands it and shows
+ * the group's subtotals. Columns with an `aggregate` (sum, average, count, minimum or maximum; see
+ * `lib/table-aggregates.ts`) are summarized per group and, in a footer row, over all filtered rows. In server mode,
+ * the server computes them (see `toListParams`).
+ *
+ * Without an `onExport` handler, the Export menu downloads rows in the visible columns as CSV, as an XLSX workbook
+ * with typed cells, or as a PDF report listing the filters applied (see `lib/table-export.ts`), all generated in
+ * the browser. Users choose the rows: all filtered rows (in server mode, the loaded rows), the current page, or the
+ * selected rows. Columns write their values as is, or as computed by their `exportValue`.
+ *
+ * With an `onRowsChange` handler, columns with an `editor` (text, number, select or toggle) can be edited in place:
+ * clicking a cell (or pressing Enter on it) opens its editor. Edited cells are highlighted and checked with the
+ * column's `validators`; the edits are kept, across pages, until the user saves them all at once (reported to
+ * `onRowsChange`) or cancels them.
+ *
+ * With `renderExpanded`, each row can be expanded to show details beneath it (e.g., an order's line items in a nested
+ * `DataTable`), one by one or all at once from the header. Detail rows vary in height, so this is not available with
+ * infinite paging.
+ *
+ * With a `viewId`, the table remembers its view (columns, sort, page size, search and filters) in
+ * `storage.preferences`, and users can save named views, set one as the default view, and share a view as a link.
  */
-import { useState, useMemo, memo, useCallback, useEffect } from 'react'
+import { useState, useMemo, memo, useCallback, useEffect, useRef, useId, Fragment } from 'react'
 import {
   Table,
   TextField,
@@ -18,17 +58,72 @@ import {
   DropdownMenu,
   Badge,
   Dialog,
-  ScrollArea
+  ScrollArea,
+  Switch,
+  Tooltip
 } from '@radix-ui/themes'
 import { 
   MagnifyingGlassIcon, 
   ChevronUpIcon, 
   ChevronDownIcon,
+  ChevronRightIcon,
   CaretSortIcon,
   Share1Icon,
   DownloadIcon,
-  EyeOpenIcon
+  EyeOpenIcon,
+  ReloadIcon,
+  ArrowUpIcon,
+  ArrowDownIcon,
+  ResetIcon,
+  BookmarkIcon,
+  CheckIcon,
+  StarFilledIcon
 } from '@radix-ui/react-icons'
+import { useSearchParams } from 'react-router-dom'
+import { Skeleton } from './ui/LoadingSpinner'
+import { validateField } from './ui/FormField'
+import DataTableFilterBar, { describeCondition, type FilterableColumn } from './DataTableFilters'
+import { useToast } from './notifications/toast-context'
+import { useStoredState } from '../lib/stored-state'
+import { base64UrlDecode, base64UrlEncode } from '../lib/jwt'
+import {
+  EMPTY_FILTER,
+  createFilterMatcher,
+  isConditionActive,
+  isFilterGroup,
+  parseRegex,
+  type ColumnFilterConfig,
+  type FilterGroup,
+  type FilterOption
+} from '../lib/table-filters'
+import { createCollator, sortRows, type SortType } from '../lib/table-sort'
+import { groupRows, summarizeRows, type AggregateFunction, type RowGroup } from '../lib/table-aggregates'
+import {
+  createCsv,
+  createPdf,
+  createXlsx,
+  downloadFile,
+  toFileName,
+  type CsvOptions,
+  type ExportCellType,
+  type ExportTable
+} from '../lib/table-export'
+import type { PaginatedResponse } from '../types'
+
+/**
+ * @typedef ColumnEditor
+ * @description How the cells of a column are edited inline:
+ * - `text`: in a text field
+ * - `number`: in a number field (`step` sets the increment of its arrows); the value is a number, or null when the
+ *   field is left empty
+ * - `select`: by choosing one of `options` (the value is the option's value)
+ * - `toggle`: with a switch, always shown in the cell (the value is a boolean)
+ */
+type ColumnEditor =
+  | { type: 'text' }
+  | { type: 'number'; step?: number }
+  | { type: 'select'; options: FilterOption[] }
+  | { type: 'toggle' };
 
 /**
  * @interface Column
@@ -38,11 +133,32 @@ import {
  * @property {string} header - The text to display in the column header.
  * @property {boolean} [sortable=true] - Whether the column can be sorted.
  * @property {boolean} [searchable=true] - Whether the column's content is included in search.
- * @property {string} [width] - The width of the column (e.g., "150px", "20%").
+ * @property {string} [width] - The width of the column (e.g., "150px", "20%"). Resizing sets it in pixels.
  * @property {(value: any, row: T) => React.ReactNode} [render] - Custom render function for the cell content.
  * @property {'left' | 'center' | 'right'} [align='left'] - Text alignment for the column.
  * @property {boolean} [hidden=false] - Whether the column is hidden by default.
- * @property {'left' | 'right' | null} [pinned=null] - Whether the column is pinned to the left or right. (Not fully implemented in this version)
+ * @property {'left' | 'right' | null} [pinned=null] - Whether the column is pinned to the left or right. Pinned columns
+ *   come first (or last) and stay in view when the table scrolls horizontally; without a width in pixels, they are
+ *   `DEFAULT_COLUMN_WIDTH` wide.
+ * @property {SortType} [sortType='auto'] - How the column's values are compared when sorting (e.g., `date` for
+ *   dates stored as ISO strings, `number` for amounts stored as formatted strings).
+ * @property {(a: any, b: any, rowA: T, rowB: T) => number} [compare] - Custom comparison of two (non-empty) values,
+ *   in ascending order; overrides `sortType`.
+ * @property {'first' | 'last'} [nulls='last'] - Where rows with an empty value go when sorting by the column.
+ * @property {ColumnFilterConfig} [filter] - How the column can be filtered in the filter bar (enum, number range,
+ *   date range, text or boolean). Columns without it cannot be filtered.
+ * @property {string} [exportFormat] - The Excel number format of the column's numbers in XLSX exports
+ *   (e.g., "$#,##0.00").
+ * @property {(value: any, row: T) => unknown} [exportValue] - Computes the value written to exports, instead of the
+ *   cell value (e.g., a customer's name instead of the customer object). Independent of `render`.
+ * @property {boolean} [groupable=false] - Whether rows can be grouped by the column. Group rows show the value (or the
+ *   label of its `enum` filter option).
+ * @property {AggregateFunction} [aggregate] - How the column is summarized in group rows and in the totals row.
+ * @property {(value: number) => React.ReactNode} [renderAggregate] - Renders the column's aggregates (e.g., as an
+ *   amount); by default, they are formatted as numbers for the locale.
+ * @property {ColumnEditor} [editor] - Makes the column's cells editable inline (only with `onRowsChange`).
+ * @property {Array<(value: any) => string | undefined>} [validators] - Checks edited values (e.g., the `validators` of
+ *   `ui/FormField`); the first error is shown on the cell, and edits cannot be saved while any cell has one.
  */
 interface Column<T> {
   key: string;
@@ -53,27 +169,185 @@ interface Column<T> {
   render?: (value: any, row: T) => React.ReactNode;
   align?: 'left' | 'center' | 'right';
   hidden?: boolean;
-  pinned?: 'left' | 'right' | null; // TODO: Implement column pinning
+  pinned?: 'left' | 'right' | null;
+  sortType?: SortType;
+  compare?: (a: any, b: any, rowA: T, rowB: T) => number;
+  nulls?: 'first' | 'last';
+  filter?: ColumnFilterConfig;
+  exportFormat?: string;
+  exportValue?: (value: any, row: T) => unknown;
+  groupable?: boolean;
+  aggregate?: AggregateFunction;
+  renderAggregate?: (value: number) => React.ReactNode;
+  editor?: ColumnEditor;
+  validators?: Array<(value: any) => string | undefined>;
+}
+
+/**
+ * @interface DataTableColumnLayout
+ * @description The layout of one column, as reported to `onLayoutChange` (in display order).
+ * @property {string} key - The column key.
+ * @property {string} [width] - The column width (in pixels once resized).
+ * @property {'left' | 'right' | null} pinned - The side the column is pinned to, if any.
+ * @property {boolean} hidden - Whether the column is hidden.
+ */
+export interface DataTableColumnLayout {
+  key: string;
+  width?: string;
+  pinned: 'left' | 'right' | null;
+  hidden: boolean;
+}
+
+/**
+ * @interface DataTableViewState
+ * @description Everything a table view restores.
+ * @property {DataTableColumnLayout[]} columns - The column layout, in display order.
+ * @property {DataTableSort[]} sort - The sort columns and directions, in order of precedence.
+ * @property {number} pageSize - The number of rows per page.
+ * @property {string} search - The search term.
+ * @property {Record<string, string[]>} filters - The filters (owned by the page; restored through `onFiltersChange`).
+ * @property {FilterGroup} filter - The conditions built in the filter bar.
+ * @property {string | null} groupBy - The key of the column rows are grouped by, if any.
+ */
+export interface DataTableViewState {
+  columns: DataTableColumnLayout[];
+  sort: DataTableSort[];
+  pageSize: number;
+  search: string;
+  filters: Record<string, string[]>;
+  filter: FilterGroup;
+  groupBy: string | null;
+}
+
+/**
+ * @interface DataTableSavedView
+ * @description A view saved under a name.
+ * @property {string} id - Unique identifier of the view.
+ * @property {string} name - The name shown to the user (e.g., "Suspended admins").
+ * @property {DataTableViewState} state - The view.
+ */
+export interface DataTableSavedView {
+  id: string;
+  name: string;
+  state: DataTableViewState;
+}
+
+/**
+ * @interface DataTableViews
+ * @description The views of a table, as stored in `storage.preferences` under `table_<viewId>`.
+ * @property {DataTableViewState | null} current - The view last shown, restored when there is no default view.
+ * @property {DataTableSavedView[]} views - The saved views.
+ * @property {string | null} defaultViewId - The saved view the table opens with, if any.
+ */
+export interface DataTableViews {
+  current: DataTableViewState | null;
+  views: DataTableSavedView[];
+  defaultViewId: string | null;
+}
+
+/**
+ * @interface DataTableSort
+ * @description The column a table is sorted by.
+ * @property {string} key - The column key.
+ * @property {'asc' | 'desc'} direction - The sort direction.
+ */
+export interface DataTableSort {
+  key: string;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * @interface DataTableQuery
+ * @description The rows a table displays, as reported to `onQueryChange` in server mode.
+ * @property {number} page - The page number, starting at 1.
+ * @property {number} pageSize - The number of rows per page.
+ * @property {DataTableSort[]} sort - The sort columns and directions, in order of precedence; empty when unsorted.
+ *   When grouping, the grouped column comes first, so each group's rows are contiguous.
+ * @property {string} search - The (debounced) search term; empty when not searching.
+ * @property {Record<string, string[]>} filters - The values allowed for each filtered column key.
+ * @property {FilterGroup} filter - The conditions built in the filter bar.
+ * @property {string | null} groupBy - The key of the column rows are grouped by, if any.
+ * @property {Record<string, AggregateFunction>} aggregates - The aggregate function of each summarized column, by key.
+ */
+export interface DataTableQuery {
+  page: number;
+  pageSize: number;
+  sort: DataTableSort[];
+  search: string;
+  filters: Record<string, string[]>;
+  filter: FilterGroup;
+  groupBy: string | null;
+  aggregates: Record<string, AggregateFunction>;
+}
+
+/**
+ * @interface DataTableRowChange
+ * @description A row edited inline, as reported to `onRowsChange`.
+ * @template T - The type of data in the row.
+ * @property {T} row - The row as it was before the edits.
+ * @property {Record<string, any>} changes - The edited values, by column key.
+ * @property {T} updated - The row with the edited values (a copy; nested objects along dotted keys are copied too).
+ */
+export interface DataTableRowChange<T> {
+  row: T;
+  changes: Record<string, any>;
+  updated: T;
 }
 
 /**
  * @interface DataTableProps
  * @description Defines the props for the DataTable component.
  * @template T - The type of data in each row.
- * @property {T[]} data - The array of data items to display.
+ * @property {T[]} [data] - Client mode: the array of data items to display.
  * @property {Column<T>[]} columns - The configuration for table columns.
  * @property {string} [searchPlaceholder="Search..."] - Placeholder text for the search input.
  * @property {(row: T) => void} [onRowClick] - Callback function when a row is clicked.
  * @property {(row: T) => React.ReactNode} [actions] - Function to render actions for a row (e.g., edit/delete buttons).
- * @property {boolean} [selectable=false] - Whether rows can be selected using checkboxes.
+ * @property {boolean} [selectable=false] - Whether rows can be selected using checkboxes. Selection covers the rows
+ *   shown, and is cleared on a new search, sort, filter or page.
  * @property {(selectedRows: T[]) => void} [onSelectionChange] - Callback when row selection changes.
  * @property {string} [emptyMessage="No data found"] - Message to display when the table is empty.
- * @property {(format: 'csv' | 'excel' | 'pdf') => void} [onExport] - Callback for custom export logic. If not provided, basic CSV export is used.
+ * @property {(format: 'csv' | 'excel' | 'pdf', rows: T[]) => void} [onExport] - Callback for custom export logic, with the
+ *   rows the user chose to export. If not provided, the table exports them itself (CSV, XLSX or PDF).
  * @property {() => void} [onShare] - Callback for a share action.
  * @property {boolean} [showColumnToggle=true] - Whether to show the "Toggle Columns" button.
+ * @property {'client' | 'server'} [mode='client'] - Whether rows are searched, sorted and paged in memory (`client`)
+ *   or by the server (`server`; the table renders `response` and reports changes through `onQueryChange`).
+ * @property {PaginatedResponse<T> | null} [response] - Server mode: the current page and its pagination metadata.
+ * @property {(query: DataTableQuery) => void} [onQueryChange] - Server mode: called with the query on mount and
+ *   whenever the page, page size, sort, search or filters change.
+ * @property {Record<string, string[]>} [filters] - Values allowed for each column key (e.g., from a status select on
+ *   the page). Applied in memory in client mode, passed on in the query in server mode.
+ * @property {boolean} [loading=false] - Whether rows are being loaded; skeleton rows are shown meanwhile.
+ * @property {{ message: string } | null} [error] - An error to show instead of the rows (e.g., an `ApiError`).
+ * @property {() => void} [onRetry] - Called by the "Retry" button shown with `error`.
+ * @property {'pages' | 'infinite'} [paging='pages'] - Whether rows are shown one page at a time (`pages`) or in a
+ *   single virtualized scrolling list (`infinite`; in server mode, each page is requested as the user scrolls).
+ * @property {number} [rowHeight=44] - Infinite paging: the height of every row, in pixels. Cells must fit in it.
+ * @property {number} [scrollHeight=600] - Infinite paging: the height of the scrolling area, in pixels.
+ * @property {(layout: DataTableColumnLayout[]) => void} [onLayoutChange] - Called whenever the user shows, hides,
+ *   pins, resizes or reorders columns, with the layout of every column in display order.
+ * @property {string} [viewId] - Identifies the table's views in storage (e.g., "orders"). Without it, the view is
+ *   not remembered and there are no saved views.
+ * @property {(filters: Record<string, string[]>) => void} [onFiltersChange] - Called when a view restores its
+ *   filters, so the page can update the `filters` it passes.
+ * @property {string} [locale] - The locale strings are sorted for, and numbers and dates formatted for in PDF
+ *   exports (default: the user's).
+ * @property {string} [title="Data"] - What the table lists (e.g., "Transactions"): the heading of PDF exports, the
+ *   sheet name of XLSX exports, and the start of exported file names.
+ * @property {CsvOptions} [csvOptions] - The delimiter of CSV exports, and whether they start with a byte order mark
+ *   (for Excel).
+ * @property {(changes: DataTableRowChange<T>[]) => void | Promise<void>} [onRowsChange] - Enables inline editing:
+ *   called with every edited row when the user saves the edits. The edits are shown until it resolves (and kept if it
+ *   rejects, so the user can try again); the page reports errors.
+ * @property {(row: T) => string} [getRowId] - Identifies rows, so edits and expanded rows follow their row across
+ *   sorting and paging (default: the row's `id`).
+ * @property {(row: T) => React.ReactNode} [renderExpanded] - Renders the details of a row, shown beneath it across the
+ *   whole table when the row is expanded (e.g., a nested `DataTable`). Adds a column of expand buttons, with one in
+ *   the header that expands or collapses every row shown. Ignored with infinite paging.
  */
 interface DataTableProps<T> {
-  data: T[];
+  data?: T[];
   columns: Column<T>[];
   searchPlaceholder?: string;
   onRowClick?: (row: T) => void;
@@ -81,19 +355,331 @@ interface DataTableProps<T> {
   selectable?: boolean;
   onSelectionChange?: (selectedRows: T[]) => void;
   emptyMessage?: string;
-  onExport?: (format: 'csv' | 'excel' | 'pdf') => void;
+  onExport?: (format: 'csv' | 'excel' | 'pdf', rows: T[]) => void;
   onShare?: () => void;
   showColumnToggle?: boolean;
+  mode?: 'client' | 'server';
+  response?: PaginatedResponse<T> | null;
+  onQueryChange?: (query: DataTableQuery) => void;
+  filters?: Record<string, string[]>;
+  loading?: boolean;
+  error?: { message: string } | null;
+  onRetry?: () => void;
+  paging?: 'pages' | 'infinite';
+  rowHeight?: number;
+  scrollHeight?: number;
+  onLayoutChange?: (layout: DataTableColumnLayout[]) => void;
+  viewId?: string;
+  onFiltersChange?: (filters: Record<string, string[]>) => void;
+  locale?: string;
+  title?: string;
+  csvOptions?: CsvOptions;
+  onRowsChange?: (changes: DataTableRowChange<T>[]) => void | Promise<void>;
+  getRowId?: (row: T) => string;
+  renderExpanded?: (row: T) => React.ReactNode;
 }
 
 /**
- * @typedef {'asc' | 'desc' | null} SortDirection
- * @description Represents the direction of sorting for a column.
- * - 'asc': Ascending
- * - 'desc': Descending
- * - null: No sorting
+ * @typedef DisplayItem
+ * @description A row shown in the table body: a group row (when grouping), or a data row with its index in the
+ * page's rows (which selection refers to).
+ * @template T - The type of data in the row.
+ */
+type DisplayItem<T> = { type: 'group'; group: RowGroup<T> } | { type: 'row'; row: T; index: number };
+
+/**
+ * @typedef RowEdit
+ * @description The edits of a row not saved yet: the row as it was when first edited, and the edited values by
+ * column key.
+ * @template T - The type of data in the row.
  */
-type SortDirection = 'asc' | 'desc' | null;
+type RowEdit<T> = { row: T; values: Record<string, any> };
+
+/**
+ * @const SKELETON_ROWS
+ * @description Maximum number of skeleton rows shown while loading.
+ */
+const SKELETON_ROWS = 10;
+
+/**
+ * @const OVERSCAN
+ * @description Infinite paging: number of rows rendered above and below the visible ones, so fast scrolling
+ * does not show blank space before the next render.
+ */
+const OVERSCAN = 10;
+
+/**
+ * @const INFINITE_PAGE_SIZE
+ * @description Infinite paging: number of rows requested per page in server mode.
+ */
+const INFINITE_PAGE_SIZE = 100;
+
+/**
+ * @const PAGE_SIZES
+ * @description The numbers of rows per page users can choose from (infinite paging uses `INFINITE_PAGE_SIZE`).
+ */
+const PAGE_SIZES = [10, 25, 50, 100];
+
+/**
+ * @const DEFAULT_COLUMN_WIDTH
+ * @description Width of pinned columns without a width in pixels, and the starting point for resizing them.
+ */
+const DEFAULT_COLUMN_WIDTH = 150;
+
+/**
+ * @const MIN_COLUMN_WIDTH
+ * @description The narrowest a column can be resized to, in pixels.
+ */
+const MIN_COLUMN_WIDTH = 60;
+
+/**
+ * @const RESIZE_STEP
+ * @description How much the arrow keys resize a column, in pixels.
+ */
+const RESIZE_STEP = 10;
+
+/**
+ * @function parseWidth
+ * @description Reads a column width given in pixels (e.g., "150px").
+ * @param {string} [width] - The column width.
+ * @returns {number | null} The width in pixels, or null for other units (or no width).
+ */
+const parseWidth = (width?: string): number | null =>
+  width?.endsWith('px') ? parseFloat(width) : null;
+
+/**
+ * @function arrangeColumns
+ * @description Orders columns for display: left-pinned columns first and right-pinned columns last, otherwise
+ * keeping their order.
+ * @template T - The type of data in the row.
+ * @param {Column<T>[]} columns - The columns.
+ * @returns {Column<T>[]} The columns in display order.
+ */
+const arrangeColumns = <T,>(columns: Column<T>[]): Column<T>[] => {
+  const group = (column: Column<T>) => (column.pinned === 'left' ? 0 : column.pinned === 'right' ? 2 : 1);
+  return [...columns].sort((a, b) => group(a) - group(b));
+};
+
+/**
+ * @function toColumnLayout
+ * @description Gets the layout of columns, as reported to `onLayoutChange` and stored in views.
+ * @template T - The type of data in the row.
+ * @param {Column<T>[]} columns - The columns, in display order.
+ * @returns {DataTableColumnLayout[]} Their layout.
+ */
+const toColumnLayout = <T,>(columns: Column<T>[]): DataTableColumnLayout[] =>
+  columns.map(column => ({
+    key: column.key,
+    width: column.width,
+    pinned: column.pinned ?? null,
+    hidden: column.hidden ?? false,
+  }));
+
+/**
+ * @function applyColumnLayout
+ * @description Applies a stored layout to the table's columns. Columns missing from the layout (e.g., added since
+ * the view was saved) keep their defaults and come last; layout entries for removed columns are ignored.
+ * @template T - The type of data in the row.
+ * @param {Column<T>[]} columns - The columns, as passed to the table.
+ * @param {DataTableColumnLayout[]} layout - The layout.
+ * @returns {Column<T>[]} The columns with the layout applied, in display order.
+ */
+const applyColumnLayout = <T,>(columns: Column<T>[], layout: DataTableColumnLayout[]): Column<T>[] => {
+  const entries = new Map(layout.map((entry, index) => [entry.key, { ...entry, index }]));
+  const position = (column: Column<T>) => entries.get(column.key)?.index ?? layout.length;
+  return arrangeColumns(
+    columns
+      .map(column => {
+        const entry = entries.get(column.key);
+        return entry ? { ...column, width: entry.width, pinned: entry.pinned, hidden: entry.hidden } : column;
+      })
+      .sort((a, b) => position(a) - position(b))
+  );
+};
+
+/**
+ * @const VIEW_PARAM
+ * @description URL query parameter carrying a shared view.
+ */
+const VIEW_PARAM = 'view';
+
+/**
+ * @const EMPTY_VIEWS
+ * @description The views of a table before anything is stored.
+ */
+const EMPTY_VIEWS: DataTableViews = { current: null, views: [], defaultViewId: null };
+
+/**
+ * @function encodeSharedView
+ * @description Encodes a view for a share link (the recipient does not have the view, so the link carries all of it).
+ * @param {string} viewId - The table's view ID.
+ * @param {string} name - The view name.
+ * @param {DataTableViewState} state - The view.
+ * @returns {string} The value of the `view` URL parameter.
+ */
+const encodeSharedView = (viewId: string, name: string, state: DataTableViewState): string =>
+  base64UrlEncode(JSON.stringify({ table: viewId, name, state }));
+
+/**
+ * @function isColumnLayout
+ * @description Checks that a value is a column layout entry.
+ * @param {any} value - The value.
+ * @returns {boolean} True if the value is a layout entry.
+ */
+const isColumnLayout = (value: any): value is DataTableColumnLayout =>
+  typeof value?.key === 'string'
+  && (value.width === undefined || typeof value.width === 'string')
+  && (value.pinned === null || value.pinned === 'left' || value.pinned === 'right')
+  && typeof value.hidden === 'boolean';
+
+/**
+ * @function decodeSharedView
+ * @description Decodes the `view` URL parameter of a share link. Links are checked field by field against the
+ * table's columns (sorting, grouping and filtering only on columns that allow it), as they may have been edited by hand
+ * or shared before a column was removed, and regular expressions must pass `parseRegex` (valid and safe to run).
+ * @template T - The type of data in the row.
+ * @param {string} value - The parameter value.
+ * @param {string} viewId - The table's view ID; links to another table's view are ignored.
+ * @param {Column<T>[]} columns - The columns, as passed to the table.
+ * @returns {{ name: string; state: DataTableViewState } | null} The shared view, or null if the link is invalid.
+ */
+const decodeSharedView = <T,>(
+  value: string,
+  viewId: string,
+  columns: Column<T>[]
+): { name: string; state: DataTableViewState } | null => {
+  try {
+    const { table, name, state } = JSON.parse(base64UrlDecode(value));
+    if (table !== viewId || typeof name !== 'string' || !Array.isArray(state?.columns)) return null;
+    // Links shared before filter conditions, multi-column sorting and grouping
+    const sort = Array.isArray(state.sort) ? state.sort : state.sort ? [state.sort] : [];
+    const filter = state.filter ?? EMPTY_FILTER;
+    const groupBy = state.groupBy ?? null;
+    const column = (key: unknown) => columns.find(col => col.key === key);
+    const isSortable = (key: unknown) => column(key)?.sortable ?? !!column(key);
+    const valid = state.columns.every(isColumnLayout)
+      && sort.every((entry: any) => isSortable(entry?.key) && (entry.direction === 'asc' || entry.direction === 'desc'))
+      && PAGE_SIZES.includes(state.pageSize)
+      && typeof state.search === 'string'
+      && typeof state.filters === 'object' && state.filters !== null && !Array.isArray(state.filters)
+      && Object.values(state.filters).every(values =>
+        Array.isArray(values) && values.every(item => typeof item === 'string'))
+      && isFilterGroup(filter)
+      && filter.conditions.every(condition => column(condition.key)?.filter?.type === condition.type)
+      // A crafted pattern could freeze the tab of whoever opens the link
+      && filter.conditions.every(condition =>
+        condition.type !== 'text' || condition.operator !== 'regex' || !condition.value || parseRegex(condition.value) !== null)
+      && (groupBy === null || !!column(groupBy)?.groupable);
+    if (!valid) return null;
+    const { pageSize, search, filters } = state;
+    return { name, state: { columns: state.columns, sort, pageSize, search, filters, filter, groupBy } };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * @function getValue
+ * @description Reads a column value from a row, following dotted keys into nested objects (e.g., "customer.name").
+ * @param {Record<string, any>} row - The row.
+ * @param {string} key - The column key.
+ * @returns {any} The value, or undefined.
+ */
+const getValue = (row: Record<string, any>, key: string): any =>
+  key.includes('.') ? key.split('.').reduce((obj: any, part) => obj?.[part], row) : row[key];
+
+/**
+ * @function setValue
+ * @description Sets a column value in a copy of a row, following dotted keys into nested objects (which are copied
+ * too, so the row is left unchanged).
+ * @param {Record<string, any>} row - The row.
+ * @param {string} key - The column key.
+ * @param {any} value - The value.
+ * @returns {Record<string, any>} The updated copy of the row.
+ */
+const setValue = (row: Record<string, any>, key: string, value: any): Record<string, any> => {
+  const [first, ...rest] = key.split('.');
+  return { ...row, [first]: rest.length > 0 ? setValue(row[first] ?? {}, rest.join('.'), value) : value };
+};
+
+/**
+ * @function applyEdits
+ * @description Applies edited values to a copy of a row.
+ * @template T - The type of data in the row.
+ * @param {T} row - The row.
+ * @param {Record<string, any>} values - The edited values, by column key.
+ * @returns {T} The updated copy of the row.
+ */
+const applyEdits = <T extends Record<string, any>>(row: T, values: Record<string, any>): T =>
+  Object.entries(values).reduce<Record<string, any>>((updated, [key, value]) => setValue(updated, key, value), row) as T;
+
+/**
+ * @function validateCell
+ * @description Checks an edited value with the column's validators (numbers that could not be read are invalid too).
+ * @template T - The type of data in the row.
+ * @param {Column<T>} column - The column.
+ * @param {any} value - The edited value.
+ * @returns {string | undefined} The first error, or undefined if the value is valid.
+ */
+const validateCell = <T,>(column: Column<T>, value: any): string | undefined => {
+  if (column.editor?.type === 'number' && Number.isNaN(value)) return 'Must be a number';
+  return validateField(value, column.validators ?? []);
+};
+
+/**
+ * @function getExportType
+ * @description Gets how a column's values are written in XLSX and PDF exports, from its sort type or filter type
+ * (e.g., ISO strings of a `date` column are written as dates).
+ * @template T - The type of data in the row.
+ * @param {Column<T>} column - The column.
+ * @returns {ExportCellType | undefined} The type, or undefined to write each value by its own type.
+ */
+const getExportType = <T,>(column: Column<T>): ExportCellType | undefined => {
+  if (column.sortType && column.sortType !== 'auto') return column.sortType;
+  const filterType = column.filter?.type;
+  return filterType === 'number' || filterType === 'date' || filterType === 'boolean' ? filterType : undefined;
+};
+
+/**
+ * @function toListParams
+ * @description Converts a table query into the query parameters of the API's list endpoints
+ * (`page`, `limit`, `search`, `sortBy` and `sortOrder` (comma-separated, one entry per sort level), one repeated
+ * parameter per filter, `filter`: the filter bar's conditions as JSON, evaluated by the server with
+ * `createFilterMatcher`, and `groupBy` and `aggregate` (e.g., `total:sum`), for which the server returns `aggregates`
+ * computed with `summarizeRows`). `regex` conditions are user input: a server that evaluates them without
+ * `createFilterMatcher` must reject unsafe patterns as `parseRegex` does, or it can be stalled by one request.
+ * @param {DataTableQuery} query - The table query.
+ * @returns {Record<string, any>} The parameters, for `apiClient.get`.
+ * @example
+ * apiClient.get<PaginatedResponse<Order>>('/api/orders', toListParams(query), { signal })
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export function toListParams(query: DataTableQuery): Record<string, any> {
+  return {
+    ...query.filters,
+    page: query.page,
+    limit: query.pageSize,
+    search: query.search || undefined,
+    sortBy: query.sort.map(sort => sort.key).join(',') || undefined,
+    sortOrder: query.sort.map(sort => sort.direction).join(',') || undefined,
+    filter: query.filter.conditions.some(isConditionActive) ? JSON.stringify(query.filter) : undefined,
+    groupBy: query.groupBy ?? undefined,
+    aggregate: Object.entries(query.aggregates).map(([key, fn]) => `${key}:${fn}`).join(',') || undefined,
+  };
+}
+
+/**
+ * @function getAriaSort
+ * @description Gets the `aria-sort` value of a column header.
+ * @param {DataTableSort[]} sort - The sort columns.
+ * @param {string} columnKey - The key of the column.
+ * @returns {'ascending' | 'descending' | undefined} The value; undefined when the table is not sorted by the column.
+ */
+const getAriaSort = (sort: DataTableSort[], columnKey: string): 'ascending' | 'descending' | undefined => {
+  const entry = sort.find(item => item.key === columnKey);
+  if (!entry) return undefined;
+  return entry.direction === 'asc' ? 'ascending' : 'descending';
+};
 
 /**
  * @function useDebounce
@@ -138,38 +724,256 @@ function DataTable<T extends Record<string, any>>({
   emptyMessage = "No data found",
   onExport,
   onShare,
-  showColumnToggle = true
+  showColumnToggle = true,
+  mode = 'client',
+  response,
+  onQueryChange,
+  filters: filtersProp,
+  loading = false,
+  error,
+  onRetry,
+  paging = 'pages',
+  rowHeight = 44,
+  scrollHeight = 600,
+  onLayoutChange,
+  viewId,
+  onFiltersChange,
+  locale,
+  title = 'Data',
+  csvOptions,
+  onRowsChange,
+  getRowId = (row: T) => String(row.id),
+  renderExpanded
 }: DataTableProps<T>) {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [sortColumn, setSortColumn] = useState<string | null>(null);
-  const [sortDirection, setSortDirection] = useState<SortDirection>(null)
-  const [currentPage, setCurrentPage] = useState(1)
-  const [pageSize, setPageSize] = useState(10)
+  const { showToast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [savedViews, setSavedViews] = useStoredState<DataTableViews>(`table_${viewId ?? ''}`, EMPTY_VIEWS);
+
+  /**
+   * @description The view the table opens with (read once): a view shared through the URL, else the default saved
+   * view, else the view last shown.
+   */
+  const [initialView] = useState(() => {
+    if (!viewId) return null;
+    const sharedParam = searchParams.get(VIEW_PARAM);
+    const shared = sharedParam ? decodeSharedView(sharedParam, viewId, initialColumns) : null;
+    if (shared) return { state: shared.state, active: { id: null, name: shared.name }, shared: true };
+    const defaultView = savedViews.views.find(view => view.id === savedViews.defaultViewId);
+    if (defaultView) return { state: defaultView.state, active: { id: defaultView.id, name: defaultView.name }, shared: false };
+    return savedViews.current ? { state: savedViews.current, active: null, shared: false } : null;
+  });
+
+  const [searchTerm, setSearchTerm] = useState(initialView?.state.search ?? '');
+  const [sort, setSort] = useState<DataTableSort[]>(initialView?.state.sort ?? []);
+  const [pageSize, setPageSize] = useState(initialView?.state.pageSize ?? (paging === 'infinite' ? INFINITE_PAGE_SIZE : 10))
+  const [columnFilter, setColumnFilter] = useState<FilterGroup>(initialView?.state.filter ?? EMPTY_FILTER); // Built in the filter bar
+  const [groupBy, setGroupBy] = useState<string | null>(initialView?.state.groupBy ?? null);
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set()); // Keys of the collapsed groups
   const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set())
-  const [columns, setColumns] = useState(initialColumns);
+  const [columns, setColumns] = useState(() =>
+    initialView ? applyColumnLayout(initialColumns, initialView.state.columns) : arrangeColumns(initialColumns)
+  );
+  // The view shown, while it is a saved one (id) or one opened from a share link (no id)
+  const [activeView, setActiveView] = useState<{ id: string | null; name: string } | null>(initialView?.active ?? null);
+  const [draggedColumn, setDraggedColumn] = useState<string | null>(null); // The header being dragged to reorder
   const [showColumnDialog, setShowColumnDialog] = useState(false);
+  const [exportScope, setExportScope] = useState<'all' | 'page' | 'selected'>('all'); // The rows the Export menu exports
+  const [firstVisibleRow, setFirstVisibleRow] = useState(0); // Infinite paging: the row at the top of the scroll area
+  const [activeRow, setActiveRow] = useState<number | null>(null); // Infinite paging: the row focused with the keyboard
+  const [edits, setEdits] = useState<Record<string, RowEdit<T>>>({}); // Inline edits not saved yet, by row ID
+  const [editingCell, setEditingCell] = useState<{ rowId: string; key: string } | null>(null); // The cell whose editor is open
+  const [isSavingEdits, setIsSavingEdits] = useState(false);
+  const [expandedRowIds, setExpandedRowIds] = useState<Set<string>>(new Set()); // Rows showing their details
+  const isServer = mode === 'server';
+  const isInfinite = paging === 'infinite';
+  const canExpand = !!renderExpanded && !isInfinite; // Windowing needs rows of equal height
+  const tableRef = useRef<HTMLDivElement>(null);
+  const rowIdPrefix = useId();
+  const onQueryChangeRef = useRef(onQueryChange);
+  const onSelectionChangeRef = useRef(onSelectionChange);
+  const onLayoutChangeRef = useRef(onLayoutChange);
+  const onFiltersChangeRef = useRef(onFiltersChange);
+  const initialLayoutRef = useRef(columns);
+  const isViewOpenedRef = useRef(false);
+  const isResizingRef = useRef(false); // Set while a resize handle is dragged, so the header does not start a drag too
+
+  useEffect(() => {
+    onQueryChangeRef.current = onQueryChange;
+    onSelectionChangeRef.current = onSelectionChange;
+    onLayoutChangeRef.current = onLayoutChange;
+    onFiltersChangeRef.current = onFiltersChange;
+  });
+
+  // Restore the filters of the view the table opened with, and drop a shared view from the URL once applied
+  useEffect(() => {
+    if (isViewOpenedRef.current || !initialView) return;
+    isViewOpenedRef.current = true;
+    onFiltersChangeRef.current?.(initialView.state.filters);
+    if (initialView.shared) {
+      setSearchParams(params => {
+        params.delete(VIEW_PARAM);
+        return params;
+      }, { replace: true });
+    }
+  }, [initialView, setSearchParams]);
+
+  // Report layout changes made by the user (not the initial layout)
+  useEffect(() => {
+    if (columns === initialLayoutRef.current) return;
+    onLayoutChangeRef.current?.(toColumnLayout(columns));
+  }, [columns]);
 
   // Debounce search term to improve performance - prevents filtering on every keystroke
   const debouncedSearchTerm = useDebounce(searchTerm, 300);
+  const debouncedColumnFilter = useDebounce(columnFilter, 300);
+  const columnFilterKey = JSON.stringify(debouncedColumnFilter);
+
+  // Filters by content, so a new object with the same filters does not count as a change
+  const filtersKey = JSON.stringify(filtersProp ?? {});
+  const filters = useMemo<Record<string, string[]>>(() => JSON.parse(filtersKey), [filtersKey]);
+
+  // Also by content: the aggregates stay the same when columns are resized or reordered
+  const aggregatesKey = JSON.stringify(Object.fromEntries(columns.flatMap(col => (col.aggregate ? [[col.key, col.aggregate]] : []))));
+  const columnAggregates = useMemo<Record<string, AggregateFunction>>(() => JSON.parse(aggregatesKey), [aggregatesKey]);
+  const hasAggregates = aggregatesKey !== '{}';
+
+  // Grouping sorts by the grouped column first (in the direction the user sorted it, if any), so groups are contiguous
+  const effectiveSort = useMemo<DataTableSort[]>(() => groupBy
+    ? [sort.find(entry => entry.key === groupBy) ?? { key: groupBy, direction: 'asc' }, ...sort.filter(entry => entry.key !== groupBy)]
+    : sort, [sort, groupBy]);
+
+  // The page is derived rather than reset in an effect, so a new search, sort, filter or page size goes back to
+  // page 1 in the same render (and server mode reports a single query for it)
+  const pageResetKey = JSON.stringify([debouncedSearchTerm, sort, filtersKey, columnFilterKey, pageSize, groupBy]);
+  const [page, setPage] = useState({ resetKey: pageResetKey, number: 1 });
+  const currentPage = page.resetKey === pageResetKey ? page.number : 1;
+  const setCurrentPage = useCallback((number: number) => setPage({ resetKey: pageResetKey, number }), [pageResetKey]);
 
   // Get visible columns - memoized to prevent unnecessary recalculations
   const visibleColumns = useMemo(() => columns.filter(col => !col.hidden), [columns]);
 
-  // Reset page when search term changes
+  // Columns that can be filtered in the filter bar (hidden ones included)
+  const filterableColumns = useMemo<FilterableColumn[]>(() => columns.flatMap(col =>
+    col.filter ? [{ key: col.key, header: col.header, filter: col.filter }] : []
+  ), [columns]);
+
+  // Columns rows can be grouped by (hidden ones included), and the one they are grouped by
+  const groupableColumns = useMemo(() => columns.filter(col => col.groupable), [columns]);
+  const groupColumn = groupBy ? columns.find(col => col.key === groupBy) : undefined;
+
+  /**
+   * @description Memoized sticky offsets of the pinned columns: each is offset by the widths of the pinned columns
+   * between it and its side of the table.
+   */
+  const pinnedOffsets = useMemo(() => {
+    const offsets = new Map<string, { left: number } | { right: number }>();
+    let left = 0;
+    visibleColumns.filter(col => col.pinned === 'left').forEach(col => {
+      offsets.set(col.key, { left });
+      left += parseWidth(col.width) ?? DEFAULT_COLUMN_WIDTH;
+    });
+    let right = 0;
+    visibleColumns.filter(col => col.pinned === 'right').reverse().forEach(col => {
+      offsets.set(col.key, { right });
+      right += parseWidth(col.width) ?? DEFAULT_COLUMN_WIDTH;
+    });
+    return offsets;
+  }, [visibleColumns]);
+
+  /**
+   * @description Gets the style that keeps a pinned column in place. Pinned columns get a fixed width, so the
+   * offsets of the columns next to them stay correct.
+   * @param {Column<T>} column - The column.
+   * @param {boolean} isHeader - Whether the style is for the header cell (drawn above the body cells).
+   * @returns {React.CSSProperties | undefined} The style, or undefined for unpinned columns.
+   */
+  const getPinnedStyle = (column: Column<T>, isHeader: boolean): React.CSSProperties | undefined => {
+    const offset = pinnedOffsets.get(column.key);
+    if (!offset) return undefined;
+    const width = `${parseWidth(column.width) ?? DEFAULT_COLUMN_WIDTH}px`;
+    return {
+      ...offset,
+      position: 'sticky',
+      zIndex: isHeader ? 2 : 1,
+      width,
+      minWidth: width,
+      maxWidth: width,
+      background: 'var(--color-panel-solid)',
+    };
+  };
+
+  /**
+   * @description The current query. In server mode, it is reported to `onQueryChange` whenever it changes.
+   */
+  const query = useMemo<DataTableQuery>(() => ({
+    page: currentPage,
+    pageSize,
+    sort: effectiveSort,
+    search: debouncedSearchTerm,
+    filters,
+    filter: debouncedColumnFilter,
+    groupBy,
+    aggregates: columnAggregates,
+  }), [currentPage, pageSize, effectiveSort, debouncedSearchTerm, filters, debouncedColumnFilter, groupBy, columnAggregates]);
+
+  /**
+   * @description The current view. With a `viewId`, it is stored whenever it changes.
+   */
+  const viewState = useMemo<DataTableViewState>(() => ({
+    columns: toColumnLayout(columns),
+    sort,
+    pageSize,
+    search: query.search,
+    filters,
+    filter: query.filter,
+    groupBy,
+  }), [columns, sort, query.search, pageSize, filters, query.filter, groupBy]);
+
   useEffect(() => {
-    setCurrentPage(1);
-  }, [debouncedSearchTerm]);
+    if (!viewId) return;
+    setSavedViews(previous => ({ ...previous, current: viewState }));
+  }, [viewId, viewState, setSavedViews]);
+
+  useEffect(() => {
+    if (isServer) onQueryChangeRef.current?.(query);
+  }, [isServer, query]);
 
   /**
-   * @description Memoized filtered data based on the debounced search term.
-   * Filters rows where any searchable column contains the search term.
-   * Handles nested object properties in column keys (e.g., "user.name").
-   * @note For production with large datasets, client-side filtering should be replaced with server-side API calls.
+   * @description Infinite paging in server mode: the pages received so far for the current search, sort and filters,
+   * by page number. A page is stored when its response arrives; responses still showing the previous query (the
+   * page fetches the new one only once it is reported) are ignored, as they are not new.
+   */
+  const [loadedPages, setLoadedPages] = useState<{ resetKey: string; pages: T[][] }>({ resetKey: pageResetKey, pages: [] });
+  const lastResponseRef = useRef<PaginatedResponse<T> | null | undefined>(undefined);
+
+  useEffect(() => {
+    if (response === lastResponseRef.current) return;
+    lastResponseRef.current = response;
+    if (!isServer || !isInfinite || !response) return;
+    setLoadedPages(previous => {
+      const pages = previous.resetKey === pageResetKey ? [...previous.pages] : [];
+      pages[response.pagination.page - 1] = response.data ?? [];
+      return { resetKey: pageResetKey, pages };
+    });
+  }, [isServer, isInfinite, response, pageResetKey]);
+
+  const loadedPageCount = loadedPages.resetKey === pageResetKey ? loadedPages.pages.length : 0;
+
+  /**
+   * @description Memoized filtered data based on the filters, the filter bar's conditions and the debounced search term.
+   * Keeps rows whose filtered columns hold one of the allowed values, that match the conditions, and where any searchable column
+   * contains the search term. Handles nested object properties in column keys (e.g., "user.name").
+   * Not used in server mode, where the server filters.
    */
   const filteredData = useMemo(() => {
-    if (!debouncedSearchTerm) return data;
+    const matchesColumnFilter = createFilterMatcher(debouncedColumnFilter);
+    const rows = (data ?? []).filter(row =>
+      Object.entries(filters).every(([key, allowed]) => allowed.includes(String(getValue(row, key)))) &&
+      matchesColumnFilter(row)
+    );
+    if (!debouncedSearchTerm) return rows;
     
-    return data.filter(row => {
+    return rows.filter(row => {
       const searchableColumns = visibleColumns.filter(col => col.searchable !== false);
       return searchableColumns.some(col => {
         const value = (col.key as string).includes('.') 
@@ -178,64 +982,169 @@ function DataTable<T extends Record<string, any>>({
         return value?.toString().toLowerCase().includes(debouncedSearchTerm.toLowerCase());
       });
     });
-  }, [data, debouncedSearchTerm, visibleColumns]);
+  }, [data, filters, debouncedColumnFilter, debouncedSearchTerm, visibleColumns]);
+
+  // Compares strings for the locale
+  const collator = useMemo(() => createCollator(locale), [locale]);
 
   /**
-   * @description Memoized sorted data based on the current sort column and direction.
-   * Handles nested object properties for sorting.
-   * @note For production, implement server-side sorting for better performance with large datasets.
+   * @description Memoized sorted data based on the sort columns and directions (the grouped column first), compared
+   * as each column's `sortType` (or with its `compare`). Handles nested object properties for sorting. Not used in
+   * server mode.
    */
   const sortedData = useMemo(() => {
-    if (!sortColumn || !sortDirection) return filteredData;
-    
-    return [...filteredData].sort((a, b) => {
-      const aVal = (sortColumn as string).includes('.') 
-        ? (sortColumn as string).split('.').reduce((obj: any, key) => obj?.[key], a)
-        : a[sortColumn];
-      const bVal = (sortColumn as string).includes('.') 
-        ? (sortColumn as string).split('.').reduce((obj: any, key) => obj?.[key], b)
-        : b[sortColumn];
-      
-      if (aVal === bVal) return 0;
-      
-      if (sortDirection === 'asc') {
-        return aVal > bVal ? 1 : -1;
-      } else {
-        return aVal < bVal ? 1 : -1;
-      }
+    const criteria = effectiveSort.map(({ key, direction }) => {
+      const column = columns.find(col => col.key === key);
+      return {
+        value: (row: T) => getValue(row, key),
+        direction,
+        type: column?.sortType,
+        compare: column?.compare,
+        nulls: column?.nulls,
+      };
     });
-  }, [filteredData, sortColumn, sortDirection]);
+    return sortRows(filteredData, criteria, collator);
+  }, [filteredData, effectiveSort, columns, collator]);
+
+  /**
+   * @description The rows to page: the sorted rows, or in server mode the page received (with infinite paging, all
+   * pages loaded).
+   */
+  const sourceRows = useMemo(() => {
+    if (isServer && isInfinite) {
+      return loadedPages.resetKey === pageResetKey ? loadedPages.pages.flat() : [];
+    }
+    if (isServer) return response?.data ?? [];
+    return sortedData;
+  }, [isServer, isInfinite, loadedPages, pageResetKey, response, sortedData]);
+
+  // Grouping: the groups of the rows, in order (in server mode, of the rows received)
+  const groups = useMemo(
+    () => (groupBy ? groupRows(sourceRows, row => getValue(row, groupBy)) : null),
+    [sourceRows, groupBy]
+  );
+
+  // The rows shown, without those of collapsed groups
+  const expandedRows = useMemo(
+    () => (groups ? groups.flatMap(group => (collapsedGroups.has(group.key) ? [] : group.rows)) : sourceRows),
+    [groups, collapsedGroups, sourceRows]
+  );
+
+  const totalRows = isServer ? response?.pagination.total ?? 0 : sortedData.length;
+  const totalPages = isServer ? response?.pagination.totalPages ?? 0 : Math.ceil(expandedRows.length / pageSize);
+  // Collapsing groups can leave fewer pages than the page shown; the last one is shown then
+  const pageNumber = isServer ? currentPage : Math.min(currentPage, Math.max(1, totalPages));
+  const pageStart = isServer || isInfinite ? 0 : (pageNumber - 1) * pageSize;
+
+  // Selection is by position on the page, so it is cleared when other rows take those positions: on a new search,
+  // sort, filter or page, and in server mode when the server sends another page (with infinite paging, when the rows
+  // start over: further pages are appended)
+  const rowsVersion = isServer ? (isInfinite ? pageResetKey : response) : `${pageResetKey}/${pageNumber}`;
+  useEffect(() => {
+    setSelectedRows(new Set());
+    onSelectionChangeRef.current?.([]);
+  }, [rowsVersion]);
 
   /**
    * @description Memoized paginated data based on the current page and page size.
-   * @note For large datasets (>10k rows), consider implementing virtual scrolling
-   * (e.g., using libraries like @tanstack/react-virtual).
+   * With infinite paging, all rows (in server mode, all loaded rows); only the visible window is rendered.
    */
-  const paginatedData = useMemo(() => {
-    const startIndex = (currentPage - 1) * pageSize;
-    return sortedData.slice(startIndex, startIndex + pageSize);
-  }, [sortedData, currentPage, pageSize]);
+  const paginatedData = useMemo(
+    () => (isServer || isInfinite ? expandedRows : expandedRows.slice(pageStart, pageStart + pageSize)),
+    [isServer, isInfinite, expandedRows, pageStart, pageSize]
+  );
 
-  const totalPages = Math.ceil(sortedData.length / pageSize);
+  /**
+   * @description The aggregates of the columns, over all filtered rows and per group. In server mode, they come with
+   * the response (computed over the rows received if the server does not send them).
+   */
+  const summary = useMemo(() => {
+    if (!hasAggregates && !groupBy) return null;
+    if (isServer && response?.aggregates) return response.aggregates;
+    return summarizeRows(sourceRows, columnAggregates, getValue, groupBy);
+  }, [hasAggregates, groupBy, isServer, response, sourceRows, columnAggregates]);
 
   /**
-   * @description Handles sorting when a column header is clicked.
-   * Cycles through ascending, descending, and no sort for the clicked column.
-   * @param {string} columnKey - The key of the column to sort by.
+   * @description The rows shown on the page, in order: each group row (when grouping) followed by the group's rows on
+   * the page. A group continuing from the previous page starts with its group row again; a collapsed group shows on
+   * the page its rows would have started.
    */
-  const handleSort = useCallback((columnKey: string) => {
-    if (sortColumn === columnKey) {
-      if (sortDirection === 'asc') {
-        setSortDirection('desc');
-      } else if (sortDirection === 'desc') {
-        setSortColumn(null);
-        setSortDirection(null);
+  const displayItems = useMemo<DisplayItem<T>[]>(() => {
+    if (!groups) return paginatedData.map((row, index) => ({ type: 'row', row, index }));
+
+    const pageEnd = pageStart + paginatedData.length;
+    const isLastPage = pageEnd >= expandedRows.length;
+    const items: DisplayItem<T>[] = [];
+    let position = 0; // Among the rows shown
+    for (const group of groups) {
+      if (collapsedGroups.has(group.key)) {
+        if (position >= pageStart && (position < pageEnd || isLastPage)) items.push({ type: 'group', group });
+        continue;
       }
-    } else {
-      setSortColumn(columnKey);
-      setSortDirection('asc');
+      const end = position + group.rows.length;
+      if (end > pageStart && position < pageEnd) {
+        items.push({ type: 'group', group });
+        for (let i = Math.max(position, pageStart); i < Math.min(end, pageEnd); i++) {
+          items.push({ type: 'row', row: expandedRows[i], index: i - pageStart });
+        }
+      }
+      position = end;
     }
-  }, [sortColumn, sortDirection]);
+    return items;
+  }, [groups, collapsedGroups, paginatedData, pageStart, expandedRows]);
+
+  // Infinite paging: the rendered window of rows (all rows otherwise)
+  const windowStart = isInfinite ? Math.max(0, firstVisibleRow - OVERSCAN) : 0;
+  const windowEnd = isInfinite
+    ? Math.min(displayItems.length, firstVisibleRow + Math.ceil(scrollHeight / rowHeight) + OVERSCAN)
+    : displayItems.length;
+
+  /**
+   * @description Returns the element that scrolls the rows (the viewport of the table's scroll area).
+   * @returns {HTMLElement | null} The viewport, or null before the table is mounted.
+   */
+  const getViewport = useCallback(
+    () => tableRef.current?.querySelector<HTMLElement>('[data-radix-scroll-area-viewport]') ?? null,
+    []
+  );
+
+  // Infinite paging: a new search, sort or filter starts over at the top
+  useEffect(() => {
+    if (!isInfinite) return;
+    const viewport = getViewport();
+    if (viewport) viewport.scrollTop = 0;
+    setFirstVisibleRow(0);
+    setActiveRow(null);
+  }, [isInfinite, pageResetKey, getViewport]);
+
+  // Infinite paging in server mode: request the next page once the rendered window reaches the last loaded row
+  useEffect(() => {
+    if (!isServer || !isInfinite || loading || error) return;
+    if (currentPage > loadedPageCount || loadedPageCount >= totalPages) return; // Already requested, or all loaded
+    if (windowEnd >= displayItems.length) setCurrentPage(loadedPageCount + 1);
+  }, [isServer, isInfinite, loading, error, currentPage, loadedPageCount, totalPages, windowEnd, displayItems.length, setCurrentPage]);
+
+  /**
+   * @description Handles sorting when a column header is clicked.
+   * Cycles through ascending, descending, and no sort for the clicked column. A plain click sorts by that column
+   * only; a shift-click keeps the other sort columns, adding the clicked one as the last level.
+   * @param {string} columnKey - The key of the column to sort by.
+   * @param {boolean} [additive=false] - Whether to keep the other sort columns (shift-click).
+   */
+  const handleSort = useCallback((columnKey: string, additive: boolean = false) => {
+    setSort(previous => {
+      const current = previous.find(entry => entry.key === columnKey);
+      const next: DataTableSort | null = !current
+        ? { key: columnKey, direction: 'asc' }
+        : current.direction === 'asc' ? { key: columnKey, direction: 'desc' } : null;
+
+      if (!additive) return next ? [next] : [];
+      if (!current) return [...previous, next!];
+      return next
+        ? previous.map(entry => entry.key === columnKey ? next : entry)
+        : previous.filter(entry => entry.key !== columnKey);
+    });
+  }, []);
 
   /**
    * @description Handles the "select all" checkbox functionality.
@@ -271,6 +1180,292 @@ function DataTable<T extends Record<string, any>>({
     onSelectionChange?.(selectedData);
   }, [selectedRows, paginatedData, onSelectionChange]);
 
+  /**
+   * @description Infinite paging: tracks the first visible row as the table scrolls.
+   * @param {React.UIEvent<HTMLDivElement>} event - The scroll event (captured from the scroll area's viewport).
+   */
+  const handleScroll = useCallback((event: React.UIEvent<HTMLDivElement>) => {
+    const target = event.target as HTMLElement;
+    if (!target.hasAttribute('data-radix-scroll-area-viewport')) return;
+    setFirstVisibleRow(Math.floor(target.scrollTop / rowHeight));
+  }, [rowHeight]);
+
+  /**
+   * @description Infinite paging: scrolls the least needed to show a row below the sticky header.
+   * @param {number} index - The position of the row among the rows shown (group rows included).
+   */
+  const scrollToRow = useCallback((index: number) => {
+    const viewport = getViewport();
+    if (!viewport) return;
+    const headerHeight = viewport.querySelector('thead')?.offsetHeight ?? 0;
+    const top = index * rowHeight;
+    if (top < viewport.scrollTop) {
+      viewport.scrollTop = top;
+    } else if (top + rowHeight + headerHeight > viewport.scrollTop + viewport.clientHeight) {
+      viewport.scrollTop = top + rowHeight + headerHeight - viewport.clientHeight;
+    }
+  }, [getViewport, rowHeight]);
+
+  /**
+   * @description Infinite paging: keyboard navigation. Focus stays on the table itself (the active row is exposed
+   * with `aria-activedescendant`), so it is not lost when the focused row scrolls out and is unmounted.
+   * Arrow keys, Page Up/Down, Home and End move the active row; Enter clicks it (or collapses or expands a group)
+   * and Space toggles its selection.
+   * @param {React.KeyboardEvent<HTMLDivElement>} event - The key event.
+   */
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    // Keys pressed in checkboxes or actions keep their own meaning
+    if (event.target !== event.currentTarget || displayItems.length === 0) return;
+
+    const pageRows = Math.max(1, Math.floor(scrollHeight / rowHeight) - 1);
+    const current = activeRow ?? -1;
+    const item = activeRow !== null ? displayItems[activeRow] : undefined;
+    let next: number;
+    switch (event.key) {
+      case 'ArrowDown': next = current + 1; break;
+      case 'ArrowUp': next = current - 1; break;
+      case 'PageDown': next = current + pageRows; break;
+      case 'PageUp': next = current - pageRows; break;
+      case 'Home': next = 0; break;
+      case 'End': next = displayItems.length - 1; break;
+      case 'Enter':
+        if (item?.type === 'group') toggleGroup(item.group.key);
+        else if (item) onRowClick?.(item.row);
+        event.preventDefault();
+        return;
+      case ' ':
+        if (selectable && item?.type === 'row') handleSelectRow(item.index, !selectedRows.has(item.index));
+        event.preventDefault();
+        return;
+      default:
+        return;
+    }
+    event.preventDefault();
+    next = Math.min(Math.max(next, 0), displayItems.length - 1);
+    setActiveRow(next);
+    scrollToRow(next);
+  };
+
+  /**
+   * @description Clears the selection (e.g., when rows move between groups, as selection is by position).
+   */
+  const clearSelection = useCallback(() => {
+    setSelectedRows(new Set());
+    onSelectionChange?.([]);
+  }, [onSelectionChange]);
+
+  /**
+   * @description Groups the rows by a column (with every group expanded), or stops grouping.
+   * @param {string | null} columnKey - The key of the column, or null.
+   */
+  const handleGroupBy = useCallback((columnKey: string | null) => {
+    setGroupBy(columnKey);
+    setCollapsedGroups(new Set());
+    clearSelection();
+  }, [clearSelection]);
+
+  /**
+   * @description Collapses a group, or expands it.
+   * @param {string} groupKey - The key of the group.
+   */
+  const toggleGroup = useCallback((groupKey: string) => {
+    setCollapsedGroups(previous => {
+      const next = new Set(previous);
+      if (!next.delete(groupKey)) next.add(groupKey);
+      return next;
+    });
+    clearSelection();
+  }, [clearSelection]);
+
+  /**
+   * @description Renders an aggregate of a column, with its `renderAggregate` or as a number for the locale.
+   * @param {Column<T>} column - The column.
+   * @param {number | null | undefined} value - The aggregate; null or undefined when there is none.
+   * @returns {React.ReactNode} The rendered aggregate.
+   */
+  const formatAggregate = (column: Column<T>, value: number | null | undefined): React.ReactNode => {
+    if (value === null || value === undefined) return '-';
+    return column.renderAggregate ? column.renderAggregate(value) : value.toLocaleString(locale, { maximumFractionDigits: 2 });
+  };
+
+  /**
+   * @description The errors of the edited cells, by row ID and column key (only cells with an error are listed).
+   */
+  const editErrors = useMemo(() => {
+    const errors: Record<string, Record<string, string>> = {};
+    Object.entries(edits).forEach(([rowId, { values }]) => {
+      Object.entries(values).forEach(([key, value]) => {
+        const column = columns.find(col => col.key === key);
+        const cellError = column && validateCell(column, value);
+        if (!cellError) return;
+        errors[rowId] = { ...errors[rowId], [key]: cellError };
+      });
+    });
+    return errors;
+  }, [edits, columns]);
+
+  const editCount = Object.values(edits).reduce((count, { values }) => count + Object.keys(values).length, 0);
+  const errorCount = Object.values(editErrors).reduce((count, cells) => count + Object.keys(cells).length, 0);
+
+  /**
+   * @description Edits a cell and closes its editor. Setting a cell back to its original value undoes its edit.
+   * @param {T} row - The row.
+   * @param {string} key - The column key.
+   * @param {any} value - The new value.
+   */
+  const editCell = (row: T, key: string, value: any) => {
+    const rowId = getRowId(row);
+    setEdits(previous => {
+      const rowEdit = previous[rowId] ?? { row, values: {} };
+      const values = { ...rowEdit.values, [key]: value };
+      if (Object.is(value, getValue(rowEdit.row, key))) delete values[key];
+
+      const next = { ...previous };
+      if (Object.keys(values).length > 0) {
+        next[rowId] = { row: rowEdit.row, values };
+      } else {
+        delete next[rowId];
+      }
+      return next;
+    });
+    setEditingCell(null);
+  };
+
+  /**
+   * @description Saves the edits: reports every edited row to `onRowsChange`, and clears the edits once it has
+   * succeeded (they are kept if it fails, so the user can try again).
+   */
+  const handleSaveEdits = async () => {
+    if (!onRowsChange || errorCount > 0) return;
+    const changes = Object.values(edits).map(({ row, values }) => ({
+      row,
+      changes: values,
+      updated: applyEdits(row, values),
+    }));
+    setIsSavingEdits(true);
+    try {
+      await onRowsChange(changes);
+      setEdits({});
+    } catch {
+      // The edits stay for another try; the page reports the error
+    } finally {
+      setIsSavingEdits(false);
+    }
+  };
+
+  /**
+   * @description Discards the edits.
+   */
+  const handleCancelEdits = () => {
+    setEdits({});
+    setEditingCell(null);
+  };
+
+  /**
+   * @description Renders a data cell: its value (edited or not) with the column's `render`, its editor while it is
+   * being edited, or a switch for `toggle` editors. Edited cells are highlighted, and invalid ones outlined with
+   * their error in a tooltip (showing the value as entered, which `render` may not handle).
+   * @param {Column<T>} column - The column.
+   * @param {T} row - The row.
+   * @returns {JSX.Element} The rendered cell.
+   */
+  const renderCell = (column: Column<T>, row: T) => {
+    const editor = onRowsChange ? column.editor : undefined;
+    const rowId = editor ? getRowId(row) : '';
+    const rowEdit = editor ? edits[rowId] : undefined;
+    const isEdited = !!rowEdit && column.key in rowEdit.values;
+    const value = isEdited ? rowEdit.values[column.key] : getValue(row, column.key);
+    const cellError = isEdited ? editErrors[rowId]?.[column.key] : undefined;
+    const isEditing = !!editor && editingCell?.rowId === rowId && editingCell.key === column.key;
+    // Clicking (or pressing Enter or F2 on) the cell opens its editor; toggles are edited in place
+    const opensEditor = !!editor && editor.type !== 'toggle' && !isEditing;
+
+    let content: React.ReactNode;
+    if (isEditing) {
+      content = (
+        <CellEditor
+          editor={editor}
+          value={value}
+          label={column.header}
+          onCommit={(newValue) => editCell(row, column.key, newValue)}
+          onClose={() => setEditingCell(null)}
+        />
+      );
+    } else if (editor?.type === 'toggle') {
+      content = (
+        <Switch
+          size="1"
+          checked={!!value}
+          aria-label={column.header}
+          onCheckedChange={(checked) => editCell(row, column.key, checked)}
+        />
+      );
+    } else if (cellError) {
+      content = value === null || value === undefined || Number.isNaN(value) ? '-' : String(value);
+    } else {
+      content = column.render ? column.render(value, rowEdit ? applyEdits(row, rowEdit.values) : row) : value?.toString() || '-';
+    }
+
+    return (
+      <Table.Cell
+        key={column.key as string}
+        align={column.align}
+        style={{
+          ...getPinnedStyle(column, false),
+          ...(isEdited && { background: 'var(--amber-3)' }),
+          ...(cellError && { boxShadow: 'inset 0 0 0 1px var(--red-8)' }),
+          ...(opensEditor && { cursor: 'text' }),
+        }}
+        aria-invalid={cellError ? true : undefined}
+        tabIndex={opensEditor ? 0 : undefined}
+        onClick={editor ? (e) => {
+          e.stopPropagation();
+          if (opensEditor) setEditingCell({ rowId, key: column.key });
+        } : undefined}
+        onKeyDown={opensEditor ? (e) => {
+          if (e.key !== 'Enter' && e.key !== 'F2') return;
+          e.preventDefault();
+          e.stopPropagation();
+          setEditingCell({ rowId, key: column.key });
+        } : undefined}
+      >
+        {cellError ? (
+          <Tooltip content={cellError}>
+            <Box>{content}</Box>
+          </Tooltip>
+        ) : content}
+      </Table.Cell>
+    );
+  };
+
+  // Whether every row shown is expanded (the header button then collapses them)
+  const allRowsExpanded = paginatedData.length > 0 && paginatedData.every(row => expandedRowIds.has(getRowId(row)));
+
+  /**
+   * @description Expands a row to show its details, or collapses it.
+   * @param {string} rowId - The ID of the row.
+   */
+  const toggleRowExpanded = useCallback((rowId: string) => {
+    setExpandedRowIds(previous => {
+      const next = new Set(previous);
+      if (!next.delete(rowId)) next.add(rowId);
+      return next;
+    });
+  }, []);
+
+  /**
+   * @description Expands every row shown (on the page, when paging), or collapses them all if they are expanded.
+   * Rows on other pages keep their state.
+   */
+  const toggleAllRowsExpanded = () => {
+    const rowIds = paginatedData.map(row => getRowId(row));
+    setExpandedRowIds(previous => {
+      const next = new Set(previous);
+      rowIds.forEach(rowId => (allRowsExpanded ? next.delete(rowId) : next.add(rowId)));
+      return next;
+    });
+  };
+
   /**
    * @description Toggles the visibility of a column.
    * @param {string} columnKey - The key of the column to toggle.
@@ -282,50 +1477,290 @@ function DataTable<T extends Record<string, any>>({
   }, []);
 
   /**
-   * @description Handles data export. If `onExport` prop is provided, it's called.
-   * Otherwise, a basic CSV export is performed.
+   * @description Pins a column to a side of the table, or unpins it.
+   * @param {string} columnKey - The key of the column.
+   * @param {'left' | 'right' | null} pinned - The side, or null to unpin.
+   */
+  const pinColumn = useCallback((columnKey: string, pinned: 'left' | 'right' | null) => {
+    setColumns(prev => arrangeColumns(prev.map(col =>
+      col.key === columnKey ? { ...col, pinned } : col
+    )));
+  }, []);
+
+  /**
+   * @description Sets the width of a column.
+   * @param {string} columnKey - The key of the column.
+   * @param {number} width - The width in pixels (at least `MIN_COLUMN_WIDTH`).
+   */
+  const resizeColumn = useCallback((columnKey: string, width: number) => {
+    const resized = `${Math.max(MIN_COLUMN_WIDTH, Math.round(width))}px`;
+    setColumns(prev => prev.map(col =>
+      col.key === columnKey ? { ...col, width: resized } : col
+    ));
+  }, []);
+
+  /**
+   * @description Moves a column to the position of another one. The moved column takes the other column's pinning,
+   * so dropping a column among pinned ones pins it.
+   * @param {string} columnKey - The key of the column to move.
+   * @param {string} targetKey - The key of the column whose position it takes.
+   */
+  const moveColumn = useCallback((columnKey: string, targetKey: string) => {
+    setColumns(prev => {
+      const from = prev.findIndex(col => col.key === columnKey);
+      const to = prev.findIndex(col => col.key === targetKey);
+      if (from === -1 || to === -1 || from === to) return prev;
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, { ...moved, pinned: prev[to].pinned });
+      return arrangeColumns(next);
+    });
+  }, []);
+
+  /**
+   * @description Starts resizing a column by dragging its resize handle; the width follows the pointer until
+   * it is released.
+   * @param {React.PointerEvent<HTMLElement>} event - The pointer down event on the handle.
+   * @param {string} columnKey - The key of the column.
+   */
+  const handleResizeStart = (event: React.PointerEvent<HTMLElement>, columnKey: string) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const handle = event.currentTarget;
+    const startX = event.clientX;
+    const startWidth = handle.closest('th')?.getBoundingClientRect().width ?? DEFAULT_COLUMN_WIDTH;
+    handle.setPointerCapture(event.pointerId);
+    isResizingRef.current = true;
+
+    const handleMove = (moveEvent: PointerEvent) => resizeColumn(columnKey, startWidth + moveEvent.clientX - startX);
+    const handleEnd = () => {
+      isResizingRef.current = false;
+      handle.removeEventListener('pointermove', handleMove);
+      handle.removeEventListener('pointerup', handleEnd);
+      handle.removeEventListener('pointercancel', handleEnd);
+    };
+    handle.addEventListener('pointermove', handleMove);
+    handle.addEventListener('pointerup', handleEnd);
+    handle.addEventListener('pointercancel', handleEnd);
+  };
+
+  /**
+   * @description Resizes a column from the keyboard: the arrow keys narrow or widen it by `RESIZE_STEP`.
+   * @param {React.KeyboardEvent<HTMLElement>} event - The key event on the resize handle.
+   * @param {Column<T>} column - The column.
+   */
+  const handleResizeKeyDown = (event: React.KeyboardEvent<HTMLElement>, column: Column<T>) => {
+    if (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight') return;
+    event.preventDefault();
+    event.stopPropagation();
+    const width = parseWidth(column.width)
+      ?? event.currentTarget.closest('th')?.getBoundingClientRect().width
+      ?? DEFAULT_COLUMN_WIDTH;
+    resizeColumn(column.key, width + (event.key === 'ArrowRight' ? RESIZE_STEP : -RESIZE_STEP));
+  };
+
+  /**
+   * @description Starts dragging a header to reorder its column (unless its resize handle is being dragged).
+   * @param {React.DragEvent<HTMLElement>} event - The drag start event.
+   * @param {string} columnKey - The key of the column.
+   */
+  const handleColumnDragStart = (event: React.DragEvent<HTMLElement>, columnKey: string) => {
+    if (isResizingRef.current) {
+      event.preventDefault();
+      return;
+    }
+    event.dataTransfer.effectAllowed = 'move';
+    event.dataTransfer.setData('text/plain', columnKey); // Some browsers only start a drag with data set
+    setDraggedColumn(columnKey);
+  };
+
+  /**
+   * @description Drops a dragged header onto another one, moving its column there.
+   * @param {React.DragEvent<HTMLElement>} event - The drop event.
+   * @param {string} columnKey - The key of the column dropped onto.
+   */
+  const handleColumnDrop = (event: React.DragEvent<HTMLElement>, columnKey: string) => {
+    event.preventDefault();
+    if (draggedColumn) moveColumn(draggedColumn, columnKey);
+    setDraggedColumn(null);
+  };
+
+  /**
+   * @description Shows a view: restores its columns, sort, page size, search, conditions and grouping, and passes its
+   * filters to `onFiltersChange`.
+   * @param {DataTableViewState} state - The view.
+   * @param {{ id: string | null; name: string } | null} view - The saved or shared view shown, if any.
+   */
+  const applyView = useCallback((state: DataTableViewState, view: { id: string | null; name: string } | null) => {
+    setColumns(applyColumnLayout(initialColumns, state.columns));
+    setSort(state.sort);
+    setPageSize(state.pageSize);
+    setSearchTerm(state.search);
+    setColumnFilter(state.filter);
+    setGroupBy(state.groupBy);
+    setCollapsedGroups(new Set());
+    onFiltersChangeRef.current?.(state.filters);
+    setActiveView(view);
+  }, [initialColumns]);
+
+  /**
+   * @description Saves the current view under a name, and shows it as the active view.
+   * @param {string} name - The view name.
+   */
+  const handleSaveView = (name: string) => {
+    const view: DataTableSavedView = { id: `view-${Date.now().toString(36)}`, name, state: viewState };
+    setSavedViews(previous => ({ ...previous, views: [...previous.views, view] }));
+    setActiveView({ id: view.id, name });
+  };
+
+  /**
+   * @description Changes a saved view: overwrites it with the current view, renames it, or deletes it.
+   * @param {string} id - The ID of the saved view.
+   * @param {'update' | 'delete' | { name: string }} change - The change.
+   */
+  const handleChangeView = (id: string, change: 'update' | 'delete' | { name: string }) => {
+    if (change === 'delete') {
+      setSavedViews(previous => ({
+        ...previous,
+        views: previous.views.filter(view => view.id !== id),
+        defaultViewId: previous.defaultViewId === id ? null : previous.defaultViewId,
+      }));
+      if (activeView?.id === id) setActiveView(null);
+      return;
+    }
+
+    const changes = change === 'update' ? { state: viewState } : { name: change.name };
+    setSavedViews(previous => ({
+      ...previous,
+      views: previous.views.map(view => view.id === id ? { ...view, ...changes } : view),
+    }));
+    if (change !== 'update' && activeView?.id === id) setActiveView({ id, name: change.name });
+  };
+
+  /**
+   * @description Copies a link that opens the table with a view (a saved one, or the current one).
+   * @param {DataTableSavedView | null} view - The saved view, or null for the current view.
+   */
+  const handleShareView = (view: DataTableSavedView | null) => {
+    if (!viewId) return;
+    const url = new URL(window.location.href);
+    url.searchParams.set(VIEW_PARAM, encodeSharedView(viewId, view?.name ?? activeView?.name ?? 'Shared view', view?.state ?? viewState));
+    navigator.clipboard.writeText(url.toString()).then(
+      () => showToast({ type: 'success', title: 'Link copied', description: 'Anyone with access to this page can open the view.' }),
+      () => showToast({ type: 'error', title: 'Failed to copy the link' })
+    );
+  };
+
+  /**
+   * @description Goes back to the table's initial view: default columns, no sort, no search, no filters or conditions,
+   * and no grouping.
+   */
+  const handleResetView = () => {
+    applyView({
+      columns: toColumnLayout(arrangeColumns(initialColumns)),
+      sort: [],
+      pageSize: isInfinite ? INFINITE_PAGE_SIZE : 10,
+      search: '',
+      filters: {},
+      filter: EMPTY_FILTER,
+      groupBy: null,
+    }, null);
+  };
+
+  /**
+   * @description Describes the search, filters and filter bar conditions applied, for PDF exports.
+   * @returns {string[]} One description per filter (e.g., "Status: Pending, Shipped").
+   */
+  const describeFilters = (): string[] => {
+    const header = (key: string) => columns.find(col => col.key === key)?.header ?? key;
+    const descriptions = Object.entries(filters)
+      .filter(([, values]) => values.length > 0)
+      .map(([key, values]) => `${header(key)}: ${values.join(', ')}`);
+    if (debouncedSearchTerm) descriptions.unshift(`Search: "${debouncedSearchTerm}"`);
+
+    const conditions = debouncedColumnFilter.conditions.filter(isConditionActive).flatMap(condition => {
+      const column = filterableColumns.find(col => col.key === condition.key);
+      return column ? [describeCondition(condition, column)] : [];
+    });
+    // Conditions combined with OR are one filter
+    if (debouncedColumnFilter.combinator === 'or' && conditions.length > 1) return [...descriptions, conditions.join(' or ')];
+    return [...descriptions, ...conditions];
+  };
+
+  // The rows exported: a page only makes sense with pages, and selected rows only once some are selected
+  const effectiveExportScope =
+    (exportScope === 'page' && isInfinite) || (exportScope === 'selected' && selectedRows.size === 0) ? 'all' : exportScope;
+
+  /**
+   * @description Handles data export. If `onExport` prop is provided, it's called with the rows to export.
+   * Otherwise, the rows are exported in the visible columns: as CSV, as an XLSX workbook, or as a PDF report.
    * @param {'csv' | 'excel' | 'pdf'} format - The desired export format.
    */
   const handleExport = (format: 'csv' | 'excel' | 'pdf') => {
+    const allRows = isServer ? paginatedData : sortedData; // In server mode, only the loaded rows are at hand
+    const rows = effectiveExportScope === 'selected'
+      ? paginatedData.filter((_, index) => selectedRows.has(index))
+      : effectiveExportScope === 'page' ? paginatedData : allRows;
     if (onExport) {
-      onExport(format);
+      onExport(format, rows);
+      return;
+    }
+
+    const table: ExportTable = {
+      title,
+      columns: visibleColumns.map(col => ({
+        header: col.header,
+        type: getExportType(col),
+        format: col.exportFormat,
+        width: parseWidth(col.width) ?? DEFAULT_COLUMN_WIDTH,
+      })),
+      rows: rows.map(row => visibleColumns.map(col => {
+        const value = getValue(row, col.key);
+        return col.exportValue ? col.exportValue(value, row) : value;
+      })),
+      filters: describeFilters(),
+      frozenColumns: visibleColumns.filter(col => col.pinned === 'left').length,
+      locale,
+    };
+    if (format === 'csv') {
+      downloadFile(createCsv(table, csvOptions), toFileName(title, 'csv'));
+    } else if (format === 'excel') {
+      downloadFile(createXlsx(table), toFileName(title, 'xlsx'));
     } else {
-      // Basic CSV export implementation
-      if (format === 'csv') {
-        const headers = visibleColumns.map(col => col.header).join(',');
-        const rows = sortedData.map(row => 
-          visibleColumns.map(col => {
-            const value = (col.key as string).includes('.') 
-              ? (col.key as string).split('.').reduce((obj: any, key) => obj?.[key], row)
-              : row[col.key];
-            return `"${value || ''}"`; // Handle null/undefined and ensure CSV quoting
-          }).join(',')
-        ).join('\n');
-        
-        const csv = `${headers}\n${rows}`;
-        const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-        const url = window.URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = 'data.csv';
-        a.click();
-        window.URL.revokeObjectURL(url);
-      }
-      // TODO: Implement basic Excel and PDF export if onExport is not provided.
+      downloadFile(createPdf(table), toFileName(title, 'pdf'));
     }
   };
 
   /**
-   * @description Gets the appropriate sort icon for a column header.
+   * @description Gets the appropriate sort icon for a column header, numbered when sorting by several columns.
    * @param {string} columnKey - The key of the column.
    * @returns {JSX.Element} The sort icon component.
    */
   const getSortIcon = useCallback((columnKey: string) => {
-    if (sortColumn !== columnKey) return <CaretSortIcon />;
-    if (sortDirection === 'asc') return <ChevronUpIcon />;
-    if (sortDirection === 'desc') return <ChevronDownIcon />;
-    return <CaretSortIcon />;
-  }, [sortColumn, sortDirection]);
+    const index = sort.findIndex(entry => entry.key === columnKey);
+    if (index === -1) return <CaretSortIcon />;
+    return (
+      <>
+        {sort[index].direction === 'asc' ? <ChevronUpIcon /> : <ChevronDownIcon />}
+        {sort.length > 1 && <Text size="1" color="gray">{index + 1}</Text>}
+      </>
+    );
+  }, [sort]);
+
+  const columnCount = visibleColumns.length + (selectable ? 1 : 0) + (canExpand ? 1 : 0) + (actions ? 1 : 0);
+  // Infinite paging: while further pages load (or fail to), the loaded rows stay in place
+  const keepRows = isInfinite && displayItems.length > 0;
+  // Infinite paging: the header (and the totals row) stay in view while the rows scroll beneath them
+  const headerCellStyle: React.CSSProperties | undefined = isInfinite
+    ? { position: 'sticky', top: 0, zIndex: 1, background: 'var(--color-panel-solid)' }
+    : undefined;
+  // Group rows: the label spans the columns before the first summarized one
+  const firstAggregated = visibleColumns.findIndex(col => col.aggregate);
+  const groupLabelSpan = Math.max(1, firstAggregated === -1 ? visibleColumns.length : firstAggregated);
+  const footerCellStyle: React.CSSProperties = {
+    boxShadow: 'inset 0 1px var(--gray-a6)',
+    ...(isInfinite && { position: 'sticky', bottom: 0, zIndex: 1, background: 'var(--color-panel-solid)' }),
+  };
 
   return (
     <Flex direction="column" gap="3">
@@ -343,6 +1778,31 @@ function DataTable<T extends Record<string, any>>({
         </TextField.Root>
         
         <Flex gap="2">
+          {viewId && (
+            <ViewsMenu
+              views={savedViews}
+              activeView={activeView}
+              onApply={(view) => applyView(view.state, { id: view.id, name: view.name })}
+              onSave={handleSaveView}
+              onChange={handleChangeView}
+              onSetDefault={(id) => setSavedViews(previous => ({ ...previous, defaultViewId: id }))}
+              onShare={handleShareView}
+              onReset={handleResetView}
+            />
+          )}
+
+          {groupableColumns.length > 0 && (
+            <Select.Root value={groupBy ?? 'none'} onValueChange={(value) => handleGroupBy(value === 'none' ? null : value)}>
+              <Select.Trigger variant="soft" aria-label="Group rows" />
+              <Select.Content>
+                <Select.Item value="none">No grouping</Select.Item>
+                {groupableColumns.map(column => (
+                  <Select.Item key={column.key} value={column.key}>Group by {column.header}</Select.Item>
+                ))}
+              </Select.Content>
+            </Select.Root>
+          )}
+
           {showColumnToggle && (
             <Button 
               variant="soft" 
@@ -369,6 +1829,31 @@ function DataTable<T extends Record<string, any>>({
               </Button>
             </DropdownMenu.Trigger>
             <DropdownMenu.Content>
+              <DropdownMenu.Label>Rows</DropdownMenu.Label>
+              <DropdownMenu.RadioGroup
+                value={effectiveExportScope}
+                onValueChange={value => setExportScope(value as 'all' | 'page' | 'selected')}
+              >
+                {/* Choosing the rows keeps the menu open for choosing the format */}
+                <DropdownMenu.RadioItem value="all" onSelect={event => event.preventDefault()}>
+                  {isServer ? 'All loaded rows' : 'All filtered rows'}
+                </DropdownMenu.RadioItem>
+                {!isInfinite && (
+                  <DropdownMenu.RadioItem value="page" onSelect={event => event.preventDefault()}>
+                    Current page
+                  </DropdownMenu.RadioItem>
+                )}
+                {selectable && (
+                  <DropdownMenu.RadioItem
+                    value="selected"
+                    disabled={selectedRows.size === 0}
+                    onSelect={event => event.preventDefault()}
+                  >
+                    Selected rows ({selectedRows.size})
+                  </DropdownMenu.RadioItem>
+                )}
+              </DropdownMenu.RadioGroup>
+              <DropdownMenu.Separator />
               <DropdownMenu.Item onClick={() => handleExport('csv')}>
                 Export as CSV
               </DropdownMenu.Item>
@@ -383,6 +1868,11 @@ function DataTable<T extends Record<string, any>>({
         </Flex>
       </Flex>
 
+      {/* Filter Bar */}
+      {filterableColumns.length > 0 && (
+        <DataTableFilterBar columns={filterableColumns} filter={columnFilter} onChange={setColumnFilter} />
+      )}
+
       {/* Selected rows info */}
       {selectable && selectedRows.size > 0 && (
         <Flex align="center" gap="2">
@@ -402,147 +1892,411 @@ function DataTable<T extends Record<string, any>>({
         </Flex>
       )}
 
+      {/* Unsaved edits */}
+      {onRowsChange && editCount > 0 && (
+        <Flex align="center" gap="2">
+          <Badge color="amber" variant="soft">
+            {editCount} unsaved {editCount === 1 ? 'change' : 'changes'}
+          </Badge>
+          {errorCount > 0 && (
+            <Text size="1" color="red">
+              {errorCount} invalid {errorCount === 1 ? 'value' : 'values'}
+            </Text>
+          )}
+          <Button size="1" disabled={errorCount > 0} loading={isSavingEdits} onClick={handleSaveEdits}>
+            Save
+          </Button>
+          <Button size="1" variant="soft" color="gray" disabled={isSavingEdits} onClick={handleCancelEdits}>
+            Cancel
+          </Button>
+        </Flex>
+      )}
+
       {/* Table */}
       <Box style={{ overflowX: 'auto' }}>
-        <Table.Root>
+        <Table.Root
+          ref={tableRef}
+          style={isInfinite ? { height: scrollHeight } : undefined}
+          onScrollCapture={isInfinite ? handleScroll : undefined}
+          // Infinite paging: the table keeps the keyboard focus and points at the active row
+          role={isInfinite ? 'group' : undefined}
+          tabIndex={isInfinite ? 0 : undefined}
+          onKeyDown={isInfinite ? handleKeyDown : undefined}
+          aria-activedescendant={isInfinite && activeRow !== null ? `${rowIdPrefix}-row-${activeRow}` : undefined}
+        >
           <Table.Header>
             <Table.Row>
               {selectable && (
-                <Table.ColumnHeaderCell style={{ width: '40px' }}>
+                <Table.ColumnHeaderCell style={{ ...headerCellStyle, width: '40px' }}>
                   <Checkbox 
                     checked={selectedRows.size === paginatedData.length && paginatedData.length > 0}
                     onCheckedChange={handleSelectAll}
                   />
                 </Table.ColumnHeaderCell>
               )}
+              {canExpand && (
+                <Table.ColumnHeaderCell style={{ ...headerCellStyle, width: '40px' }}>
+                  <IconButton
+                    size="1"
+                    variant="ghost"
+                    color="gray"
+                    aria-label={allRowsExpanded ? 'Collapse all rows' : 'Expand all rows'}
+                    disabled={paginatedData.length === 0}
+                    onClick={toggleAllRowsExpanded}
+                  >
+                    {allRowsExpanded ? <ChevronDownIcon /> : <ChevronRightIcon />}
+                  </IconButton>
+                </Table.ColumnHeaderCell>
+              )}
               {visibleColumns.map(column => (
                 <Table.ColumnHeaderCell 
                   key={column.key as string}
                   align={column.align}
                   style={{ 
+                    position: 'relative',
+                    ...headerCellStyle,
                     width: column.width,
-                    cursor: column.sortable !== false ? 'pointer' : 'default'
+                    ...getPinnedStyle(column, true),
+                    cursor: column.sortable !== false ? 'pointer' : 'default',
+                    userSelect: 'none', // Shift-click would otherwise select the header text
+                    opacity: draggedColumn === column.key ? 0.5 : undefined
                   }}
-                  onClick={() => column.sortable !== false && handleSort(column.key as string)}
+                  aria-sort={getAriaSort(sort, column.key)}
+                  onClick={(e) => column.sortable !== false && handleSort(column.key as string, e.shiftKey)}
+                  draggable
+                  onDragStart={(e) => handleColumnDragStart(e, column.key)}
+                  onDragOver={(e) => draggedColumn && draggedColumn !== column.key && e.preventDefault()}
+                  onDrop={(e) => handleColumnDrop(e, column.key)}
+                  onDragEnd={() => setDraggedColumn(null)}
                 >
                   <Flex align="center" gap="1">
                     <Text>{column.header}</Text>
                     {column.sortable !== false && getSortIcon(column.key as string)}
                   </Flex>
+                  <Box
+                    role="separator"
+                    aria-orientation="vertical"
+                    aria-label={`Resize ${column.header} column`}
+                    aria-valuenow={parseWidth(column.width) ?? undefined}
+                    tabIndex={0}
+                    onPointerDown={(e) => handleResizeStart(e, column.key)}
+                    onKeyDown={(e) => handleResizeKeyDown(e, column)}
+                    onClick={(e) => e.stopPropagation()}
+                    style={{ position: 'absolute', top: 0, right: 0, bottom: 0, width: '6px', cursor: 'col-resize', touchAction: 'none' }}
+                  />
                 </Table.ColumnHeaderCell>
               ))}
-              {actions && <Table.ColumnHeaderCell style={{ width: '60px' }} />}
+              {actions && <Table.ColumnHeaderCell style={{ ...headerCellStyle, width: '60px' }} />}
             </Table.Row>
           </Table.Header>
 
           <Table.Body>
-            {paginatedData.length === 0 ? (
+            {loading && !keepRows ? (
+              Array.from({ length: Math.min(pageSize, SKELETON_ROWS) }, (_, index) => (
+                <Table.Row key={index}>
+                  {selectable && <Table.Cell />}
+                  {canExpand && <Table.Cell />}
+                  {visibleColumns.map(column => (
+                    <Table.Cell key={column.key as string}>
+                      <Skeleton loading height="16px"><Text size="2">Loading...</Text></Skeleton>
+                    </Table.Cell>
+                  ))}
+                  {actions && <Table.Cell />}
+                </Table.Row>
+              ))
+            ) : error && !keepRows ? (
               <Table.Row>
-                <Table.Cell colSpan={visibleColumns.length + (selectable ? 1 : 0) + (actions ? 1 : 0)}>
+                <Table.Cell colSpan={columnCount}>
+                  <Flex direction="column" align="center" gap="3" style={{ padding: '40px 0' }}>
+                    <Text color="red">{error.message}</Text>
+                    {onRetry && (
+                      <Button size="2" variant="soft" onClick={onRetry}>
+                        <ReloadIcon />
+                        Retry
+                      </Button>
+                    )}
+                  </Flex>
+                </Table.Cell>
+              </Table.Row>
+            ) : displayItems.length === 0 ? (
+              <Table.Row>
+                <Table.Cell colSpan={columnCount}>
                   <Text align="center" color="gray" style={{ padding: '40px 0' }}>
                     {emptyMessage}
                   </Text>
                 </Table.Cell>
               </Table.Row>
             ) : (
-              paginatedData.map((row, index) => (
-                <Table.Row 
-                  key={index}
-                  style={{ cursor: onRowClick ? 'pointer' : 'default' }}
-                  onClick={() => onRowClick?.(row)}
-                >
-                  {selectable && (
-                    <Table.Cell onClick={(e) => e.stopPropagation()}>
-                      <Checkbox 
-                        checked={selectedRows.has(index)}
-                        onCheckedChange={(checked) => handleSelectRow(index, checked as boolean)}
-                      />
-                    </Table.Cell>
-                  )}
-                  {visibleColumns.map(column => {
-                    const value = (column.key as string).includes('.') 
-                      ? (column.key as string).split('.').reduce((obj: any, key: string) => obj?.[key], row)
-                      : row[column.key as keyof T]
-                    
+              <>
+                {windowStart > 0 && <Table.Row aria-hidden style={{ height: windowStart * rowHeight }} />}
+                {displayItems.slice(windowStart, windowEnd).map((item, offset) => {
+                  const position = windowStart + offset;
+                  if (item.type === 'group') {
+                    const { group } = item;
+                    const collapsed = collapsedGroups.has(group.key);
+                    const groupSummary = summary?.groups?.[group.key];
+                    const options = groupColumn?.filter?.type === 'enum' ? groupColumn.filter.options : [];
+                    const label = options.find(option => option.value === group.key)?.label ?? (group.key || '(empty)');
                     return (
-                      <Table.Cell key={column.key as string} align={column.align}>
-                        {column.render ? column.render(value, row) : value?.toString() || '-'}
-                      </Table.Cell>
-                    )
-                  })}
-                  {actions && (
-                    <Table.Cell onClick={(e) => e.stopPropagation()}>
-                      {actions(row)}
+                      <Table.Row
+                        key={`group-${group.key}`}
+                        id={isInfinite ? `${rowIdPrefix}-row-${position}` : undefined}
+                        aria-expanded={!collapsed}
+                        style={{
+                          height: isInfinite ? rowHeight : undefined,
+                          background: position === activeRow ? 'var(--accent-a3)' : 'var(--gray-a2)'
+                        }}
+                        onClick={isInfinite ? () => setActiveRow(position) : undefined}
+                      >
+                        {selectable && <Table.Cell />}
+                        {canExpand && <Table.Cell />}
+                        <Table.Cell
+                          colSpan={groupLabelSpan}
+                          style={groupLabelSpan === 1 && visibleColumns[0] ? getPinnedStyle(visibleColumns[0], false) : undefined}
+                        >
+                          <Flex align="center" gap="2" wrap="nowrap">
+                            <IconButton
+                              size="1"
+                              variant="ghost"
+                              color="gray"
+                              aria-label={`${collapsed ? 'Expand' : 'Collapse'} ${label}`}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                toggleGroup(group.key);
+                              }}
+                            >
+                              {collapsed ? <ChevronRightIcon /> : <ChevronDownIcon />}
+                            </IconButton>
+                            <Text size="2" weight="medium" wrap="nowrap">{groupColumn?.header}: {label}</Text>
+                            <Badge variant="soft" color="gray" size="1">{groupSummary?.count ?? group.rows.length}</Badge>
+                          </Flex>
+                        </Table.Cell>
+                        {visibleColumns.slice(groupLabelSpan).map(column => (
+                          <Table.Cell key={column.key as string} align={column.align} style={getPinnedStyle(column, false)}>
+                            {column.aggregate && groupSummary && (
+                              <Text size="2" weight="medium">{formatAggregate(column, groupSummary.values[column.key])}</Text>
+                            )}
+                          </Table.Cell>
+                        ))}
+                        {actions && <Table.Cell />}
+                      </Table.Row>
+                    );
+                  }
+
+                  const { row, index } = item;
+                  const rowId = canExpand ? getRowId(row) : '';
+                  const isExpanded = canExpand && expandedRowIds.has(rowId);
+                  return (
+                    <Fragment key={index}>
+                      <Table.Row 
+                        id={isInfinite ? `${rowIdPrefix}-row-${position}` : undefined}
+                        style={{
+                          cursor: onRowClick ? 'pointer' : 'default',
+                          height: isInfinite ? rowHeight : undefined,
+                          background: position === activeRow ? 'var(--accent-a3)' : undefined
+                        }}
+                        onClick={() => {
+                          if (isInfinite) setActiveRow(position);
+                          onRowClick?.(row);
+                        }}
+                      >
+                        {selectable && (
+                          <Table.Cell onClick={(e) => e.stopPropagation()}>
+                            <Checkbox 
+                              checked={selectedRows.has(index)}
+                              onCheckedChange={(checked) => handleSelectRow(index, checked as boolean)}
+                            />
+                          </Table.Cell>
+                        )}
+                        {canExpand && (
+                          <Table.Cell onClick={(e) => e.stopPropagation()}>
+                            <IconButton
+                              size="1"
+                              variant="ghost"
+                              color="gray"
+                              aria-label={isExpanded ? 'Collapse row' : 'Expand row'}
+                              aria-expanded={isExpanded}
+                              aria-controls={isExpanded ? `${rowIdPrefix}-details-${index}` : undefined}
+                              onClick={() => toggleRowExpanded(rowId)}
+                            >
+                              {isExpanded ? <ChevronDownIcon /> : <ChevronRightIcon />}
+                            </IconButton>
+                          </Table.Cell>
+                        )}
+                        {visibleColumns.map(column => renderCell(column, row))}
+                        {actions && (
+                          <Table.Cell onClick={(e) => e.stopPropagation()}>
+                            {actions(row)}
+                          </Table.Cell>
+                        )}
+                      </Table.Row>
+                      {isExpanded && (
+                        <Table.Row id={`${rowIdPrefix}-details-${index}`} style={{ background: 'var(--gray-a2)' }}>
+                          <Table.Cell colSpan={columnCount}>
+                            {renderExpanded?.(row)}
+                          </Table.Cell>
+                        </Table.Row>
+                      )}
+                    </Fragment>
+                  );
+                })}
+                {windowEnd < displayItems.length && (
+                  <Table.Row aria-hidden style={{ height: (displayItems.length - windowEnd) * rowHeight }} />
+                )}
+                {keepRows && (loading || error) && (
+                  <Table.Row>
+                    <Table.Cell colSpan={columnCount}>
+                      {error ? (
+                        <Flex align="center" justify="center" gap="3">
+                          <Text size="2" color="red">{error.message}</Text>
+                          {onRetry && (
+                            <Button size="1" variant="soft" onClick={onRetry}>
+                              <ReloadIcon />
+                              Retry
+                            </Button>
+                          )}
+                        </Flex>
+                      ) : (
+                        <Text as="p" size="2" color="gray" align="center">Loading more...</Text>
+                      )}
                     </Table.Cell>
-                  )}
-                </Table.Row>
-              ))
+                  </Table.Row>
+                )}
+                {hasAggregates && summary && (
+                  <Table.Row>
+                    {selectable && <Table.Cell style={footerCellStyle} />}
+                    {canExpand && <Table.Cell style={footerCellStyle} />}
+                    {visibleColumns.map((column, columnIndex) => (
+                      <Table.Cell
+                        key={column.key as string}
+                        align={column.align}
+                        style={{ ...footerCellStyle, ...getPinnedStyle(column, true) }}
+                      >
+                        {column.aggregate ? (
+                          <Text size="2" weight="bold">{formatAggregate(column, summary.totals[column.key])}</Text>
+                        ) : columnIndex === 0 ? (
+                          <Text size="2" weight="bold">Total</Text>
+                        ) : null}
+                      </Table.Cell>
+                    ))}
+                    {actions && <Table.Cell style={footerCellStyle} />}
+                  </Table.Row>
+                )}
+              </>
             )}
           </Table.Body>
         </Table.Root>
       </Box>
 
       {/* Pagination */}
-      <Flex justify="between" align="center">
-        <Flex align="center" gap="2">
-          <Text size="2">Rows per page:</Text>
-          <Select.Root value={pageSize.toString()} onValueChange={(value) => setPageSize(Number(value))}>
-            <Select.Trigger />
-            <Select.Content>
-              <Select.Item value="10">10</Select.Item>
-              <Select.Item value="25">25</Select.Item>
-              <Select.Item value="50">50</Select.Item>
-              <Select.Item value="100">100</Select.Item>
-            </Select.Content>
-          </Select.Root>
-        </Flex>
+      {isInfinite ? (
+        <Text size="2">
+          {sourceRows.length} of {totalRows} rows
+        </Text>
+      ) : (
+        <Flex justify="between" align="center">
+          <Flex align="center" gap="2">
+            <Text size="2">Rows per page:</Text>
+            <Select.Root value={pageSize.toString()} onValueChange={(value) => setPageSize(Number(value))}>
+              <Select.Trigger />
+              <Select.Content>
+                {PAGE_SIZES.map(size => (
+                  <Select.Item key={size} value={size.toString()}>{size}</Select.Item>
+                ))}
+              </Select.Content>
+            </Select.Root>
+          </Flex>
 
-        <Flex align="center" gap="2">
-          <Text size="2">
-            Page {currentPage} of {totalPages} ({sortedData.length} total)
-          </Text>
-          <IconButton 
-            size="2" 
-            variant="soft" 
-            disabled={currentPage === 1}
-            onClick={() => setCurrentPage(prev => prev - 1)}
-          >
-            <ChevronUpIcon style={{ transform: 'rotate(-90deg)' }} />
-          </IconButton>
-          <IconButton 
-            size="2" 
-            variant="soft" 
-            disabled={currentPage === totalPages}
-            onClick={() => setCurrentPage(prev => prev + 1)}
-          >
-            <ChevronUpIcon style={{ transform: 'rotate(90deg)' }} />
-          </IconButton>
+          <Flex align="center" gap="2">
+            <Text size="2">
+              Page {pageNumber} of {totalPages} ({totalRows} total)
+            </Text>
+            <IconButton 
+              size="2" 
+              variant="soft" 
+              disabled={pageNumber === 1}
+              onClick={() => setCurrentPage(pageNumber - 1)}
+            >
+              <ChevronUpIcon style={{ transform: 'rotate(-90deg)' }} />
+            </IconButton>
+            <IconButton 
+              size="2" 
+              variant="soft" 
+              disabled={pageNumber >= totalPages}
+              onClick={() => setCurrentPage(pageNumber + 1)}
+            >
+              <ChevronUpIcon style={{ transform: 'rotate(90deg)' }} />
+            </IconButton>
+          </Flex>
         </Flex>
-      </Flex>
+      )}
 
       {/* Column Toggle Dialog */}
       <Dialog.Root open={showColumnDialog} onOpenChange={setShowColumnDialog}>
         <Dialog.Content maxWidth="450px">
           <Dialog.Title>Toggle Columns</Dialog.Title>
           <Dialog.Description size="2" mb="4">
-            Show or hide columns in the table
+            Show, hide, pin or reorder columns in the table
           </Dialog.Description>
           
           <ScrollArea height="300px">
             <Flex direction="column" gap="2">
-              {columns.map(column => (
-                <Flex key={column.key as string} align="center" justify="between" p="2">
-                  <Text size="2">{column.header}</Text>
-                  <Checkbox
-                    checked={!column.hidden}
-                    onCheckedChange={() => toggleColumn(column.key as string)}
-                  />
-                </Flex>
-              ))}
+              {columns.map((column, index) => {
+                // Columns move within their group (left-pinned, unpinned or right-pinned); pinning moves between groups
+                const previous = columns[index - 1];
+                const next = columns[index + 1];
+                const sameGroup = (other?: Column<T>) => !!other && (other.pinned ?? null) === (column.pinned ?? null);
+
+                return (
+                  <Flex key={column.key as string} align="center" justify="between" gap="2" p="2">
+                    <Text size="2">{column.header}</Text>
+                    <Flex align="center" gap="2">
+                      <Select.Root
+                        size="1"
+                        value={column.pinned ?? 'none'}
+                        onValueChange={(value) => pinColumn(column.key, value === 'none' ? null : value as 'left' | 'right')}
+                      >
+                        <Select.Trigger aria-label={`Pin ${column.header}`} />
+                        <Select.Content>
+                          <Select.Item value="none">Not pinned</Select.Item>
+                          <Select.Item value="left">Pinned left</Select.Item>
+                          <Select.Item value="right">Pinned right</Select.Item>
+                        </Select.Content>
+                      </Select.Root>
+                      <IconButton
+                        size="1"
+                        variant="ghost"
+                        aria-label={`Move ${column.header} up`}
+                        disabled={!sameGroup(previous)}
+                        onClick={() => moveColumn(column.key, previous.key)}
+                      >
+                        <ArrowUpIcon />
+                      </IconButton>
+                      <IconButton
+                        size="1"
+                        variant="ghost"
+                        aria-label={`Move ${column.header} down`}
+                        disabled={!sameGroup(next)}
+                        onClick={() => moveColumn(column.key, next.key)}
+                      >
+                        <ArrowDownIcon />
+                      </IconButton>
+                      <Checkbox
+                        checked={!column.hidden}
+                        onCheckedChange={() => toggleColumn(column.key as string)}
+                      />
+                    </Flex>
+                  </Flex>
+                );
+              })}
             </Flex>
           </ScrollArea>
           
           <Flex gap="3" mt="4" justify="end">
+            <Button variant="soft" color="gray" onClick={() => setColumns(arrangeColumns(initialColumns))}>
+              <ResetIcon />
+              Reset
+            </Button>
             <Dialog.Close>
               <Button variant="soft" color="gray">Close</Button>
             </Dialog.Close>
@@ -553,6 +2307,209 @@ function DataTable<T extends Record<string, any>>({
   )
 }
 
+/**
+ * @interface CellEditorProps
+ * @description Props for the CellEditor component.
+ * @property {ColumnEditor} editor - The column's editor.
+ * @property {any} value - The cell value (edited or not).
+ * @property {string} label - The accessible name of the field (the column header).
+ * @property {(value: any) => void} onCommit - Applies the value entered.
+ * @property {() => void} onClose - Closes the editor without applying anything.
+ */
+interface CellEditorProps {
+  editor: ColumnEditor;
+  value: any;
+  label: string;
+  onCommit: (value: any) => void;
+  onClose: () => void;
+}
+
+/**
+ * @function CellEditor
+ * @description The editor of a cell being edited inline: a text or number field (Enter or leaving the field applies
+ * the value, Escape closes it without applying) or a select, open from the start (choosing an option applies it).
+ * @param {CellEditorProps} props - The props for the component.
+ * @returns {JSX.Element | null} The rendered editor (null for toggles, which are edited with a switch in the cell).
+ */
+function CellEditor({ editor, value, label, onCommit, onClose }: CellEditorProps) {
+  const [draft, setDraft] = useState(value === null || value === undefined || Number.isNaN(value) ? '' : String(value));
+  const isDoneRef = useRef(false); // Applying or closing unmounts the field, which may blur it once more
+
+  const finish = (apply: boolean) => {
+    if (isDoneRef.current) return;
+    isDoneRef.current = true;
+    if (!apply) {
+      onClose();
+    } else if (editor.type === 'number') {
+      onCommit(draft.trim() === '' ? null : Number(draft));
+    } else {
+      onCommit(draft);
+    }
+  };
+
+  if (editor.type === 'toggle') return null;
+
+  if (editor.type === 'select') {
+    return (
+      <Select.Root
+        size="1"
+        defaultOpen
+        value={value === null || value === undefined ? undefined : String(value)}
+        onValueChange={onCommit}
+        onOpenChange={(open) => !open && onClose()}
+      >
+        <Select.Trigger aria-label={label} />
+        <Select.Content>
+          {editor.options.map(option => (
+            <Select.Item key={option.value} value={option.value}>{option.label}</Select.Item>
+          ))}
+        </Select.Content>
+      </Select.Root>
+    );
+  }
+
+  return (
+    <TextField.Root
+      size="1"
+      type={editor.type === 'number' ? 'number' : 'text'}
+      step={editor.type === 'number' ? editor.step : undefined}
+      value={draft}
+      aria-label={label}
+      autoFocus
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => finish(true)}
+      onKeyDown={(e) => {
+        e.stopPropagation(); // Keys typed in the field are not table shortcuts
+        if (e.key === 'Enter') finish(true);
+        else if (e.key === 'Escape') finish(false);
+      }}
+    />
+  );
+}
+
+/**
+ * @interface ViewsMenuProps
+ * @description Props for the ViewsMenu component.
+ * @property {DataTableViews} views - The table's stored views.
+ * @property {{ id: string | null; name: string } | null} activeView - The saved or shared view shown, if any.
+ * @property {(view: DataTableSavedView) => void} onApply - Shows a saved view.
+ * @property {(name: string) => void} onSave - Saves the current view under a name.
+ * @property {(id: string, change: 'update' | 'delete' | { name: string }) => void} onChange - Updates, renames or deletes a saved view.
+ * @property {(id: string | null) => void} onSetDefault - Sets the default view (null: none).
+ * @property {(view: DataTableSavedView | null) => void} onShare - Copies a link to a saved view (null: the current view).
+ * @property {() => void} onReset - Goes back to the initial view.
+ */
+interface ViewsMenuProps {
+  views: DataTableViews;
+  activeView: { id: string | null; name: string } | null;
+  onApply: (view: DataTableSavedView) => void;
+  onSave: (name: string) => void;
+  onChange: (id: string, change: 'update' | 'delete' | { name: string }) => void;
+  onSetDefault: (id: string | null) => void;
+  onShare: (view: DataTableSavedView | null) => void;
+  onReset: () => void;
+}
+
+/**
+ * @function ViewsMenu
+ * @description The "Views" menu of a table with a `viewId`: lists the saved views, and saves, renames, shares,
+ * deletes and sets the default view, with a dialog for entering names.
+ * @param {ViewsMenuProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered menu.
+ */
+function ViewsMenu({ views, activeView, onApply, onSave, onChange, onSetDefault, onShare, onReset }: ViewsMenuProps) {
+  // The name being entered, for a new view (no id) or to rename a saved one
+  const [naming, setNaming] = useState<{ id: string | null; name: string } | null>(null);
+
+  const handleSubmitName = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!naming) return;
+    const name = naming.name.trim();
+    if (!name) return;
+    if (naming.id) {
+      onChange(naming.id, { name });
+    } else {
+      onSave(name);
+    }
+    setNaming(null);
+  };
+
+  return (
+    <>
+      <DropdownMenu.Root>
+        <DropdownMenu.Trigger>
+          <Button variant="soft" size="2">
+            <BookmarkIcon />
+            {activeView?.name ?? 'Views'}
+          </Button>
+        </DropdownMenu.Trigger>
+        <DropdownMenu.Content>
+          {views.views.length === 0 && (
+            <DropdownMenu.Item disabled>No saved views</DropdownMenu.Item>
+          )}
+          {views.views.map(view => (
+            <DropdownMenu.Sub key={view.id}>
+              <DropdownMenu.SubTrigger>
+                <Flex align="center" gap="2">
+                  {activeView?.id === view.id ? <CheckIcon /> : <Box style={{ width: '15px' }} />}
+                  {view.name}
+                  {views.defaultViewId === view.id && <StarFilledIcon aria-label="Default view" />}
+                </Flex>
+              </DropdownMenu.SubTrigger>
+              <DropdownMenu.SubContent>
+                <DropdownMenu.Item onClick={() => onApply(view)}>Show</DropdownMenu.Item>
+                <DropdownMenu.Item onClick={() => onChange(view.id, 'update')}>Save current view here</DropdownMenu.Item>
+                <DropdownMenu.Item onClick={() => setNaming({ id: view.id, name: view.name })}>Rename...</DropdownMenu.Item>
+                {views.defaultViewId === view.id ? (
+                  <DropdownMenu.Item onClick={() => onSetDefault(null)}>Remove as default</DropdownMenu.Item>
+                ) : (
+                  <DropdownMenu.Item onClick={() => onSetDefault(view.id)}>Set as default</DropdownMenu.Item>
+                )}
+                <DropdownMenu.Item onClick={() => onShare(view)}>Copy link</DropdownMenu.Item>
+                <DropdownMenu.Separator />
+                <DropdownMenu.Item color="red" onClick={() => onChange(view.id, 'delete')}>Delete</DropdownMenu.Item>
+              </DropdownMenu.SubContent>
+            </DropdownMenu.Sub>
+          ))}
+          <DropdownMenu.Separator />
+          <DropdownMenu.Item onClick={() => setNaming({ id: null, name: activeView?.id === null ? activeView.name : '' })}>
+            Save current view...
+          </DropdownMenu.Item>
+          <DropdownMenu.Item onClick={() => onShare(null)}>Copy link to current view</DropdownMenu.Item>
+          <DropdownMenu.Item onClick={onReset}>Reset view</DropdownMenu.Item>
+        </DropdownMenu.Content>
+      </DropdownMenu.Root>
+
+      <Dialog.Root open={naming !== null} onOpenChange={(open) => !open && setNaming(null)}>
+        <Dialog.Content maxWidth="400px">
+          <Dialog.Title>{naming?.id ? 'Rename View' : 'Save View'}</Dialog.Title>
+          <Dialog.Description size="2" mb="4">
+            {naming?.id
+              ? 'Enter a new name for the view.'
+              : 'Save the current columns, sort, page size, search and filters as a view.'}
+          </Dialog.Description>
+
+          <form onSubmit={handleSubmitName}>
+            <TextField.Root
+              placeholder="e.g., My pending orders"
+              value={naming?.name ?? ''}
+              onChange={(e) => setNaming(previous => previous && { ...previous, name: e.target.value })}
+              autoFocus
+            />
+
+            <Flex gap="3" mt="4" justify="end">
+              <Dialog.Close>
+                <Button type="button" variant="soft" color="gray">Cancel</Button>
+              </Dialog.Close>
+              <Button type="submit" disabled={!naming?.name.trim()}>Save</Button>
+            </Flex>
+          </form>
+        </Dialog.Content>
+      </Dialog.Root>
+    </>
+  )
+}
+
 export default memo(DataTable) as <T extends Record<string, any>>(
   props: DataTableProps<T>
 ) => JSX.Element;
\ No newline at end of file
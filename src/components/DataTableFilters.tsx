@@ -0,0 +1,451 @@
+/**
+ * @file DataTableFilters.tsx
+ * @description This file defines the filter bar of the DataTable component. It shows one chip per filter
+ * condition (edited in a popover), a menu to add a condition on a filterable column, the choice between
+ * matching all or any of the conditions, and an advanced builder dialog that edits all conditions at once.
+ * The filter model itself lives in `lib/table-filters.ts`.
+ */
+import { useState } from 'react'
+import {
+  Flex,
+  Box,
+  Text,
+  Button,
+  IconButton,
+  Checkbox,
+  Select,
+  TextField,
+  Popover,
+  DropdownMenu,
+  Dialog,
+  Card
+} from '@radix-ui/themes'
+import { PlusIcon, Cross2Icon, MixerHorizontalIcon, TrashIcon } from '@radix-ui/react-icons'
+import {
+  EMPTY_FILTER,
+  createCondition,
+  isConditionActive,
+  parseRegex,
+  type ColumnFilterConfig,
+  type FilterCondition,
+  type FilterGroup
+} from '../lib/table-filters'
+
+/**
+ * @interface FilterableColumn
+ * @description A column that can be filtered.
+ * @property {string} key - The column key.
+ * @property {string} header - The column header, used to describe its conditions.
+ * @property {ColumnFilterConfig} filter - How the column can be filtered.
+ */
+export interface FilterableColumn {
+  key: string;
+  header: string;
+  filter: ColumnFilterConfig;
+}
+
+/**
+ * @function describeCondition
+ * @description Describes a condition for its chip and in exports (e.g., "Status: Pending, Shipped" or "Amount ≥ 100").
+ * @param {FilterCondition} condition - The condition.
+ * @param {FilterableColumn} column - The column it applies to.
+ * @returns {string} The description.
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export const describeCondition = (condition: FilterCondition, column: FilterableColumn): string => {
+  const { header } = column;
+  if (!isConditionActive(condition)) return `${header}: any`;
+
+  switch (condition.type) {
+    case 'enum': {
+      const options = column.filter.type === 'enum' ? column.filter.options : [];
+      const labels = condition.values.map(value => options.find(option => option.value === value)?.label ?? value);
+      return `${header}: ${labels.join(', ')}`;
+    }
+    case 'number':
+      if (condition.min !== undefined && condition.max !== undefined) return `${header}: ${condition.min} – ${condition.max}`;
+      return condition.min !== undefined ? `${header} ≥ ${condition.min}` : `${header} ≤ ${condition.max}`;
+    case 'date':
+      if (condition.from && condition.to) return `${header}: ${condition.from} – ${condition.to}`;
+      return condition.from ? `${header}: from ${condition.from}` : `${header}: until ${condition.to}`;
+    case 'text':
+      return condition.operator === 'regex' ? `${header} matches /${condition.value}/` : `${header} contains "${condition.value}"`;
+    case 'boolean':
+      return `${header}: ${condition.value ? 'Yes' : 'No'}`;
+  }
+};
+
+/**
+ * @function toNumber
+ * @description Reads a number input; an empty input means no bound.
+ * @param {string} value - The input value.
+ * @returns {number | undefined} The number, or undefined.
+ */
+const toNumber = (value: string): number | undefined => (value === '' ? undefined : Number(value));
+
+/**
+ * @interface FilterConditionEditorProps
+ * @description Props for the FilterConditionEditor component.
+ * @property {FilterCondition} condition - The condition being edited.
+ * @property {FilterableColumn} column - The column it applies to.
+ * @property {(condition: FilterCondition) => void} onChange - Called with the edited condition.
+ */
+interface FilterConditionEditorProps {
+  condition: FilterCondition;
+  column: FilterableColumn;
+  onChange: (condition: FilterCondition) => void;
+}
+
+/**
+ * @function FilterConditionEditor
+ * @description Edits the value of a condition, with inputs suited to its type.
+ * @param {FilterConditionEditorProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered editor.
+ */
+function FilterConditionEditor({ condition, column, onChange }: FilterConditionEditorProps) {
+  switch (condition.type) {
+    case 'enum': {
+      const options = column.filter.type === 'enum' ? column.filter.options : [];
+      return (
+        <Flex direction="column" gap="2">
+          {options.map(option => (
+            <Text as="label" size="2" key={option.value}>
+              <Flex gap="2" align="center">
+                <Checkbox
+                  checked={condition.values.includes(option.value)}
+                  onCheckedChange={(checked) => onChange({
+                    ...condition,
+                    values: checked
+                      ? [...condition.values, option.value]
+                      : condition.values.filter(value => value !== option.value)
+                  })}
+                />
+                {option.label}
+              </Flex>
+            </Text>
+          ))}
+        </Flex>
+      )
+    }
+    case 'number':
+      return (
+        <Flex gap="2">
+          <TextField.Root
+            type="number"
+            placeholder="Min"
+            aria-label={`${column.header} minimum`}
+            value={condition.min ?? ''}
+            onChange={(e) => onChange({ ...condition, min: toNumber(e.target.value) })}
+          />
+          <TextField.Root
+            type="number"
+            placeholder="Max"
+            aria-label={`${column.header} maximum`}
+            value={condition.max ?? ''}
+            onChange={(e) => onChange({ ...condition, max: toNumber(e.target.value) })}
+          />
+        </Flex>
+      )
+    case 'date':
+      return (
+        <Flex gap="2">
+          <TextField.Root
+            type="date"
+            aria-label={`${column.header} from`}
+            value={condition.from ?? ''}
+            onChange={(e) => onChange({ ...condition, from: e.target.value || undefined })}
+          />
+          <TextField.Root
+            type="date"
+            aria-label={`${column.header} to`}
+            value={condition.to ?? ''}
+            onChange={(e) => onChange({ ...condition, to: e.target.value || undefined })}
+          />
+        </Flex>
+      )
+    case 'text':
+      return (
+        <Flex direction="column" gap="2">
+          <Flex gap="2">
+            <Select.Root
+              value={condition.operator}
+              onValueChange={(value) => onChange({ ...condition, operator: value as 'contains' | 'regex' })}
+            >
+              <Select.Trigger aria-label={`${column.header} operator`} />
+              <Select.Content>
+                <Select.Item value="contains">Contains</Select.Item>
+                <Select.Item value="regex">Matches regex</Select.Item>
+              </Select.Content>
+            </Select.Root>
+            <TextField.Root
+              placeholder={condition.operator === 'regex' ? 'e.g., ^ORD-1' : 'Text'}
+              aria-label={`${column.header} value`}
+              value={condition.value}
+              onChange={(e) => onChange({ ...condition, value: e.target.value })}
+            />
+          </Flex>
+          {condition.operator === 'regex' && condition.value && !parseRegex(condition.value) && (
+            <Text size="1" color="red">Invalid or too complex regular expression</Text>
+          )}
+        </Flex>
+      )
+    case 'boolean':
+      return (
+        <Select.Root
+          value={String(condition.value)}
+          onValueChange={(value) => onChange({ ...condition, value: value === 'true' })}
+        >
+          <Select.Trigger aria-label={column.header} />
+          <Select.Content>
+            <Select.Item value="true">Yes</Select.Item>
+            <Select.Item value="false">No</Select.Item>
+          </Select.Content>
+        </Select.Root>
+      )
+  }
+}
+
+/**
+ * @interface FilterBuilderProps
+ * @description Props for the FilterBuilder component.
+ * @property {FilterableColumn[]} columns - The filterable columns.
+ * @property {FilterGroup} filter - The filter to start from.
+ * @property {(filter: FilterGroup) => void} onApply - Called with the edited filter when the user applies it.
+ */
+interface FilterBuilderProps {
+  columns: FilterableColumn[];
+  filter: FilterGroup;
+  onApply: (filter: FilterGroup) => void;
+}
+
+/**
+ * @function FilterBuilder
+ * @description The content of the advanced filter dialog: edits a copy of the filter (all conditions, any number
+ * per column, and whether all or any must match), applied only when the user confirms.
+ * @param {FilterBuilderProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered builder.
+ */
+function FilterBuilder({ columns, filter, onApply }: FilterBuilderProps) {
+  const [draft, setDraft] = useState(filter);
+
+  const updateCondition = (index: number, condition: FilterCondition) =>
+    setDraft(previous => ({ ...previous, conditions: previous.conditions.map((c, i) => (i === index ? condition : c)) }));
+
+  return (
+    <Flex direction="column" gap="3">
+      <Flex align="center" gap="2">
+        <Text size="2">Show rows that match</Text>
+        <Select.Root
+          size="1"
+          value={draft.combinator}
+          onValueChange={(value) => setDraft(previous => ({ ...previous, combinator: value as 'and' | 'or' }))}
+        >
+          <Select.Trigger />
+          <Select.Content>
+            <Select.Item value="and">all</Select.Item>
+            <Select.Item value="or">any</Select.Item>
+          </Select.Content>
+        </Select.Root>
+        <Text size="2">of these conditions:</Text>
+      </Flex>
+
+      {draft.conditions.length === 0 && (
+        <Text size="2" color="gray">No conditions: all rows are shown.</Text>
+      )}
+
+      {draft.conditions.map((condition, index) => {
+        const column = columns.find(col => col.key === condition.key);
+        if (!column) return null;
+        return (
+          <Card key={index} variant="surface">
+            <Flex direction="column" gap="2">
+              <Flex justify="between" align="center" gap="2">
+                <Select.Root
+                  size="1"
+                  value={condition.key}
+                  onValueChange={(key) => {
+                    const next = columns.find(col => col.key === key);
+                    if (next) updateCondition(index, createCondition(next.key, next.filter));
+                  }}
+                >
+                  <Select.Trigger aria-label="Column" />
+                  <Select.Content>
+                    {columns.map(col => (
+                      <Select.Item key={col.key} value={col.key}>{col.header}</Select.Item>
+                    ))}
+                  </Select.Content>
+                </Select.Root>
+                <IconButton
+                  size="1"
+                  variant="ghost"
+                  color="red"
+                  aria-label={`Remove condition on ${column.header}`}
+                  onClick={() => setDraft(previous => ({ ...previous, conditions: previous.conditions.filter((_, i) => i !== index) }))}
+                >
+                  <TrashIcon />
+                </IconButton>
+              </Flex>
+              <FilterConditionEditor
+                condition={condition}
+                column={column}
+                onChange={(next) => updateCondition(index, next)}
+              />
+            </Flex>
+          </Card>
+        );
+      })}
+
+      <Box>
+        <Button
+          size="1"
+          variant="soft"
+          onClick={() => setDraft(previous => ({
+            ...previous,
+            conditions: [...previous.conditions, createCondition(columns[0].key, columns[0].filter)]
+          }))}
+        >
+          <PlusIcon />
+          Add condition
+        </Button>
+      </Box>
+
+      <Flex gap="3" mt="2" justify="end">
+        <Dialog.Close>
+          <Button variant="soft" color="gray">Cancel</Button>
+        </Dialog.Close>
+        <Dialog.Close>
+          <Button onClick={() => onApply(draft)}>Apply</Button>
+        </Dialog.Close>
+      </Flex>
+    </Flex>
+  )
+}
+
+/**
+ * @interface DataTableFilterBarProps
+ * @description Props for the DataTableFilterBar component.
+ * @property {FilterableColumn[]} columns - The filterable columns (at least one).
+ * @property {FilterGroup} filter - The current filter.
+ * @property {(filter: FilterGroup) => void} onChange - Called with the changed filter.
+ */
+interface DataTableFilterBarProps {
+  columns: FilterableColumn[];
+  filter: FilterGroup;
+  onChange: (filter: FilterGroup) => void;
+}
+
+/**
+ * @function DataTableFilterBar
+ * @description A component that shows and edits the filter of a DataTable.
+ * @param {DataTableFilterBarProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered filter bar.
+ */
+export default function DataTableFilterBar({ columns, filter, onChange }: DataTableFilterBarProps) {
+  const [openCondition, setOpenCondition] = useState<number | null>(null); // The condition whose popover is open
+  const [showBuilder, setShowBuilder] = useState(false);
+
+  const handleAdd = (column: FilterableColumn) => {
+    onChange({ ...filter, conditions: [...filter.conditions, createCondition(column.key, column.filter)] });
+    setOpenCondition(filter.conditions.length); // Open the new condition for editing
+  };
+
+  const handleRemove = (index: number) => {
+    onChange({ ...filter, conditions: filter.conditions.filter((_, i) => i !== index) });
+    setOpenCondition(null);
+  };
+
+  return (
+    <Flex align="center" gap="2" wrap="wrap">
+      {filter.conditions.length > 1 && (
+        <Select.Root
+          size="1"
+          value={filter.combinator}
+          onValueChange={(value) => onChange({ ...filter, combinator: value as 'and' | 'or' })}
+        >
+          <Select.Trigger aria-label="Combine filters" />
+          <Select.Content>
+            <Select.Item value="and">Match all</Select.Item>
+            <Select.Item value="or">Match any</Select.Item>
+          </Select.Content>
+        </Select.Root>
+      )}
+
+      {filter.conditions.map((condition, index) => {
+        const column = columns.find(col => col.key === condition.key);
+        if (!column) return null;
+        return (
+          <Flex key={index} align="center" gap="1">
+            <Popover.Root
+              open={openCondition === index}
+              onOpenChange={(open) => setOpenCondition(open ? index : null)}
+            >
+              <Popover.Trigger>
+                <Button size="1" variant={isConditionActive(condition) ? 'soft' : 'outline'}>
+                  {describeCondition(condition, column)}
+                </Button>
+              </Popover.Trigger>
+              <Popover.Content style={{ minWidth: '240px' }}>
+                <FilterConditionEditor
+                  condition={condition}
+                  column={column}
+                  onChange={(next) => onChange({
+                    ...filter,
+                    conditions: filter.conditions.map((c, i) => (i === index ? next : c))
+                  })}
+                />
+              </Popover.Content>
+            </Popover.Root>
+            <IconButton
+              size="1"
+              variant="ghost"
+              color="gray"
+              aria-label={`Remove filter on ${column.header}`}
+              onClick={() => handleRemove(index)}
+            >
+              <Cross2Icon />
+            </IconButton>
+          </Flex>
+        );
+      })}
+
+      <DropdownMenu.Root>
+        <DropdownMenu.Trigger>
+          <Button size="1" variant="ghost">
+            <PlusIcon />
+            Add filter
+          </Button>
+        </DropdownMenu.Trigger>
+        {/* Focus stays put on close, so it does not dismiss the popover opened for the new condition */}
+        <DropdownMenu.Content onCloseAutoFocus={(e) => e.preventDefault()}>
+          {columns.map(column => (
+            <DropdownMenu.Item key={column.key} onClick={() => handleAdd(column)}>
+              {column.header}
+            </DropdownMenu.Item>
+          ))}
+        </DropdownMenu.Content>
+      </DropdownMenu.Root>
+
+      <Button size="1" variant="ghost" onClick={() => setShowBuilder(true)}>
+        <MixerHorizontalIcon />
+        Advanced
+      </Button>
+
+      {filter.conditions.length > 0 && (
+        <Button size="1" variant="ghost" color="gray" onClick={() => onChange(EMPTY_FILTER)}>
+          Clear filters
+        </Button>
+      )}
+
+      <Dialog.Root open={showBuilder} onOpenChange={setShowBuilder}>
+        <Dialog.Content maxWidth="560px">
+          <Dialog.Title>Filter Rows</Dialog.Title>
+          <Dialog.Description size="2" mb="4">
+            Combine conditions on any column
+          </Dialog.Description>
+          {/* Mounted with the dialog, so every opening starts from the current filter */}
+          <FilterBuilder columns={columns} filter={filter} onApply={onChange} />
+        </Dialog.Content>
+      </Dialog.Root>
+    </Flex>
+  )
+}
@@ -0,0 +1,53 @@
+/**
+ * @file SessionTimeoutDialog.tsx
+ * @description This file defines the dialog that warns the user before they are signed out for inactivity.
+ * It counts down the remaining time and lets the user stay signed in or sign out right away.
+ * The timeout itself is enforced by `AuthProvider`; this component only displays its state.
+ */
+import { AlertDialog, Flex, Button, Text } from '@radix-ui/themes'
+import { useAuth } from '../lib/auth-context'
+
+/**
+ * @function formatCountdown
+ * @description Formats a duration as `m:ss`.
+ * @param {number} milliseconds - The duration.
+ * @returns {string} The formatted duration.
+ */
+const formatCountdown = (milliseconds: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * @function SessionTimeoutDialog
+ * @description A component that shows the inactivity warning while `useAuth().idleTimeRemaining` is set.
+ * Render it once, inside the Radix `Theme`.
+ * @returns {JSX.Element} The rendered dialog (closed when no warning is pending).
+ */
+export default function SessionTimeoutDialog() {
+  const { idleTimeRemaining, stayActive, logout } = useAuth();
+  const isOpen = idleTimeRemaining !== null;
+
+  return (
+    // Controlled without `onOpenChange`: only the buttons (or activity in another tab) close the warning
+    <AlertDialog.Root open={isOpen}>
+      <AlertDialog.Content maxWidth="420px">
+        <AlertDialog.Title>Are you still there?</AlertDialog.Title>
+        <AlertDialog.Description size="2">
+          For your security, you will be signed out in{' '}
+          <Text weight="bold" style={{ fontVariantNumeric: 'tabular-nums' }}>
+            {formatCountdown(idleTimeRemaining ?? 0)}
+          </Text>{' '}
+          because of inactivity.
+        </AlertDialog.Description>
+
+        <Flex gap="3" mt="4" justify="end">
+          <Button variant="soft" color="gray" onClick={logout}>Sign out</Button>
+          <Button onClick={stayActive}>Stay signed in</Button>
+        </Flex>
+      </AlertDialog.Content>
+    </AlertDialog.Root>
+  )
+}
@@ -511,22 +511,26 @@ export function EnhancedSwitch({
  * @description A collection of common validation functions.
  * Each validator function takes a value and returns an error message string if validation fails,
  * or undefined if it passes.
- * @property {(value: any) => string | undefined} required - Checks if a value is present.
+ * @property {(value: any) => string | undefined} required - Checks if a value is present (0 counts as present).
  * @property {(value: string) => string | undefined} email - Validates email format.
  * @property {(min: number) => (value: string) => string | undefined} minLength - Checks for minimum string length.
  * @property {(max: number) => (value: string) => string | undefined} maxLength - Checks for maximum string length.
  * @property {(pattern: RegExp, message: string) => (value: string) => string | undefined} pattern - Validates against a regex pattern.
+ * @property {(min: number) => (value: number | string) => string | undefined} min - Checks for a minimum number.
+ * @property {(max: number) => (value: number | string) => string | undefined} max - Checks for a maximum number.
+ * @property {(value: number | string) => string | undefined} integer - Checks for a whole number.
  */
 // eslint-disable-next-line react-refresh/only-export-components
 export const validators = {
   /**
    * @function required
-   * @description Checks if a value is provided (not empty, null, or undefined).
+   * @description Checks if a value is provided (not empty, null, or undefined). Numbers count as provided, 0
+   * included; an unchecked checkbox (false) does not.
    * @param {any} value - The value to validate.
    * @returns {string | undefined} Error message or undefined.
    */
   required: (value: any): string | undefined => {
-    if (!value || (typeof value === 'string' && !value.trim())) {
+    if (typeof value === 'number' ? isNaN(value) : !value || (typeof value === 'string' && !value.trim())) {
       return 'This field is required';
     }
     return undefined;
@@ -583,6 +587,47 @@ export const validators = {
       return message;
     }
     return undefined;
+  },
+
+  /**
+   * @function min
+   * @description Creates a validator to check if a number is not below a minimum. Empty values pass (combine with
+   * `required`).
+   * @param {number} min - The minimum allowed value.
+   * @returns {(value: number | string) => string | undefined} A validator function.
+   */
+  min: (min: number) => (value: number | string): string | undefined => {
+    if (value !== null && value !== undefined && value !== '' && Number(value) < min) {
+      return `Must be at least ${min}`;
+    }
+    return undefined;
+  },
+
+  /**
+   * @function max
+   * @description Creates a validator to check if a number does not exceed a maximum. Empty values pass (combine with
+   * `required`).
+   * @param {number} max - The maximum allowed value.
+   * @returns {(value: number | string) => string | undefined} A validator function.
+   */
+  max: (max: number) => (value: number | string): string | undefined => {
+    if (value !== null && value !== undefined && value !== '' && Number(value) > max) {
+      return `Must be no more than ${max}`;
+    }
+    return undefined;
+  },
+
+  /**
+   * @function integer
+   * @description Checks if a number is a whole number. Empty values pass (combine with `required`).
+   * @param {number | string} value - The number to validate.
+   * @returns {string | undefined} Error message or undefined.
+   */
+  integer: (value: number | string): string | undefined => {
+    if (value !== null && value !== undefined && value !== '' && !Number.isInteger(Number(value))) {
+      return 'Must be a whole number';
+    }
+    return undefined;
   }
 };
 
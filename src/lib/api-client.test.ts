@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { ApiClient } from './api-client';
+
+/**
+ * A fetch whose response headers arrive at once but whose body never does, until the request is aborted.
+ */
+const stalledBodyFetch = (async (_url: RequestInfo | URL, init?: RequestInit) => ({
+  ok: true,
+  status: 200,
+  statusText: 'OK',
+  headers: new Headers({ 'content-type': 'application/json' }),
+  text: () => new Promise<string>((_resolve, reject) => {
+    const abort = () => reject(new DOMException('The operation was aborted.', 'AbortError'));
+    if (init?.signal?.aborted) abort();
+    else init?.signal?.addEventListener('abort', abort);
+  }),
+})) as unknown as typeof fetch;
+
+describe('ApiClient', () => {
+  it('times out when the response body stalls', async () => {
+    const client = new ApiClient({ fetch: stalledBodyFetch, timeout: 20, getToken: () => null });
+    await expect(client.get('/api/orders')).rejects.toMatchObject({ code: 'TIMEOUT' });
+  });
+
+  it('reports a cancelled request when the body is aborted by the caller', async () => {
+    const client = new ApiClient({ fetch: stalledBodyFetch, timeout: 0, getToken: () => null });
+    const controller = new AbortController();
+    const request = client.get('/api/orders', undefined, { signal: controller.signal });
+    controller.abort();
+    await expect(request).rejects.toMatchObject({ code: 'ABORTED' });
+  });
+
+  it('keeps the parse error of an invalid JSON body', async () => {
+    const fetchImpl = (async () => new Response('{', { headers: { 'content-type': 'application/json' } })) as typeof fetch;
+    const client = new ApiClient({ fetch: fetchImpl, getToken: () => null });
+    await expect(client.get('/api/orders')).rejects.toMatchObject({ code: 'PARSE_ERROR' });
+  });
+});
@@ -0,0 +1,462 @@
+/**
+ * @file api-client.ts
+ * @description Defines a typed HTTP client used by every page and context that talks to the backend.
+ * It is built on the `RequestConfig`, `ApiResponse` and `ApiError` types from `src/types` and provides:
+ * - Bearer token injection from `storage.auth.getToken()`.
+ * - Query string serialization of `params`.
+ * - Request timeouts implemented with `AbortController`.
+ * - A single retry with a refreshed access token when a request fails with 401.
+ * - Normalization of every failure (network, timeout, HTTP status, API envelope) into an `ApiError`.
+ */
+import type { ApiError, ApiResponse, RequestConfig } from '../types';
+import { storage } from './secure-storage';
+
+/**
+ * @const DEFAULT_TIMEOUT
+ * @description Default request timeout in milliseconds, used when `RequestConfig.timeout` is not set.
+ */
+const DEFAULT_TIMEOUT = 30 * 1000; // 30 seconds
+
+/**
+ * @class ApiClientError
+ * @description Error thrown by the API client. Implements the `ApiError` contract so callers
+ * can treat it as plain data, while still being a real `Error` with a stack trace.
+ * @property {string | number} [code] - HTTP status code, API error code, or one of `TIMEOUT`, `ABORTED`, `NETWORK_ERROR`, `PARSE_ERROR`.
+ * @property {any} [details] - The parsed response body or underlying error, if any.
+ * @property {string} timestamp - ISO date string of when the error was created.
+ * @property {number} [status] - The HTTP status code, when a response was received.
+ */
+export class ApiClientError extends Error implements ApiError {
+  code?: string | number;
+  details?: any;
+  timestamp: string;
+  status?: number;
+
+  constructor(message: string, options: { code?: string | number; details?: any; status?: number } = {}) {
+    super(message);
+    this.name = 'ApiClientError';
+    this.code = options.code;
+    this.details = options.details;
+    this.status = options.status;
+    this.timestamp = new Date().toISOString();
+  }
+
+  /**
+   * @function toJSON
+   * @description Returns the plain `ApiError` representation of this error.
+   * @returns {ApiError} The serializable error object.
+   */
+  toJSON(): ApiError {
+    return {
+      message: this.message,
+      code: this.code,
+      details: this.details,
+      timestamp: this.timestamp,
+    };
+  }
+}
+
+/**
+ * @function isApiError
+ * @description Type guard that checks whether a value satisfies the `ApiError` shape.
+ * @param {unknown} error - The value to check.
+ * @returns {error is ApiError} True if the value has a string `message` and `timestamp`.
+ */
+export const isApiError = (error: unknown): error is ApiError => {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    typeof (error as ApiError).message === 'string' &&
+    typeof (error as ApiError).timestamp === 'string'
+  );
+};
+
+/**
+ * @function toApiError
+ * @description Converts any thrown value into an `ApiClientError`.
+ * @param {unknown} error - The value that was thrown.
+ * @param {string} [fallbackMessage='Request failed'] - Message used when the error carries none.
+ * @returns {ApiClientError} The normalized error.
+ */
+export const toApiError = (error: unknown, fallbackMessage: string = 'Request failed'): ApiClientError => {
+  if (error instanceof ApiClientError) return error;
+  if (isApiError(error)) {
+    return new ApiClientError(error.message, { code: error.code, details: error.details });
+  }
+  if (error instanceof Error) {
+    return new ApiClientError(error.message || fallbackMessage, { details: error });
+  }
+  return new ApiClientError(fallbackMessage, { details: error });
+};
+
+/**
+ * @function serializeParams
+ * @description Serializes query parameters into a URL query string.
+ * `null` and `undefined` values are skipped, arrays become repeated keys,
+ * `Date` values are sent as ISO strings and plain objects are JSON encoded.
+ * @param {Record<string, any>} [params] - The parameters to serialize.
+ * @returns {string} The query string without a leading `?`, or an empty string.
+ */
+export const serializeParams = (params?: Record<string, any>): string => {
+  if (!params) return '';
+  const search = new URLSearchParams();
+
+  const append = (key: string, value: any) => {
+    if (value === undefined || value === null) return;
+    if (value instanceof Date) {
+      search.append(key, value.toISOString());
+    } else if (typeof value === 'object') {
+      search.append(key, JSON.stringify(value));
+    } else {
+      search.append(key, String(value));
+    }
+  };
+
+  Object.entries(params).forEach(([key, value]) => {
+    if (Array.isArray(value)) {
+      value.forEach(item => append(key, item));
+    } else {
+      append(key, value);
+    }
+  });
+
+  return search.toString();
+};
+
+/**
+ * @interface ApiClientConfig
+ * @description Configuration options for an `ApiClient` instance.
+ * @property {string} [baseUrl=''] - Prefix for relative request URLs (e.g., `https://api.example.com`).
+ * @property {number} [timeout=30000] - Default request timeout in milliseconds.
+ * @property {Record<string, string>} [headers] - Headers sent with every request.
+ * @property {() => string | null} [getToken] - Returns the bearer token to attach. Defaults to `storage.auth.getToken`.
+ * @property {typeof fetch} [fetch] - The fetch implementation to use. Defaults to the global `fetch`.
+ * @property {() => Promise<string | null>} [refreshToken] - Called when an authenticated request fails with 401.
+ *   Resolves with a new access token, in which case the request is retried once, or with null to give up.
+ *   Concurrent 401s share a single call.
+ */
+export interface ApiClientConfig {
+  baseUrl?: string;
+  timeout?: number;
+  headers?: Record<string, string>;
+  getToken?: () => string | null;
+  fetch?: typeof fetch;
+  refreshToken?: () => Promise<string | null>;
+}
+
+/**
+ * @interface RequestOptions
+ * @description Per-call options that are not part of the shared `RequestConfig` type.
+ * @property {AbortSignal} [signal] - External signal used to cancel the request (e.g., on unmount).
+ * @property {boolean} [skipAuth=false] - If true, no `Authorization` header is attached.
+ */
+export interface RequestOptions {
+  signal?: AbortSignal;
+  skipAuth?: boolean;
+}
+
+/**
+ * @class ApiClient
+ * @description A small fetch-based HTTP client. Responses are parsed as JSON (or text) and returned as-is;
+ * if the body is an `ApiResponse` envelope with `success: false`, it is treated as a failure.
+ */
+export class ApiClient {
+  private baseUrl: string;
+  private timeout: number;
+  private headers: Record<string, string>;
+  private getToken: () => string | null;
+  private fetchImpl?: typeof fetch;
+  private refreshToken?: () => Promise<string | null>;
+  private pendingRefresh: Promise<string | null> | null = null;
+
+  /**
+   * @constructor
+   * @param {ApiClientConfig} [config={}] - Configuration for the client.
+   */
+  constructor(config: ApiClientConfig = {}) {
+    this.baseUrl = (config.baseUrl || '').replace(/\/+$/, '');
+    this.timeout = config.timeout ?? DEFAULT_TIMEOUT;
+    this.headers = config.headers || {};
+    this.getToken = config.getToken || (() => storage.auth.getToken());
+    this.fetchImpl = config.fetch;
+    this.refreshToken = config.refreshToken;
+  }
+
+  /**
+   * @function configure
+   * @description Updates the client configuration after creation (e.g., to route requests through the mock backend).
+   * Options that are not present are left unchanged; `refreshToken` can be removed by passing it as `undefined`.
+   * @param {ApiClientConfig} config - The options to change.
+   */
+  configure(config: ApiClientConfig): void {
+    if (config.baseUrl !== undefined) this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    if (config.timeout !== undefined) this.timeout = config.timeout;
+    if (config.headers !== undefined) this.headers = config.headers;
+    if (config.getToken !== undefined) this.getToken = config.getToken;
+    if (config.fetch !== undefined) this.fetchImpl = config.fetch;
+    if ('refreshToken' in config) this.refreshToken = config.refreshToken;
+  }
+
+  /**
+   * @private
+   * @function refreshAccessToken
+   * @description Runs the configured `refreshToken` callback, sharing one in-flight call between concurrent requests.
+   * @returns {Promise<string | null>} The new access token, or null if it could not be refreshed.
+   */
+  private refreshAccessToken(): Promise<string | null> {
+    if (!this.refreshToken) return Promise.resolve(null);
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.refreshToken()
+        .catch(() => null)
+        .finally(() => {
+          this.pendingRefresh = null;
+        });
+    }
+    return this.pendingRefresh;
+  }
+
+  /**
+   * @private
+   * @function buildUrl
+   * @description Resolves the request URL against the base URL and appends serialized params.
+   * @param {string} url - The request URL (absolute or relative).
+   * @param {Record<string, any>} [params] - Query parameters.
+   * @returns {string} The final URL.
+   */
+  private buildUrl(url: string, params?: Record<string, any>): string {
+    const isAbsolute = /^https?:\/\//i.test(url);
+    const base = isAbsolute ? url : `${this.baseUrl}${url.startsWith('/') ? url : `/${url}`}`;
+    const query = serializeParams(params);
+    if (!query) return base;
+    return `${base}${base.includes('?') ? '&' : '?'}${query}`;
+  }
+
+  /**
+   * @private
+   * @function parseBody
+   * @description Parses a response body as JSON when the content type says so, otherwise as text.
+   * @param {Response} response - The fetch response.
+   * @returns {Promise<any>} The parsed body, or null for empty responses.
+   * @throws {ApiClientError} With code `PARSE_ERROR` if a JSON body cannot be parsed.
+   */
+  private async parseBody(response: Response): Promise<any> {
+    if (response.status === 204) return null;
+    const text = await response.text();
+    if (!text) return null;
+
+    const contentType = response.headers.get('content-type') || '';
+    if (!contentType.includes('json')) return text;
+
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      throw new ApiClientError('Invalid JSON in response', {
+        code: 'PARSE_ERROR',
+        status: response.status,
+        details: { body: text, error },
+      });
+    }
+  }
+
+  /**
+   * @function request
+   * @description Performs an HTTP request described by a `RequestConfig`.
+   * If an authenticated request fails with 401 and a `refreshToken` callback is configured,
+   * the access token is refreshed and the request is retried once.
+   * @template T - The expected type of the response body.
+   * @param {RequestConfig} config - The request configuration.
+   * @param {RequestOptions} [options={}] - Additional per-call options.
+   * @returns {Promise<T>} The parsed response body.
+   * @throws {ApiClientError} On network failure, timeout, non-2xx status, or an `ApiResponse` with `success: false`.
+   */
+  async request<T = any>(config: RequestConfig, options: RequestOptions = {}): Promise<T> {
+    try {
+      return await this.send<T>(config, options);
+    } catch (error) {
+      // Only retry requests whose Authorization header was added by the client
+      const canRefresh = !options.skipAuth && !config.headers?.Authorization && !!this.refreshToken;
+      if (!(error instanceof ApiClientError) || error.status !== 401 || !canRefresh) throw error;
+
+      const token = await this.refreshAccessToken();
+      if (!token) throw error;
+      return this.send<T>({ ...config, headers: { ...config.headers, Authorization: `Bearer ${token}` } }, options);
+    }
+  }
+
+  /**
+   * @private
+   * @function send
+   * @description Sends a single HTTP request without any retry.
+   * @template T - The expected type of the response body.
+   * @param {RequestConfig} config - The request configuration.
+   * @param {RequestOptions} options - Additional per-call options.
+   * @returns {Promise<T>} The parsed response body.
+   * @throws {ApiClientError} See `request`.
+   */
+  private async send<T>(config: RequestConfig, options: RequestOptions): Promise<T> {
+    const method = config.method || 'GET';
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      ...this.headers,
+      ...config.headers,
+    };
+
+    if (!options.skipAuth && !headers.Authorization) {
+      const token = this.getToken();
+      if (token) headers.Authorization = `Bearer ${token}`;
+    }
+
+    let body: BodyInit | undefined;
+    if (config.data !== undefined && method !== 'GET') {
+      const isRaw = config.data instanceof FormData || config.data instanceof Blob || typeof config.data === 'string';
+      body = isRaw ? config.data : JSON.stringify(config.data);
+      if (!isRaw && !headers['Content-Type']) headers['Content-Type'] = 'application/json';
+    }
+
+    // Combine the timeout with the caller's signal so either can cancel the request
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutMs = config.timeout ?? this.timeout;
+    const timer = timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+    const onExternalAbort = () => controller.abort();
+    if (options.signal) {
+      if (options.signal.aborted) controller.abort();
+      else options.signal.addEventListener('abort', onExternalAbort, { once: true });
+    }
+
+    // The timer runs until the body has been read, so a response whose body stalls also times out
+    let response: Response;
+    let payload: any;
+    try {
+      const fetchImpl = this.fetchImpl || fetch;
+      response = await fetchImpl(this.buildUrl(config.url, config.params), {
+        method,
+        headers,
+        body,
+        signal: controller.signal,
+      });
+      payload = await this.parseBody(response);
+    } catch (error) {
+      if (error instanceof ApiClientError) throw error;
+      if (timedOut) {
+        throw new ApiClientError(`Request timed out after ${timeoutMs}ms`, { code: 'TIMEOUT', details: error });
+      }
+      if (controller.signal.aborted) {
+        throw new ApiClientError('Request was cancelled', { code: 'ABORTED', details: error });
+      }
+      throw new ApiClientError('Network error. Please check your connection.', { code: 'NETWORK_ERROR', details: error });
+    } finally {
+      if (timer) clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onExternalAbort);
+    }
+
+    if (!response.ok) {
+      const message =
+        (payload && typeof payload === 'object' && (payload.message || payload.error)) ||
+        response.statusText ||
+        `Request failed with status ${response.status}`;
+      throw new ApiClientError(message, {
+        code: (payload && typeof payload === 'object' && payload.code) || response.status,
+        status: response.status,
+        details: payload,
+      });
+    }
+
+    // Responses wrapped in an ApiResponse envelope can still report failure with a 2xx status
+    if (payload && typeof payload === 'object' && (payload as ApiResponse).success === false) {
+      const envelope = payload as ApiResponse;
+      throw new ApiClientError(envelope.message || envelope.error || 'Request failed', {
+        code: envelope.error,
+        status: response.status,
+        details: payload,
+      });
+    }
+
+    return payload as T;
+  }
+
+  /**
+   * @function get
+   * @description Sends a GET request.
+   * @template T - The expected response body type.
+   * @param {string} url - The request URL.
+   * @param {Record<string, any>} [params] - Query parameters.
+   * @param {Omit<RequestConfig, 'url' | 'method' | 'params' | 'data'> & RequestOptions} [config] - Extra request options.
+   * @returns {Promise<T>} The parsed response body.
+   */
+  get<T = any>(url: string, params?: Record<string, any>, config: Omit<RequestConfig, 'url' | 'method' | 'params' | 'data'> & RequestOptions = {}): Promise<T> {
+    const { signal, skipAuth, ...rest } = config;
+    return this.request<T>({ ...rest, url, method: 'GET', params }, { signal, skipAuth });
+  }
+
+  /**
+   * @function post
+   * @description Sends a POST request with a JSON body.
+   * @template T - The expected response body type.
+   * @param {string} url - The request URL.
+   * @param {any} [data] - The request body.
+   * @param {Omit<RequestConfig, 'url' | 'method' | 'data'> & RequestOptions} [config] - Extra request options.
+   * @returns {Promise<T>} The parsed response body.
+   */
+  post<T = any>(url: string, data?: any, config: Omit<RequestConfig, 'url' | 'method' | 'data'> & RequestOptions = {}): Promise<T> {
+    const { signal, skipAuth, ...rest } = config;
+    return this.request<T>({ ...rest, url, method: 'POST', data }, { signal, skipAuth });
+  }
+
+  /**
+   * @function put
+   * @description Sends a PUT request with a JSON body.
+   * @template T - The expected response body type.
+   * @param {string} url - The request URL.
+   * @param {any} [data] - The request body.
+   * @param {Omit<RequestConfig, 'url' | 'method' | 'data'> & RequestOptions} [config] - Extra request options.
+   * @returns {Promise<T>} The parsed response body.
+   */
+  put<T = any>(url: string, data?: any, config: Omit<RequestConfig, 'url' | 'method' | 'data'> & RequestOptions = {}): Promise<T> {
+    const { signal, skipAuth, ...rest } = config;
+    return this.request<T>({ ...rest, url, method: 'PUT', data }, { signal, skipAuth });
+  }
+
+  /**
+   * @function patch
+   * @description Sends a PATCH request with a JSON body.
+   * @template T - The expected response body type.
+   * @param {string} url - The request URL.
+   * @param {any} [data] - The partial update body.
+   * @param {Omit<RequestConfig, 'url' | 'method' | 'data'> & RequestOptions} [config] - Extra request options.
+   * @returns {Promise<T>} The parsed response body.
+   */
+  patch<T = any>(url: string, data?: any, config: Omit<RequestConfig, 'url' | 'method' | 'data'> & RequestOptions = {}): Promise<T> {
+    const { signal, skipAuth, ...rest } = config;
+    return this.request<T>({ ...rest, url, method: 'PATCH', data }, { signal, skipAuth });
+  }
+
+  /**
+   * @function delete
+   * @description Sends a DELETE request.
+   * @template T - The expected response body type.
+   * @param {string} url - The request URL.
+   * @param {Omit<RequestConfig, 'url' | 'method'> & RequestOptions} [config] - Extra request options.
+   * @returns {Promise<T>} The parsed response body.
+   */
+  delete<T = any>(url: string, config: Omit<RequestConfig, 'url' | 'method'> & RequestOptions = {}): Promise<T> {
+    const { signal, skipAuth, ...rest } = config;
+    return this.request<T>({ ...rest, url, method: 'DELETE' }, { signal, skipAuth });
+  }
+}
+
+/**
+ * @const apiClient
+ * @description A singleton `ApiClient` configured from `VITE_API_URL`.
+ * Pages should use this instance rather than calling `fetch` directly.
+ */
+export const apiClient = new ApiClient({
+  baseUrl: import.meta.env.VITE_API_URL || '',
+});
+
+export default apiClient;
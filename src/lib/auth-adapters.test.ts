@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import type { User } from '../types';
+import { isTwoFactorChallenge, mockAuthAdapter } from './auth-adapters';
+import { storage } from './secure-storage';
+import { generateTotp } from './totp';
+
+describe('mockAuthAdapter', () => {
+  it('keeps two-factor enrollments when the session ends', async () => {
+    await storage.utils.ready();
+    const user: User = { id: '1', email: 'ada@example.com', name: 'ada', role: 'admin' };
+    const { secret } = await mockAuthAdapter.setupTwoFactor!(user);
+    await mockAuthAdapter.enableTwoFactor!(user, await generateTotp(secret));
+
+    storage.auth.clearSession(); // Sign-out discards the encryption key
+
+    const result = await mockAuthAdapter.login(user.email, 'password');
+    expect(isTwoFactorChallenge(result)).toBe(true);
+  });
+});
@@ -0,0 +1,389 @@
+/**
+ * @file auth-adapters.ts
+ * @description Authentication strategies used by `AuthProvider`. Each `AuthAdapter` implements sign-in,
+ * registration, token refresh and sign-out for one auth mode, so the provider itself does not depend on
+ * how users are authenticated. The adapter is chosen at startup from `VITE_AUTH_MODE`:
+ * - `mock`: demo mode. A demo user is signed in automatically and no backend is contacted.
+ * - `jwt`: REST endpoints under `/api/auth` returning short-lived JWT access tokens and refresh tokens.
+ * - `oidc`: single sign-on with the OAuth 2.0 / OpenID Connect providers listed in `VITE_OIDC_PROVIDERS` (see oidc.ts).
+ */
+import type { ApiResponse, AuthResult, AuthTokens, Session, TwoFactorChallenge, TwoFactorSetup, User } from '../types';
+import { apiClient } from './api-client';
+import { storage } from './secure-storage';
+import { beginOidcLogin, completeOidcLogin, getOidcProviders, refreshOidcTokens } from './oidc';
+import { buildOtpauthUri, generateRecoveryCodes, generateTotpSecret, TOTP_ISSUER, verifySecondFactor, verifyTotp } from './totp';
+
+/**
+ * @typedef {'mock' | 'jwt' | 'oidc'} AuthMode
+ * @description The supported authentication modes.
+ */
+export type AuthMode = 'mock' | 'jwt' | 'oidc';
+
+/**
+ * @interface AuthProviderOption
+ * @description An external sign-in provider offered on the login page (e.g., "Continue with Google").
+ * @property {string} id - Provider identifier passed to `loginWithProvider`.
+ * @property {string} name - Display name.
+ */
+export interface AuthProviderOption {
+  id: string;
+  name: string;
+}
+
+/**
+ * @interface AuthAdapterResult
+ * @description The outcome of a successful sign-in, registration or refresh.
+ * @property {User} user - The authenticated user.
+ * @property {AuthTokens} [tokens] - The session tokens. Omitted by adapters that do not use tokens (e.g., `mock`).
+ */
+export interface AuthAdapterResult {
+  user: User;
+  tokens?: AuthTokens;
+}
+
+/**
+ * @interface AuthAdapter
+ * @description An authentication strategy. Methods throw an `Error` (typically an `ApiClientError`) on failure;
+ * the error message is shown to the user.
+ * @property {AuthMode} mode - The mode this adapter implements.
+ * @property {() => User | null} [getInitialUser] - Returns a user to sign in automatically when no session is stored.
+ * @property {(email: string, password: string) => Promise<AuthAdapterResult | TwoFactorChallenge>} login - Signs in with credentials.
+ *   Resolves with a `TwoFactorChallenge` when the account requires a second step (see `verifyTwoFactor`).
+ * @property {(email: string, password: string, name: string) => Promise<AuthAdapterResult>} register - Creates an account and signs in.
+ * @property {(refreshToken: string) => Promise<AuthAdapterResult>} refresh - Exchanges a refresh token for a new token pair.
+ * @property {(session: Session | null) => Promise<void>} logout - Ends the session server-side. Local state is cleared by the provider.
+ * @property {() => AuthProviderOption[]} [getProviders] - External sign-in providers supported by this adapter.
+ * @property {(providerId: string, returnTo: string) => Promise<AuthAdapterResult | null>} [loginWithProvider] - Signs in with an
+ *   external provider. Resolves with null when the browser is being redirected to the provider.
+ * @property {(params: URLSearchParams) => Promise<AuthAdapterResult & { returnTo: string }>} [completeProviderLogin] - Finishes a
+ *   redirect-based sign-in from the `/auth/callback` URL parameters.
+ * @property {(challengeToken: string, code: string) => Promise<AuthAdapterResult>} [verifyTwoFactor] - Completes a sign-in
+ *   that returned a `TwoFactorChallenge`, with a TOTP or recovery code.
+ * @property {(user: User) => Promise<TwoFactorSetup>} [setupTwoFactor] - Starts two-factor enrollment with a new secret.
+ * @property {(user: User, code: string) => Promise<string[]>} [enableTwoFactor] - Verifies the first code from the new secret,
+ *   enables two-factor authentication and resolves with the recovery codes.
+ * @property {(user: User, code: string) => Promise<void>} [disableTwoFactor] - Disables two-factor authentication after
+ *   checking a TOTP or recovery code.
+ */
+export interface AuthAdapter {
+  readonly mode: AuthMode;
+  getInitialUser?: () => User | null;
+  login: (email: string, password: string) => Promise<AuthAdapterResult | TwoFactorChallenge>;
+  register: (email: string, password: string, name: string) => Promise<AuthAdapterResult>;
+  refresh: (refreshToken: string) => Promise<AuthAdapterResult>;
+  logout: (session: Session | null) => Promise<void>;
+  getProviders?: () => AuthProviderOption[];
+  loginWithProvider?: (providerId: string, returnTo: string) => Promise<AuthAdapterResult | null>;
+  completeProviderLogin?: (params: URLSearchParams) => Promise<AuthAdapterResult & { returnTo: string }>;
+  verifyTwoFactor?: (challengeToken: string, code: string) => Promise<AuthAdapterResult>;
+  setupTwoFactor?: (user: User) => Promise<TwoFactorSetup>;
+  enableTwoFactor?: (user: User, code: string) => Promise<string[]>;
+  disableTwoFactor?: (user: User, code: string) => Promise<void>;
+}
+
+/**
+ * @function isTwoFactorChallenge
+ * @description Tells a `TwoFactorChallenge` apart from a completed sign-in.
+ * @param {AuthAdapterResult | TwoFactorChallenge} result - The result of `AuthAdapter.login`.
+ * @returns {boolean} True if the sign-in needs a second step.
+ */
+export const isTwoFactorChallenge = (result: AuthAdapterResult | TwoFactorChallenge): result is TwoFactorChallenge =>
+  'twoFactorRequired' in result && result.twoFactorRequired === true;
+
+/**
+ * @const DEMO_USER
+ * @description The user signed in automatically in `mock` mode.
+ */
+const DEMO_USER: User = {
+  id: '1',
+  email: 'demo@example.com',
+  name: 'Demo User',
+  role: 'admin',
+};
+
+/**
+ * @interface MockTwoFactorRecord
+ * @description Two-factor settings of a demo account, kept in local storage in `mock` mode. They are not encrypted:
+ * they must outlive sign-out, which discards the storage encryption key (like a real backend, the demo keeps them
+ * for every account of the browser).
+ * @property {string} [secret] - The active TOTP secret.
+ * @property {string} [pendingSecret] - The secret of an enrollment that has not been verified yet.
+ * @property {string[]} recoveryCodes - Unused recovery codes.
+ */
+interface MockTwoFactorRecord {
+  secret?: string;
+  pendingSecret?: string;
+  recoveryCodes: string[];
+}
+
+/**
+ * @const MOCK_TWO_FACTOR_KEY
+ * @description `storage.generic` key holding the `MockTwoFactorRecord`s of demo accounts, keyed by email.
+ */
+const MOCK_TWO_FACTOR_KEY = 'mock_two_factor_accounts';
+
+/**
+ * @const ENCRYPTED_MOCK_TWO_FACTOR_KEY
+ * @description Former `storage.generic` key of the records, stored encrypted. They are moved to `MOCK_TWO_FACTOR_KEY`
+ * when first read.
+ */
+const ENCRYPTED_MOCK_TWO_FACTOR_KEY = 'mock_two_factor';
+
+/**
+ * @const mockChallenges
+ * @description Pending two-factor sign-ins in `mock` mode: challenge token to email.
+ */
+const mockChallenges = new Map<string, string>();
+
+/**
+ * @function readMockTwoFactor
+ * @description Reads the two-factor settings of all demo accounts.
+ * @returns {Record<string, MockTwoFactorRecord>} The records, keyed by email.
+ */
+const readMockTwoFactor = (): Record<string, MockTwoFactorRecord> => {
+  const records = storage.generic.get(MOCK_TWO_FACTOR_KEY);
+  if (records) return records;
+  const encrypted = storage.generic.get(ENCRYPTED_MOCK_TWO_FACTOR_KEY, true);
+  if (!encrypted) return {};
+  writeMockTwoFactor(encrypted);
+  storage.generic.remove(ENCRYPTED_MOCK_TWO_FACTOR_KEY);
+  return encrypted;
+};
+
+/**
+ * @function writeMockTwoFactor
+ * @description Persists the two-factor settings of all demo accounts.
+ * @param {Record<string, MockTwoFactorRecord>} records - The records, keyed by email.
+ */
+const writeMockTwoFactor = (records: Record<string, MockTwoFactorRecord>): void => {
+  storage.generic.set(MOCK_TWO_FACTOR_KEY, records);
+};
+
+/**
+ * @function toMockUser
+ * @description Builds the demo user signed in with an email address.
+ * @param {string} email - The email address.
+ * @returns {User} The user.
+ */
+const toMockUser = (email: string): User => ({
+  id: '1',
+  email,
+  name: email.split('@')[0],
+  role: 'admin',
+  twoFactorEnabled: !!readMockTwoFactor()[email]?.secret,
+});
+
+/**
+ * @const mockAuthAdapter
+ * @description Demo mode: no backend, no tokens. The last signed-in user (or the demo user) is signed in
+ * on startup, and any non-empty credentials sign in as a user derived from the email address.
+ * The Google and GitHub buttons sign in immediately as a demo user of that provider.
+ * Demo users are administrators, so every page is reachable; use `jwt` mode with the mock backend to try other roles.
+ * Two-factor authentication works as with a backend, except that secrets are verified in the browser.
+ */
+export const mockAuthAdapter: AuthAdapter = {
+  mode: 'mock',
+  getInitialUser: () => {
+    const storedUser = storage.auth.getUser();
+    // Users stored before roles existed have none; keep them administrators like every demo user
+    return storedUser ? { role: 'admin', ...storedUser } : DEMO_USER;
+  },
+  login: async (email) => {
+    if (readMockTwoFactor()[email]?.secret) {
+      const challengeToken = crypto.randomUUID();
+      mockChallenges.set(challengeToken, email);
+      return { twoFactorRequired: true, challengeToken };
+    }
+    return { user: toMockUser(email) };
+  },
+  register: async (email, _password, name) => ({
+    user: { id: Date.now().toString(), email, name, role: 'admin' },
+  }),
+  refresh: async () => {
+    throw new Error('Sessions do not expire in mock auth mode');
+  },
+  logout: async () => {},
+  getProviders: () => [
+    { id: 'google', name: 'Google' },
+    { id: 'github', name: 'GitHub' },
+  ],
+  loginWithProvider: async (providerId) => ({
+    user: { id: `${providerId}-demo`, email: `demo@${providerId}.example.com`, name: 'Demo User', role: 'admin' },
+  }),
+  verifyTwoFactor: async (challengeToken, code) => {
+    const email = mockChallenges.get(challengeToken);
+    const records = readMockTwoFactor();
+    const record = email ? records[email] : undefined;
+    if (!email || !record?.secret) throw new Error('This sign-in attempt has expired. Please sign in again.');
+
+    const result = await verifySecondFactor(record.secret, record.recoveryCodes, code);
+    if (!result.valid) throw new Error('Invalid verification code');
+    mockChallenges.delete(challengeToken);
+    writeMockTwoFactor({ ...records, [email]: { ...record, recoveryCodes: result.recoveryCodes } });
+    return { user: toMockUser(email) };
+  },
+  setupTwoFactor: async (user) => {
+    const records = readMockTwoFactor();
+    const secret = generateTotpSecret();
+    const existing = records[user.email] ?? { recoveryCodes: [] };
+    writeMockTwoFactor({ ...records, [user.email]: { ...existing, pendingSecret: secret } });
+    return { secret, otpauthUri: buildOtpauthUri({ secret, accountName: user.email, issuer: TOTP_ISSUER }) };
+  },
+  enableTwoFactor: async (user, code) => {
+    const records = readMockTwoFactor();
+    const pendingSecret = records[user.email]?.pendingSecret;
+    if (!pendingSecret) throw new Error('Start the setup again to get a new secret');
+    if (!(await verifyTotp(pendingSecret, code))) throw new Error('Invalid verification code');
+
+    const recoveryCodes = generateRecoveryCodes();
+    writeMockTwoFactor({ ...records, [user.email]: { secret: pendingSecret, recoveryCodes } });
+    return recoveryCodes;
+  },
+  disableTwoFactor: async (user, code) => {
+    const records = readMockTwoFactor();
+    const record = records[user.email];
+    if (!record?.secret) return;
+    if (!(await verifySecondFactor(record.secret, record.recoveryCodes, code)).valid) {
+      throw new Error('Invalid verification code');
+    }
+    delete records[user.email];
+    writeMockTwoFactor(records);
+  },
+};
+
+/**
+ * @function toAdapterResult
+ * @description Unwraps an `ApiResponse<AuthResult>` from the auth endpoints.
+ * @param {ApiResponse<AuthResult>} response - The response body.
+ * @param {string} fallbackMessage - Error message used if the response has no data.
+ * @returns {AuthAdapterResult} The user and token pair.
+ * @throws {Error} If the response carries no data.
+ */
+const toAdapterResult = (response: ApiResponse<AuthResult>, fallbackMessage: string): AuthAdapterResult => {
+  if (!response.data) throw new Error(fallbackMessage);
+  const { user, ...tokens } = response.data;
+  return { user, tokens };
+};
+
+/**
+ * @function parseLoginResponse
+ * @description Unwraps a login response that may be either an `AuthResult` or a `TwoFactorChallenge`.
+ * @param {ApiResponse<AuthResult | TwoFactorChallenge>} response - The response body.
+ * @returns {AuthAdapterResult | TwoFactorChallenge} The sign-in result or challenge.
+ * @throws {Error} If the response carries no data.
+ */
+const parseLoginResponse = (response: ApiResponse<AuthResult | TwoFactorChallenge>): AuthAdapterResult | TwoFactorChallenge => {
+  const data = response.data;
+  if (data && isTwoFactorChallenge(data)) return data;
+  return toAdapterResult(response as ApiResponse<AuthResult>, 'Login failed. Please try again.');
+};
+
+/**
+ * @const jwtAuthAdapter
+ * @description REST/JWT mode, backed by `POST /api/auth/login`, `/register`, `/refresh` and `/logout`
+ * (see docs/DATABASE_INTEGRATION.md for the expected contract).
+ */
+export const jwtAuthAdapter: AuthAdapter = {
+  mode: 'jwt',
+  login: async (email, password) => {
+    const response = await apiClient.post<ApiResponse<AuthResult | TwoFactorChallenge>>('/api/auth/login', { email, password }, { skipAuth: true });
+    return parseLoginResponse(response);
+  },
+  register: async (email, password, name) => {
+    const response = await apiClient.post<ApiResponse<AuthResult>>('/api/auth/register', { email, password, name }, { skipAuth: true });
+    return toAdapterResult(response, 'Registration failed. Please try again.');
+  },
+  refresh: async (refreshToken) => {
+    const response = await apiClient.post<ApiResponse<AuthResult>>('/api/auth/refresh', { refreshToken }, { skipAuth: true });
+    return toAdapterResult(response, 'Token refresh returned no tokens');
+  },
+  logout: async (session) => {
+    // Revoke the refresh token server-side. The header is set explicitly so an expired
+    // access token does not trigger a refresh (and a "session expired" toast) while signing out.
+    await apiClient.post('/api/auth/logout', { refreshToken: session?.refreshToken ?? null }, {
+      headers: session?.token ? { Authorization: `Bearer ${session.token}` } : undefined,
+      skipAuth: !session?.token,
+    });
+  },
+  verifyTwoFactor: async (challengeToken, code) => {
+    const response = await apiClient.post<ApiResponse<AuthResult>>('/api/auth/2fa/verify', { challengeToken, code }, { skipAuth: true });
+    return toAdapterResult(response, 'Verification failed. Please try again.');
+  },
+  setupTwoFactor: async () => {
+    const response = await apiClient.post<ApiResponse<TwoFactorSetup>>('/api/auth/2fa/setup');
+    if (!response.data) throw new Error('Two-factor setup failed. Please try again.');
+    return response.data;
+  },
+  enableTwoFactor: async (_user, code) => {
+    const response = await apiClient.post<ApiResponse<{ recoveryCodes: string[] }>>('/api/auth/2fa/enable', { code });
+    if (!response.data) throw new Error('Two-factor setup failed. Please try again.');
+    return response.data.recoveryCodes;
+  },
+  disableTwoFactor: async (_user, code) => {
+    await apiClient.post('/api/auth/2fa/disable', { code });
+  },
+};
+
+/**
+ * @const OIDC_PROVIDER_KEY
+ * @description `storage.session` key remembering which provider issued the current session's tokens.
+ */
+const OIDC_PROVIDER_KEY = 'oidc_provider';
+
+/**
+ * @const oidcAuthAdapter
+ * @description OAuth 2.0 / OIDC mode. Users sign in with one of the providers from `VITE_OIDC_PROVIDERS`
+ * using the authorization code flow with PKCE; password sign-in and registration are not available.
+ */
+export const oidcAuthAdapter: AuthAdapter = {
+  mode: 'oidc',
+  login: async () => {
+    throw new Error('Password sign-in is not available. Please continue with a sign-in provider.');
+  },
+  register: async () => {
+    throw new Error('Accounts are created by your sign-in provider. Please continue with a sign-in provider.');
+  },
+  refresh: async (refreshToken) => {
+    const providerId = storage.session.getData(OIDC_PROVIDER_KEY);
+    if (!providerId) throw new Error('The provider of the current session is unknown');
+    return refreshOidcTokens(providerId, refreshToken, storage.auth.getUser());
+  },
+  logout: async () => {
+    storage.session.clearData(OIDC_PROVIDER_KEY);
+  },
+  getProviders: () => getOidcProviders().map(({ id, name }) => ({ id, name })),
+  loginWithProvider: async (providerId, returnTo) => {
+    await beginOidcLogin(providerId, returnTo);
+    return null;
+  },
+  completeProviderLogin: async (params) => {
+    const { providerId, ...result } = await completeOidcLogin(params);
+    storage.session.setData(OIDC_PROVIDER_KEY, providerId);
+    return result;
+  },
+};
+
+/**
+ * @const AUTH_ADAPTERS
+ * @description All adapters, keyed by mode.
+ */
+const AUTH_ADAPTERS: Record<AuthMode, AuthAdapter> = {
+  mock: mockAuthAdapter,
+  jwt: jwtAuthAdapter,
+  oidc: oidcAuthAdapter,
+};
+
+/**
+ * @function getAuthAdapter
+ * @description Returns the adapter for an auth mode.
+ * @param {string | undefined} [mode=import.meta.env.VITE_AUTH_MODE] - The mode name. Defaults to `mock` when unset.
+ * @returns {AuthAdapter} The adapter.
+ * @throws {Error} If the mode is not supported, so a misconfigured deployment fails loudly instead of running in demo mode.
+ */
+export function getAuthAdapter(mode: string | undefined = import.meta.env.VITE_AUTH_MODE): AuthAdapter {
+  const resolved = mode || 'mock';
+  if (!Object.keys(AUTH_ADAPTERS).includes(resolved)) {
+    throw new Error(`Unsupported VITE_AUTH_MODE "${resolved}". Expected one of: ${Object.keys(AUTH_ADAPTERS).join(', ')}.`);
+  }
+  return AUTH_ADAPTERS[resolved as AuthMode];
+}
@@ -1,58 +1,120 @@
 /**
  * @file auth-context.tsx
  * @description This file defines the authentication context for the application.
- * It includes the AuthProvider component, the useAuth hook, and a ProtectedRoute component.
+ * It includes the AuthProvider component, the useAuth hook, a ProtectedRoute component,
+ * and the `useCan` hook and `<Can>` component for permission checks.
  * It manages user authentication state, provides login, register, logout, and profile update functionalities.
- * A bypass mode (`BYPASS_AUTH`) is included for development to use a mock user without real authentication.
+ * How users are authenticated is delegated to an `AuthAdapter` selected with `VITE_AUTH_MODE` (see auth-adapters.ts),
+ * so the same build can run in demo (`mock`) mode or against a real backend.
+ * Token-based sessions are persisted, the access token is refreshed silently shortly before it expires
+ * (and after any 401 response), and the user is signed out with a "session expired" toast when the refresh fails.
+ * Signed-in users are also signed out after the configured period of inactivity (`sessionTimeout`), with a countdown
+ * warning shortly before, and sign-ins, sign-outs and refreshes are synchronized across browser tabs (see session-sync.ts).
  */
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, ReactNode } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { storage } from './secure-storage'; // Assumes secure-storage handles token and user data persistence
+import { apiClient } from './api-client';
+import { getTokenExpiry } from './jwt';
+import { getAuthAdapter, isTwoFactorChallenge, AuthAdapter, AuthAdapterResult, AuthMode, AuthProviderOption } from './auth-adapters';
+import { getUserPermissions, hasPermission } from './permissions';
+import { createSessionChannel, SessionChannel, SessionSyncMessage } from './session-sync';
+import { useIdleTimeout } from './idle-timeout';
+import { useToast } from '../components/notifications/toast-context';
+import type { AuthTokens, Session, TwoFactorSetup, User } from '../types';
 
 /**
- * @const BYPASS_AUTH
- * @description Global flag to enable or disable authentication bypass mode.
- * When true, a mock user is used, and actual authentication logic is skipped.
- * Ideal for UI development or when a backend is not available.
- * Set to `false` for production or when testing real authentication flows.
- * @default true
+ * @const REFRESH_MARGIN
+ * @description How long before the access token expires the session is refreshed, in milliseconds.
  */
-const BYPASS_AUTH = true;
+const REFRESH_MARGIN = 60 * 1000; // 1 minute
 
 /**
- * @interface User
- * @description Defines the structure of a user object.
- * @property {string} id - Unique identifier for the user.
- * @property {string} email - User's email address.
- * @property {string} name - User's full name or display name.
- * @property {string} [avatar] - URL to the user's avatar image.
+ * @const FALLBACK_SESSION_LENGTH
+ * @description Session length assumed for access tokens that carry no `exp` claim (matches the token's storage expiry).
  */
-interface User {
-  id: string;
-  email: string;
-  name: string;
-  avatar?: string;
-}
+const FALLBACK_SESSION_LENGTH = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * @const MAX_TIMER_DELAY
+ * @description Largest delay `setTimeout` supports; longer delays would fire immediately.
+ */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * @const DEFAULT_SESSION_TIMEOUT
+ * @description Inactivity allowed before automatic sign-out when the user has not chosen a value, in minutes.
+ */
+const DEFAULT_SESSION_TIMEOUT = 30;
+
+/**
+ * @const IDLE_WARNING_TIME
+ * @description How long before the automatic sign-out the countdown warning is shown, in milliseconds.
+ */
+const IDLE_WARNING_TIME = 60 * 1000; // 1 minute
+
+/**
+ * @const REFRESH_LOCK
+ * @description Name of the Web Lock held while refreshing, so that tabs do not use the same refresh token twice.
+ */
+const REFRESH_LOCK = 'radix_dashboard_token_refresh';
 
 /**
  * @interface AuthContextType
  * @description Defines the shape of the authentication context.
  * @property {User | null} user - The current authenticated user object, or null if not authenticated.
+ * @property {Session | null} session - The current token-based session (tokens and access token expiry), or null in `mock` mode or when signed out.
+ * @property {AuthMode} authMode - The active authentication mode.
  * @property {boolean} isAuthenticated - True if the user is authenticated, false otherwise.
+ * @property {string[]} permissions - Permissions granted to the current user through their role and account (see permissions.ts).
  * @property {boolean} isLoading - True if the authentication state is currently being determined (e.g., on initial load or during login).
- * @property {(email: string, password: string) => Promise<{ success: boolean; error?: string }>} login - Function to attempt user login.
+ * @property {(email: string, password: string) => Promise<{ success: boolean; twoFactorRequired?: boolean; error?: string }>} login - Function to attempt
+ *   user login. `twoFactorRequired` is true when the account needs a TOTP or recovery code; complete the sign-in with `verifyTwoFactor`.
  * @property {(email: string, password: string, name: string) => Promise<{ success: boolean; error?: string }>} register - Function to register a new user.
  * @property {() => void} logout - Function to log out the current user.
  * @property {(updates: Partial<User>) => Promise<{ success: boolean; error?: string }>} updateProfile - Function to update the current user's profile.
+ * @property {AuthProviderOption[]} providers - External sign-in providers available in the current auth mode.
+ * @property {(providerId: string, returnTo?: string) => Promise<{ success: boolean; redirecting?: boolean; error?: string }>} loginWithProvider -
+ *   Signs in with an external provider. `redirecting` is true when the browser is leaving for the provider's sign-in page.
+ * @property {(params: URLSearchParams) => Promise<{ success: boolean; returnTo?: string; error?: string }>} completeProviderLogin -
+ *   Finishes a provider sign-in on the `/auth/callback` route.
+ * @property {(code: string) => Promise<{ success: boolean; error?: string }>} verifyTwoFactor - Completes a sign-in awaiting its second step.
+ * @property {() => void} cancelTwoFactor - Abandons a sign-in awaiting its second step.
+ * @property {boolean} twoFactorAvailable - Whether users can manage two-factor authentication here (not when the sign-in provider handles it).
+ * @property {() => Promise<{ success: boolean; setup?: TwoFactorSetup; error?: string }>} setupTwoFactor - Starts enrollment with a new secret.
+ * @property {(code: string) => Promise<{ success: boolean; recoveryCodes?: string[]; error?: string }>} enableTwoFactor - Verifies the first
+ *   code from the authenticator app and enables two-factor authentication, returning the recovery codes.
+ * @property {(code: string) => Promise<{ success: boolean; error?: string }>} disableTwoFactor - Disables two-factor authentication.
+ * @property {number | null} sessionTimeout - Minutes of inactivity after which the user is signed out, or null for never.
+ * @property {(minutes: number | null) => void} setSessionTimeout - Changes (and persists) the session timeout in every tab.
+ * @property {number | null} idleTimeRemaining - Milliseconds left before the automatic sign-out while the inactivity warning
+ *   is shown; null otherwise.
+ * @property {() => void} stayActive - Dismisses the inactivity warning and restarts the timeout in every tab.
  */
 interface AuthContextType {
   user: User | null;
+  session: Session | null;
+  authMode: AuthMode;
   isAuthenticated: boolean;
+  permissions: string[];
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
+  login: (email: string, password: string) => Promise<{ success: boolean; twoFactorRequired?: boolean; error?: string }>;
   register: (email: string, password: string, name: string) => Promise<{ success: boolean; error?: string }>;
   logout: () => void;
   updateProfile: (updates: Partial<User>) => Promise<{ success: boolean; error?: string }>;
+  providers: AuthProviderOption[];
+  loginWithProvider: (providerId: string, returnTo?: string) => Promise<{ success: boolean; redirecting?: boolean; error?: string }>;
+  completeProviderLogin: (params: URLSearchParams) => Promise<{ success: boolean; returnTo?: string; error?: string }>;
+  verifyTwoFactor: (code: string) => Promise<{ success: boolean; error?: string }>;
+  cancelTwoFactor: () => void;
+  twoFactorAvailable: boolean;
+  setupTwoFactor: () => Promise<{ success: boolean; setup?: TwoFactorSetup; error?: string }>;
+  enableTwoFactor: (code: string) => Promise<{ success: boolean; recoveryCodes?: string[]; error?: string }>;
+  disableTwoFactor: (code: string) => Promise<{ success: boolean; error?: string }>;
+  sessionTimeout: number | null;
+  setSessionTimeout: (minutes: number | null) => void;
+  idleTimeRemaining: number | null;
+  stayActive: () => void;
 }
 
 /**
@@ -62,76 +124,256 @@ interface AuthContextType {
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 /**
- * @const MOCK_USER
- * @description A predefined mock user object used when `BYPASS_AUTH` is true.
+ * @function resolveExpiry
+ * @description Determines when an access token expires, preferring its `exp` claim over the expiry reported by the server.
+ * @param {AuthTokens} tokens - The token pair.
+ * @returns {string} ISO date string of the access token's expiry.
  */
-const MOCK_USER: User = {
-  id: '1',
-  email: 'demo@example.com',
-  name: 'Demo User',
+const resolveExpiry = (tokens: AuthTokens): string => {
+  const expiry = getTokenExpiry(tokens.accessToken);
+  if (expiry !== null) return new Date(expiry).toISOString();
+  return tokens.expiresAt || new Date(Date.now() + FALLBACK_SESSION_LENGTH).toISOString();
 };
 
+/**
+ * @function loadSession
+ * @description Restores the session persisted by a previous visit.
+ * If the access token is gone but a refresh token remains, the session is returned as already expired so it is refreshed immediately.
+ * @returns {Session | null} The restored session, or null if there is none.
+ */
+const loadSession = (): Session | null => {
+  const user = storage.auth.getUser();
+  const token = storage.auth.getToken();
+  const refreshToken = storage.auth.getRefreshToken() || undefined;
+  if (!user || (!token && !refreshToken)) return null;
+
+  return {
+    user,
+    token: token || '',
+    refreshToken,
+    expiresAt: token ? resolveExpiry({ accessToken: token, refreshToken: refreshToken || '' }) : new Date(0).toISOString(),
+  };
+};
+
+/**
+ * @function loadSessionTimeout
+ * @description Reads the session timeout chosen in the security settings.
+ * @returns {number | null} The timeout in minutes, or null if the user is never signed out for inactivity.
+ */
+const loadSessionTimeout = (): number | null => {
+  const stored = storage.preferences.get('session_timeout');
+  return stored ? stored.minutes : DEFAULT_SESSION_TIMEOUT;
+};
+
+/**
+ * @function withRefreshLock
+ * @description Runs a token refresh while holding a lock shared by all tabs, where the Web Locks API is available.
+ * @template T
+ * @param {() => Promise<T>} callback - The refresh.
+ * @returns {Promise<T>} The callback's result.
+ */
+const withRefreshLock = <T,>(callback: () => Promise<T>): Promise<T> =>
+  typeof navigator !== 'undefined' && navigator.locks
+    ? navigator.locks.request(REFRESH_LOCK, callback)
+    : callback();
+
 /**
  * @function AuthProvider
  * @description Provides the authentication context to its children.
  * It manages user state, authentication logic (login, logout, register, profile updates),
- * and handles session persistence (if not in bypass mode).
- * @param {{ children: ReactNode }} props - Props for the component.
+ * and handles session persistence and token refresh for token-based adapters.
+ * Must be rendered inside a `ToastProvider` and a router.
+ * @param {{ children: ReactNode; adapter?: AuthAdapter }} props - Props for the component.
  * @property {ReactNode} children - The child components to be wrapped by the provider.
+ * @property {AuthAdapter} [adapter] - The authentication strategy. Defaults to the one selected by `VITE_AUTH_MODE`.
  * @returns {JSX.Element} The AuthProvider component.
  */
-export function AuthProvider({ children }: { children: ReactNode }) {
-  const [user, setUser] = useState<User | null>(BYPASS_AUTH ? MOCK_USER : null);
+export function AuthProvider({ children, adapter = getAuthAdapter() }: { children: ReactNode; adapter?: AuthAdapter }) {
+  const [user, setUser] = useState<User | null>(null);
+  const [session, setSession] = useState<Session | null>(null);
   const [isLoading, setIsLoading] = useState(true); // True initially to check session
+  const refreshPromiseRef = useRef<Promise<string | null> | null>(null); // Shared by concurrent refresh attempts
+  const twoFactorChallengeRef = useRef<string | null>(null); // Challenge token of a sign-in awaiting its second step
+  const channelRef = useRef<SessionChannel | null>(null); // Connection to the app's other tabs
+  const [sessionTimeout, setSessionTimeoutState] = useState<number | null>(loadSessionTimeout);
   const navigate = useNavigate();
+  const { showToast } = useToast();
 
-  // Check for existing session on mount
-  useEffect(() => {
-    if (BYPASS_AUTH) {
-      setIsLoading(false);
-      return;
+  /**
+   * @function saveSession
+   * @description Persists a token pair and user, and makes them the current session.
+   * @param {AuthTokens} tokens - The access and refresh tokens.
+   * @param {User} sessionUser - The authenticated user.
+   */
+  const saveSession = useCallback((tokens: AuthTokens, sessionUser: User) => {
+    storage.auth.setToken(tokens.accessToken);
+    storage.auth.setRefreshToken(tokens.refreshToken);
+    storage.auth.setUser(sessionUser);
+    setSession({
+      user: sessionUser,
+      token: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresAt: resolveExpiry(tokens),
+    });
+    setUser(sessionUser);
+  }, []);
+
+  /**
+   * @function broadcast
+   * @description Tells the other tabs about a change to the session, once the change is persisted.
+   * @param {SessionSyncMessage} message - The message.
+   */
+  const broadcast = useCallback((message: SessionSyncMessage) => {
+    storage.utils.flush().then(() => channelRef.current?.post(message));
+  }, []);
+
+  /**
+   * @function restoreSession
+   * @description Adopts the session found in storage, e.g. after another tab signed in or refreshed the tokens.
+   * @returns {Promise<void>} Resolves once the session is adopted.
+   */
+  const restoreSession = useCallback(async () => {
+    await storage.utils.reload(); // Encrypted items written by the other tab
+    const savedSession = loadSession();
+    if (savedSession) {
+      setSession(savedSession);
+      setUser(savedSession.user as User);
+    } else {
+      setSession(null);
+      setUser(storage.auth.getUser());
     }
-    
-    const savedUser = storage.auth.getUser();
-    if (savedUser) {
-      setUser(savedUser as User);
+  }, []);
+
+  /**
+   * @function applyResult
+   * @description Starts the session returned by the adapter after login or registration.
+   * Results without tokens (e.g., from the `mock` adapter) only persist the user.
+   * @param {AuthAdapterResult} result - The adapter result.
+   */
+  const applyResult = useCallback((result: AuthAdapterResult) => {
+    if (result.tokens) {
+      saveSession(result.tokens, result.user);
+    } else {
+      storage.auth.setUser(result.user);
+      setSession(null);
+      setUser(result.user);
     }
-    setIsLoading(false);
+    broadcast({ type: 'login' });
+  }, [saveSession, broadcast]);
+
+  /**
+   * @function endSession
+   * @description Clears the persisted tokens and user and signs the user out locally.
+   */
+  const endSession = useCallback(() => {
+    storage.auth.clearSession(); // Clear user, tokens and every other encrypted item
+    setSession(null);
+    setUser(null);
   }, []);
 
+  /**
+   * @function expireSession
+   * @description Ends a session that can no longer be refreshed, tells the user, and redirects to the login page.
+   */
+  const expireSession = useCallback(() => {
+    endSession();
+    broadcast({ type: 'logout', reason: 'expired' });
+    showToast({ type: 'warning', title: 'Session expired', description: 'Please sign in again to continue.' });
+    navigate('/login', { replace: true });
+  }, [endSession, broadcast, showToast, navigate]);
+
+  /**
+   * @function refreshSession
+   * @description Exchanges the stored refresh token for a new token pair. Concurrent calls share one request,
+   * and if another tab refreshed the tokens in the meantime, its tokens are used instead.
+   * If the refresh fails, the session is expired.
+   * @returns {Promise<string | null>} The new access token, or null if the session could not be refreshed.
+   */
+  const refreshSession = useCallback((): Promise<string | null> => {
+    const staleRefreshToken = storage.auth.getRefreshToken();
+    const refresh = async (): Promise<string | null> => {
+      await storage.utils.reload(); // Another tab may have refreshed while this one waited for the lock
+      const refreshToken = storage.auth.getRefreshToken();
+      const currentUser = storage.auth.getUser();
+      if (!refreshToken || !currentUser) {
+        expireSession();
+        return null;
+      }
+
+      // Another tab rotated the tokens while this one waited for the lock
+      if (refreshToken !== staleRefreshToken) {
+        await restoreSession();
+        return storage.auth.getToken();
+      }
+
+      try {
+        const { tokens, user: refreshedUser } = await adapter.refresh(refreshToken);
+        if (!tokens) throw new Error('Token refresh returned no tokens');
+        saveSession(tokens, refreshedUser || currentUser);
+        await storage.utils.flush(); // Persist before releasing the lock, so the next tab sees the new tokens
+        broadcast({ type: 'refresh' });
+        return tokens.accessToken;
+      } catch (error) {
+        console.error('Token refresh error:', error);
+        expireSession();
+        return null;
+      }
+    };
+
+    if (!refreshPromiseRef.current) {
+      refreshPromiseRef.current = withRefreshLock(refresh).finally(() => {
+        refreshPromiseRef.current = null;
+      });
+    }
+    return refreshPromiseRef.current;
+  }, [adapter, saveSession, expireSession, restoreSession, broadcast]);
+
+  // Check for existing session on mount, falling back to the adapter's automatic sign-in (if any)
+  useEffect(() => {
+    const savedSession = loadSession();
+    if (savedSession) {
+      setSession(savedSession);
+      setUser(savedSession.user as User);
+    } else {
+      setUser(adapter.getInitialUser?.() ?? null);
+    }
+    setIsLoading(false);
+  }, [adapter]);
+
+  // Let the API client refresh the token and retry once when a request fails with 401
+  const isSignedIn = session !== null;
+  useEffect(() => {
+    if (!isSignedIn) return;
+    apiClient.configure({ refreshToken: refreshSession });
+    return () => apiClient.configure({ refreshToken: undefined });
+  }, [isSignedIn, refreshSession]);
+
+  // Refresh silently shortly before the access token expires
+  const expiresAt = session?.expiresAt;
+  const canRefresh = !!session?.refreshToken;
+  useEffect(() => {
+    if (!expiresAt || !canRefresh) return;
+    const delay = new Date(expiresAt).getTime() - Date.now() - REFRESH_MARGIN;
+    const timer = setTimeout(() => {
+      refreshSession();
+    }, Math.min(Math.max(0, delay), MAX_TIMER_DELAY));
+    return () => clearTimeout(timer);
+  }, [expiresAt, canRefresh, refreshSession]);
+
   const login = async (email: string, password: string) => {
     setIsLoading(true);
     try {
-      // TODO: Replace this mock implementation with your API call
-      // Example:
-      // const response = await fetch('/api/auth/login', {
-      //   method: 'POST',
-      //   headers: { 'Content-Type': 'application/json' },
-      //   body: JSON.stringify({ email, password })
-      // });
-      // const data = await response.json();
-      // if (!response.ok) throw new Error(data.message);
-      
-      // Simulate API call - replace with actual API integration
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
       // Basic validation
       if (!email || !password) {
         return { success: false, error: 'Email and password are required' };
       }
 
-      // TODO: In production, this would come from your API response
-      const mockUser: User = {
-        id: '1',
-        email,
-        name: email.split('@')[0],
-      };
-
-      // TODO: Store the JWT token from your API response
-      // storage.auth.setToken(data.token);
-      
-      setUser(mockUser);
-      storage.auth.setUser(mockUser);
+      const result = await adapter.login(email, password);
+      if (isTwoFactorChallenge(result)) {
+        twoFactorChallengeRef.current = result.challengeToken;
+        return { success: false, twoFactorRequired: true };
+      }
+      applyResult(result);
       
       return { success: true };
     } catch (error) {
@@ -148,36 +390,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const register = async (email: string, password: string, name: string) => {
     setIsLoading(true);
     try {
-      // TODO: Replace this mock implementation with your API call
-      // Example:
-      // const response = await fetch('/api/auth/register', {
-      //   method: 'POST',
-      //   headers: { 'Content-Type': 'application/json' },
-      //   body: JSON.stringify({ email, password, name })
-      // });
-      // const data = await response.json();
-      // if (!response.ok) throw new Error(data.message);
-      
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
       // Basic validation
       if (!email || !password || !name) {
         return { success: false, error: 'All fields are required' };
       }
 
-      // TODO: In production, this would come from your API response
-      const mockUser: User = {
-        id: Date.now().toString(),
-        email,
-        name,
-      };
-
-      // TODO: Store the JWT token from your API response
-      // storage.auth.setToken(data.token);
-
-      setUser(mockUser);
-      storage.auth.setUser(mockUser);
+      applyResult(await adapter.register(email, password, name));
       
       return { success: true };
     } catch (error) {
@@ -191,35 +409,228 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const logout = async () => {
-    if (BYPASS_AUTH) {
-      // In bypass mode, just reload the page
-      window.location.href = '/';
-      return;
-    }
-
+  /**
+   * @function signOut
+   * @description Signs the user out on the server and locally, tells the other tabs, and redirects to the login page.
+   * @param {'user' | 'idle'} reason - Whether the user signed out or was signed out for inactivity.
+   */
+  const signOut = async (reason: 'user' | 'idle') => {
     try {
-      // TODO: Call logout API to invalidate server-side session
-      // await fetch('/api/auth/logout', {
-      //   method: 'POST',
-      //   headers: {
-      //     'Authorization': `Bearer ${storage.auth.getToken()}`,
-      //     'Content-Type': 'application/json'
-      //   }
-      // });
-      
-      setUser(null);
-      storage.auth.clearSession(); // Clear both user and token
-      navigate('/login');
+      await adapter.logout(session);
     } catch (error) {
-      console.error('Logout error:', error);
       // Even if server logout fails, clear local session
-      setUser(null);
-      storage.auth.clearSession();
+      console.error('Logout error:', error);
+    } finally {
+      endSession();
+      broadcast({ type: 'logout', reason });
+      if (reason === 'idle') {
+        showToast({ type: 'info', title: 'Signed out', description: 'You were signed out after a period of inactivity.' });
+      }
       navigate('/login');
     }
   };
 
+  const logout = () => {
+    signOut('user');
+  };
+
+  // Sign out automatically after `sessionTimeout` minutes without activity in any tab
+  const { remaining: idleTimeRemaining, reset: resetIdleTimeout } = useIdleTimeout({
+    timeout: user && sessionTimeout ? sessionTimeout * 60 * 1000 : null,
+    warningTime: IDLE_WARNING_TIME,
+    onIdle: () => signOut('idle'),
+    onActivity: at => broadcast({ type: 'activity', at }),
+  });
+
+  const stayActive = () => {
+    const now = Date.now();
+    resetIdleTimeout(now);
+    broadcast({ type: 'activity', at: now });
+  };
+
+  const setSessionTimeout = (minutes: number | null) => {
+    storage.preferences.set('session_timeout', { minutes });
+    setSessionTimeoutState(minutes);
+    broadcast({ type: 'timeout', minutes });
+  };
+
+  // Open the channel to the other tabs
+  useEffect(() => {
+    const channel = createSessionChannel();
+    channelRef.current = channel;
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  // Apply the changes announced by the other tabs
+  const isSignedInAnywhere = !!user;
+  useEffect(() => {
+    const channel = channelRef.current;
+    if (!channel) return;
+
+    return channel.subscribe(message => {
+      switch (message.type) {
+        case 'login':
+          restoreSession().then(() => {
+            if (['/login', '/register'].includes(window.location.pathname)) navigate('/dashboard', { replace: true });
+          });
+          break;
+        case 'refresh':
+          restoreSession();
+          break;
+        case 'logout':
+          if (!isSignedInAnywhere) break;
+          twoFactorChallengeRef.current = null;
+          endSession(); // ProtectedRoute redirects to the login page
+          showToast({
+            type: message.reason === 'user' ? 'info' : 'warning',
+            title: message.reason === 'expired' ? 'Session expired' : 'Signed out',
+            description: {
+              user: 'You signed out in another tab.',
+              idle: 'You were signed out after a period of inactivity.',
+              expired: 'Please sign in again to continue.',
+            }[message.reason],
+          });
+          break;
+        case 'activity':
+          resetIdleTimeout(message.at);
+          break;
+        case 'timeout':
+          setSessionTimeoutState(message.minutes);
+          break;
+      }
+    });
+  }, [isSignedInAnywhere, restoreSession, endSession, resetIdleTimeout, showToast, navigate]);
+
+  const loginWithProvider = async (providerId: string, returnTo = '/dashboard') => {
+    if (!adapter.loginWithProvider) {
+      return { success: false, error: 'External sign-in is not available' };
+    }
+    setIsLoading(true);
+    try {
+      const result = await adapter.loginWithProvider(providerId, returnTo);
+      if (!result) return { success: true, redirecting: true }; // Keep loading while the browser leaves the app
+      applyResult(result);
+      setIsLoading(false);
+      return { success: true };
+    } catch (error) {
+      console.error('Provider login error:', error);
+      setIsLoading(false);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Sign-in failed. Please try again.'
+      };
+    }
+  };
+
+  const completeProviderLogin = async (params: URLSearchParams) => {
+    if (!adapter.completeProviderLogin) {
+      return { success: false, error: 'External sign-in is not available' };
+    }
+    setIsLoading(true);
+    try {
+      const { returnTo, ...result } = await adapter.completeProviderLogin(params);
+      applyResult(result);
+      return { success: true, returnTo };
+    } catch (error) {
+      console.error('Provider callback error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Sign-in failed. Please try again.'
+      };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const verifyTwoFactor = async (code: string) => {
+    const challengeToken = twoFactorChallengeRef.current;
+    if (!adapter.verifyTwoFactor || !challengeToken) {
+      return { success: false, error: 'This sign-in attempt has expired. Please sign in again.' };
+    }
+    setIsLoading(true);
+    try {
+      applyResult(await adapter.verifyTwoFactor(challengeToken, code));
+      twoFactorChallengeRef.current = null;
+      return { success: true };
+    } catch (error) {
+      console.error('Two-factor verification error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Verification failed. Please try again.'
+      };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const cancelTwoFactor = () => {
+    twoFactorChallengeRef.current = null;
+  };
+
+  /**
+   * @function storeUser
+   * @description Replaces the signed-in user in state, in the current session and in storage.
+   * @param {User} updatedUser - The new user object.
+   */
+  const storeUser = (updatedUser: User) => {
+    setUser(updatedUser);
+    setSession(current => current && { ...current, user: updatedUser });
+    storage.auth.setUser(updatedUser);
+  };
+
+  // The two-factor management calls do not toggle `isLoading`: it would unmount the protected page calling them.
+  const setupTwoFactor = async () => {
+    if (!user || !adapter.setupTwoFactor) {
+      return { success: false, error: 'Two-factor authentication is not available' };
+    }
+    try {
+      return { success: true, setup: await adapter.setupTwoFactor(user) };
+    } catch (error) {
+      console.error('Two-factor setup error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Two-factor setup failed. Please try again.'
+      };
+    }
+  };
+
+  const enableTwoFactor = async (code: string) => {
+    if (!user || !adapter.enableTwoFactor) {
+      return { success: false, error: 'Two-factor authentication is not available' };
+    }
+    try {
+      const recoveryCodes = await adapter.enableTwoFactor(user, code);
+      storeUser({ ...user, twoFactorEnabled: true });
+      return { success: true, recoveryCodes };
+    } catch (error) {
+      console.error('Two-factor enable error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Verification failed. Please try again.'
+      };
+    }
+  };
+
+  const disableTwoFactor = async (code: string) => {
+    if (!user || !adapter.disableTwoFactor) {
+      return { success: false, error: 'Two-factor authentication is not available' };
+    }
+    try {
+      await adapter.disableTwoFactor(user, code);
+      storeUser({ ...user, twoFactorEnabled: false });
+      return { success: true };
+    } catch (error) {
+      console.error('Two-factor disable error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Verification failed. Please try again.'
+      };
+    }
+  };
+
   const updateProfile = async (updates: Partial<User>) => {
     setIsLoading(true);
     try {
@@ -244,9 +655,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       await new Promise(resolve => setTimeout(resolve, 1000));
 
       // TODO: In production, use the updated user data from API response
-      const updatedUser = { ...user, ...updates };
-      setUser(updatedUser);
-      storage.auth.setUser(updatedUser);
+      storeUser({ ...user, ...updates });
 
       return { success: true };
     } catch (error) {
@@ -260,15 +669,34 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Recomputed only when the user changes, so `useCan` consumers keep a stable callback
+  const permissions = useMemo(() => getUserPermissions(user), [user]);
+
   // Value provided by the context
   const value: AuthContextType = {
     user,
+    session,
+    authMode: adapter.mode,
     isAuthenticated: !!user, // True if user object exists
+    permissions,
     isLoading,
     login,
     register,
     logout,
     updateProfile,
+    providers: adapter.getProviders?.() ?? [],
+    loginWithProvider,
+    completeProviderLogin,
+    verifyTwoFactor,
+    cancelTwoFactor,
+    twoFactorAvailable: !!adapter.setupTwoFactor,
+    setupTwoFactor,
+    enableTwoFactor,
+    disableTwoFactor,
+    sessionTimeout,
+    setSessionTimeout,
+    idleTimeRemaining,
+    stayActive,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -289,36 +717,88 @@ export function useAuth(): AuthContextType {
   return context;
 }
 
+/**
+ * @function useCan
+ * @description Custom hook for permission checks in components.
+ * @returns {(permission: string | string[]) => boolean} A function that returns true if the current user holds
+ * the given permission (or all of the given permissions).
+ * @example
+ * const can = useCan();
+ * if (can('orders:write')) { ... }
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export function useCan(): (permission: string | string[]) => boolean {
+  const { permissions } = useAuth();
+  return useCallback((permission: string | string[]) => hasPermission(permissions, permission), [permissions]);
+}
+
+/**
+ * @interface CanProps
+ * @description Defines the props for the Can component.
+ * @property {string | string[]} permission - The required permission(s). All must be granted.
+ * @property {ReactNode} children - Rendered if the user holds the permission(s).
+ * @property {ReactNode} [fallback] - Rendered otherwise. Defaults to nothing.
+ */
+interface CanProps {
+  permission: string | string[];
+  children: ReactNode;
+  fallback?: ReactNode;
+}
+
+/**
+ * @function Can
+ * @description Renders its children only if the current user holds the required permission(s).
+ * @param {CanProps} props - The props for the component.
+ * @returns {ReactNode} The children or the fallback.
+ * @example
+ * <Can permission="orders:write">
+ *   <Button>New Order</Button>
+ * </Can>
+ */
+export function Can({ permission, children, fallback = null }: CanProps) {
+  const can = useCan();
+  return <>{can(permission) ? children : fallback}</>;
+}
+
 /**
  * @interface ProtectedRouteProps
  * @description Defines the props for the ProtectedRoute component.
  * @property {ReactNode} children - The child components to render if the user is authenticated.
+ * @property {string[]} [requiredPermissions] - Permissions the user must hold. Users without them are sent to the 403 page.
  */
 interface ProtectedRouteProps {
   children: ReactNode;
+  requiredPermissions?: string[];
 }
 
 /**
  * @function ProtectedRoute
- * @description A component that guards routes requiring authentication.
- * If the user is not authenticated, it redirects them to the login page.
+ * @description A component that guards routes requiring authentication and, optionally, permissions.
+ * If the user is not authenticated, it redirects them to the login page; if they lack a required permission,
+ * it redirects them to the 403 page (passing the refused path as `state.from`).
  * It also handles the loading state, showing nothing or a spinner until authentication status is confirmed.
  * @param {ProtectedRouteProps} props - The props for the component.
- * @returns {ReactNode | null} The child components if authenticated, or null/redirects otherwise.
+ * @returns {ReactNode | null} The child components if authenticated and permitted, or null/redirects otherwise.
  */
-export function ProtectedRoute({ children }: ProtectedRouteProps) {
+export function ProtectedRoute({ children, requiredPermissions = [] }: ProtectedRouteProps) {
   const { isAuthenticated, isLoading } = useAuth();
+  const can = useCan();
   const navigate = useNavigate();
+  const location = useLocation();
+  const isPermitted = can(requiredPermissions);
 
   useEffect(() => {
-    if (!isLoading && !isAuthenticated) {
+    if (isLoading) return;
+    if (!isAuthenticated) {
       navigate('/login', { replace: true });
+    } else if (!isPermitted) {
+      navigate('/403', { replace: true, state: { from: location.pathname } });
     }
-  }, [isAuthenticated, isLoading, navigate]);
+  }, [isAuthenticated, isLoading, isPermitted, navigate, location.pathname]);
 
   if (isLoading) {
     return null; // Or a loading spinner
   }
 
-  return isAuthenticated ? <>{children}</> : null;
+  return isAuthenticated && isPermitted ? <>{children}</> : null;
 }
\ No newline at end of file
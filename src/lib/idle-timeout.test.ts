@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useIdleTimeout } from './idle-timeout';
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const renderIdleTimeout = (timeout: number | null = 60_000) => {
+  const onIdle = vi.fn();
+  const onActivity = vi.fn();
+  const hook = renderHook(() => useIdleTimeout({ timeout, warningTime: 10_000, onIdle, onActivity }));
+  return { ...hook, onIdle, onActivity };
+};
+
+describe('useIdleTimeout', () => {
+  it('warns before the timeout, then reports the user as idle once', () => {
+    const { result, onIdle } = renderIdleTimeout();
+    act(() => vi.advanceTimersByTime(49_000));
+    expect(result.current.remaining).toBeNull();
+
+    act(() => vi.advanceTimersByTime(2_000));
+    expect(result.current.remaining).toBe(9_000);
+
+    act(() => vi.advanceTimersByTime(9_000));
+    expect(onIdle).toHaveBeenCalledTimes(1);
+    expect(result.current.remaining).toBeNull();
+  });
+
+  it('starts over on activity, but not once the warning is shown', () => {
+    const { result, onIdle } = renderIdleTimeout();
+    act(() => vi.advanceTimersByTime(40_000));
+    act(() => { window.dispatchEvent(new Event('keydown')); });
+    act(() => vi.advanceTimersByTime(40_000));
+    expect(onIdle).not.toHaveBeenCalled();
+    expect(result.current.remaining).toBeNull();
+
+    act(() => vi.advanceTimersByTime(15_000));
+    expect(result.current.remaining).not.toBeNull();
+    act(() => { window.dispatchEvent(new Event('mousemove')); });
+    act(() => vi.advanceTimersByTime(5_000));
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts over when reset, e.g. from activity in another tab', () => {
+    const { result, onIdle } = renderIdleTimeout();
+    act(() => vi.advanceTimersByTime(55_000));
+    act(() => result.current.reset());
+    expect(result.current.remaining).toBeNull();
+    act(() => vi.advanceTimersByTime(40_000));
+    expect(onIdle).not.toHaveBeenCalled();
+  });
+
+  it('reports activity at most every 10 seconds', () => {
+    const { onActivity } = renderIdleTimeout();
+    act(() => { window.dispatchEvent(new Event('keydown')); });
+    act(() => vi.advanceTimersByTime(5_000));
+    act(() => { window.dispatchEvent(new Event('keydown')); });
+    expect(onActivity).toHaveBeenCalledTimes(1);
+    act(() => vi.advanceTimersByTime(5_000));
+    act(() => { window.dispatchEvent(new Event('keydown')); });
+    expect(onActivity).toHaveBeenCalledTimes(2);
+  });
+
+  it('does nothing without a timeout', () => {
+    const { result, onIdle } = renderIdleTimeout(null);
+    act(() => vi.advanceTimersByTime(24 * 60 * 60 * 1000));
+    expect(onIdle).not.toHaveBeenCalled();
+    expect(result.current.remaining).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * @file idle-timeout.ts
+ * @description A hook that detects user inactivity. It tracks pointer, keyboard, scroll and touch events,
+ * enters a warning phase shortly before the timeout (so a countdown can be shown), and calls `onIdle`
+ * when the timeout is reached. Activity in other tabs can be fed in with `reset`, so the timeout is
+ * shared by every tab of the app.
+ */
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+/**
+ * @const ACTIVITY_EVENTS
+ * @description DOM events that count as user activity.
+ */
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'wheel', 'scroll', 'touchstart'] as const;
+
+/**
+ * @const ACTIVITY_THROTTLE
+ * @description Minimum interval between two `onActivity` calls, in milliseconds.
+ */
+const ACTIVITY_THROTTLE = 10 * 1000; // 10 seconds
+
+/**
+ * @const CHECK_INTERVAL
+ * @description How often the remaining time is checked, in milliseconds.
+ * Elapsed time is measured from timestamps, so throttled timers in background tabs only delay the check.
+ */
+const CHECK_INTERVAL = 1000;
+
+/**
+ * @interface IdleTimeoutOptions
+ * @description Options for the useIdleTimeout hook.
+ * @property {number | null} timeout - Inactivity allowed before `onIdle` is called, in milliseconds. Null disables the monitor.
+ * @property {number} warningTime - How long before the timeout the warning phase starts, in milliseconds.
+ * @property {() => void} onIdle - Called once the timeout is reached.
+ * @property {(at: number) => void} [onActivity] - Called (throttled) when the user is active in this tab, e.g., to tell other tabs.
+ */
+export interface IdleTimeoutOptions {
+  timeout: number | null;
+  warningTime: number;
+  onIdle: () => void;
+  onActivity?: (at: number) => void;
+}
+
+/**
+ * @interface IdleTimeoutState
+ * @description The state returned by the useIdleTimeout hook.
+ * @property {number | null} remaining - Time left before `onIdle`, in milliseconds (rounded up to whole seconds),
+ *   during the warning phase; null otherwise.
+ * @property {(at?: number) => void} reset - Records activity at `at` (default now) and ends the warning phase.
+ */
+export interface IdleTimeoutState {
+  remaining: number | null;
+  reset: (at?: number) => void;
+}
+
+/**
+ * @function useIdleTimeout
+ * @description Custom hook that calls `onIdle` after a period without user activity.
+ * Once the warning phase has started, activity in the page no longer counts: the user must confirm
+ * (the caller calls `reset`), so a stray mouse movement does not silently dismiss the warning.
+ * @param {IdleTimeoutOptions} options - The timeout, warning time and callbacks.
+ * @returns {IdleTimeoutState} The remaining time during the warning phase and a reset function.
+ * @example
+ * const { remaining, reset } = useIdleTimeout({ timeout: 30 * 60 * 1000, warningTime: 60 * 1000, onIdle: logout });
+ */
+export function useIdleTimeout({ timeout, warningTime, onIdle, onActivity }: IdleTimeoutOptions): IdleTimeoutState {
+  const [remaining, setRemaining] = useState<number | null>(null);
+  const lastActivityRef = useRef(Date.now());
+  const lastReportRef = useRef(0); // When `onActivity` was last called
+  const isWarningRef = useRef(false);
+  const onIdleRef = useRef(onIdle);
+  const onActivityRef = useRef(onActivity);
+
+  // Always call the latest callbacks without restarting the timers
+  useEffect(() => {
+    onIdleRef.current = onIdle;
+    onActivityRef.current = onActivity;
+  });
+
+  const reset = useCallback((at: number = Date.now()) => {
+    lastActivityRef.current = Math.max(lastActivityRef.current, at);
+    isWarningRef.current = false;
+    setRemaining(null);
+  }, []);
+
+  // Track activity in this tab
+  useEffect(() => {
+    if (timeout === null) return;
+
+    const handleActivity = () => {
+      if (isWarningRef.current) return;
+      const now = Date.now();
+      lastActivityRef.current = now;
+      if (now - lastReportRef.current >= ACTIVITY_THROTTLE) {
+        lastReportRef.current = now;
+        onActivityRef.current?.(now);
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    return () => ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+  }, [timeout]);
+
+  // Check the remaining time; the timeout starts over whenever it is enabled or changed
+  useEffect(() => {
+    if (timeout === null) return;
+    reset();
+
+    const interval = setInterval(() => {
+      const left = lastActivityRef.current + timeout - Date.now();
+      if (left <= 0) {
+        reset(Date.now());
+        onIdleRef.current();
+      } else if (left <= warningTime) {
+        isWarningRef.current = true;
+        setRemaining(Math.ceil(left / 1000) * 1000);
+      }
+    }, CHECK_INTERVAL);
+
+    return () => {
+      clearInterval(interval);
+      isWarningRef.current = false;
+      setRemaining(null);
+    };
+  }, [timeout, warningTime, reset]);
+
+  return { remaining, reset };
+}
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { base64UrlDecode, base64UrlEncode, decodeJwt, getTokenExpiry, isTokenExpired } from './jwt';
+
+/**
+ * Builds an unsigned token with the given payload.
+ */
+const createToken = (payload: unknown): string =>
+  `${base64UrlEncode(JSON.stringify({ alg: 'none', typ: 'JWT' }))}.${base64UrlEncode(JSON.stringify(payload))}.signature`;
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('base64url', () => {
+  it('round-trips UTF-8 text, including characters that need the URL-safe alphabet', () => {
+    const value = 'Zoë ~?>> 東京';
+    const encoded = base64UrlEncode(value);
+    expect(encoded).not.toMatch(/[+/=]/);
+    expect(base64UrlDecode(encoded)).toBe(value);
+  });
+});
+
+describe('decodeJwt', () => {
+  it('decodes the payload', () => {
+    expect(decodeJwt(createToken({ sub: 'user-1', exp: 1700000000, role: 'admin' })))
+      .toEqual({ sub: 'user-1', exp: 1700000000, role: 'admin' });
+  });
+
+  it('returns null for malformed tokens', () => {
+    expect(decodeJwt('not-a-token')).toBeNull();
+    expect(decodeJwt('a.b')).toBeNull();
+    expect(decodeJwt(`header.${base64UrlEncode('{')}.signature`)).toBeNull();
+    expect(decodeJwt(createToken('just a string'))).toBeNull();
+    expect(decodeJwt(createToken(null))).toBeNull();
+  });
+});
+
+describe('getTokenExpiry', () => {
+  it('returns the exp claim in milliseconds', () => {
+    expect(getTokenExpiry(createToken({ exp: 1700000000 }))).toBe(1700000000000);
+  });
+
+  it('returns null without a numeric exp claim', () => {
+    expect(getTokenExpiry(createToken({ sub: 'user-1' }))).toBeNull();
+    expect(getTokenExpiry(createToken({ exp: '1700000000' }))).toBeNull();
+    expect(getTokenExpiry('garbage')).toBeNull();
+  });
+});
+
+describe('isTokenExpired', () => {
+  it('compares the expiry with the current time, minus the leeway', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    const token = createToken({ exp: Date.parse('2024-01-01T00:01:00Z') / 1000 });
+
+    expect(isTokenExpired(token)).toBe(false);
+    expect(isTokenExpired(token, 30_000)).toBe(false);
+    expect(isTokenExpired(token, 60_000)).toBe(true);
+    vi.setSystemTime(new Date('2024-01-01T00:01:00Z'));
+    expect(isTokenExpired(token)).toBe(true);
+  });
+
+  it('treats tokens without an exp claim as not expiring', () => {
+    expect(isTokenExpired(createToken({ sub: 'user-1' }), 60_000)).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * @file jwt.ts
+ * @description Helpers for reading JSON Web Tokens on the client.
+ * Tokens are only decoded, never verified: the signature can only be checked by the server,
+ * so the decoded claims must not be trusted for anything but scheduling (e.g., when to refresh).
+ */
+
+/**
+ * @interface JwtPayload
+ * @description Registered JWT claims used by the dashboard. Additional claims are allowed.
+ * @property {string} [sub] - Subject (the user ID).
+ * @property {number} [exp] - Expiration time, in seconds since the Unix epoch.
+ * @property {number} [iat] - Issued-at time, in seconds since the Unix epoch.
+ */
+export interface JwtPayload {
+  sub?: string;
+  exp?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+/**
+ * @function base64UrlDecode
+ * @description Decodes a base64url string (as used in JWT segments) to a UTF-8 string.
+ * @param {string} segment - The base64url-encoded segment.
+ * @returns {string} The decoded string.
+ */
+export const base64UrlDecode = (segment: string): string => {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+/**
+ * @function base64UrlEncodeBytes
+ * @description Encodes raw bytes as base64url without padding (e.g., a hash or random values).
+ * @param {Uint8Array} bytes - The bytes to encode.
+ * @returns {string} The encoded string.
+ */
+export const base64UrlEncodeBytes = (bytes: Uint8Array): string => {
+  const binary = Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * @function base64UrlEncode
+ * @description Encodes a UTF-8 string as base64url without padding.
+ * @param {string} value - The string to encode.
+ * @returns {string} The encoded segment.
+ */
+export const base64UrlEncode = (value: string): string =>
+  base64UrlEncodeBytes(new TextEncoder().encode(value));
+
+/**
+ * @function decodeJwt
+ * @description Decodes the payload of a JWT without verifying its signature.
+ * @template T - The expected payload type.
+ * @param {string} token - The encoded token (`header.payload.signature`).
+ * @returns {T | null} The decoded payload, or null if the token is malformed.
+ */
+export function decodeJwt<T extends JwtPayload = JwtPayload>(token: string): T | null {
+  const segments = token.split('.');
+  if (segments.length !== 3) return null;
+  try {
+    const payload = JSON.parse(base64UrlDecode(segments[1]));
+    return payload && typeof payload === 'object' ? (payload as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * @function getTokenExpiry
+ * @description Reads the `exp` claim of a JWT.
+ * @param {string} token - The encoded token.
+ * @returns {number | null} The expiry as a millisecond timestamp, or null if the token has no valid `exp` claim.
+ */
+export function getTokenExpiry(token: string): number | null {
+  const exp = decodeJwt(token)?.exp;
+  return typeof exp === 'number' && Number.isFinite(exp) ? exp * 1000 : null;
+}
+
+/**
+ * @function isTokenExpired
+ * @description Checks whether a JWT has expired, or will within `leewayMs`.
+ * Tokens without an `exp` claim are treated as not expiring.
+ * @param {string} token - The encoded token.
+ * @param {number} [leewayMs=0] - How long before the actual expiry the token should already count as expired.
+ * @returns {boolean} True if the token is expired.
+ */
+export function isTokenExpired(token: string, leewayMs = 0): boolean {
+  const expiresAt = getTokenExpiry(token);
+  return expiresAt !== null && Date.now() + leewayMs >= expiresAt;
+}
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { apiClient } from './api-client';
+import { base64UrlEncode } from './jwt';
+import { beginOidcLogin, completeOidcLogin, createCodeChallenge } from './oidc';
+
+const provider = {
+  id: 'stub',
+  name: 'Stub IdP',
+  clientId: 'radix-dashboard',
+  issuer: 'https://idp.example.com',
+  authorizationEndpoint: 'https://idp.example.com/authorize',
+  tokenEndpoint: 'https://idp.example.com/token',
+};
+
+/**
+ * Builds an unsigned ID token with the given claims.
+ */
+const createIdToken = (claims: Record<string, unknown>): string =>
+  `${base64UrlEncode(JSON.stringify({ alg: 'none' }))}.${base64UrlEncode(JSON.stringify(claims))}.signature`;
+
+let tokenRequests: URLSearchParams[] = [];
+let idTokenClaims: (authorization: URLSearchParams) => Record<string, unknown>;
+let authorization: URLSearchParams;
+
+/**
+ * Starts a sign-in and returns the parameters of the authorization request it redirected to.
+ */
+const begin = async (): Promise<URLSearchParams> => {
+  const assign = vi.spyOn(window.location, 'assign').mockImplementation(() => {});
+  await beginOidcLogin('stub', '/dashboard/orders');
+  authorization = new URL(assign.mock.calls[0][0] as string).searchParams;
+  assign.mockRestore();
+  return authorization;
+};
+
+beforeEach(() => {
+  vi.stubEnv('VITE_OIDC_PROVIDERS', JSON.stringify([provider]));
+  tokenRequests = [];
+  idTokenClaims = request => ({
+    iss: provider.issuer,
+    aud: provider.clientId,
+    sub: 'user-1',
+    email: 'ada@example.com',
+    nonce: request.get('nonce'),
+    exp: Math.floor(Date.now() / 1000) + 300,
+  });
+  apiClient.configure({
+    fetch: async (_url, init) => {
+      tokenRequests.push(new URLSearchParams(String(init?.body)));
+      return new Response(JSON.stringify({
+        access_token: 'access',
+        refresh_token: 'refresh',
+        id_token: createIdToken(idTokenClaims(authorization)),
+      }), { headers: { 'content-type': 'application/json' } });
+    },
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  sessionStorage.clear();
+});
+
+describe('createCodeChallenge', () => {
+  it('derives the S256 challenge of RFC 7636 appendix B', async () => {
+    expect(await createCodeChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk'))
+      .toBe('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM');
+  });
+});
+
+describe('OIDC sign-in', () => {
+  it('sends a fresh state, nonce and PKCE challenge, and the matching verifier with the code', async () => {
+    const first = await begin();
+    expect(first.get('code_challenge_method')).toBe('S256');
+    const result = await completeOidcLogin(new URLSearchParams({ code: 'abc', state: first.get('state')! }));
+
+    expect(result).toMatchObject({ providerId: 'stub', returnTo: '/dashboard/orders', user: { id: 'user-1' } });
+    expect(await createCodeChallenge(tokenRequests[0].get('code_verifier')!)).toBe(first.get('code_challenge'));
+    expect(tokenRequests[0].get('code')).toBe('abc');
+
+    const second = await begin();
+    expect(second.get('state')).not.toBe(first.get('state'));
+    expect(second.get('nonce')).not.toBe(first.get('nonce'));
+  });
+
+  it('rejects a callback whose state does not match, and consumes the sign-in', async () => {
+    const { state } = Object.fromEntries(await begin());
+    await expect(completeOidcLogin(new URLSearchParams({ code: 'abc', state: 'forged' }))).rejects.toThrow('invalid state');
+    await expect(completeOidcLogin(new URLSearchParams({ code: 'abc', state }))).rejects.toThrow('No sign-in is in progress');
+    expect(tokenRequests).toHaveLength(0);
+  });
+
+  it('rejects an ID token issued for another sign-in or client', async () => {
+    const base = idTokenClaims;
+    idTokenClaims = request => ({ ...base(request), nonce: 'replayed' });
+    const first = await begin();
+    await expect(completeOidcLogin(new URLSearchParams({ code: 'abc', state: first.get('state')! })))
+      .rejects.toThrow('nonce');
+
+    idTokenClaims = request => ({ ...base(request), aud: 'another-client' });
+    const second = await begin();
+    await expect(completeOidcLogin(new URLSearchParams({ code: 'abc', state: second.get('state')! })))
+      .rejects.toThrow('not issued for this application');
+  });
+});
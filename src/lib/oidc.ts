@@ -0,0 +1,377 @@
+/**
+ * @file oidc.ts
+ * @description A minimal OAuth 2.0 / OpenID Connect client implementing the authorization code flow with PKCE.
+ * Providers are configured with `VITE_OIDC_PROVIDERS` (a JSON array of `OidcProviderConfig`); endpoints that
+ * are not configured explicitly are read from the issuer's discovery document.
+ * The flow is:
+ * 1. `beginOidcLogin` stores a `state`, `nonce` and PKCE code verifier in `sessionStorage` and redirects to the provider.
+ * 2. The provider redirects back to `/auth/callback`, where `completeOidcLogin` checks `state`, exchanges the code
+ *    (sending the code verifier), and checks the ID token's `nonce`, issuer, audience and expiry.
+ * 3. `refreshOidcTokens` uses the refresh token grant to keep the session alive.
+ * ID token signatures are not verified in the browser; the API must validate the tokens it receives.
+ */
+import type { User, UserRole } from '../types';
+import type { AuthAdapterResult } from './auth-adapters';
+import { apiClient } from './api-client';
+import { base64UrlEncodeBytes, decodeJwt, isTokenExpired } from './jwt';
+
+/**
+ * @interface OidcProviderConfig
+ * @description Configuration of an OpenID Connect (or plain OAuth 2.0) provider.
+ * @property {string} id - Identifier used in the app (e.g., `google`).
+ * @property {string} name - Display name shown on the sign-in button (e.g., `Google`).
+ * @property {string} clientId - The public client ID registered with the provider.
+ * @property {string} [issuer] - The issuer URL. Required for discovery and used to check the ID token's `iss` claim.
+ * @property {string} [scope='openid profile email'] - Requested scopes. Without `openid`, no ID token is expected.
+ * @property {string} [authorizationEndpoint] - Overrides the discovered authorization endpoint.
+ * @property {string} [tokenEndpoint] - Overrides the discovered token endpoint.
+ * @property {string} [userinfoEndpoint] - Overrides the discovered userinfo endpoint.
+ * @property {string} [redirectUri] - Defaults to `<origin>/auth/callback`.
+ */
+export interface OidcProviderConfig {
+  id: string;
+  name: string;
+  clientId: string;
+  issuer?: string;
+  scope?: string;
+  authorizationEndpoint?: string;
+  tokenEndpoint?: string;
+  userinfoEndpoint?: string;
+  redirectUri?: string;
+}
+
+/**
+ * @interface OidcTransaction
+ * @description The state of a sign-in in progress, kept in `sessionStorage` between the redirect and the callback.
+ * @property {string} providerId - The provider being signed in with.
+ * @property {string} state - Random value echoed back by the provider, protecting against CSRF.
+ * @property {string} nonce - Random value the provider must embed in the ID token, protecting against replay.
+ * @property {string} codeVerifier - The PKCE code verifier.
+ * @property {string} redirectUri - The redirect URI sent with the authorization request.
+ * @property {string} returnTo - App path to navigate to after sign-in.
+ * @property {number} createdAt - Millisecond timestamp of when the sign-in started.
+ */
+interface OidcTransaction {
+  providerId: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  returnTo: string;
+  createdAt: number;
+}
+
+/**
+ * @interface TokenResponse
+ * @description A token endpoint response (RFC 6749 §5.1, OIDC Core §3.1.3.3).
+ */
+interface TokenResponse {
+  access_token: string;
+  token_type?: string;
+  expires_in?: number;
+  refresh_token?: string;
+  id_token?: string;
+}
+
+/**
+ * @const TRANSACTION_KEY
+ * @description `sessionStorage` key of the pending sign-in.
+ */
+const TRANSACTION_KEY = 'radix_dashboard_oidc_transaction';
+
+/**
+ * @const TRANSACTION_TTL
+ * @description How long a sign-in may take before the callback is rejected, in milliseconds.
+ */
+const TRANSACTION_TTL = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * @const DEFAULT_SCOPE
+ * @description Scopes requested when a provider does not configure its own.
+ */
+const DEFAULT_SCOPE = 'openid profile email';
+
+/**
+ * @const discoveryCache
+ * @description Discovered endpoints, keyed by issuer, so discovery runs once per page load.
+ */
+const discoveryCache = new Map<string, Promise<Record<string, any>>>();
+
+/**
+ * @function randomString
+ * @description Generates a cryptographically random base64url string.
+ * @param {number} [bytes=32] - Number of random bytes.
+ * @returns {string} The random string.
+ */
+const randomString = (bytes = 32): string =>
+  base64UrlEncodeBytes(crypto.getRandomValues(new Uint8Array(bytes)));
+
+/**
+ * @function createCodeChallenge
+ * @description Derives the PKCE `S256` code challenge from a code verifier.
+ * @param {string} verifier - The code verifier.
+ * @returns {Promise<string>} The base64url-encoded SHA-256 hash of the verifier.
+ */
+export async function createCodeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64UrlEncodeBytes(new Uint8Array(digest));
+}
+
+/**
+ * @function getOidcProviders
+ * @description Reads the configured providers from `VITE_OIDC_PROVIDERS`.
+ * @returns {OidcProviderConfig[]} The providers, or an empty array if none are configured or the value is invalid.
+ */
+export function getOidcProviders(): OidcProviderConfig[] {
+  const raw = import.meta.env.VITE_OIDC_PROVIDERS;
+  if (!raw) return [];
+  try {
+    const providers = JSON.parse(raw);
+    if (!Array.isArray(providers)) throw new Error('Expected a JSON array');
+    return providers.filter((provider): provider is OidcProviderConfig =>
+      !!provider && typeof provider.id === 'string' && typeof provider.clientId === 'string'
+    ).map(provider => ({ ...provider, name: provider.name || provider.id }));
+  } catch (error) {
+    console.error('OIDC: Invalid VITE_OIDC_PROVIDERS, no providers are available.', error);
+    return [];
+  }
+}
+
+/**
+ * @function getProvider
+ * @description Looks up a configured provider by ID.
+ * @param {string} providerId - The provider ID.
+ * @returns {OidcProviderConfig} The provider.
+ * @throws {Error} If the provider is not configured.
+ */
+const getProvider = (providerId: string): OidcProviderConfig => {
+  const provider = getOidcProviders().find(candidate => candidate.id === providerId);
+  if (!provider) throw new Error(`Sign-in provider "${providerId}" is not configured`);
+  return provider;
+};
+
+/**
+ * @function resolveEndpoints
+ * @description Returns the provider's endpoints, using the issuer's discovery document for any that are not configured.
+ * @param {OidcProviderConfig} provider - The provider.
+ * @returns {Promise<{ authorizationEndpoint: string; tokenEndpoint: string; userinfoEndpoint?: string }>} The endpoints.
+ * @throws {Error} If a required endpoint can be neither configured nor discovered.
+ */
+const resolveEndpoints = async (provider: OidcProviderConfig) => {
+  let discovered: Record<string, any> = {};
+  if ((!provider.authorizationEndpoint || !provider.tokenEndpoint) && provider.issuer) {
+    const issuer = provider.issuer.replace(/\/+$/, '');
+    if (!discoveryCache.has(issuer)) {
+      const request = apiClient.get<Record<string, any>>(`${issuer}/.well-known/openid-configuration`, undefined, { skipAuth: true });
+      // Do not cache failures, so a later attempt can retry discovery
+      discoveryCache.set(issuer, request.catch(error => {
+        discoveryCache.delete(issuer);
+        throw error;
+      }));
+    }
+    discovered = await discoveryCache.get(issuer)!;
+  }
+
+  const authorizationEndpoint = provider.authorizationEndpoint || discovered.authorization_endpoint;
+  const tokenEndpoint = provider.tokenEndpoint || discovered.token_endpoint;
+  if (!authorizationEndpoint || !tokenEndpoint) {
+    throw new Error(`Sign-in provider "${provider.id}" has no authorization or token endpoint`);
+  }
+  return {
+    authorizationEndpoint: authorizationEndpoint as string,
+    tokenEndpoint: tokenEndpoint as string,
+    userinfoEndpoint: (provider.userinfoEndpoint || discovered.userinfo_endpoint) as string | undefined,
+  };
+};
+
+/**
+ * @function requestTokens
+ * @description Posts a form-encoded grant to the provider's token endpoint.
+ * @param {OidcProviderConfig} provider - The provider.
+ * @param {Record<string, string>} grant - The grant parameters.
+ * @returns {Promise<TokenResponse>} The token response.
+ * @throws {ApiClientError} If the token endpoint rejects the grant.
+ */
+const requestTokens = async (provider: OidcProviderConfig, grant: Record<string, string>): Promise<TokenResponse> => {
+  const { tokenEndpoint } = await resolveEndpoints(provider);
+  const body = new URLSearchParams({ ...grant, client_id: provider.clientId });
+  const response = await apiClient.post<TokenResponse>(tokenEndpoint, body.toString(), {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    skipAuth: true,
+  });
+  if (!response?.access_token) throw new Error('The sign-in provider did not return an access token');
+  return response;
+};
+
+/**
+ * @function validateIdToken
+ * @description Checks the claims of an ID token against the sign-in that requested it.
+ * @param {string} idToken - The encoded ID token.
+ * @param {OidcProviderConfig} provider - The provider.
+ * @param {string} [nonce] - The expected nonce. Omitted when refreshing, where providers may leave it out.
+ * @returns {Record<string, any>} The ID token claims.
+ * @throws {Error} If the token is malformed, expired, or was not issued for this client and sign-in.
+ */
+const validateIdToken = (idToken: string, provider: OidcProviderConfig, nonce?: string): Record<string, any> => {
+  const claims = decodeJwt(idToken);
+  if (!claims) throw new Error('The sign-in provider returned a malformed ID token');
+  if (nonce !== undefined && claims.nonce !== nonce) throw new Error('ID token nonce does not match the sign-in request');
+  if (provider.issuer && String(claims.iss).replace(/\/+$/, '') !== provider.issuer.replace(/\/+$/, '')) {
+    throw new Error('ID token was issued by an unexpected provider');
+  }
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audience.includes(provider.clientId)) throw new Error('ID token was not issued for this application');
+  if (isTokenExpired(idToken)) throw new Error('ID token has expired');
+  return claims;
+};
+
+/**
+ * @function readRole
+ * @description Reads the user's role from the `role` (or first recognized `roles`) claim.
+ * @param {Record<string, any>} claims - The ID token or userinfo claims.
+ * @returns {UserRole | undefined} The role, or undefined if the provider sends none the dashboard knows.
+ */
+const readRole = (claims: Record<string, any>): UserRole | undefined => {
+  const candidates = [claims.role, ...(Array.isArray(claims.roles) ? claims.roles : [])];
+  return candidates.find((role): role is UserRole => role === 'admin' || role === 'moderator' || role === 'user');
+};
+
+/**
+ * @function toSession
+ * @description Builds the session (user and tokens) from a token response.
+ * The user is read from the ID token, falling back to the userinfo endpoint. Roles and extra permissions
+ * are taken from the `role`/`roles` and `permissions` claims, if the provider is configured to send them.
+ * @param {OidcProviderConfig} provider - The provider.
+ * @param {TokenResponse} tokens - The token response.
+ * @param {string} [nonce] - The expected ID token nonce (sign-in only).
+ * @param {{ refreshToken: string; user: User | null }} [previous] - When refreshing: the refresh token, kept if the
+ *   provider does not rotate it, and the current user, kept if the provider does not identify the user again.
+ * @returns {Promise<AuthAdapterResult>} The user and tokens.
+ */
+const toSession = async (
+  provider: OidcProviderConfig,
+  tokens: TokenResponse,
+  nonce?: string,
+  previous?: { refreshToken: string; user: User | null }
+): Promise<AuthAdapterResult> => {
+  const expectsIdToken = (provider.scope || DEFAULT_SCOPE).split(' ').includes('openid');
+  if (expectsIdToken && !tokens.id_token && nonce !== undefined) {
+    throw new Error('The sign-in provider did not return an ID token');
+  }
+
+  let claims: Record<string, any> = tokens.id_token ? validateIdToken(tokens.id_token, provider, nonce) : {};
+  if (!claims.email) {
+    const { userinfoEndpoint } = await resolveEndpoints(provider);
+    if (userinfoEndpoint) {
+      const userinfo = await apiClient.get<Record<string, any>>(userinfoEndpoint, undefined, {
+        headers: { Authorization: `Bearer ${tokens.access_token}` },
+      });
+      claims = { ...userinfo, ...claims };
+    }
+  }
+  if (!claims.sub && !previous?.user) throw new Error('The sign-in provider did not identify the user');
+
+  const user: User = claims.sub
+    ? {
+        id: String(claims.sub),
+        email: claims.email || '',
+        name: claims.name || claims.preferred_username || claims.email || String(claims.sub),
+        avatar: claims.picture,
+        role: readRole(claims),
+        permissions: Array.isArray(claims.permissions) ? claims.permissions.map(String) : undefined,
+      }
+    : previous!.user!;
+  return {
+    user,
+    tokens: {
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token || previous?.refreshToken || '',
+      expiresAt: tokens.expires_in ? new Date(Date.now() + tokens.expires_in * 1000).toISOString() : undefined,
+    },
+  };
+};
+
+/**
+ * @function beginOidcLogin
+ * @description Starts a sign-in: stores a new transaction and redirects the browser to the provider.
+ * @param {string} providerId - The provider to sign in with.
+ * @param {string} [returnTo='/dashboard'] - App path to navigate to after sign-in.
+ * @returns {Promise<void>} Resolves once the redirect has been requested.
+ * @throws {Error} If the provider is unknown or its endpoints cannot be resolved.
+ */
+export async function beginOidcLogin(providerId: string, returnTo = '/dashboard'): Promise<void> {
+  const provider = getProvider(providerId);
+  const { authorizationEndpoint } = await resolveEndpoints(provider);
+
+  const transaction: OidcTransaction = {
+    providerId,
+    state: randomString(),
+    nonce: randomString(),
+    codeVerifier: randomString(48),
+    redirectUri: provider.redirectUri || `${window.location.origin}/auth/callback`,
+    returnTo,
+    createdAt: Date.now(),
+  };
+  sessionStorage.setItem(TRANSACTION_KEY, JSON.stringify(transaction));
+
+  const url = new URL(authorizationEndpoint, window.location.origin);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: transaction.redirectUri,
+    scope: provider.scope || DEFAULT_SCOPE,
+    state: transaction.state,
+    nonce: transaction.nonce,
+    code_challenge: await createCodeChallenge(transaction.codeVerifier),
+    code_challenge_method: 'S256',
+  }).toString();
+  window.location.assign(url.toString());
+}
+
+/**
+ * @function completeOidcLogin
+ * @description Finishes a sign-in from the callback URL parameters: checks `state`, exchanges the code and checks the ID token.
+ * The transaction is consumed even if the sign-in fails, so a callback URL cannot be replayed.
+ * @param {URLSearchParams} params - The callback URL's query parameters.
+ * @returns {Promise<AuthAdapterResult & { providerId: string; returnTo: string }>} The session and where to go next.
+ * @throws {Error} If the provider reported an error, no matching sign-in is in progress, or any check fails.
+ */
+export async function completeOidcLogin(params: URLSearchParams): Promise<AuthAdapterResult & { providerId: string; returnTo: string }> {
+  const saved = sessionStorage.getItem(TRANSACTION_KEY);
+  sessionStorage.removeItem(TRANSACTION_KEY);
+
+  const providerError = params.get('error');
+  if (providerError) throw new Error(params.get('error_description') || `Sign-in was not completed (${providerError})`);
+
+  const transaction: OidcTransaction | null = saved ? JSON.parse(saved) : null;
+  if (!transaction || Date.now() - transaction.createdAt > TRANSACTION_TTL) {
+    throw new Error('No sign-in is in progress, or it took too long. Please try again.');
+  }
+  if (params.get('state') !== transaction.state) throw new Error('Sign-in response does not match the request (invalid state)');
+  const code = params.get('code');
+  if (!code) throw new Error('The sign-in provider did not return an authorization code');
+
+  const provider = getProvider(transaction.providerId);
+  const tokens = await requestTokens(provider, {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: transaction.redirectUri,
+    code_verifier: transaction.codeVerifier,
+  });
+  const session = await toSession(provider, tokens, transaction.nonce);
+  return { ...session, providerId: provider.id, returnTo: transaction.returnTo };
+}
+
+/**
+ * @function refreshOidcTokens
+ * @description Exchanges a refresh token with the provider that issued it.
+ * @param {string} providerId - The provider that issued the refresh token.
+ * @param {string} refreshToken - The refresh token.
+ * @param {User | null} [currentUser=null] - The signed-in user, kept if the provider does not return user claims on refresh.
+ * @returns {Promise<AuthAdapterResult>} The user and the new tokens.
+ */
+export async function refreshOidcTokens(providerId: string, refreshToken: string, currentUser: User | null = null): Promise<AuthAdapterResult> {
+  const provider = getProvider(providerId);
+  const tokens = await requestTokens(provider, { grant_type: 'refresh_token', refresh_token: refreshToken });
+  return toSession(provider, tokens, undefined, { refreshToken, user: currentUser });
+}
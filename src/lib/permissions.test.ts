@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import type { User, UserRole } from '../types';
+import { PERMISSIONS, getUserPermissions, hasPermission } from './permissions';
+
+const createUser = (overrides: Partial<User> = {}): User => ({ id: '1', email: 'ada@example.com', name: 'Ada', ...overrides });
+
+describe('getUserPermissions', () => {
+  it('grants nothing without a user', () => {
+    expect(getUserPermissions(null)).toEqual([]);
+  });
+
+  it('grants every permission to admins and the user permissions to users without a role', () => {
+    expect(getUserPermissions(createUser({ role: 'admin' })).sort()).toEqual(PERMISSIONS.map(({ id }) => id).sort());
+    expect(getUserPermissions(createUser())).toEqual(getUserPermissions(createUser({ role: 'user' })));
+    expect(getUserPermissions(createUser())).not.toContain('products:write');
+  });
+
+  it('adds the extra permissions of the user once', () => {
+    const permissions = getUserPermissions(createUser({ role: 'user', permissions: ['orders:write', 'orders:view'] }));
+    expect(permissions).toContain('orders:write');
+    expect(permissions.filter(permission => permission === 'orders:view')).toHaveLength(1);
+  });
+
+  it('grants only the extra permissions for an unknown role', () => {
+    expect(getUserPermissions(createUser({ role: 'owner' as UserRole, permissions: ['billing:view'] }))).toEqual(['billing:view']);
+  });
+});
+
+describe('hasPermission', () => {
+  it('requires every listed permission', () => {
+    expect(hasPermission(['orders:view'], 'orders:view')).toBe(true);
+    expect(hasPermission(['orders:view'], ['orders:view', 'orders:write'])).toBe(false);
+    expect(hasPermission([], [])).toBe(true);
+  });
+
+  it('accepts resource and global wildcards', () => {
+    expect(hasPermission(['orders:*'], ['orders:view', 'orders:write'])).toBe(true);
+    expect(hasPermission(['orders:*'], 'products:view')).toBe(false);
+    expect(hasPermission(['*'], ['users:write', 'billing:write'])).toBe(true);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * @file permissions.ts
+ * @description The permission model of the dashboard. Permissions are `resource:action` strings
+ * (e.g., `orders:write`). A user is granted the permissions of their role plus any listed on the user itself.
+ * The same helpers drive route guards (`ProtectedRoute`), conditional rendering (`<Can>`, `useCan`)
+ * and the sidebar, so a link is hidden exactly when its page would be refused.
+ *
+ * The client-side checks only shape the UI: the API must enforce the same permissions.
+ */
+import type { User, UserRole } from '../types';
+
+/**
+ * @interface PermissionDefinition
+ * @description Describes a permission for display (e.g., in the permissions matrix on the Users page).
+ * @property {string} id - The permission string.
+ * @property {string} name - Human-readable description.
+ * @property {string} category - Group shown in the permissions matrix.
+ */
+export interface PermissionDefinition {
+  id: string;
+  name: string;
+  category: string;
+}
+
+/**
+ * @const PERMISSIONS
+ * @description All permissions known to the dashboard, grouped by category.
+ */
+export const PERMISSIONS: PermissionDefinition[] = [
+  { id: 'users:view', name: 'View User List and Profiles', category: 'Users' },
+  { id: 'users:write', name: 'Manage Users (Create, Edit, Delete)', category: 'Users' },
+  { id: 'products:view', name: 'View Products', category: 'Catalog' },
+  { id: 'products:write', name: 'Manage Products and Stock', category: 'Catalog' },
+  { id: 'orders:view', name: 'View Orders', category: 'Sales' },
+  { id: 'orders:write', name: 'Create, Edit and Cancel Orders', category: 'Sales' },
+  { id: 'transactions:view', name: 'View Transactions', category: 'Sales' },
+  { id: 'analytics:view', name: 'View Analytics', category: 'Reports' },
+  { id: 'tracking:view', name: 'View Shipment Tracking', category: 'Reports' },
+  { id: 'billing:view', name: 'View Billing', category: 'Billing' },
+  { id: 'billing:write', name: 'Manage Subscriptions and Invoices', category: 'Billing' },
+  { id: 'content:view', name: 'View Content', category: 'Content' },
+  { id: 'content:write', name: 'Manage Content', category: 'Content' },
+  { id: 'settings:write', name: 'Manage Settings', category: 'Settings' },
+  { id: 'profile:write', name: 'Edit Own Profile Details', category: 'Profile' },
+];
+
+/**
+ * @const ROLE_PERMISSIONS
+ * @description The permissions granted by each role.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
+  admin: PERMISSIONS.map(permission => permission.id),
+  moderator: [
+    'users:view',
+    'products:view',
+    'products:write',
+    'orders:view',
+    'orders:write',
+    'transactions:view',
+    'analytics:view',
+    'tracking:view',
+    'content:view',
+    'content:write',
+    'profile:write',
+  ],
+  user: ['products:view', 'orders:view', 'tracking:view', 'profile:write'],
+};
+
+/**
+ * @const ROUTE_PERMISSIONS
+ * @description Permissions required by dashboard routes, keyed by path. Routes not listed are open to every signed-in user.
+ */
+export const ROUTE_PERMISSIONS: Record<string, string[]> = {
+  '/dashboard/users': ['users:view'],
+  '/dashboard/products': ['products:view'],
+  '/dashboard/orders': ['orders:view'],
+  '/dashboard/transactions': ['transactions:view'],
+  '/dashboard/analytics': ['analytics:view'],
+  '/dashboard/tracking': ['tracking:view'],
+};
+
+/**
+ * @function getUserPermissions
+ * @description Returns the permissions granted to a user: those of their role (`user` if unset) plus their own.
+ * @param {User | null} user - The user.
+ * @returns {string[]} The granted permissions. Empty when no user is signed in.
+ */
+export function getUserPermissions(user: User | null): string[] {
+  if (!user) return [];
+  const rolePermissions = ROLE_PERMISSIONS[user.role ?? 'user'] ?? [];
+  return Array.from(new Set([...rolePermissions, ...(user.permissions ?? [])]));
+}
+
+/**
+ * @function hasPermission
+ * @description Checks whether granted permissions include all required ones.
+ * A granted `*` matches everything and `resource:*` matches every action on the resource,
+ * so a backend can grant broad permissions without listing them.
+ * @param {string[]} granted - The permissions the user holds.
+ * @param {string | string[]} required - The permission(s) to check. All must be granted.
+ * @returns {boolean} True if every required permission is granted.
+ */
+export function hasPermission(granted: string[], required: string | string[]): boolean {
+  const requiredList = Array.isArray(required) ? required : [required];
+  return requiredList.every(permission => {
+    const resource = permission.split(':')[0];
+    return granted.includes(permission) || granted.includes('*') || granted.includes(`${resource}:*`);
+  });
+}
@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { queryCache, useMutation, useQuery } from './query';
+import { storage } from './secure-storage';
+
+afterEach(() => {
+  cleanup();
+  queryCache.removeQueries();
+});
+
+describe('useQuery', () => {
+  it('refetches a mounted query when a prefix of its key is invalidated', async () => {
+    let version = 0;
+    const fetcher = vi.fn(async () => ++version);
+    const { result } = renderHook(() => useQuery(['orders', { page: 1 }], fetcher, { staleTime: 60_000 }));
+    await waitFor(() => expect(result.current.data).toBe(1));
+
+    act(() => queryCache.invalidateQueries(['orders']));
+    await waitFor(() => expect(result.current.data).toBe(2));
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not refetch queries outside the prefix', async () => {
+    const fetcher = vi.fn(async () => 'users');
+    const { result } = renderHook(() => useQuery(['users'], fetcher, { staleTime: 60_000 }));
+    await waitFor(() => expect(result.current.data).toBe('users'));
+
+    act(() => queryCache.invalidateQueries(['orders']));
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps one request per key when the caller passes a new array on every render', async () => {
+    const fetcher = vi.fn(async () => 'data');
+    const { result, rerender } = renderHook(() => useQuery(['products'], fetcher, { staleTime: 60_000 }));
+    await waitFor(() => expect(result.current.data).toBe('data'));
+    rerender();
+    rerender();
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('resets mounted queries removed by prefix', async () => {
+    const { result } = renderHook(() => useQuery(['session', 'me'], async () => 'me', { staleTime: 60_000 }));
+    await waitFor(() => expect(result.current.data).toBe('me'));
+
+    act(() => queryCache.removeQueries(['session']));
+    expect(result.current.status).toBe('idle');
+    expect(result.current.data).toBeNull();
+  });
+
+  it('shows the persisted copy of the data while refetching it, until sign-out', async () => {
+    const first = renderHook(() => useQuery(['catalog'], async () => ['lamp'], { persist: true }));
+    await waitFor(() => expect(first.result.current.data).toEqual(['lamp']));
+    first.unmount();
+    queryCache.removeQueries();
+
+    const pending = vi.fn(() => new Promise<string[]>(() => {}));
+    const second = renderHook(() => useQuery(['catalog'], pending, { persist: true, staleTime: 60_000 }));
+    expect(second.result.current).toMatchObject({ data: ['lamp'], isFetching: true });
+    expect(pending).toHaveBeenCalledTimes(1);
+    second.unmount();
+    queryCache.removeQueries();
+
+    storage.auth.clearSession();
+    const third = renderHook(() => useQuery(['catalog'], pending, { persist: true }));
+    expect(third.result.current.data).toBeNull();
+  });
+});
+
+describe('useMutation', () => {
+  it('refetches the queries it invalidates once it settles', async () => {
+    let stock = 5;
+    const { result } = renderHook(() => ({
+      query: useQuery(['products', { page: 1 }], async () => stock, { staleTime: 60_000 }),
+      mutation: useMutation(async (value: number) => { stock = value; }, { invalidateQueries: [['products']] }),
+    }));
+    await waitFor(() => expect(result.current.query.data).toBe(5));
+
+    await act(() => result.current.mutation.mutateAsync(0));
+    await waitFor(() => expect(result.current.query.data).toBe(0));
+  });
+
+  it('rolls an optimistic update back to the previous state when the mutation fails', async () => {
+    queryCache.setQueryData(['stock'], 5);
+    const fail = async () => { throw new Error('Out of stock'); };
+    const optimisticUpdate = { queryKey: ['stock'], updater: () => 0 };
+    const { result } = renderHook(() => ({
+      known: useMutation(fail, { optimisticUpdate }),
+      unknown: useMutation(fail, { optimisticUpdate: { ...optimisticUpdate, queryKey: ['reserved'] } }),
+    }));
+
+    await act(() => result.current.known.mutateAsync().catch(() => undefined));
+    expect(queryCache.getState(['stock'])).toMatchObject({ status: 'success', data: 5 });
+
+    await act(() => result.current.unknown.mutateAsync().catch(() => undefined));
+    expect(queryCache.getState(['reserved'])).toMatchObject({ status: 'idle', data: null });
+  });
+});
@@ -0,0 +1,600 @@
+/**
+ * @file query.ts
+ * @description Lightweight data-fetching layer that produces the `QueryState` contract from `src/types`.
+ * It provides:
+ * - A keyed, in-memory `queryCache` shared by every component.
+ * - `useQuery` with request de-duplication, `staleTime`, refetch-on-window-focus and an optional copy of the data
+ *   in `storage.cache` (IndexedDB), shown on the next visit while it is refetched.
+ * - `useMutation` with optimistic cache updates that are rolled back on failure.
+ */
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import type { ApiError, QueryState, QueryStatus } from '../types';
+import { toApiError } from './api-client';
+import { storage } from './secure-storage';
+
+/**
+ * @typedef QueryKey
+ * @description Identifies a cached query. Arrays allow hierarchical keys such as `['orders', { page: 2 }]`,
+ * which can be invalidated together through a prefix like `['orders']`.
+ */
+export type QueryKey = string | readonly unknown[];
+
+/**
+ * @typedef QueryFetcher
+ * @description Function that loads the data for a query. The `signal` is aborted when the request is cancelled.
+ * @template T - The type of the data returned.
+ */
+export type QueryFetcher<T> = (context: { signal: AbortSignal }) => Promise<T>;
+
+/**
+ * @interface CachedQueryState
+ * @extends QueryState
+ * @description The state stored per query key. Adds `isFetching`, which is also true for background refetches
+ * of data that is already loaded (while `isLoading` is only true when there is no data yet).
+ */
+export interface CachedQueryState<T = any> extends QueryState<T> {
+  isFetching: boolean;
+}
+
+/**
+ * @interface CacheEntry
+ * @description Internal bookkeeping for a cached query.
+ */
+interface CacheEntry<T = any> {
+  key: QueryKey;
+  state: CachedQueryState<T>;
+  promise: Promise<T> | null;
+  controller: AbortController | null;
+  fetcher: QueryFetcher<T> | null;
+  invalidated: boolean;
+  listeners: Set<() => void>;
+}
+
+/**
+ * @function hashQueryKey
+ * @description Converts a query key into the string used to index the cache.
+ * A string key hashes to itself. Hashes only identify entries: entries must be created with the key itself, as
+ * prefix matching (`invalidateQueries`, `removeQueries`) reads its segments.
+ * @param {QueryKey} key - The query key.
+ * @returns {string} The cache key.
+ */
+export const hashQueryKey = (key: QueryKey): string =>
+  typeof key === 'string' ? key : JSON.stringify(key);
+
+/**
+ * @function matchesQueryKey
+ * @description Checks whether `key` starts with all the segments of `prefix`.
+ * @param {QueryKey} key - The key of a cached query.
+ * @param {QueryKey} prefix - The key prefix to match.
+ * @returns {boolean} True if the key matches the prefix.
+ */
+const matchesQueryKey = (key: QueryKey, prefix: QueryKey): boolean => {
+  const keyParts = typeof key === 'string' ? [key] : key;
+  const prefixParts = typeof prefix === 'string' ? [prefix] : prefix;
+  if (prefixParts.length > keyParts.length) return false;
+  return prefixParts.every((part, index) => JSON.stringify(part) === JSON.stringify(keyParts[index]));
+};
+
+/**
+ * @function buildState
+ * @description Creates an immutable query state object with the derived boolean flags filled in.
+ * @param {QueryStatus} status - The query status.
+ * @param {T | null} data - The query data.
+ * @param {ApiError | null} error - The query error.
+ * @param {Date} [lastUpdated] - When the data was last fetched successfully.
+ * @param {boolean} [isFetching=false] - Whether a request is in flight.
+ * @returns {CachedQueryState<T>} The new state.
+ */
+const buildState = <T>(
+  status: QueryStatus,
+  data: T | null,
+  error: ApiError | null,
+  lastUpdated?: Date,
+  isFetching: boolean = false
+): CachedQueryState<T> => ({
+  data,
+  error,
+  status,
+  isLoading: status === 'loading',
+  isError: status === 'error',
+  isSuccess: status === 'success',
+  isFetching,
+  lastUpdated,
+});
+
+/**
+ * @const IDLE_STATE
+ * @description Shared state returned for keys that have never been fetched.
+ */
+const IDLE_STATE: CachedQueryState = buildState('idle', null, null);
+
+/**
+ * @class QueryCache
+ * @description Keyed in-memory store for query results. Components subscribe to keys and are
+ * notified whenever the state for that key changes.
+ */
+class QueryCache {
+  private entries = new Map<string, CacheEntry>();
+
+  /**
+   * @private
+   * @function getEntry
+   * @description Returns the cache entry for a key, creating it if needed.
+   * @param {QueryKey} key - The query key.
+   * @returns {CacheEntry} The cache entry.
+   */
+  private getEntry<T>(key: QueryKey): CacheEntry<T> {
+    const hash = hashQueryKey(key);
+    let entry = this.entries.get(hash);
+    if (!entry) {
+      entry = {
+        key,
+        state: IDLE_STATE,
+        promise: null,
+        controller: null,
+        fetcher: null,
+        invalidated: false,
+        listeners: new Set(),
+      };
+      this.entries.set(hash, entry);
+    }
+    return entry as CacheEntry<T>;
+  }
+
+  /**
+   * @private
+   * @function setState
+   * @description Replaces the state of an entry and notifies its subscribers.
+   * @param {CacheEntry} entry - The entry to update.
+   * @param {CachedQueryState} state - The new state.
+   */
+  private setState<T>(entry: CacheEntry<T>, state: CachedQueryState<T>): void {
+    entry.state = state;
+    entry.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * @function subscribe
+   * @description Subscribes to state changes for a key.
+   * @param {QueryKey} key - The query key.
+   * @param {() => void} listener - Called after every state change.
+   * @returns {() => void} Function that removes the subscription.
+   */
+  subscribe(key: QueryKey, listener: () => void): () => void {
+    const entry = this.getEntry(key);
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * @function getState
+   * @description Returns the current state for a key. The returned object is stable until the state changes.
+   * @param {QueryKey} key - The query key.
+   * @returns {CachedQueryState<T>} The query state.
+   */
+  getState<T>(key: QueryKey): CachedQueryState<T> {
+    return (this.entries.get(hashQueryKey(key))?.state as CachedQueryState<T>) || IDLE_STATE;
+  }
+
+  /**
+   * @function getQueryData
+   * @description Returns the cached data for a key.
+   * @param {QueryKey} key - The query key.
+   * @returns {T | null} The cached data, or null.
+   */
+  getQueryData<T>(key: QueryKey): T | null {
+    return this.getState<T>(key).data;
+  }
+
+  /**
+   * @function setQueryData
+   * @description Writes data for a key directly (e.g., for optimistic updates or after a mutation).
+   * @param {QueryKey} key - The query key.
+   * @param {T | ((current: T | null) => T)} updater - The new data, or a function deriving it from the current data.
+   */
+  setQueryData<T>(key: QueryKey, updater: T | ((current: T | null) => T)): void {
+    const entry = this.getEntry<T>(key);
+    const data = typeof updater === 'function'
+      ? (updater as (current: T | null) => T)(entry.state.data)
+      : updater;
+    this.setState(entry, buildState<T>('success', data, null, new Date(), entry.state.isFetching));
+  }
+
+  /**
+   * @function seedQueryData
+   * @description Shows data for a key that has not been fetched yet (e.g., a copy kept from an earlier visit)
+   * without recording it as fetched, so the query is still stale and gets refetched.
+   * @param {QueryKey} key - The query key.
+   * @param {T} data - The data to show.
+   */
+  seedQueryData<T>(key: QueryKey, data: T): void {
+    const entry = this.getEntry<T>(key);
+    this.setState(entry, buildState<T>('success', data, null, undefined, entry.state.isFetching));
+  }
+
+  /**
+   * @function restoreState
+   * @description Puts back a state previously read with `getState` (e.g., to roll back an optimistic update).
+   * Unlike `setQueryData`, this restores the status and error too, so a key that had no data goes back to idle.
+   * @param {QueryKey} key - The query key.
+   * @param {CachedQueryState<T>} state - The state to restore.
+   */
+  restoreState<T>(key: QueryKey, state: CachedQueryState<T>): void {
+    const entry = this.getEntry<T>(key);
+    this.setState(entry, buildState<T>(state.status, state.data, state.error, state.lastUpdated, entry.state.isFetching));
+  }
+
+  /**
+   * @function isStale
+   * @description Checks whether the data for a key is older than `staleTime` or has been invalidated.
+   * @param {QueryKey} key - The query key.
+   * @param {number} staleTime - Time in milliseconds during which fetched data is considered fresh.
+   * @returns {boolean} True if the query should be refetched.
+   */
+  isStale(key: QueryKey, staleTime: number): boolean {
+    const entry = this.entries.get(hashQueryKey(key));
+    if (!entry || entry.invalidated || !entry.state.lastUpdated) return true;
+    return Date.now() - entry.state.lastUpdated.getTime() >= staleTime;
+  }
+
+  /**
+   * @function fetchQuery
+   * @description Runs the fetcher for a key and stores the result. Concurrent calls for the same key
+   * share a single in-flight request.
+   * @param {QueryKey} key - The query key.
+   * @param {QueryFetcher<T>} fetcher - The function that loads the data.
+   * @returns {Promise<T>} Resolves with the data, or rejects with an `ApiError`.
+   */
+  fetchQuery<T>(key: QueryKey, fetcher: QueryFetcher<T>): Promise<T> {
+    const entry = this.getEntry<T>(key);
+    entry.fetcher = fetcher;
+    if (entry.promise) return entry.promise;
+
+    const controller = new AbortController();
+    const previous = entry.state;
+    entry.controller = controller;
+    this.setState(entry, buildState<T>(
+      previous.data === null || previous.status === 'error' ? 'loading' : previous.status,
+      previous.data,
+      null,
+      previous.lastUpdated,
+      true
+    ));
+
+    const promise = fetcher({ signal: controller.signal })
+      .then(data => {
+        if (entry.controller === controller) {
+          entry.invalidated = false;
+          this.setState(entry, buildState<T>('success', data, null, new Date()));
+        }
+        return data;
+      })
+      .catch(error => {
+        const apiError = toApiError(error);
+        if (entry.controller === controller) {
+          this.setState(entry, buildState<T>('error', entry.state.data, apiError.toJSON(), entry.state.lastUpdated));
+        }
+        throw apiError;
+      })
+      .finally(() => {
+        if (entry.controller === controller) {
+          entry.controller = null;
+          entry.promise = null;
+        }
+      });
+
+    entry.promise = promise;
+    return promise;
+  }
+
+  /**
+   * @function cancelQuery
+   * @description Aborts the in-flight request for a key (if any) and restores the state from before it started.
+   * Used before optimistic updates so a stale response cannot overwrite them.
+   * @param {QueryKey} key - The query key.
+   */
+  cancelQuery(key: QueryKey): void {
+    const entry = this.entries.get(hashQueryKey(key));
+    if (!entry?.controller) return;
+    const controller = entry.controller;
+    entry.controller = null;
+    entry.promise = null;
+    controller.abort();
+    const { data, lastUpdated } = entry.state;
+    this.setState(entry, buildState(data === null ? 'idle' : 'success', data, null, lastUpdated));
+  }
+
+  /**
+   * @function invalidateQueries
+   * @description Marks every query matching the key prefix as stale and refetches those that are currently in use.
+   * @param {QueryKey} [prefix] - The key prefix to match. Invalidates everything when omitted.
+   */
+  invalidateQueries(prefix?: QueryKey): void {
+    this.entries.forEach(entry => {
+      if (prefix !== undefined && !matchesQueryKey(entry.key, prefix)) return;
+      entry.invalidated = true;
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        this.fetchQuery(entry.key, entry.fetcher).catch(() => {
+          // The error is already stored in the query state
+        });
+      }
+    });
+  }
+
+  /**
+   * @function removeQueries
+   * @description Removes every query matching the key prefix from the cache (e.g., on logout).
+   * Entries that still have subscribers are reset to idle instead of being deleted.
+   * @param {QueryKey} [prefix] - The key prefix to match. Removes everything when omitted.
+   */
+  removeQueries(prefix?: QueryKey): void {
+    this.entries.forEach((entry, hash) => {
+      if (prefix !== undefined && !matchesQueryKey(entry.key, prefix)) return;
+      entry.controller?.abort();
+      entry.controller = null;
+      entry.promise = null;
+      entry.invalidated = false;
+      if (entry.listeners.size === 0) {
+        this.entries.delete(hash);
+      } else {
+        this.setState(entry, IDLE_STATE);
+      }
+    });
+  }
+}
+
+/**
+ * @const queryCache
+ * @description The application-wide query cache used by `useQuery` and `useMutation`.
+ */
+export const queryCache = new QueryCache();
+
+/**
+ * @interface UseQueryOptions
+ * @description Options for `useQuery`.
+ * @property {boolean} [enabled=true] - If false, the query does not fetch automatically.
+ * @property {number} [staleTime=0] - Time in milliseconds during which cached data is not refetched.
+ * @property {boolean} [refetchOnWindowFocus=true] - Refetch stale data when the window regains focus.
+ * @property {T} [initialData] - Data used to seed the cache before the first fetch.
+ * @property {boolean} [persist=false] - Keep a copy of the fetched data in `storage.cache`, shown at once on the next
+ *   visit (even after a reload) while the query is refetched. The copy is removed at sign-out.
+ */
+export interface UseQueryOptions<T> {
+  enabled?: boolean;
+  staleTime?: number;
+  refetchOnWindowFocus?: boolean;
+  initialData?: T;
+  persist?: boolean;
+}
+
+/**
+ * @function getPersistedKey
+ * @description Returns the `storage.cache` key under which the data of a persisted query is kept.
+ * @param {QueryKey} key - The query key.
+ * @returns {string} The cache key.
+ */
+const getPersistedKey = (key: QueryKey): string => `query_${hashQueryKey(key)}`;
+
+/**
+ * @interface UseQueryResult
+ * @extends CachedQueryState
+ * @description The value returned by `useQuery`.
+ * @property {() => Promise<T | null>} refetch - Refetches the query, ignoring `staleTime`. Resolves with null on error.
+ */
+export interface UseQueryResult<T> extends CachedQueryState<T> {
+  refetch: () => Promise<T | null>;
+}
+
+/**
+ * @function useQuery
+ * @description Subscribes a component to a cached query and fetches it when needed.
+ * @template T - The type of the data returned by the fetcher.
+ * @param {QueryKey} key - The query key. Components using the same key share data and requests.
+ * @param {QueryFetcher<T>} fetcher - The function that loads the data.
+ * @param {UseQueryOptions<T>} [options={}] - Query options.
+ * @returns {UseQueryResult<T>} The query state and a `refetch` function.
+ * @example
+ * const { data, isLoading, error } = useQuery(['orders'], ({ signal }) =>
+ *   apiClient.get<Order[]>('/api/orders', undefined, { signal })
+ * );
+ */
+export function useQuery<T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  options: UseQueryOptions<T> = {}
+): UseQueryResult<T> {
+  const { enabled = true, staleTime = 0, refetchOnWindowFocus = true, initialData, persist = false } = options;
+  // The key is kept until its content changes (callers often pass a new array on every render), so effects only
+  // re-run for another key. The cache is given the key itself, not its hash, so prefix matching
+  // (`invalidateQueries`) reaches this query.
+  const hash = hashQueryKey(key);
+  const [keyState, setKeyState] = useState({ hash, key });
+  if (keyState.hash !== hash) setKeyState({ hash, key });
+  const stableKey = keyState.hash === hash ? keyState.key : key;
+  const fetcherRef = useRef(fetcher);
+  const initialDataRef = useRef(initialData);
+  const persistRef = useRef(persist);
+
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+    persistRef.current = persist;
+  });
+
+  const subscribe = useCallback((listener: () => void) => queryCache.subscribe(stableKey, listener), [stableKey]);
+  const getSnapshot = useCallback(() => queryCache.getState<T>(hash), [hash]);
+  const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const refetch = useCallback(
+    () => queryCache.fetchQuery(stableKey, async context => {
+      const data = await fetcherRef.current(context);
+      if (persistRef.current) storage.cache.set(getPersistedKey(stableKey), data);
+      return data;
+    }).catch(() => null),
+    [stableKey]
+  );
+
+  // Seed with initial data (or the persisted copy) and fetch on mount / key change if the cached data is stale
+  useEffect(() => {
+    if (queryCache.getState(stableKey).status === 'idle') {
+      const persisted = persistRef.current ? storage.cache.get(getPersistedKey(stableKey)) : null;
+      if (initialDataRef.current !== undefined) {
+        queryCache.setQueryData(stableKey, initialDataRef.current);
+      } else if (persisted !== null) {
+        queryCache.seedQueryData(stableKey, persisted);
+      }
+    }
+    if (!enabled) return;
+    if (queryCache.isStale(stableKey, staleTime)) {
+      refetch();
+    }
+  }, [stableKey, enabled, staleTime, refetch]);
+
+  // Refetch stale data when the user returns to the tab
+  useEffect(() => {
+    if (!enabled || !refetchOnWindowFocus) return;
+
+    const handleFocus = () => {
+      if (document.visibilityState === 'visible' && queryCache.isStale(hash, staleTime)) {
+        refetch();
+      }
+    };
+
+    window.addEventListener('focus', handleFocus);
+    document.addEventListener('visibilitychange', handleFocus);
+    return () => {
+      window.removeEventListener('focus', handleFocus);
+      document.removeEventListener('visibilitychange', handleFocus);
+    };
+  }, [hash, enabled, refetchOnWindowFocus, staleTime, refetch]);
+
+  // Until the seeding effect runs, expose the initial data instead of an empty idle state
+  const result = state.status === 'idle' && initialData !== undefined
+    ? buildState<T>('success', initialData, null)
+    : state;
+
+  return { ...result, refetch };
+}
+
+/**
+ * @interface UseMutationOptions
+ * @description Options for `useMutation`.
+ * @template TData - The type returned by the mutation.
+ * @template TVariables - The type of the variables passed to `mutate`.
+ * @template TContext - The type returned by `onMutate` and passed to the other callbacks.
+ * @property {(variables: TVariables) => TContext | Promise<TContext>} [onMutate] - Called before the mutation runs.
+ * @property {(data: TData, variables: TVariables, context?: TContext) => void} [onSuccess] - Called when the mutation succeeds.
+ * @property {(error: ApiError, variables: TVariables, context?: TContext) => void} [onError] - Called when the mutation fails (after rollback).
+ * @property {(data: TData | null, error: ApiError | null, variables: TVariables, context?: TContext) => void} [onSettled] - Called after success or failure.
+ * @property {{ queryKey: QueryKey; updater: (current: any, variables: TVariables) => any }} [optimisticUpdate] -
+ *   Applies `updater` to the cached data of `queryKey` immediately, and restores the previous data if the mutation fails.
+ * @property {QueryKey[]} [invalidateQueries] - Query key prefixes to invalidate once the mutation settles.
+ */
+export interface UseMutationOptions<TData, TVariables, TContext = unknown> {
+  onMutate?: (variables: TVariables) => TContext | Promise<TContext>;
+  onSuccess?: (data: TData, variables: TVariables, context?: TContext) => void;
+  onError?: (error: ApiError, variables: TVariables, context?: TContext) => void;
+  onSettled?: (data: TData | null, error: ApiError | null, variables: TVariables, context?: TContext) => void;
+  optimisticUpdate?: {
+    queryKey: QueryKey;
+    updater: (current: any, variables: TVariables) => any;
+  };
+  invalidateQueries?: QueryKey[];
+}
+
+/**
+ * @interface UseMutationResult
+ * @extends QueryState
+ * @description The value returned by `useMutation`.
+ * @property {(variables: TVariables) => void} mutate - Runs the mutation; errors are reported through state and callbacks.
+ * @property {(variables: TVariables) => Promise<TData>} mutateAsync - Runs the mutation and returns its promise.
+ * @property {() => void} reset - Resets the mutation state to idle.
+ */
+export interface UseMutationResult<TData, TVariables> extends QueryState<TData> {
+  mutate: (variables: TVariables) => void;
+  mutateAsync: (variables: TVariables) => Promise<TData>;
+  reset: () => void;
+}
+
+/**
+ * @function useMutation
+ * @description Wraps a function that changes server data, tracking its state and optionally updating
+ * cached queries optimistically.
+ * @template TData - The type returned by the mutation.
+ * @template TVariables - The type of the variables passed to `mutate`.
+ * @template TContext - The type returned by `onMutate`.
+ * @param {(variables: TVariables) => Promise<TData>} mutationFn - The function that performs the mutation.
+ * @param {UseMutationOptions<TData, TVariables, TContext>} [options={}] - Mutation options.
+ * @returns {UseMutationResult<TData, TVariables>} The mutation state and trigger functions.
+ * @example
+ * const updateStatus = useMutation(
+ *   ({ id, status }) => apiClient.patch(`/api/orders/${id}`, { status }),
+ *   {
+ *     optimisticUpdate: {
+ *       queryKey: ['orders'],
+ *       updater: (orders, { id, status }) => orders.map(o => o.id === id ? { ...o, status } : o),
+ *     },
+ *     invalidateQueries: [['orders']],
+ *   }
+ * );
+ */
+export function useMutation<TData = unknown, TVariables = void, TContext = unknown>(
+  mutationFn: (variables: TVariables) => Promise<TData>,
+  options: UseMutationOptions<TData, TVariables, TContext> = {}
+): UseMutationResult<TData, TVariables> {
+  const [state, setState] = useState<QueryState<TData>>(IDLE_STATE as QueryState<TData>);
+  const mutationFnRef = useRef(mutationFn);
+  const optionsRef = useRef(options);
+
+  useEffect(() => {
+    mutationFnRef.current = mutationFn;
+    optionsRef.current = options;
+  });
+
+  const mutateAsync = useCallback(async (variables: TVariables): Promise<TData> => {
+    const { onMutate, onSuccess, onError, onSettled, optimisticUpdate, invalidateQueries } = optionsRef.current;
+    setState(buildState<TData>('loading', null, null));
+
+    // Snapshot the cached state so the optimistic change can be rolled back
+    let snapshot: CachedQueryState<unknown> | null = null;
+    if (optimisticUpdate) {
+      queryCache.cancelQuery(optimisticUpdate.queryKey);
+      snapshot = queryCache.getState(optimisticUpdate.queryKey);
+      queryCache.setQueryData(optimisticUpdate.queryKey, (current: unknown) =>
+        optimisticUpdate.updater(current, variables)
+      );
+    }
+
+    let context: TContext | undefined;
+    try {
+      context = await onMutate?.(variables);
+      const data = await mutationFnRef.current(variables);
+      setState(buildState<TData>('success', data, null, new Date()));
+      onSuccess?.(data, variables, context);
+      onSettled?.(data, null, variables, context);
+      return data;
+    } catch (error) {
+      const apiError = toApiError(error);
+      if (optimisticUpdate && snapshot) {
+        queryCache.restoreState(optimisticUpdate.queryKey, snapshot);
+      }
+      setState(buildState<TData>('error', null, apiError.toJSON()));
+      onError?.(apiError.toJSON(), variables, context);
+      onSettled?.(null, apiError.toJSON(), variables, context);
+      throw apiError;
+    } finally {
+      invalidateQueries?.forEach(prefix => queryCache.invalidateQueries(prefix));
+    }
+  }, []);
+
+  const mutate = useCallback((variables: TVariables) => {
+    mutateAsync(variables).catch(() => {
+      // The error is already stored in state and passed to onError
+    });
+  }, [mutateAsync]);
+
+  const reset = useCallback(() => setState(IDLE_STATE as QueryState<TData>), []);
+
+  return { ...state, mutate, mutateAsync, reset };
+}
@@ -0,0 +1,220 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SecureStorage, registerStorageSchema } from './secure-storage';
+import { MemoryStorageBackend } from './storage-backends';
+
+const open = async (backend = new MemoryStorageBackend()) => {
+  const store = new SecureStorage({ backend, prefix: 'test_' });
+  await store.ready();
+  return { store, backend };
+};
+
+describe('SecureStorage encryption', () => {
+  it('encrypts items with AES-GCM and decrypts them on the next load', async () => {
+    const { store, backend } = await open();
+    await store.setAsync('token', { value: 'secret-token' }, { encrypt: true });
+
+    const stored = backend.getItem('test_token')!;
+    expect(stored).not.toContain('secret-token');
+    expect(JSON.parse(stored)).toMatchObject({ alg: 'AES-GCM', version: '2.0.0' });
+
+    const { store: reloaded } = await open(backend);
+    expect(reloaded.get('token', { encrypted: true })).toEqual({ value: 'secret-token' });
+  });
+
+  it('drops items that were modified or moved to another key', async () => {
+    const { store, backend } = await open();
+    await store.setAsync('token', 'secret-token', { encrypt: true });
+    const envelope = JSON.parse(backend.getItem('test_token')!);
+    const data = envelope.data as string;
+    backend.setItem('test_token', JSON.stringify({ ...envelope, data: (data[0] === 'A' ? 'B' : 'A') + data.slice(1) }));
+    backend.setItem('test_copy', JSON.stringify(envelope));
+
+    const { store: reloaded } = await open(backend);
+    expect(reloaded.get('token', { encrypted: true })).toBeNull();
+    expect(reloaded.get('copy', { encrypted: true })).toBeNull();
+    expect(backend.getItem('test_token')).toBeNull();
+    expect(reloaded.getMigrationReport().dropped.map(entry => entry.key).sort()).toEqual(['copy', 'token']);
+  });
+
+  it('migrates Base64 items of format 1.0.0 to AES-GCM', async () => {
+    const backend = new MemoryStorageBackend();
+    const legacy = { data: { name: 'Ada' }, timestamp: Date.now(), expiresAt: Date.now() + 60_000, version: '1.0.0' };
+    backend.setItem('test_profile', btoa(JSON.stringify(legacy)));
+
+    const { store } = await open(backend);
+    await store.flush();
+    expect(store.get('profile', { encrypted: true })).toEqual({ name: 'Ada' });
+    expect(JSON.parse(backend.getItem('test_profile')!).alg).toBe('AES-GCM');
+    expect(store.getMigrationReport().migrated).toEqual([
+      { key: 'profile', from: 'format 1.0.0', to: 'format 2.0.0', steps: ['AES-GCM encryption'] },
+    ]);
+  });
+
+  it('ends the session by removing encrypted items, which a new session cannot decrypt', async () => {
+    const { store, backend } = await open();
+    await store.setAsync('token', 'first-session', { encrypt: true });
+    const firstSession = backend.getItem('test_token')!;
+    store.set('theme', 'dark');
+
+    store.endSession();
+    expect(backend.getItem('test_token')).toBeNull();
+    expect(store.get('token', { encrypted: true })).toBeNull();
+    expect(store.get('theme')).toBe('dark');
+
+    await store.setAsync('token', 'second-session', { encrypt: true });
+    backend.setItem('test_token', firstSession); // A copy of the previous session's item
+    const { store: reloaded } = await open(backend);
+    expect(reloaded.get('token', { encrypted: true })).toBeNull();
+  });
+});
+
+/**
+ * Stores a plain item the way SecureStorage writes it, with the given schema version.
+ */
+const storeItem = (backend: MemoryStorageBackend, key: string, data: unknown, schemaVersion?: number) =>
+  backend.setItem(`test_${key}`, JSON.stringify({ data, timestamp: Date.now(), expiresAt: Date.now() + 60_000, version: '2.0.0', schemaVersion }));
+
+describe('SecureStorage schema migrations', () => {
+  registerStorageSchema('layout_*', {
+    version: 3,
+    migrations: [
+      { version: 2, description: 'Widths in pixels', migrate: layout => ({ ...layout, widths: layout.widths.map((width: number) => width * 10) }) },
+      { version: 3, migrate: layout => ({ ...layout, pinned: layout.pinned ?? [] }) },
+    ],
+    validate: layout => Array.isArray(layout.widths),
+  });
+
+  it('upgrades stored payloads step by step and reports it', async () => {
+    const backend = new MemoryStorageBackend();
+    storeItem(backend, 'layout_orders', { widths: [1, 2] });
+    storeItem(backend, 'layout_users', { widths: [3], pinned: ['name'] }, 2);
+
+    const { store } = await open(backend);
+    expect(store.get('layout_orders')).toEqual({ widths: [10, 20], pinned: [] });
+    expect(store.get('layout_users')).toEqual({ widths: [3], pinned: ['name'] });
+    expect(JSON.parse(backend.getItem('test_layout_orders')!).schemaVersion).toBe(3);
+    expect(store.getMigrationReport().migrated).toEqual([
+      { key: 'layout_orders', from: 'v1', to: 'v3', steps: ['Widths in pixels', 'v3'] },
+      { key: 'layout_users', from: 'v2', to: 'v3', steps: ['v3'] },
+    ]);
+  });
+
+  it('drops items that fail a migration, fail validation or come from a newer version', async () => {
+    const backend = new MemoryStorageBackend();
+    storeItem(backend, 'layout_broken', { widths: 'wide' }, 1);
+    storeItem(backend, 'layout_invalid', { columns: [] }, 3);
+    storeItem(backend, 'layout_future', { widths: [] }, 4);
+
+    const { store } = await open(backend);
+    expect(backend.keys()).toEqual([]);
+    expect(store.getMigrationReport().dropped).toEqual([
+      { key: 'layout_broken', reason: 'migration to schema v2 failed' },
+      { key: 'layout_invalid', reason: 'payload failed validation for schema v3' },
+      { key: 'layout_future', reason: 'written with schema v4, newer than the supported v3' },
+    ]);
+  });
+
+  it('refuses schemas with a gap in their migrations', () => {
+    expect(() => registerStorageSchema('gap', { version: 3, migrations: [{ version: 3, migrate: data => data }] }))
+      .toThrow('has no migration to version 2');
+  });
+
+  it('brings table views saved before filters, multi-column sort and grouping up to date', async () => {
+    const backend = new MemoryStorageBackend();
+    const state = { columns: ['id'], sort: { key: 'id', direction: 'asc' }, pageSize: 10, search: '' };
+    storeItem(backend, 'prefs_table_orders', { current: state, views: [{ name: 'Mine', state }] });
+
+    const { store } = await open(backend);
+    const upgraded = { ...state, sort: [{ key: 'id', direction: 'asc' }], filter: { combinator: 'and', conditions: [] }, groupBy: null };
+    expect(store.get('prefs_table_orders')).toEqual({ current: upgraded, views: [{ name: 'Mine', state: upgraded }] });
+  });
+});
+
+/**
+ * A memory backend that, like Web Storage, throws `QuotaExceededError` once its values exceed a size in bytes.
+ */
+class LimitedBackend extends MemoryStorageBackend {
+  constructor(private limit: number) {
+    super();
+  }
+
+  setItem(key: string, value: string): void {
+    const others = this.keys().filter(other => other !== key);
+    const used = others.reduce((total, other) => total + other.length + this.getItem(other)!.length, 0);
+    if (used + key.length + value.length > this.limit) throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+    super.setItem(key, value);
+  }
+}
+
+describe('SecureStorage quotas and eviction', () => {
+  const payload = 'x'.repeat(100);
+  // Every item below has a 7-character base key, so all stored entries have the same size
+  const ITEM_SIZE = 'test_cache_1'.length + JSON.stringify({
+    data: payload,
+    timestamp: Date.now(),
+    expiresAt: Date.now(),
+    version: '2.0.0',
+  }).length;
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * Writes the items one millisecond apart, so their order of use is unambiguous.
+   */
+  const write = (store: SecureStorage, keys: string[]) => keys.forEach(key => {
+    vi.setSystemTime(Date.now() + 1);
+    expect(store.set(key, payload, { expirationTime: 60_000 })).toBe(true);
+  });
+
+  it('evicts the least recently used items of a partition over its quota', async () => {
+    const { store, backend } = await open();
+    store.addPartition({ name: 'cache', match: key => key.startsWith('cache_'), quota: 3 * ITEM_SIZE, priority: 0 });
+    vi.useFakeTimers({ toFake: ['Date'] });
+    write(store, ['cache_1', 'cache_2', 'cache_3']);
+    vi.setSystemTime(Date.now() + 1);
+    store.get('cache_1');
+
+    write(store, ['cache_4']);
+    expect(backend.keys().sort()).toEqual(['test_cache_1', 'test_cache_3', 'test_cache_4']);
+    expect(store.getStorageInfo().partitions.cache).toEqual({ totalItems: 3, size: 3 * ITEM_SIZE, quota: 3 * ITEM_SIZE });
+  });
+
+  it('refuses an item larger than its partition quota, or a full partition that cannot be evicted', async () => {
+    const { store } = await open();
+    store.addPartition({ name: 'cache', match: key => key.startsWith('cache_'), quota: ITEM_SIZE - 1, priority: 0 });
+    store.addPartition({ name: 'prefs', match: key => key.startsWith('prefs_'), quota: ITEM_SIZE });
+    vi.useFakeTimers({ toFake: ['Date'] });
+
+    expect(store.set('cache_1', payload)).toBe(false);
+    write(store, ['prefs_1']);
+    expect(store.set('prefs_2', payload)).toBe(false);
+    expect(store.get('prefs_1')).toBe(payload);
+  });
+
+  it('evicts the most expendable partitions first when the backend is full', async () => {
+    const { store, backend } = await open(new LimitedBackend(4 * ITEM_SIZE));
+    store.addPartition({ name: 'session', match: key => key.startsWith('sessn_') });
+    store.addPartition({ name: 'prefs', match: key => key.startsWith('prefs_'), priority: 2 });
+    store.addPartition({ name: 'cache', match: key => key.startsWith('cache_'), priority: 0 });
+    vi.useFakeTimers({ toFake: ['Date'] });
+    write(store, ['cache_1', 'sessn_1', 'prefs_1', 'cache_2']);
+
+    write(store, ['prefs_2', 'prefs_3']);
+    expect(backend.keys().sort()).toEqual(['test_prefs_1', 'test_prefs_2', 'test_prefs_3', 'test_sessn_1']);
+
+    write(store, ['prefs_4']);
+    expect(backend.keys().sort()).toEqual(['test_prefs_2', 'test_prefs_3', 'test_prefs_4', 'test_sessn_1']);
+    expect(store.set('sessn_2', payload)).toBe(true);
+    expect(backend.getItem('test_sessn_1')).not.toBeNull();
+  });
+
+  it('clears one partition', async () => {
+    const { store, backend } = await open();
+    store.addPartition({ name: 'cache', match: key => key.startsWith('cache_'), priority: 0 });
+    ['cache_1', 'cache_2', 'prefs_1'].forEach(key => store.set(key, payload));
+    expect(store.clearPartition('cache')).toBe(2);
+    expect(backend.keys()).toEqual(['test_prefs_1']);
+  });
+});
@@ -1,13 +1,43 @@
 /**
  * @file secure-storage.ts
- * @description Defines a SecureStorage class and utility object for managing data in localStorage.
+ * @description Defines a SecureStorage class and utility object for managing data in browser storage.
+ * Each instance writes to a `StorageBackend` (localStorage by default; see storage-backends.ts), and each namespace
+ * of the `storage` facade selects its backend in `NAMESPACE_BACKENDS`.
  * This utility enhances standard localStorage by providing features like:
- * - Optional data encryption (using a simple reversible method for this demo; **should be replaced with strong crypto in production**).
+ * - Optional AES-GCM encryption (Web Crypto) with tamper detection: entries that fail authentication are dropped.
  * - Automatic item expiration.
- * - Data versioning to handle outdated storage formats.
+ * - Data versioning, with migration of items written by older versions (including the former Base64 "encryption").
+ * - Schema migrations: payloads of registered keys are upgraded step by step when their shape changes, validated,
+ *   and dropped if they cannot be upgraded (see `registerStorageSchema` and `getMigrationReport`).
  * - A prefixed key system to avoid collisions.
+ * - Per-namespace quotas and eviction: when a namespace exceeds its quota, or the backend reports
+ *   `QuotaExceededError`, expired and then least recently used items of the most expendable namespaces are removed
+ *   (see `StoragePartition` and `NAMESPACE_POLICIES`).
+ * - Change subscriptions, including changes made by other tabs (see `subscribe` and `useStoredState` in stored-state.ts).
  * - Type-safe methods for setting and getting data.
+ *
+ * Web Crypto is asynchronous, so encrypted items are decrypted into memory once, by `ready()` (awaited before the
+ * app renders), and the synchronous `get` reads from there. `set` updates memory immediately and encrypts and
+ * persists in the background; `setAsync`/`getAsync` and `flush()` are available when the caller must wait.
+ *
+ * The encryption key is derived per session (HKDF) from a random secret and a random session salt. The secret is
+ * generated once per browser profile and kept in IndexedDB as a non-extractable `CryptoKey`, so scripts can use it but
+ * never read it. Where IndexedDB is unavailable (e.g., some private modes) the secret lives in memory for the current
+ * page only, and encrypted items do not survive a reload. The salt is created with the first encrypted item of a
+ * session (normally the tokens, at sign-in) and stored next to the items. This protects stored tokens from being read
+ * off disk or copied to another browser; it cannot protect them from script running in the page itself.
+ *
+ * Signing out (`storage.auth.clearSession`) ends the session: every encrypted item and the salt are removed, so what
+ * was encrypted for one user cannot be decrypted for the next one, and the next sign-in gets a new key. Encrypted
+ * items therefore last one session at most; data that must outlive it is stored without encryption.
  */
+import {
+  StorageBackend,
+  localStorageBackend,
+  sessionStorageBackend,
+  memoryStorageBackend,
+  indexedDBStorageBackend,
+} from './storage-backends';
 
 /**
  * @interface StorageItem
@@ -17,12 +47,31 @@
  * @property {number} timestamp - The Unix timestamp (milliseconds) when the item was stored.
  * @property {number} [expiresAt] - Optional Unix timestamp (milliseconds) when the item should expire.
  * @property {string} version - The version of the storage format used for this item.
+ * @property {number} [schemaVersion] - The schema version of `data`, for keys with a registered schema (1 if missing).
  */
 interface StorageItem<T = any> {
   data: T;
   timestamp: number;
   expiresAt?: number;
   version: string;
+  schemaVersion?: number;
+}
+
+/**
+ * @interface EncryptedEnvelope
+ * @description The value stored in the backend for an encrypted item. The `StorageItem` (including its expiry) is
+ * encrypted as a whole, with the full storage key as additional authenticated data, so a ciphertext copied to
+ * another key fails authentication just like a modified one.
+ * @property {'AES-GCM'} alg - Marks the value as encrypted.
+ * @property {string} version - The storage format version.
+ * @property {string} iv - The random 96-bit IV, Base64-encoded.
+ * @property {string} data - The ciphertext and authentication tag, Base64-encoded.
+ */
+interface EncryptedEnvelope {
+  alg: 'AES-GCM';
+  version: string;
+  iv: string;
+  data: string;
 }
 
 /**
@@ -30,23 +79,338 @@ interface StorageItem<T = any> {
  * @description Configuration options for the SecureStorage instance.
  * @property {number} [expirationTime] - Default expiration time for items in milliseconds.
  * @property {boolean} [encryptSensitive] - (Not directly used in current class structure, encryption is per-item)
- * @property {string} [prefix] - Prefix for all keys stored in localStorage to prevent collisions.
+ * @property {string} [prefix] - Prefix for all keys stored in the backend to prevent collisions.
+ * @property {StorageBackend} [backend] - Where items are stored. Defaults to localStorage.
  */
 interface StorageConfig {
   expirationTime?: number; // in milliseconds
   encryptSensitive?: boolean; // Note: Encryption is per-item in the `set` method.
   prefix?: string;
+  backend?: StorageBackend;
+}
+
+/**
+ * @interface StoragePartition
+ * @description A group of keys of one SecureStorage instance (a namespace of the `storage` facade) with its own
+ * quota and eviction priority.
+ * @property {string} name - The partition name.
+ * @property {(key: string) => boolean} [match] - Whether a base key belongs to the partition. A partition without
+ *   `match` takes every key that no other partition matches.
+ * @property {number} [quota] - Maximum size of the partition's items, in bytes (approximate, as reported by
+ *   `getStorageInfo`). Writes beyond it evict the partition's least recently used items, or fail if the partition
+ *   has no `priority`.
+ * @property {number} [priority] - Eviction priority when the backend is full: partitions with lower values are
+ *   evicted first. Items of partitions without a priority are never evicted.
+ */
+export interface StoragePartition {
+  name: string;
+  match?: (key: string) => boolean;
+  quota?: number;
+  priority?: number;
+}
+
+/**
+ * @interface StoragePartitionInfo
+ * @description Usage of one partition, as reported by `getStorageInfo`.
+ * @property {number} totalItems - Number of items in the partition.
+ * @property {number} size - Approximate size of the items, in bytes.
+ * @property {number} [quota] - The partition's quota, in bytes, if any.
+ */
+export interface StoragePartitionInfo {
+  totalItems: number;
+  size: number;
+  quota?: number;
 }
 
+/**
+ * @const LEGACY_VERSION
+ * @description Storage format of items written before AES-GCM encryption. Their "encrypted" items are Base64-encoded JSON.
+ */
+const LEGACY_VERSION = '1.0.0';
+
+/**
+ * @interface StorageMigration
+ * @description One step of a schema: upgrades a payload from schema version `version - 1` to `version`.
+ * @property {number} version - The schema version the step produces.
+ * @property {string} [description] - What the step changes, for the migration report.
+ * @property {(data: any) => any} migrate - Returns the upgraded payload. May throw to drop the item.
+ */
+export interface StorageMigration {
+  version: number;
+  description?: string;
+  migrate: (data: any) => any;
+}
+
+/**
+ * @interface StorageSchema
+ * @description Describes the payload stored under a key, so that stored items can be upgraded when it changes.
+ * @property {number} version - The current schema version (starting at 1). Bump it and add a migration for each change.
+ * @property {StorageMigration[]} [migrations] - One migration for each version from 2 to `version`.
+ * @property {(data: any) => boolean} [validate] - Checks a (migrated) payload. Items that fail are dropped.
+ */
+export interface StorageSchema {
+  version: number;
+  migrations?: StorageMigration[];
+  validate?: (data: any) => boolean;
+}
+
+/**
+ * @interface StorageMigrationReport
+ * @description What happened to outdated or invalid items since the page loaded.
+ * @property {{ key: string; from: string; to: string; steps: string[] }[]} migrated - Upgraded items, with the
+ *   versions (`v1`, or `format 1.0.0` for storage format changes) and the migration steps applied.
+ * @property {{ key: string; reason: string }[]} dropped - Removed items and why.
+ */
+export interface StorageMigrationReport {
+  migrated: { key: string; from: string; to: string; steps: string[] }[];
+  dropped: { key: string; reason: string }[];
+}
+
+/**
+ * @const schemaRegistry
+ * @description Registered schemas, by base key (a key ending in `*` matches every key with that prefix).
+ */
+const schemaRegistry = new Map<string, StorageSchema>();
+
+/**
+ * @function registerStorageSchema
+ * @description Registers the schema of the payload stored under a key. Register schemas at module load, before
+ * `storage.utils.ready()` runs, so that items are upgraded when the storage is loaded.
+ * @param {string} key - The base key as passed to `SecureStorage` (e.g., `prefs_security`), or a prefix ending in `*`.
+ * @param {StorageSchema} schema - The schema.
+ * @throws {Error} If a migration step is missing, so a gap in the chain is caught during development.
+ * @example
+ * registerStorageSchema('prefs_table_layout_*', {
+ *   version: 2,
+ *   migrations: [{ version: 2, description: 'Column widths in pixels', migrate: layout => ({ ...layout, widths: toPixels(layout.widths) }) }],
+ *   validate: layout => Array.isArray(layout.columns),
+ * });
+ */
+export function registerStorageSchema(key: string, schema: StorageSchema): void {
+  for (let version = 2; version <= schema.version; version++) {
+    if (!schema.migrations?.some(migration => migration.version === version)) {
+      throw new Error(`Storage schema "${key}" has no migration to version ${version}`);
+    }
+  }
+  schemaRegistry.set(key, schema);
+}
+
+/**
+ * @function findSchema
+ * @description Finds the schema registered for a base key: an exact match, else the longest matching prefix.
+ * @param {string} key - The base key.
+ * @returns {StorageSchema | undefined} The schema, if any.
+ */
+const findSchema = (key: string): StorageSchema | undefined => {
+  const exact = schemaRegistry.get(key);
+  if (exact) return exact;
+  let match: { prefix: string; schema: StorageSchema } | undefined;
+  schemaRegistry.forEach((schema, pattern) => {
+    if (!pattern.endsWith('*')) return;
+    const prefix = pattern.slice(0, -1);
+    if (key.startsWith(prefix) && (!match || prefix.length > match.prefix.length)) match = { prefix, schema };
+  });
+  return match?.schema;
+};
+
+// Schemas of the keys written by the `storage` facade
+registerStorageSchema('user', {
+  version: 1,
+  validate: user => typeof user === 'object' && user !== null && typeof user.id === 'string' && typeof user.email === 'string',
+});
+registerStorageSchema('theme_preference', {
+  version: 1,
+  validate: theme => typeof theme === 'string',
+});
+registerStorageSchema('prefs_session_timeout', {
+  version: 1,
+  validate: value => typeof value === 'object' && value !== null && (value.minutes === null || typeof value.minutes === 'number'),
+});
+registerStorageSchema('prefs_table_*', {
+  version: 4,
+  migrations: [{
+    version: 2,
+    description: 'Filter bar conditions in table views',
+    migrate: views => {
+      const withFilter = (state: any) => state && { ...state, filter: state.filter ?? { combinator: 'and', conditions: [] } };
+      return {
+        ...views,
+        current: withFilter(views.current),
+        views: views.views.map((view: any) => ({ ...view, state: withFilter(view.state) })),
+      };
+    },
+  }, {
+    version: 3,
+    description: 'Multi-column sort in table views',
+    migrate: views => {
+      const withSortList = (state: any) => state && { ...state, sort: state.sort ? [state.sort] : [] };
+      return {
+        ...views,
+        current: withSortList(views.current),
+        views: views.views.map((view: any) => ({ ...view, state: withSortList(view.state) })),
+      };
+    },
+  }, {
+    version: 4,
+    description: 'Row grouping in table views',
+    migrate: views => {
+      const withGroupBy = (state: any) => state && { ...state, groupBy: state.groupBy ?? null };
+      return {
+        ...views,
+        current: withGroupBy(views.current),
+        views: views.views.map((view: any) => ({ ...view, state: withGroupBy(view.state) })),
+      };
+    },
+  }],
+  validate: value => typeof value === 'object' && value !== null && Array.isArray(value.views),
+});
+
+/**
+ * @const KEY_DATABASE
+ * @description IndexedDB database (and object store) holding the storage secret.
+ */
+const KEY_DATABASE = 'radix_dashboard_keys';
+
+/**
+ * @const MASTER_KEY_ID
+ * @description Record key of the storage secret in the `KEY_DATABASE` store.
+ */
+const MASTER_KEY_ID = 'secure-storage';
+
+/**
+ * @const SESSION_SALT_KEY
+ * @description Backend key (followed by the instance's prefix) of the salt of an instance's session key. It does not
+ * start with the prefix, so it is not one of the instance's items.
+ */
+const SESSION_SALT_KEY = 'secure_storage_session_salt:';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * @function bytesToBase64
+ * @description Encodes bytes as standard Base64.
+ * @param {Uint8Array} bytes - The bytes to encode.
+ * @returns {string} The Base64 string.
+ */
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+};
+
+/**
+ * @function base64ToBytes
+ * @description Decodes a standard Base64 string.
+ * @param {string} value - The Base64 string.
+ * @returns {Uint8Array} The decoded bytes.
+ */
+const base64ToBytes = (value: string): Uint8Array => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+/**
+ * @function isQuotaExceededError
+ * @description Checks whether a storage write failed because the backend is full. Browsers name this error differently.
+ * @param {unknown} error - The error thrown by the write.
+ * @returns {boolean} True for a quota error.
+ */
+const isQuotaExceededError = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED' || error.code === 22);
+
+/**
+ * @function isEncryptedEnvelope
+ * @description Checks whether a parsed stored value is an encrypted item.
+ * @param {unknown} value - The parsed value.
+ * @returns {boolean} True if the value is an `EncryptedEnvelope`.
+ */
+const isEncryptedEnvelope = (value: unknown): value is EncryptedEnvelope =>
+  typeof value === 'object' && value !== null && (value as EncryptedEnvelope).alg === 'AES-GCM';
+
+/**
+ * @function requestResult
+ * @description Wraps an IndexedDB request in a promise.
+ * @template T
+ * @param {IDBRequest<T>} request - The request.
+ * @returns {Promise<T>} The request's result.
+ */
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * @function createSecret
+ * @description Generates a new random secret as a non-extractable HKDF key.
+ * @returns {Promise<CryptoKey>} The secret.
+ */
+const createSecret = (): Promise<CryptoKey> =>
+  crypto.subtle.importKey('raw', crypto.getRandomValues(new Uint8Array(32)), 'HKDF', false, ['deriveKey']);
+
+/**
+ * @var fallbackSecret
+ * @description The secret used for this page when IndexedDB cannot be used (created once, so every key derived from
+ * it stays the same).
+ */
+let fallbackSecret: Promise<CryptoKey> | null = null;
+
+/**
+ * @function loadSecret
+ * @description Loads the storage secret from IndexedDB, creating it on first use.
+ * If several tabs create one at the same time, the first one stored wins and the others use it.
+ * Falls back to a secret held in memory (for this page only) when IndexedDB cannot be used.
+ * @returns {Promise<CryptoKey>} The secret.
+ */
+const loadSecret = async (): Promise<CryptoKey> => {
+  try {
+    const openRequest = indexedDB.open(KEY_DATABASE, 1);
+    openRequest.onupgradeneeded = () => openRequest.result.createObjectStore(KEY_DATABASE);
+    const db = await requestResult(openRequest);
+    const store = (mode: IDBTransactionMode) => db.transaction(KEY_DATABASE, mode).objectStore(KEY_DATABASE);
+
+    try {
+      const existing = await requestResult<CryptoKey | undefined>(store('readonly').get(MASTER_KEY_ID));
+      if (existing) return existing;
+
+      const secret = await createSecret();
+      try {
+        await requestResult(store('readwrite').add(secret, MASTER_KEY_ID));
+        return secret;
+      } catch {
+        // Another tab stored its secret first
+        return (await requestResult<CryptoKey | undefined>(store('readonly').get(MASTER_KEY_ID))) ?? secret;
+      }
+    } finally {
+      db.close();
+    }
+  } catch (error) {
+    if (!fallbackSecret) {
+      console.warn('SecureStorage: IndexedDB is unavailable; encrypted items will not survive a reload.', error);
+      fallbackSecret = createSecret();
+    }
+    return fallbackSecret;
+  }
+};
+
 /**
  * @class SecureStorage
- * @description A class that wraps localStorage to provide enhanced features like
+ * @description A class that wraps a storage backend to provide enhanced features like
  * encryption, expiration, and versioning for stored items.
  */
-class SecureStorage {
+export class SecureStorage {
   private prefix: string;
+  readonly backend: StorageBackend;
   private defaultExpiration: number; // Default expiration time in milliseconds
-  private version = '1.0.0'; // Current version of the storage format
+  private version = '2.0.0'; // Current version of the storage format
+  private cache = new Map<string, StorageItem>(); // Decrypted encrypted items, by base key
+  private cryptoKey: { salt: string | null; key: Promise<CryptoKey> } | null = null; // Derived for the session salt
+  private readyPromise: Promise<void> | null = null;
+  private isReady = false;
+  private writes: Promise<void> = Promise.resolve(); // Queue of pending encrypted writes
+  private report: StorageMigrationReport = { migrated: [], dropped: [] };
+  private partitions: StoragePartition[] = [];
+  private lastAccess = new Map<string, number>(); // When each item was last read or written in this page, by base key
+  private listeners = new Set<(key: string | null) => void>();
 
   /**
    * @constructor
@@ -55,12 +419,57 @@ class SecureStorage {
   constructor(config: StorageConfig = {}) {
     this.prefix = config.prefix || 'radix_dashboard_'; // Default prefix
     this.defaultExpiration = config.expirationTime || 7 * 24 * 60 * 60 * 1000; // Default to 7 days
+    this.backend = config.backend || localStorageBackend;
+
+    // Keep decrypted items in step with writes made by other tabs, and tell subscribers
+    if (typeof window !== 'undefined') {
+      this.backend.subscribe?.(key => {
+        if (!this.isReady) return;
+        if (key === null) {
+          this.cache.clear(); // Another tab cleared the storage area
+          this.notify(null);
+        } else if (key.startsWith(this.prefix)) {
+          const baseKey = key.slice(this.prefix.length);
+          this.loadEntry(baseKey).finally(() => this.notify(baseKey));
+        }
+      });
+    }
+  }
+
+  /**
+   * @function subscribe
+   * @description Listens for changes to stored items, made in this tab or (for backends that report them) another one.
+   * @param {(key: string | null) => void} listener - Called with the base key of the changed item, or null when
+   *   every item may have changed (e.g., the storage was cleared).
+   * @returns {() => void} A function that removes the listener.
+   */
+  subscribe(listener: (key: string | null) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * @private
+   * @function notify
+   * @description Calls the change listeners.
+   * @param {string | null} key - The base key of the changed item, or null for every item.
+   */
+  private notify(key: string | null): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(key);
+      } catch (error) {
+        console.error('SecureStorage: Change listener failed', error);
+      }
+    });
   }
 
   /**
    * @private
    * @function getKey
-   * @description Generates the actual localStorage key by prepending the prefix.
+   * @description Generates the actual backend key by prepending the prefix.
    * @param {string} key - The base key.
    * @returns {string} The prefixed key.
    */
@@ -68,36 +477,461 @@ class SecureStorage {
     return `${this.prefix}${key}`;
   }
 
+  /**
+   * @function addPartition
+   * @description Groups the keys matched by a partition, for quotas, eviction and per-partition statistics.
+   * Partitions are checked in the order they were added; a partition without `match` is checked last.
+   * @param {StoragePartition} partition - The partition.
+   */
+  addPartition(partition: StoragePartition): void {
+    this.partitions.push(partition);
+  }
+
   /**
    * @private
-   * @function simpleEncrypt
-   * @description Encrypts a string using Base64.
-   * **Warning:** This is a placeholder and not cryptographically secure.
-   * Replace with a strong encryption library (e.g., AES) for production use.
-   * @param {string} text - The plaintext string to encrypt.
-   * @returns {string} The Base64 encoded (encrypted) string.
+   * @function getPartition
+   * @description Finds the partition a base key belongs to.
+   * @param {string} key - The base key.
+   * @returns {StoragePartition | undefined} The partition, if any.
    */
-  private simpleEncrypt(text: string): string {
-    // In a real application, use a robust encryption library like CryptoJS or the Web Crypto API.
-    return btoa(unescape(encodeURIComponent(text))); // Base64 encoding
+  private getPartition(key: string): StoragePartition | undefined {
+    return this.partitions.find(partition => partition.match?.(key)) ??
+      this.partitions.find(partition => !partition.match);
   }
 
   /**
    * @private
-   * @function simpleDecrypt
-   * @description Decrypts a Base64 encoded string.
-   * **Warning:** This is a placeholder and not cryptographically secure.
-   * @param {string} encrypted - The Base64 encoded string to decrypt.
-   * @returns {string} The decrypted plaintext string.
-   * @throws {Error} If decryption fails (e.g., invalid Base64 string).
-   */
-  private simpleDecrypt(encrypted: string): string {
+   * @function getEntrySize
+   * @description Approximates the space an item takes in the backend.
+   * @param {string} key - The base key.
+   * @param {string} value - The stored value.
+   * @returns {number} The size, in bytes.
+   */
+  private getEntrySize(key: string, value: string): number {
+    return this.getKey(key).length + value.length;
+  }
+
+  /**
+   * @private
+   * @function readItem
+   * @description Reads an item's metadata without side effects: encrypted items from their decrypted copy, plain items
+   * from the backend.
+   * @param {string} key - The base key.
+   * @param {string} value - The stored value.
+   * @returns {StorageItem | undefined} The item, or undefined if it cannot be read.
+   */
+  private readItem(key: string, value: string): StorageItem | undefined {
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+    const parsed = JSON.parse(value);
+    return isEncryptedEnvelope(parsed) ? undefined : parsed;
+  }
+
+  /**
+   * @private
+   * @function evictOne
+   * @description Removes the most expendable item among the candidates: expired items first, then items of the
+   * partition with the lowest priority, then the least recently used. Items without an evictable partition are kept.
+   * @param {string[]} candidates - The base keys that may be evicted.
+   * @returns {boolean} True if an item was evicted, false if none of the candidates can be.
+   */
+  private evictOne(candidates: string[]): boolean {
+    let victim: { key: string; expired: boolean; priority: number; usedAt: number } | undefined;
+    candidates.forEach(key => {
+      const priority = this.getPartition(key)?.priority;
+      const value = this.backend.getItem(this.getKey(key));
+      if (priority === undefined || !value) return;
+
+      let item: StorageItem | undefined;
+      try {
+        item = this.readItem(key, value);
+      } catch {
+        // Unreadable items are the first to go
+      }
+      const candidate = {
+        key,
+        expired: !item || this.isExpired(item),
+        priority,
+        usedAt: this.lastAccess.get(key) ?? item?.timestamp ?? 0,
+      };
+      if (
+        !victim ||
+        (candidate.expired !== victim.expired ? candidate.expired :
+          candidate.priority !== victim.priority ? candidate.priority < victim.priority :
+          candidate.usedAt < victim.usedAt)
+      ) {
+        victim = candidate;
+      }
+    });
+
+    if (!victim) return false;
+    console.warn(`SecureStorage (${this.backend.name}): Evicting "${victim.key}" to free space.`);
+    this.remove(victim.key);
+    return true;
+  }
+
+  /**
+   * @private
+   * @function persist
+   * @description Writes a serialized item to the backend within its partition's quota. Older items of the partition
+   * are evicted to stay within the quota, and items of other partitions when the backend itself is full.
+   * @param {string} key - The base key.
+   * @param {string} value - The serialized item.
+   * @throws {Error} If the item alone exceeds its partition's quota, or the backend stays full after eviction.
+   */
+  private persist(key: string, value: string): void {
+    const partition = this.getPartition(key);
+    const others = this.getKeys().filter(candidate => candidate !== key);
+
+    if (partition?.quota !== undefined) {
+      const size = this.getEntrySize(key, value);
+      if (size > partition.quota) {
+        throw new Error(`Item of ${size} bytes exceeds the ${partition.quota} byte quota of "${partition.name}"`);
+      }
+      const sizeOf = (candidate: string) => {
+        const stored = this.backend.getItem(this.getKey(candidate));
+        return stored ? this.getEntrySize(candidate, stored) : 0;
+      };
+      let siblings = others.filter(candidate => this.getPartition(candidate) === partition);
+      while (siblings.reduce((total, candidate) => total + sizeOf(candidate), size) > partition.quota) {
+        if (!this.evictOne(siblings)) {
+          throw new Error(`Quota of "${partition.name}" exceeded`);
+        }
+        siblings = siblings.filter(candidate => this.backend.getItem(this.getKey(candidate)) !== null);
+      }
+    }
+
+    for (;;) {
+      try {
+        this.backend.setItem(this.getKey(key), value);
+        this.lastAccess.set(key, Date.now());
+        return;
+      } catch (error) {
+        if (!isQuotaExceededError(error) || !this.evictOne(others.filter(candidate => this.backend.getItem(this.getKey(candidate)) !== null))) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * @private
+   * @function getSessionSalt
+   * @description Reads the salt of the current session's key (written by this tab or, on a shared backend, another one).
+   * @param {boolean} create - Whether to start a session (with a new random salt) if none is running.
+   * @returns {string | null} The salt, or null if no session is running.
+   */
+  private getSessionSalt(create: boolean): string | null {
+    const salt = this.backend.getItem(`${SESSION_SALT_KEY}${this.prefix}`);
+    if (salt || !create) return salt;
+    const created = bytesToBase64(crypto.getRandomValues(new Uint8Array(16)));
+    this.backend.setItem(`${SESSION_SALT_KEY}${this.prefix}`, created);
+    return created;
+  }
+
+  /**
+   * @private
+   * @function getCryptoKey
+   * @description Derives (once per session) the AES-GCM key of this instance from the storage secret, using the key
+   * prefix and the session salt as HKDF salt so that instances with different prefixes, and different sessions, use
+   * different keys.
+   * @param {string | null} salt - The session salt, or null for the key used before keys were per session.
+   * @returns {Promise<CryptoKey>} The AES-GCM key.
+   */
+  private getCryptoKey(salt: string | null): Promise<CryptoKey> {
+    if (!this.cryptoKey || this.cryptoKey.salt !== salt) {
+      const key = loadSecret().then(secret =>
+        crypto.subtle.deriveKey(
+          { name: 'HKDF', hash: 'SHA-256', salt: encoder.encode(`${this.prefix}${salt ?? ''}`), info: encoder.encode('secure-storage') },
+          secret,
+          { name: 'AES-GCM', length: 256 },
+          false,
+          ['encrypt', 'decrypt']
+        )
+      );
+      this.cryptoKey = { salt, key };
+    }
+    return this.cryptoKey.key;
+  }
+
+  /**
+   * @private
+   * @function encryptItem
+   * @description Encrypts a storage item with AES-GCM.
+   * @param {string} key - The base key, bound to the ciphertext as additional authenticated data.
+   * @param {StorageItem} item - The item to encrypt.
+   * @returns {Promise<string>} The serialized `EncryptedEnvelope`.
+   */
+  private async encryptItem(key: string, item: StorageItem): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: encoder.encode(this.getKey(key)) },
+      await this.getCryptoKey(this.getSessionSalt(true)),
+      encoder.encode(JSON.stringify(item))
+    );
+    const envelope: EncryptedEnvelope = {
+      alg: 'AES-GCM',
+      version: this.version,
+      iv: bytesToBase64(iv),
+      data: bytesToBase64(new Uint8Array(ciphertext)),
+    };
+    return JSON.stringify(envelope);
+  }
+
+  /**
+   * @private
+   * @function decryptItem
+   * @description Decrypts and authenticates an encrypted item.
+   * @param {string} key - The base key the item was read from.
+   * @param {EncryptedEnvelope} envelope - The stored envelope.
+   * @returns {Promise<StorageItem>} The decrypted item.
+   * @throws {Error} If the item was modified, moved to another key, encrypted with another key (e.g., in a session
+   *   that has ended), or has an unknown version.
+   */
+  private async decryptItem(key: string, envelope: EncryptedEnvelope): Promise<StorageItem> {
+    if (envelope.version !== this.version) {
+      throw new Error(`Unsupported storage version ${envelope.version}`);
+    }
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(envelope.iv), additionalData: encoder.encode(this.getKey(key)) },
+      await this.getCryptoKey(this.getSessionSalt(false)),
+      base64ToBytes(envelope.data)
+    );
+    return JSON.parse(decoder.decode(plaintext));
+  }
+
+  /**
+   * @private
+   * @function decodeLegacy
+   * @description Decodes an item "encrypted" by version 1.0.0, which only Base64-encoded it.
+   * @param {string} encoded - The Base64 encoded string.
+   * @returns {string} The serialized storage item.
+   * @throws {Error} If the value is not valid Base64.
+   */
+  private decodeLegacy(encoded: string): string {
     try {
-      return decodeURIComponent(escape(atob(encrypted))); // Base64 decoding
+      return decodeURIComponent(escape(atob(encoded))); // Base64 decoding
     } catch {
       // This can happen if the data is not valid Base64 or was corrupted.
-      throw new Error('Failed to decrypt data. Data might be corrupted or not valid Base64.');
+      throw new Error('Failed to decode data. Data might be corrupted or not valid Base64.');
+    }
+  }
+
+  /**
+   * @private
+   * @function writeEncrypted
+   * @description Queues the encryption and persistence of an item. Writes are applied in order, and a write is
+   * skipped if the item was replaced or removed in the meantime.
+   * @param {string} key - The base key.
+   * @param {StorageItem} item - The item, as held in the cache.
+   * @returns {Promise<void>} Resolves once written; rejects if encryption or storage fails.
+   */
+  private writeEncrypted(key: string, item: StorageItem): Promise<void> {
+    const write = this.writes.then(async () => {
+      if (this.cache.get(key) !== item) return; // Replaced, removed, or its session ended
+      const encrypted = await this.encryptItem(key, item);
+      if (this.cache.get(key) !== item) return;
+      this.persist(key, encrypted);
+    });
+    this.writes = write.catch(error => {
+      console.error(`SecureStorage: Failed to store data for key "${key}"`, error);
+    });
+    return write;
+  }
+
+  /**
+   * @private
+   * @function drop
+   * @description Removes an item that cannot be used and records why in the migration report.
+   * @param {string} key - The base key.
+   * @param {string} reason - Why the item is dropped.
+   * @param {unknown} [error] - The underlying error, logged with the warning.
+   */
+  private drop(key: string, reason: string, error?: unknown): void {
+    console.warn(`SecureStorage: Dropping item for key "${key}": ${reason}.`, ...(error ? [error] : []));
+    this.report.dropped.push({ key, reason });
+    this.remove(key);
+  }
+
+  /**
+   * @private
+   * @function upgradeItem
+   * @description Brings an item's payload to the current version of its key's schema, one migration at a time,
+   * and validates it. Items whose key has no schema are returned unchanged.
+   * @param {string} key - The base key.
+   * @param {StorageItem} item - The stored item.
+   * @returns {StorageItem | null} The item (a new object if it was migrated), or null if it was dropped.
+   */
+  private upgradeItem(key: string, item: StorageItem): StorageItem | null {
+    const schema = findSchema(key);
+    if (!schema) return item;
+
+    const from = item.schemaVersion ?? 1;
+    if (from > schema.version) {
+      this.drop(key, `written with schema v${from}, newer than the supported v${schema.version}`);
+      return null;
     }
+
+    let data = item.data;
+    const steps: string[] = [];
+    for (let version = from + 1; version <= schema.version; version++) {
+      const migration = schema.migrations!.find(candidate => candidate.version === version)!;
+      try {
+        data = migration.migrate(data);
+      } catch (error) {
+        this.drop(key, `migration to schema v${version} failed`, error);
+        return null;
+      }
+      steps.push(migration.description || `v${version}`);
+    }
+
+    if (schema.validate && !schema.validate(data)) {
+      this.drop(key, `payload failed validation for schema v${schema.version}`);
+      return null;
+    }
+    if (from === schema.version) return item;
+
+    this.report.migrated.push({ key, from: `v${from}`, to: `v${schema.version}`, steps });
+    return { ...item, data, schemaVersion: schema.version };
+  }
+
+  /**
+   * @function getMigrationReport
+   * @description Lists the items migrated or dropped since the page loaded (mostly by `ready()`).
+   * @returns {StorageMigrationReport} A copy of the report.
+   */
+  getMigrationReport(): StorageMigrationReport {
+    return { migrated: [...this.report.migrated], dropped: [...this.report.dropped] };
+  }
+
+  /**
+   * @private
+   * @function loadEntry
+   * @description Reads one item from the backend: decrypts encrypted items into the cache, migrates items written
+   * by version 1.0.0 (Base64 items are re-encrypted with AES-GCM) and items encrypted before keys were per session
+   * (re-encrypted with the session key), upgrades payloads to their current schema, and drops items that cannot be
+   * read, fail authentication or fail validation.
+   * @param {string} key - The base key.
+   * @returns {Promise<void>} Resolves once the item is loaded.
+   */
+  private async loadEntry(key: string): Promise<void> {
+    const stored = this.backend.getItem(this.getKey(key));
+    if (!stored) {
+      this.cache.delete(key);
+      return;
+    }
+
+    let parsed: any = null;
+    try {
+      parsed = JSON.parse(stored);
+    } catch {
+      // Not JSON: a Base64 item from version 1.0.0
+    }
+
+    let item: StorageItem;
+    let encrypted = true;
+    let sessionless = false; // Encrypted with the key used before keys were per session
+    try {
+      if (isEncryptedEnvelope(parsed)) {
+        sessionless = this.getSessionSalt(false) === null;
+        item = await this.decryptItem(key, parsed);
+      } else if (parsed === null) {
+        item = JSON.parse(this.decodeLegacy(stored));
+        if (item.version !== LEGACY_VERSION) throw new Error(`Unexpected storage version ${item.version}`);
+      } else if (typeof parsed === 'object' && 'version' in parsed) {
+        item = parsed;
+        encrypted = false;
+      } else {
+        return; // Not written by SecureStorage
+      }
+    } catch (error) {
+      this.drop(key, 'unreadable or tampered', error);
+      return;
+    }
+
+    let current = item;
+    if (item.version === LEGACY_VERSION) {
+      current = { ...item, version: this.version };
+      this.report.migrated.push({ key, from: `format ${LEGACY_VERSION}`, to: `format ${this.version}`, steps: encrypted ? ['AES-GCM encryption'] : [] });
+    }
+    if (sessionless) {
+      this.report.migrated.push({ key, from: 'profile key', to: 'session key', steps: [] });
+    }
+    const upgraded = this.upgradeItem(key, current);
+    if (!upgraded) return;
+
+    if (!encrypted) {
+      if (upgraded !== parsed) this.backend.setItem(this.getKey(key), JSON.stringify(upgraded));
+      return;
+    }
+    this.cache.set(key, upgraded);
+    if (upgraded !== item || parsed === null || sessionless) {
+      try {
+        await this.writeEncrypted(key, upgraded);
+      } catch {
+        // Already logged by writeEncrypted; the decrypted item stays usable for this page
+      }
+    }
+  }
+
+  /**
+   * @private
+   * @function getKeys
+   * @description Lists the base keys of all items stored with this instance's prefix.
+   * @returns {string[]} The base keys.
+   */
+  private getKeys(): string[] {
+    return this.backend.keys()
+      .filter(key => key.startsWith(this.prefix))
+      .map(key => key.slice(this.prefix.length));
+  }
+
+  /**
+   * @function ready
+   * @description Loads the backend (if asynchronous) and the encryption key, migrates items written by older versions
+   * and decrypts all encrypted items into memory. Must complete before encrypted items are read with the synchronous `get`. Safe to call repeatedly.
+   * @returns {Promise<void>} Resolves once the storage is ready. Never rejects: if Web Crypto is unavailable
+   *   (e.g., on an insecure origin), encrypted items are kept in memory only.
+   */
+  ready(): Promise<void> {
+    if (!this.readyPromise) {
+      this.readyPromise = Promise.resolve(this.backend.load?.())
+        .then(() => Promise.all(this.getKeys().map(key => this.loadEntry(key))))
+        .then(() => {
+          const { migrated, dropped } = this.report;
+          if (migrated.length || dropped.length) {
+            console.info(`SecureStorage (${this.backend.name}): migrated ${migrated.length} item(s), dropped ${dropped.length}.`, this.getMigrationReport());
+          }
+        })
+        .catch(error => console.error('SecureStorage: Failed to initialize encrypted storage', error))
+        .finally(() => {
+          this.isReady = true;
+        });
+    }
+    return this.readyPromise;
+  }
+
+  /**
+   * @function reload
+   * @description Re-reads all encrypted items from the backend, e.g. after another tab announced a change
+   * and before reading it with `get`.
+   * @returns {Promise<void>} Resolves once the items are reloaded.
+   */
+  async reload(): Promise<void> {
+    await this.ready();
+    await this.flush(); // Otherwise an item read before its pending write lands would replace the newer one
+    await Promise.all(this.getKeys().map(key => this.loadEntry(key)));
+  }
+
+  /**
+   * @function flush
+   * @description Waits for pending encrypted writes (and the backend's own pending writes), e.g. before telling
+   * another tab to read them.
+   * @returns {Promise<void>} Resolves once all queued writes are persisted (or have failed).
+   */
+  async flush(): Promise<void> {
+    await this.writes;
+    await this.backend.flush?.();
   }
 
   /**
@@ -112,50 +946,89 @@ class SecureStorage {
     return Date.now() > item.expiresAt;
   }
 
+  /**
+   * @private
+   * @function createItem
+   * @description Wraps data in a storage item with the current format and schema versions and an expiry.
+   * @param {string} key - The base key, whose schema gives the schema version.
+   * @param {T} data - The data to store.
+   * @param {number} [expirationTime] - Custom expiration time in milliseconds. Defaults to the instance's default.
+   * @returns {StorageItem<T>} The storage item.
+   */
+  private createItem<T>(key: string, data: T, expirationTime?: number): StorageItem<T> {
+    return {
+      data,
+      timestamp: Date.now(),
+      expiresAt: Date.now() + (expirationTime || this.defaultExpiration),
+      version: this.version,
+      schemaVersion: findSchema(key)?.version
+    };
+  }
+
   /**
    * @function set
-   * @description Stores data in localStorage with optional encryption and expiration.
+   * @description Stores data in the backend with optional encryption and expiration.
+   * Encrypted items are available to `get` immediately and persisted in the background (see `setAsync`).
    * @template T - The type of data to store.
    * @param {string} key - The key under which to store the data.
    * @param {T} data - The data to store.
    * @param {{ expirationTime?: number; encrypt?: boolean }} [options={}] - Options for storing the item.
    *   - `expirationTime`: Custom expiration time in milliseconds for this item. Overrides default.
    *   - `encrypt`: Whether to encrypt this item.
-   * @returns {boolean} True if storage was successful, false otherwise.
+   * @returns {boolean} True if storage was successful (or, for encrypted items, was queued), false otherwise.
    */
   set<T>(key: string, data: T, options: {
     expirationTime?: number; // Custom expiration for this item
     encrypt?: boolean;
   } = {}): boolean {
     try {
-      const expiresAt = options.expirationTime
-        ? Date.now() + options.expirationTime
-        : Date.now() + this.defaultExpiration;
-
-      const item: StorageItem<T> = {
-        data,
-        timestamp: Date.now(),
-        expiresAt,
-        version: this.version
-      };
+      const item = this.createItem(key, data, options.expirationTime);
 
-      const serialized = JSON.stringify(item);
-      // Encrypt the entire serialized StorageItem if requested
-      const finalData = options.encrypt ? this.simpleEncrypt(serialized) : serialized;
+      if (options.encrypt) {
+        this.cache.set(key, item);
+        this.writeEncrypted(key, item).catch(() => {
+          // Already logged by writeEncrypted
+        });
+        this.notify(key);
+        return true;
+      }
 
-      localStorage.setItem(this.getKey(key), finalData);
+      this.cache.delete(key);
+      this.persist(key, JSON.stringify(item));
+      this.notify(key);
       return true;
     } catch (error) {
       console.error(`SecureStorage: Failed to store data for key "${key}"`, error);
-      // Potentially handle quota exceeded errors or other storage issues here.
+      return false;
+    }
+  }
+
+  /**
+   * @function setAsync
+   * @description Like `set`, but resolves only once the item is persisted (encrypted if requested).
+   * @template T - The type of data to store.
+   * @param {string} key - The key under which to store the data.
+   * @param {T} data - The data to store.
+   * @param {{ expirationTime?: number; encrypt?: boolean }} [options={}] - Options for storing the item (see `set`).
+   * @returns {Promise<boolean>} True if the item was persisted, false otherwise.
+   */
+  async setAsync<T>(key: string, data: T, options: { expirationTime?: number; encrypt?: boolean } = {}): Promise<boolean> {
+    if (!options.encrypt) return this.set(key, data, options);
+    const item = this.createItem(key, data, options.expirationTime);
+    this.cache.set(key, item);
+    this.notify(key);
+    try {
+      await this.writeEncrypted(key, item);
+      return true;
+    } catch {
       return false;
     }
   }
 
   /**
    * @function get
-   * @description Retrieves data from localStorage. Automatically handles decryption (if applicable),
-   * expiration checks, and version compatibility.
+   * @description Retrieves data from the backend. Automatically handles decryption (if applicable),
+   * expiration checks, and version compatibility. Encrypted items are read from memory, so `ready()` must have completed.
    * @template T - The expected type of the retrieved data.
    * @param {string} key - The key of the data to retrieve.
    * @param {{ encrypted?: boolean }} [options={}] - Options for retrieving the item.
@@ -163,12 +1036,25 @@ class SecureStorage {
    * @returns {T | null} The retrieved data, or null if not found, expired, version mismatch, or corrupted.
    */
   get<T>(key: string, options: { encrypted?: boolean } = {}): T | null {
+    if (options.encrypted) {
+      if (!this.isReady) {
+        console.warn(`SecureStorage: Encrypted item "${key}" read before ready() completed.`);
+      }
+      const item = this.cache.get(key) as StorageItem<T> | undefined;
+      if (!item) return null;
+      if (this.isExpired(item)) {
+        this.remove(key); // Clean up expired item
+        return null;
+      }
+      this.lastAccess.set(key, Date.now());
+      return item.data;
+    }
+
     try {
-      const stored = localStorage.getItem(this.getKey(key));
+      const stored = this.backend.getItem(this.getKey(key));
       if (!stored) return null;
 
-      const rawData = options.encrypted ? this.simpleDecrypt(stored) : stored;
-      const item: StorageItem<T> = JSON.parse(rawData);
+      const item: StorageItem<T> = JSON.parse(stored);
 
       // Check expiration
       if (this.isExpired(item)) {
@@ -176,14 +1062,18 @@ class SecureStorage {
         return null;
       }
 
-      // Check version compatibility
-      if (item.version !== this.version) {
-        console.warn(`SecureStorage: Storage version mismatch for key "${key}". Expected ${this.version}, got ${item.version}. Removing item.`);
-        this.remove(key); // Remove item with incompatible version
+      // Check version compatibility (plain items have the same format in both versions)
+      if (item.version !== this.version && item.version !== LEGACY_VERSION) {
+        this.drop(key, `storage version mismatch (expected ${this.version}, got ${item.version})`);
         return null;
       }
 
-      return item.data;
+      // Upgrade payloads written since `ready()` by a tab running older code
+      const upgraded = this.upgradeItem(key, item);
+      if (!upgraded) return null;
+      if (upgraded !== item) this.backend.setItem(this.getKey(key), JSON.stringify(upgraded));
+      this.lastAccess.set(key, Date.now());
+      return upgraded.data;
     } catch (error) {
       console.error(`SecureStorage: Failed to retrieve or parse data for key "${key}"`, error);
       // Remove potentially corrupted or incompatible data
@@ -192,13 +1082,34 @@ class SecureStorage {
     }
   }
 
+  /**
+   * @function getAsync
+   * @description Like `get`, but reads the item from the backend rather than memory, so it sees changes made by
+   * other tabs. Items that fail authentication are dropped.
+   * @template T - The expected type of the retrieved data.
+   * @param {string} key - The key of the data to retrieve.
+   * @param {{ encrypted?: boolean }} [options={}] - Options for retrieving the item (see `get`).
+   * @returns {Promise<T | null>} The retrieved data, or null.
+   */
+  async getAsync<T>(key: string, options: { encrypted?: boolean } = {}): Promise<T | null> {
+    if (options.encrypted) {
+      await this.ready();
+      await this.flush();
+      await this.loadEntry(key);
+    }
+    return this.get<T>(key, options);
+  }
+
   /**
    * @function remove
-   * @description Removes an item from localStorage.
+   * @description Removes an item from the backend.
    * @param {string} key - The key of the item to remove.
    */
   remove(key: string): void {
-    localStorage.removeItem(this.getKey(key));
+    this.cache.delete(key);
+    this.lastAccess.delete(key);
+    this.backend.removeItem(this.getKey(key));
+    this.notify(key);
   }
 
   /**
@@ -215,87 +1126,100 @@ class SecureStorage {
 
   /**
    * @function clear
-   * @description Clears all items from localStorage that were stored with this instance's prefix.
+   * @description Clears all items from the backend that were stored with this instance's prefix.
    */
   clear(): void {
-    const keysToRemove: string[] = [];
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith(this.prefix)) {
-        keysToRemove.push(key);
-      }
-    }
-    keysToRemove.forEach(key => localStorage.removeItem(key));
+    this.cache.clear();
+    this.lastAccess.clear();
+    this.getKeys().forEach(key => this.backend.removeItem(this.getKey(key)));
+    this.notify(null);
+  }
+
+  /**
+   * @function endSession
+   * @description Ends the encryption session (at sign-out): removes every encrypted item and the session salt, so
+   * nothing encrypted during the session can be decrypted afterwards. The next encrypted item starts a new session,
+   * with a new key. Plain items are kept.
+   */
+  endSession(): void {
+    this.getKeys()
+      .filter(key => {
+        if (this.cache.has(key)) return true;
+        try {
+          return isEncryptedEnvelope(JSON.parse(this.backend.getItem(this.getKey(key)) ?? 'null'));
+        } catch {
+          return false;
+        }
+      })
+      .forEach(key => this.remove(key));
+    this.backend.removeItem(`${SESSION_SALT_KEY}${this.prefix}`);
+    this.cryptoKey = null;
+  }
+
+  /**
+   * @function clearPartition
+   * @description Removes all items of one partition.
+   * @param {string} name - The partition name.
+   * @returns {number} The number of items removed.
+   */
+  clearPartition(name: string): number {
+    const keys = this.getKeys().filter(key => this.getPartition(key)?.name === name);
+    keys.forEach(key => this.remove(key));
+    return keys.length;
   }
 
   /**
    * @function getStorageInfo
    * @description Provides information about the storage usage for items managed by this instance.
-   * @returns {{ totalItems: number; totalSize: number; expiredItems: string[] }}
+   * @returns {{ totalItems: number; totalSize: number; expiredItems: string[]; partitions: Record<string, StoragePartitionInfo> }}
    *   - `totalItems`: Number of items stored with the instance's prefix.
    *   - `totalSize`: Approximate total size in KB of these items.
    *   - `expiredItems`: Array of keys (without prefix) that are currently expired.
+   *   - `partitions`: Usage of each partition, by name.
    */
   getStorageInfo(): {
     totalItems: number;
     totalSize: number; // in KB
     expiredItems: string[];
+    partitions: Record<string, StoragePartitionInfo>;
   } {
-    const keys: string[] = [];
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith(this.prefix)) {
-        keys.push(key);
-      }
-    }
-
+    const keys = this.getKeys();
     let totalSize = 0;
     const expiredItems: string[] = [];
+    const partitions: Record<string, StoragePartitionInfo> = Object.fromEntries(
+      this.partitions.map(partition => [partition.name, { totalItems: 0, size: 0, quota: partition.quota }])
+    );
 
-    keys.forEach(fullKey => {
-      const value = localStorage.getItem(fullKey);
-      if (value) {
-        totalSize += fullKey.length + value.length; // Approximate size
+    keys.forEach(key => {
+      const value = this.backend.getItem(this.getKey(key));
+      if (!value) return;
+      const size = this.getEntrySize(key, value); // Approximate size
+      totalSize += size;
 
-        try {
-          // Attempt to parse to check expiration, assuming it's a StorageItem JSON string
-          // This assumes non-encrypted items or items encrypted with simpleEncrypt can be parsed after simpleDecrypt
-          // For strongly encrypted items, checking expiration without full decryption might be complex.
-          // Here, we assume simpleEncrypt was used if encryption was on.
-          let itemJson = value;
-          // A heuristic: if it looks like Base64 and might be encrypted. This is not robust.
-          // A better way would be to store metadata (like an `isEncrypted` flag) outside the encrypted blob if possible,
-          // or try-catch decryption.
-          try {
-            // Try to decrypt if it might be an encrypted item.
-            // This is a simplification; you might need a flag or different logic.
-            const decrypted = this.simpleDecrypt(value);
-            // If decryption didn't throw and resulted in valid JSON for StorageItem
-            JSON.parse(decrypted); // Check if decrypt output is valid JSON
-            itemJson = decrypted; // Use decrypted JSON for expiration check
-            // eslint-disable-next-line @typescript-eslint/no-unused-vars
-          } catch (_e) {
-            // If simpleDecrypt fails, it's likely not encrypted with simpleEncrypt or is corrupted.
-            // Or, it's not JSON. We proceed assuming it's plain JSON or unparseable.
-          }
+      const partition = this.getPartition(key);
+      if (partition) {
+        partitions[partition.name].totalItems++;
+        partitions[partition.name].size += size;
+      }
 
-          const item: StorageItem = JSON.parse(itemJson);
-          if (this.isExpired(item)) {
-            expiredItems.push(fullKey.replace(this.prefix, ''));
-          }
-        } catch (_e) { // _e is used in console.warn, so no-unused-vars disable is not needed here.
-          // If JSON.parse fails, data is corrupted or not in expected format.
-          // Consider it problematic, possibly to be cleaned up.
-          console.warn(`SecureStorage: Could not parse item for key "${fullKey}" during info gathering.`, _e);
-           // expiredItems.push(fullKey.replace(this.prefix, '')); // Optionally treat unparseable as expired
-        }
+      // Encrypted items are checked through their decrypted copy
+      let item: StorageItem | undefined;
+      try {
+        item = this.readItem(key, value);
+      } catch (_e) { // _e is used in console.warn, so no-unused-vars disable is not needed here.
+        // If JSON.parse fails, data is corrupted or not in expected format.
+        console.warn(`SecureStorage: Could not parse item for key "${key}" during info gathering.`, _e);
+      }
+      if (item && this.isExpired(item)) {
+        expiredItems.push(key);
       }
     });
 
     return {
       totalItems: keys.length,
       totalSize: Math.round(totalSize / 1024), // Size in KB
-      expiredItems
+      expiredItems,
+      partitions
     };
   }
 
@@ -318,11 +1242,91 @@ class SecureStorage {
  */
 export const secureStorage = new SecureStorage();
 
+/**
+ * @typedef StorageNamespace
+ * @description The namespaces of the `storage` facade.
+ */
+export type StorageNamespace = 'auth' | 'session' | 'preferences' | 'generic' | 'cache';
+
+/**
+ * @const AUTH_STORAGE_BACKENDS
+ * @description Backends that can hold the session, selected with `VITE_AUTH_STORAGE`.
+ */
+const AUTH_STORAGE_BACKENDS: Record<string, StorageBackend> = {
+  local: localStorageBackend,
+  session: sessionStorageBackend,
+  memory: memoryStorageBackend,
+};
+
+/**
+ * @function getAuthStorageBackend
+ * @description Returns the backend for tokens and session data selected with `VITE_AUTH_STORAGE`:
+ * `local` (default; the session is shared by all tabs and survives restarts), `session` (each tab signs in
+ * separately and the session ends when the tab closes) or `memory` (the session ends on reload).
+ * @param {string | undefined} [value=import.meta.env.VITE_AUTH_STORAGE] - The configured value.
+ * @returns {StorageBackend} The backend.
+ * @throws {Error} If the value is not supported, so a misconfigured deployment fails loudly.
+ */
+const getAuthStorageBackend = (value: string | undefined = import.meta.env.VITE_AUTH_STORAGE): StorageBackend => {
+  const resolved = value || 'local';
+  if (!Object.keys(AUTH_STORAGE_BACKENDS).includes(resolved)) {
+    throw new Error(`Unsupported VITE_AUTH_STORAGE "${resolved}". Expected one of: ${Object.keys(AUTH_STORAGE_BACKENDS).join(', ')}.`);
+  }
+  return AUTH_STORAGE_BACKENDS[resolved];
+};
+
+/**
+ * @const NAMESPACE_BACKENDS
+ * @description The backend used by each namespace of the `storage` facade. Session data follows the tokens, since it
+ * is only meaningful with them (e.g., which provider issued them); large, rebuildable cached data goes to IndexedDB.
+ */
+export const NAMESPACE_BACKENDS: Record<StorageNamespace, StorageBackend> = {
+  auth: getAuthStorageBackend(),
+  session: getAuthStorageBackend(),
+  preferences: localStorageBackend,
+  generic: localStorageBackend,
+  cache: indexedDBStorageBackend,
+};
+
+/**
+ * @const NAMESPACE_POLICIES
+ * @description Which keys belong to each namespace of the `storage` facade, its quota and its eviction priority.
+ * The session is never evicted; cached data, which can be fetched again, goes first.
+ */
+export const NAMESPACE_POLICIES: Record<StorageNamespace, Omit<StoragePartition, 'name'>> = {
+  auth: { match: key => ['user', 'auth_token', 'refresh_token'].includes(key) },
+  session: { match: key => key.startsWith('session_'), quota: 100 * 1024, priority: 3 },
+  preferences: { match: key => key === 'theme_preference' || key.startsWith('prefs_'), quota: 200 * 1024, priority: 2 },
+  generic: { quota: 1024 * 1024, priority: 1 }, // Every other key
+  cache: { match: key => key.startsWith('cache_'), quota: 20 * 1024 * 1024, priority: 0 },
+};
+
+/**
+ * @const instances
+ * @description One SecureStorage per backend in use; namespaces on the same backend share it.
+ */
+const instances = new Map<StorageBackend, SecureStorage>([[localStorageBackend, secureStorage]]);
+
+/**
+ * @const stores
+ * @description The SecureStorage instance of each namespace.
+ */
+const stores = Object.fromEntries(
+  (Object.keys(NAMESPACE_BACKENDS) as StorageNamespace[]).map(namespace => {
+    const backend = NAMESPACE_BACKENDS[namespace];
+    if (!instances.has(backend)) instances.set(backend, new SecureStorage({ backend }));
+    const instance = instances.get(backend)!;
+    instance.addPartition({ name: namespace, ...NAMESPACE_POLICIES[namespace] });
+    return [namespace, instance];
+  })
+) as Record<StorageNamespace, SecureStorage>;
+
 /**
  * @const storage
  * @description An object providing namespaced convenience methods for common storage use cases,
- * such as authentication data, user preferences, and session information.
+ * such as authentication data, user preferences, session information and cached data.
  * This promotes consistency in how different types of data are stored and accessed.
+ * Each namespace stores to the backend configured in `NAMESPACE_BACKENDS`.
  */
 export const storage = {
   /**
@@ -338,7 +1342,7 @@ export const storage = {
      * @returns {boolean} Success status.
      */
     setUser: (user: any): boolean =>
-      secureStorage.set('user', user, {
+      stores.auth.set('user', user, {
         encrypt: true,
         expirationTime: 24 * 60 * 60 * 1000 // 24 hours
       }),
@@ -348,13 +1352,13 @@ export const storage = {
      * @returns {any | null} The user object or null.
      */
     getUser: (): any | null =>
-      secureStorage.get('user', { encrypted: true }),
+      stores.auth.get('user', { encrypted: true }),
     /**
      * @function storage.auth.removeUser
      * @description Removes user information from storage.
      */
     removeUser: (): void =>
-      secureStorage.remove('user'),
+      stores.auth.remove('user'),
     /**
      * @function storage.auth.setToken
      * @description Stores an authentication token. Encrypted by default.
@@ -362,7 +1366,7 @@ export const storage = {
      * @returns {boolean} Success status.
      */
     setToken: (token: string): boolean =>
-      secureStorage.set('auth_token', token, {
+      stores.auth.set('auth_token', token, {
         encrypt: true,
         expirationTime: 24 * 60 * 60 * 1000 // 24 hours
       }),
@@ -372,20 +1376,43 @@ export const storage = {
      * @returns {string | null} The token string or null.
      */
     getToken: (): string | null =>
-      secureStorage.get<string>('auth_token', { encrypted: true }),
+      stores.auth.get<string>('auth_token', { encrypted: true }),
     /**
      * @function storage.auth.removeToken
      * @description Removes the authentication token from storage.
      */
     removeToken: (): void =>
-      secureStorage.remove('auth_token'),
+      stores.auth.remove('auth_token'),
+    /**
+     * @function storage.auth.setRefreshToken
+     * @description Stores the refresh token used to obtain new access tokens. Encrypted by default.
+     * @param {string} token - The refresh token string.
+     * @returns {boolean} Success status.
+     */
+    setRefreshToken: (token: string): boolean =>
+      stores.auth.set('refresh_token', token, {
+        encrypt: true,
+        expirationTime: 7 * 24 * 60 * 60 * 1000 // 7 days
+      }),
+    /**
+     * @function storage.auth.getRefreshToken
+     * @description Retrieves the refresh token. Assumes encrypted.
+     * @returns {string | null} The refresh token string or null.
+     */
+    getRefreshToken: (): string | null =>
+      stores.auth.get<string>('refresh_token', { encrypted: true }),
     /**
      * @function storage.auth.clearSession
-     * @description Clears all authentication-related data (user and token).
+     * @description Clears all authentication-related data (user, access token and refresh token) and ends the
+     * encryption session of every backend, removing all other encrypted items too (see `SecureStorage#endSession`).
+     * Cached server data is removed as well, since it was fetched for the signed-in user.
      */
     clearSession: (): void => {
-      secureStorage.remove('user');
-      secureStorage.remove('auth_token');
+      stores.auth.remove('user');
+      stores.auth.remove('auth_token');
+      stores.auth.remove('refresh_token');
+      instances.forEach(instance => instance.endSession());
+      stores.cache.clearPartition('cache');
     }
   },
 
@@ -403,7 +1430,7 @@ export const storage = {
      * @returns {boolean} Success status.
      */
     setData: (key: string, data: any): boolean =>
-      secureStorage.set(`session_${key}`, data, {
+      stores.session.set(`session_${key}`, data, {
         encrypt: true,
         expirationTime: 24 * 60 * 60 * 1000 // 24 hours, or could be shorter
       }),
@@ -414,14 +1441,14 @@ export const storage = {
      * @returns {any | null} The session data or null.
      */
     getData: (key: string): any | null =>
-      secureStorage.get(`session_${key}`, { encrypted: true }),
+      stores.session.get(`session_${key}`, { encrypted: true }),
     /**
      * @function storage.session.clearData
      * @description Removes specific user session data from storage.
      * @param {string} key - The key for the session data to remove.
      */
     clearData: (key: string): void =>
-      secureStorage.remove(`session_${key}`),
+      stores.session.remove(`session_${key}`),
   },
   // Note: setUserSession, getUserSession, clearUserSession from original code were too generic.
   // Replaced with setData, getData, clearData under storage.session for better namespacing if multiple session items are needed.
@@ -440,7 +1467,7 @@ export const storage = {
      * @returns {boolean} Success status.
      */
     setTheme: (theme: string): boolean =>
-      secureStorage.set('theme_preference', theme, { // Renamed key for clarity
+      stores.preferences.set('theme_preference', theme, { // Renamed key for clarity
         encrypt: false, // Themes are usually not sensitive
         expirationTime: 365 * 24 * 60 * 60 * 1000 // 1 year
       }),
@@ -450,27 +1477,48 @@ export const storage = {
      * @returns {string | null} The theme name or null.
      */
     getTheme: (): string | null =>
-      secureStorage.get<string>('theme_preference', { encrypted: false }), // Specify encrypted: false if it's not
+      stores.preferences.get<string>('theme_preference', { encrypted: false }), // Specify encrypted: false if it's not
     /**
      * @function storage.preferences.set
      * @description Stores general user preferences. Not encrypted by default.
      * @param {string} key - The preference key.
      * @param {any} prefs - The preferences data.
+     * @param {{ encrypt?: boolean; expirationTime?: number }} [options={}] - Whether to encrypt the preferences
+     *   (default false) and a custom expiration time in milliseconds (default 1 year).
      * @returns {boolean} Success status.
      */
-    set: (key: string, prefs: any): boolean =>
-      secureStorage.set(`prefs_${key}`, prefs, {
-        encrypt: false,
-        expirationTime: 365 * 24 * 60 * 60 * 1000 // 1 year
+    set: (key: string, prefs: any, options: { encrypt?: boolean; expirationTime?: number } = {}): boolean =>
+      stores.preferences.set(`prefs_${key}`, prefs, {
+        encrypt: options.encrypt ?? false,
+        expirationTime: options.expirationTime ?? 365 * 24 * 60 * 60 * 1000 // 1 year
       }),
     /**
      * @function storage.preferences.get
      * @description Retrieves general user preferences.
      * @param {string} key - The preference key.
+     * @param {{ encrypted?: boolean }} [options={}] - Whether the preferences were stored encrypted (default false).
      * @returns {any | null} The preferences data or null.
      */
-    get: (key: string): any | null =>
-      secureStorage.get(`prefs_${key}`, { encrypted: false }),
+    get: (key: string, options: { encrypted?: boolean } = {}): any | null =>
+      stores.preferences.get(`prefs_${key}`, { encrypted: options.encrypted ?? false }),
+    /**
+     * @function storage.preferences.remove
+     * @description Removes general user preferences.
+     * @param {string} key - The preference key.
+     */
+    remove: (key: string): void =>
+      stores.preferences.remove(`prefs_${key}`),
+    /**
+     * @function storage.preferences.subscribe
+     * @description Listens for changes to general user preferences, in this tab or another one.
+     * @param {string} key - The preference key.
+     * @param {() => void} listener - Called after the preferences changed or were removed.
+     * @returns {() => void} A function that removes the listener.
+     */
+    subscribe: (key: string, listener: () => void): (() => void) =>
+      stores.preferences.subscribe(changed => {
+        if (changed === null || changed === `prefs_${key}`) listener();
+      }),
   },
 
   /**
@@ -488,7 +1536,7 @@ export const storage = {
      * @returns {boolean} Success status.
      */
     set: (key: string, data: any, encrypt: boolean = false, expirationTime?: number): boolean =>
-      secureStorage.set(key, data, { encrypt, expirationTime }),
+      stores.generic.set(key, data, { encrypt, expirationTime }),
     /**
      * @function storage.generic.get
      * @description Retrieves generic data. Decryption is handled if `encrypted` is true.
@@ -497,34 +1545,169 @@ export const storage = {
      * @returns {any | null} The data or null.
      */
     get: (key: string, encrypted: boolean = false): any | null =>
-      secureStorage.get(key, { encrypted }),
+      stores.generic.get(key, { encrypted }),
+    /**
+     * @function storage.generic.setAsync
+     * @description Stores generic data and resolves once it is persisted (encrypted if requested).
+     * @param {string} key - The key for the data.
+     * @param {any} data - The data to store.
+     * @param {boolean} [encrypt=false] - Whether to encrypt the data.
+     * @param {number} [expirationTime] - Custom expiration time in milliseconds.
+     * @returns {Promise<boolean>} Success status.
+     */
+    setAsync: (key: string, data: any, encrypt: boolean = false, expirationTime?: number): Promise<boolean> =>
+      stores.generic.setAsync(key, data, { encrypt, expirationTime }),
+    /**
+     * @function storage.generic.getAsync
+     * @description Retrieves generic data from the backend itself, seeing changes made by other tabs.
+     * @param {string} key - The key for the data.
+     * @param {boolean} [encrypted=false] - Whether the data was stored encrypted.
+     * @returns {Promise<any | null>} The data or null.
+     */
+    getAsync: (key: string, encrypted: boolean = false): Promise<any | null> =>
+      stores.generic.getAsync(key, { encrypted }),
+    /**
+     * @function storage.generic.remove
+     * @description Removes generic data.
+     * @param {string} key - The key for the data.
+     */
+    remove: (key: string): void =>
+      stores.generic.remove(key),
+  },
+
+  /**
+   * @namespace storage.cache
+   * @description Methods for caching data that can be fetched again (e.g., API responses kept by `useQuery` with
+   * `persist`). Stored in IndexedDB, which holds far more than localStorage; not encrypted, but cleared at sign-out.
+   */
+  cache: {
+    /**
+     * @function storage.cache.set
+     * @description Caches data.
+     * @param {string} key - The cache key.
+     * @param {any} data - The data to cache.
+     * @param {number} [expirationTime] - Custom expiration time in milliseconds. Defaults to 1 day.
+     * @returns {boolean} Success status.
+     */
+    set: (key: string, data: any, expirationTime: number = 24 * 60 * 60 * 1000): boolean =>
+      stores.cache.set(`cache_${key}`, data, { expirationTime }),
+    /**
+     * @function storage.cache.get
+     * @description Retrieves cached data.
+     * @param {string} key - The cache key.
+     * @returns {any | null} The data, or null if not cached or expired.
+     */
+    get: (key: string): any | null =>
+      stores.cache.get(`cache_${key}`),
+    /**
+     * @function storage.cache.remove
+     * @description Removes cached data.
+     * @param {string} key - The cache key.
+     */
+    remove: (key: string): void =>
+      stores.cache.remove(`cache_${key}`),
   },
 
   /**
    * @namespace storage.utils
-   * @description Utility methods exposed from the secureStorage instance.
+   * @description Utility methods applied to every SecureStorage instance (i.e., every backend in use).
    */
   utils: {
+    /**
+     * @function storage.utils.ready
+     * @description Prepares the storage (asynchronous backends, encryption key, migration, decryption).
+     * Await it before reading stored data.
+     * @see SecureStorage#ready
+     * @returns {Promise<void>} Resolves once the storage is ready.
+     */
+    ready: async (): Promise<void> => {
+      await Promise.all(Array.from(instances.values(), instance => instance.ready()));
+    },
+    /**
+     * @function storage.utils.reload
+     * @description Re-reads encrypted data changed by other tabs.
+     * @see SecureStorage#reload
+     * @returns {Promise<void>} Resolves once reloaded.
+     */
+    reload: async (): Promise<void> => {
+      await Promise.all(Array.from(instances.values(), instance => instance.reload()));
+    },
+    /**
+     * @function storage.utils.flush
+     * @description Waits for writes still in progress.
+     * @see SecureStorage#flush
+     * @returns {Promise<void>} Resolves once they are persisted.
+     */
+    flush: async (): Promise<void> => {
+      await Promise.all(Array.from(instances.values(), instance => instance.flush()));
+    },
+    /**
+     * @function storage.utils.getMigrationReport
+     * @description Lists the items migrated or dropped since the page loaded, in every backend.
+     * @see SecureStorage#getMigrationReport
+     * @returns {StorageMigrationReport} The combined report.
+     */
+    getMigrationReport: (): StorageMigrationReport =>
+      Array.from(instances.values()).reduce<StorageMigrationReport>(
+        (total, instance) => {
+          const report = instance.getMigrationReport();
+          return { migrated: [...total.migrated, ...report.migrated], dropped: [...total.dropped, ...report.dropped] };
+        },
+        { migrated: [], dropped: [] }
+      ),
     /**
      * @function storage.utils.cleanup
-     * @description Removes all expired items managed by secureStorage.
+     * @description Removes all expired items.
      * @see SecureStorage#cleanup
      * @returns {number} The number of items removed.
      */
-    cleanup: (): number => secureStorage.cleanup(),
+    cleanup: (): number =>
+      Array.from(instances.values()).reduce((removed, instance) => removed + instance.cleanup(), 0),
     /**
      * @function storage.utils.getInfo
-     * @description Gets storage usage information.
+     * @description Gets storage usage information, summed over all backends, with the usage of each namespace.
      * @see SecureStorage#getStorageInfo
-     * @returns {{ totalItems: number; totalSize: number; expiredItems: string[] }} Storage info.
+     * @returns {{ totalItems: number; totalSize: number; expiredItems: string[]; namespaces: Record<StorageNamespace, StoragePartitionInfo & { backend: string }> }} Storage info.
+     */
+    getInfo: (): {
+      totalItems: number;
+      totalSize: number;
+      expiredItems: string[];
+      namespaces: Record<StorageNamespace, StoragePartitionInfo & { backend: string }>;
+    } => {
+      const infos = new Map(Array.from(instances.values(), instance => [instance, instance.getStorageInfo()]));
+      return {
+        ...Array.from(infos.values()).reduce(
+          (total, info) => ({
+            totalItems: total.totalItems + info.totalItems,
+            totalSize: total.totalSize + info.totalSize,
+            expiredItems: [...total.expiredItems, ...info.expiredItems],
+          }),
+          { totalItems: 0, totalSize: 0, expiredItems: [] as string[] }
+        ),
+        namespaces: Object.fromEntries(
+          (Object.keys(stores) as StorageNamespace[]).map(namespace => [
+            namespace,
+            { ...infos.get(stores[namespace])!.partitions[namespace], backend: stores[namespace].backend.name },
+          ])
+        ) as Record<StorageNamespace, StoragePartitionInfo & { backend: string }>,
+      };
+    },
+    /**
+     * @function storage.utils.clearNamespace
+     * @description Removes all items of one namespace.
+     * @see SecureStorage#clearPartition
+     * @param {StorageNamespace} namespace - The namespace.
+     * @returns {number} The number of items removed.
      */
-    getInfo: () => secureStorage.getStorageInfo(),
+    clearNamespace: (namespace: StorageNamespace): number =>
+      stores[namespace].clearPartition(namespace),
     /**
      * @function storage.utils.clearAll
-     * @description Clears all items managed by secureStorage (respecting the prefix).
+     * @description Clears all items managed by the storage (respecting the prefix), in every backend.
      * @see SecureStorage#clear
      */
-    clearAll: (): void => secureStorage.clear()
+    clearAll: (): void => instances.forEach(instance => instance.clear())
   }
 };
 // Exporting the singleton instance for direct use if preferred,
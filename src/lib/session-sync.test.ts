@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createSessionChannel } from './session-sync';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createSessionChannel', () => {
+  it('delivers messages to the other tabs', async () => {
+    const sender = createSessionChannel();
+    const receiver = createSessionChannel();
+    const received = vi.fn();
+    const own = vi.fn();
+    receiver.subscribe(received);
+    sender.subscribe(own);
+
+    sender.post({ type: 'logout', reason: 'idle' });
+    await vi.waitFor(() => expect(received).toHaveBeenCalledWith({ type: 'logout', reason: 'idle' }));
+    expect(own).not.toHaveBeenCalled();
+    sender.close();
+    receiver.close();
+  });
+
+  it('falls back to storage events without BroadcastChannel', () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    const channel = createSessionChannel();
+    const received = vi.fn();
+    const unsubscribe = channel.subscribe(received);
+    const send = (newValue: string) =>
+      window.dispatchEvent(new StorageEvent('storage', { key: 'radix_dashboard_session', newValue }));
+
+    send(JSON.stringify({ message: { type: 'activity', at: 1 }, nonce: 0.5 }));
+    send('not json');
+    expect(received).toHaveBeenCalledTimes(1);
+    expect(received).toHaveBeenCalledWith({ type: 'activity', at: 1 });
+
+    unsubscribe();
+    send(JSON.stringify({ message: { type: 'login' }, nonce: 0.6 }));
+    expect(received).toHaveBeenCalledTimes(1);
+    channel.close();
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * @file session-sync.ts
+ * @description Keeps the session consistent across browser tabs of the dashboard.
+ * Each `AuthProvider` opens a channel and announces sign-ins, sign-outs, token refreshes, user activity
+ * and session timeout changes; the other tabs apply them. The session itself lives in shared storage,
+ * so messages only say *what* changed and receivers re-read it.
+ *
+ * Uses `BroadcastChannel` where available and falls back to `storage` events (which also reach
+ * every other tab of the same origin) in older browsers.
+ */
+
+/**
+ * @const CHANNEL_NAME
+ * @description Name of the `BroadcastChannel`, and localStorage key used by the `storage` event fallback.
+ */
+const CHANNEL_NAME = 'radix_dashboard_session';
+
+/**
+ * @typedef SessionSyncMessage
+ * @description A message exchanged between tabs.
+ * - `login`: a user signed in; read the session from storage.
+ * - `logout`: the user signed out (`reason` tells why, so the other tabs can say so).
+ * - `refresh`: the tokens were refreshed; read the new ones from storage instead of refreshing again.
+ * - `activity`: the user was active at `at` (a timestamp), which resets the idle timeout in every tab.
+ * - `timeout`: the idle timeout changed to `minutes` (null: never).
+ */
+export type SessionSyncMessage =
+  | { type: 'login' }
+  | { type: 'logout'; reason: 'user' | 'idle' | 'expired' }
+  | { type: 'refresh' }
+  | { type: 'activity'; at: number }
+  | { type: 'timeout'; minutes: number | null };
+
+/**
+ * @interface SessionChannel
+ * @description A connection to the other tabs.
+ * @property {(message: SessionSyncMessage) => void} post - Sends a message to every other tab (not to this one).
+ * @property {(listener: (message: SessionSyncMessage) => void) => () => void} subscribe - Listens for messages from
+ *   other tabs. Returns a function that removes the listener.
+ * @property {() => void} close - Closes the channel and removes all listeners.
+ */
+export interface SessionChannel {
+  post: (message: SessionSyncMessage) => void;
+  subscribe: (listener: (message: SessionSyncMessage) => void) => () => void;
+  close: () => void;
+}
+
+/**
+ * @function createSessionChannel
+ * @description Opens a channel to the other tabs of the dashboard.
+ * @returns {SessionChannel} The channel.
+ */
+export function createSessionChannel(): SessionChannel {
+  const listeners = new Set<(message: SessionSyncMessage) => void>();
+  const emit = (message: SessionSyncMessage) => listeners.forEach(listener => listener(message));
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<SessionSyncMessage>) => emit(event.data);
+    return {
+      post: message => channel.postMessage(message),
+      subscribe: listener => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+      close: () => {
+        listeners.clear();
+        channel.close();
+      },
+    };
+  }
+
+  // Fallback: a `storage` event fires in every other tab when the key is written.
+  // The nonce makes repeated identical messages count as changes.
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== CHANNEL_NAME || !event.newValue) return;
+    try {
+      emit(JSON.parse(event.newValue).message);
+    } catch {
+      // Ignore values not written by this module
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+
+  return {
+    post: message => {
+      try {
+        localStorage.setItem(CHANNEL_NAME, JSON.stringify({ message, nonce: Math.random() }));
+        localStorage.removeItem(CHANNEL_NAME);
+      } catch (error) {
+        console.error('Session sync error:', error);
+      }
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    close: () => {
+      listeners.clear();
+      window.removeEventListener('storage', handleStorage);
+    },
+  };
+}
@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { IndexedDBStorageBackend } from './storage-backends';
+
+/**
+ * A minimal stand-in for `indexedDB` (happy-dom has none) over a plain map. Requests complete asynchronously,
+ * and the cursor yields one entry per task, so changes can be made while entries are being loaded.
+ */
+const createFakeIndexedDB = (stored: Map<string, string>) => {
+  const later = (callback: () => void) => setTimeout(callback, 0);
+  const database = {
+    transaction: () => {
+      const transaction: Record<string, any> = {};
+      transaction.objectStore = () => ({
+        put: (value: string, key: string) => stored.set(key, value),
+        delete: (key: string) => stored.delete(key),
+        openCursor: () => {
+          const request: Record<string, any> = {};
+          const entries = Array.from(stored.entries());
+          const next = (index: number) => later(() => {
+            const entry = entries[index];
+            request.result = entry ? { key: entry[0], value: entry[1], continue: () => next(index + 1) } : null;
+            request.onsuccess();
+          });
+          next(0);
+          return request;
+        },
+      });
+      later(() => transaction.oncomplete?.());
+      return transaction;
+    },
+  };
+  return {
+    open: () => {
+      const request: Record<string, any> = { result: database };
+      later(() => request.onsuccess());
+      return request;
+    },
+  };
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('IndexedDBStorageBackend', () => {
+  it('loads the stored entries', async () => {
+    vi.stubGlobal('indexedDB', createFakeIndexedDB(new Map([['theme', 'dark']])));
+    const backend = new IndexedDBStorageBackend('test');
+    await backend.load();
+    expect(backend.getItem('theme')).toBe('dark');
+  });
+
+  it('does not bring back entries set or removed while loading', async () => {
+    const stored = new Map([['removed', 'old'], ['replaced', 'old'], ['kept', 'old']]);
+    vi.stubGlobal('indexedDB', createFakeIndexedDB(stored));
+    const backend = new IndexedDBStorageBackend('test');
+    const loading = backend.load();
+    backend.removeItem('removed');
+    backend.setItem('replaced', 'new');
+    await loading;
+
+    expect(backend.getItem('removed')).toBeNull();
+    expect(backend.getItem('replaced')).toBe('new');
+    expect(backend.getItem('kept')).toBe('old');
+    await backend.flush();
+    expect(Array.from(stored.keys()).sort()).toEqual(['kept', 'replaced']);
+  });
+});
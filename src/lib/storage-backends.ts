@@ -0,0 +1,253 @@
+/**
+ * @file storage-backends.ts
+ * @description Where `SecureStorage` keeps its data. A `StorageBackend` is a small synchronous key/value store of
+ * strings; this file provides backends for `localStorage`, `sessionStorage`, memory and IndexedDB.
+ *
+ * IndexedDB is asynchronous, so its backend keeps a copy of its entries in memory: `load()` (called by
+ * `SecureStorage.ready()`) reads them once, reads are served from memory, and writes are applied to memory
+ * immediately and persisted to IndexedDB in the background, off the main thread. It suits large, rebuildable data
+ * such as cached API responses, which would otherwise fill the ~5 MB Web Storage quota.
+ */
+
+/**
+ * @interface StorageBackend
+ * @description A key/value store of strings used by `SecureStorage`.
+ * @property {string} name - Identifies the backend (e.g., in storage statistics).
+ * @property {boolean} persistent - Whether data survives a page reload.
+ * @property {(key: string) => string | null} getItem - Returns the value stored under a key, or null.
+ * @property {(key: string, value: string) => void} setItem - Stores a value. May throw (e.g., when the quota is exceeded).
+ * @property {(key: string) => void} removeItem - Removes a value.
+ * @property {() => string[]} keys - Lists all stored keys.
+ * @property {() => Promise<void>} [load] - Loads the stored entries, for asynchronous backends. Called before first use.
+ * @property {() => Promise<void>} [flush] - Resolves once pending writes are persisted, for asynchronous backends.
+ * @property {(listener: (key: string | null) => void) => () => void} [subscribe] - Reports changes made by other tabs
+ *   (`null`: everything was cleared). Returns a function that removes the listener.
+ */
+export interface StorageBackend {
+  name: string;
+  persistent: boolean;
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+  keys: () => string[];
+  load?: () => Promise<void>;
+  flush?: () => Promise<void>;
+  subscribe?: (listener: (key: string | null) => void) => () => void;
+}
+
+/**
+ * @class WebStorageBackend
+ * @description A backend over a Web Storage area (`localStorage` or `sessionStorage`).
+ * `localStorage` is shared by all tabs and persists; `sessionStorage` belongs to one tab and is cleared when it closes.
+ */
+export class WebStorageBackend implements StorageBackend {
+  readonly persistent = true;
+
+  /**
+   * @constructor
+   * @param {string} name - The backend name.
+   * @param {() => Storage} getArea - Returns the storage area. Resolved lazily, as accessing it can throw
+   *   (e.g., in sandboxed iframes or when storage is disabled).
+   */
+  constructor(readonly name: string, private getArea: () => Storage) {}
+
+  getItem(key: string): string | null {
+    return this.getArea().getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.getArea().setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.getArea().removeItem(key);
+  }
+
+  keys(): string[] {
+    const area = this.getArea();
+    const keys: string[] = [];
+    for (let i = 0; i < area.length; i++) {
+      const key = area.key(i);
+      if (key !== null) keys.push(key);
+    }
+    return keys;
+  }
+
+  subscribe(listener: (key: string | null) => void): () => void {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.storageArea === this.getArea()) listener(event.key);
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }
+}
+
+/**
+ * @class MemoryStorageBackend
+ * @description A backend that keeps data in memory only, for the lifetime of the page. Nothing is written to disk,
+ * which makes it suitable for highly sensitive data and as a fallback where browser storage is unavailable.
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  readonly name = 'memory';
+  readonly persistent = false;
+  private entries = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.entries.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.entries.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+}
+
+/**
+ * @class IndexedDBStorageBackend
+ * @description A backend that persists to an IndexedDB object store, with its entries mirrored in memory
+ * (see the file description). If IndexedDB cannot be opened, it behaves like `MemoryStorageBackend`.
+ */
+export class IndexedDBStorageBackend implements StorageBackend {
+  readonly name = 'indexedDB';
+  readonly persistent = true;
+  private entries = new Map<string, string>();
+  private db: Promise<IDBDatabase | null> | null = null;
+  private loaded: Promise<void> | null = null;
+  private writes: Promise<void> = Promise.resolve(); // Queue of pending writes, applied in order
+  private changedBeforeLoad: Set<string> | null = new Set(); // Keys set or removed while loading; null once loaded
+
+  /**
+   * @constructor
+   * @param {string} [databaseName='radix_dashboard_storage'] - The IndexedDB database (and object store) name.
+   */
+  constructor(private databaseName = 'radix_dashboard_storage') {}
+
+  /**
+   * @private
+   * @function open
+   * @description Opens the database once.
+   * @returns {Promise<IDBDatabase | null>} The database, or null if IndexedDB is unavailable.
+   */
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase | null>(resolve => {
+        try {
+          const request = indexedDB.open(this.databaseName, 1);
+          request.onupgradeneeded = () => request.result.createObjectStore(this.databaseName);
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => {
+            console.warn(`IndexedDBStorageBackend: Could not open "${this.databaseName}"; data will be kept in memory only.`, request.error);
+            resolve(null);
+          };
+        } catch (error) {
+          console.warn('IndexedDBStorageBackend: IndexedDB is unavailable; data will be kept in memory only.', error);
+          resolve(null);
+        }
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * @private
+   * @function write
+   * @description Queues a change to the object store.
+   * @param {(store: IDBObjectStore) => void} change - The change to apply.
+   */
+  private write(change: (store: IDBObjectStore) => void): void {
+    this.writes = this.writes.then(async () => {
+      const db = await this.open();
+      if (!db) return;
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(this.databaseName, 'readwrite');
+        change(transaction.objectStore(this.databaseName));
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    }).catch(error => {
+      console.error('IndexedDBStorageBackend: Failed to persist a change', error);
+    });
+  }
+
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.open().then(db => {
+        if (!db) return;
+        return new Promise<void>(resolve => {
+          const request = db.transaction(this.databaseName, 'readonly').objectStore(this.databaseName).openCursor();
+          request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return resolve();
+            // Entries set or removed before loading finished are newer than the stored ones
+            if (!this.changedBeforeLoad?.has(String(cursor.key))) this.entries.set(String(cursor.key), cursor.value);
+            cursor.continue();
+          };
+          request.onerror = () => {
+            console.error('IndexedDBStorageBackend: Failed to load entries', request.error);
+            resolve();
+          };
+        });
+      }).then(() => {
+        this.changedBeforeLoad = null;
+      });
+    }
+    return this.loaded;
+  }
+
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  getItem(key: string): string | null {
+    return this.entries.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.entries.set(key, value);
+    this.changedBeforeLoad?.add(key);
+    this.write(store => store.put(value, key));
+  }
+
+  removeItem(key: string): void {
+    this.entries.delete(key);
+    this.changedBeforeLoad?.add(key);
+    this.write(store => store.delete(key));
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+}
+
+/**
+ * @const localStorageBackend
+ * @description The `localStorage` backend: shared by all tabs, kept until cleared.
+ */
+export const localStorageBackend = new WebStorageBackend('localStorage', () => localStorage);
+
+/**
+ * @const sessionStorageBackend
+ * @description The `sessionStorage` backend: private to the tab, cleared when it closes.
+ */
+export const sessionStorageBackend = new WebStorageBackend('sessionStorage', () => sessionStorage);
+
+/**
+ * @const memoryStorageBackend
+ * @description The in-memory backend: cleared on reload.
+ */
+export const memoryStorageBackend = new MemoryStorageBackend();
+
+/**
+ * @const indexedDBStorageBackend
+ * @description The IndexedDB backend: shared by all tabs (though, being mirrored in memory, a tab does not see
+ * another tab's later writes until reloaded), kept until cleared, with a much larger quota than Web Storage.
+ */
+export const indexedDBStorageBackend = new IndexedDBStorageBackend();
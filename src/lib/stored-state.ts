@@ -0,0 +1,71 @@
+/**
+ * @file stored-state.ts
+ * @description A hook that binds component state to a preference persisted with `storage.preferences`.
+ * Every component using the same key shows the same value: writes are picked up through storage change
+ * subscriptions, including writes made in other tabs.
+ */
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { storage } from './secure-storage';
+
+/**
+ * @interface StoredStateOptions
+ * @description Options for the useStoredState hook.
+ * @property {boolean} [encrypt=false] - Whether to store the value encrypted.
+ * @property {number} [expirationTime] - How long the stored value is kept, in milliseconds (default 1 year).
+ *   Once it expires, the default value is used again.
+ */
+export interface StoredStateOptions {
+  encrypt?: boolean;
+  expirationTime?: number;
+}
+
+/**
+ * @function useStoredState
+ * @description Custom hook that works like `useState`, but reads the value from `storage.preferences` and writes
+ * every update back to it. The default value is used while nothing is stored (or the stored value expired).
+ * @template T - The type of the value. Must be JSON-serializable.
+ * @param {string} key - The preference key (as passed to `storage.preferences.get`).
+ * @param {T} defaultValue - The value used while nothing is stored.
+ * @param {StoredStateOptions} [options={}] - Encryption and expiry of the stored value.
+ * @returns {[T, (value: T | ((previous: T) => T)) => void, () => void]} The current value, a function that stores a
+ *   new value (or computes it from the current one), and a function that removes the stored value.
+ * @example
+ * const [compactMode, setCompactMode] = useStoredState('compact_mode', false);
+ */
+export function useStoredState<T>(
+  key: string,
+  defaultValue: T,
+  options: StoredStateOptions = {}
+): [T, (value: T | ((previous: T) => T)) => void, () => void] {
+  const { encrypt = false, expirationTime } = options;
+  const defaultValueRef = useRef(defaultValue);
+
+  // Always fall back to the latest default without re-subscribing (object literals change on every render)
+  useEffect(() => {
+    defaultValueRef.current = defaultValue;
+  });
+
+  const read = useCallback(
+    (): T => storage.preferences.get(key, { encrypted: encrypt }) ?? defaultValueRef.current,
+    [key, encrypt]
+  );
+
+  const [value, setValue] = useState<T>(read);
+
+  // Re-read when the key changes, and whenever the stored value changes (here or in another tab)
+  useEffect(() => {
+    setValue(read());
+    return storage.preferences.subscribe(key, () => setValue(read()));
+  }, [key, read]);
+
+  const update = useCallback((next: T | ((previous: T) => T)) => {
+    const resolved = typeof next === 'function' ? (next as (previous: T) => T)(read()) : next;
+    if (!storage.preferences.set(key, resolved, { encrypt, expirationTime })) {
+      console.error(`useStoredState: Failed to store preference "${key}"`);
+    }
+  }, [key, encrypt, expirationTime, read]);
+
+  const remove = useCallback(() => storage.preferences.remove(key), [key]);
+
+  return [value, update, remove];
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { aggregate, groupRows, summarizeRows } from './table-aggregates';
+
+const orders = [
+  { id: '1', status: 'pending', total: 120, items: 2 },
+  { id: '2', status: 'shipped', total: '$80.50', items: 1 },
+  { id: '3', status: 'pending', total: null, items: 4 },
+  { id: '4', status: null, total: 45, items: undefined },
+];
+
+const read = (row: Record<string, any>, key: string) => row[key];
+
+describe('aggregate', () => {
+  it('skips empty and non-numeric values, and parses formatted numbers', () => {
+    const values = [120, '$80.50', null, '', 'n/a', 45];
+    expect(aggregate(values, 'sum')).toBe(245.5);
+    expect(aggregate(values, 'avg')).toBeCloseTo(81.83, 2);
+    expect(aggregate(values, 'min')).toBe(45);
+    expect(aggregate(values, 'max')).toBe(120);
+    expect(aggregate(values, 'count')).toBe(4);
+  });
+
+  it('returns null when there is nothing to compute, except for count', () => {
+    expect(aggregate([null, undefined, ''], 'sum')).toBeNull();
+    expect(aggregate([], 'count')).toBe(0);
+  });
+
+  it('handles more values than can be spread into Math.min', () => {
+    const values = Array.from({ length: 200_000 }, (_, index) => index);
+    expect(aggregate(values, 'min')).toBe(0);
+    expect(aggregate(values, 'max')).toBe(199_999);
+  });
+});
+
+describe('groupRows', () => {
+  it('groups rows in order of first appearance, with empty values in one group', () => {
+    const groups = groupRows([...orders, { id: '5', status: undefined }], row => row.status);
+    expect(groups.map(group => [group.key, group.rows.map(row => row.id)])).toEqual([
+      ['pending', ['1', '3']],
+      ['shipped', ['2']],
+      ['', ['4', '5']],
+    ]);
+    expect(groups[0].value).toBe('pending');
+  });
+
+  it('groups values with the same text together', () => {
+    const groups = groupRows([{ value: 1 }, { value: '1' }, { value: true }], row => row.value);
+    expect(groups.map(group => [group.key, group.rows.length])).toEqual([['1', 2], ['true', 1]]);
+  });
+});
+
+describe('summarizeRows', () => {
+  it('computes the totals of all rows', () => {
+    expect(summarizeRows(orders, { total: 'sum', items: 'count' }, read)).toEqual({
+      totals: { total: 245.5, items: 3 },
+    });
+  });
+
+  it('adds the row count and aggregates of each group', () => {
+    expect(summarizeRows(orders, { total: 'max' }, read, 'status')).toEqual({
+      totals: { total: 120 },
+      groups: {
+        pending: { count: 2, values: { total: 120 } },
+        shipped: { count: 1, values: { total: 80.5 } },
+        '': { count: 1, values: { total: 45 } },
+      },
+    });
+  });
+});
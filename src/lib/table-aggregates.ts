@@ -0,0 +1,124 @@
+/**
+ * @file table-aggregates.ts
+ * @description Row grouping and aggregates for `DataTable`: rows are grouped by the value of a column, and columns
+ * are summarized (sum, average, count, minimum or maximum) per group and in total. Shared by the table (client mode)
+ * and the mock backend (server mode, through the `groupBy` and `aggregate` parameters).
+ */
+import type { ListAggregates } from '../types';
+
+/**
+ * @typedef AggregateFunction
+ * @description How the values of a column are summarized:
+ * - `sum`, `avg`, `min`, `max`: of the numeric values (numbers, or strings such as "$1,200.00")
+ * - `count`: the number of non-empty values
+ */
+export type AggregateFunction = 'sum' | 'avg' | 'count' | 'min' | 'max';
+
+/**
+ * @const AGGREGATE_FUNCTIONS
+ * @description The supported aggregate functions, to validate requested ones.
+ */
+export const AGGREGATE_FUNCTIONS: AggregateFunction[] = ['sum', 'avg', 'count', 'min', 'max'];
+
+/**
+ * @interface RowGroup
+ * @description Rows sharing the same value in the grouped column.
+ * @template T - The type of the rows.
+ * @property {string} key - The group value as a string (`toGroupKey`), identifying the group.
+ * @property {any} value - The group value, as found in the rows.
+ * @property {T[]} rows - The rows of the group, in their order.
+ */
+export interface RowGroup<T> {
+  key: string;
+  value: any;
+  rows: T[];
+}
+
+/**
+ * @function toGroupKey
+ * @description Gets the key of the group a value belongs to. Rows without a value form one group (key "").
+ * @param {any} value - The value of the grouped column.
+ * @returns {string} The group key.
+ */
+export function toGroupKey(value: any): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+/**
+ * @function groupRows
+ * @description Groups rows by a value, keeping the order in which groups first appear (sort rows by the grouped
+ * column first to get the groups in order).
+ * @template T - The type of the rows.
+ * @param {T[]} rows - The rows.
+ * @param {(row: T) => any} value - Reads the grouped value from a row.
+ * @returns {RowGroup<T>[]} The groups.
+ */
+export function groupRows<T>(rows: T[], value: (row: T) => any): RowGroup<T>[] {
+  const groups = new Map<string, RowGroup<T>>();
+  rows.forEach(row => {
+    const groupValue = value(row);
+    const key = toGroupKey(groupValue);
+    const group = groups.get(key);
+    if (group) {
+      group.rows.push(row);
+    } else {
+      groups.set(key, { key, value: groupValue, rows: [row] });
+    }
+  });
+  return [...groups.values()];
+}
+
+/**
+ * @function aggregate
+ * @description Summarizes values.
+ * @param {unknown[]} values - The values.
+ * @param {AggregateFunction} fn - The aggregate function.
+ * @returns {number | null} The result, or null when no value can be summarized (e.g., the sum of no numbers).
+ * @example
+ * aggregate([10, '$5.50', null], 'sum'); // 15.5
+ */
+export function aggregate(values: unknown[], fn: AggregateFunction): number | null {
+  if (fn === 'count') return values.filter(value => value !== null && value !== undefined && value !== '').length;
+
+  const numbers = values.flatMap(value => {
+    if (value === null || value === undefined || value === '') return [];
+    const number = typeof value === 'number' ? value : parseFloat(String(value).replace(/[^\d.eE+-]/g, ''));
+    return isNaN(number) ? [] : [number];
+  });
+  if (numbers.length === 0) return null;
+
+  switch (fn) {
+    case 'sum': return numbers.reduce((sum, number) => sum + number, 0);
+    case 'avg': return numbers.reduce((sum, number) => sum + number, 0) / numbers.length;
+    case 'min': return numbers.reduce((min, number) => Math.min(min, number)); // Spreading 100k values would overflow the stack
+    case 'max': return numbers.reduce((max, number) => Math.max(max, number));
+  }
+}
+
+/**
+ * @function summarizeRows
+ * @description Aggregates columns over rows, in total and (when grouping) for each group.
+ * @template T - The type of the rows.
+ * @param {T[]} rows - The rows.
+ * @param {Record<string, AggregateFunction>} aggregates - The aggregate function of each column, by column key.
+ * @param {(row: T, key: string) => any} read - Reads a column value from a row.
+ * @param {string | null} [groupBy=null] - The key of the grouped column, if any.
+ * @returns {ListAggregates} The aggregates.
+ */
+export function summarizeRows<T>(
+  rows: T[],
+  aggregates: Record<string, AggregateFunction>,
+  read: (row: T, key: string) => any,
+  groupBy: string | null = null
+): ListAggregates {
+  const summarize = (subset: T[]) =>
+    Object.fromEntries(Object.entries(aggregates).map(([key, fn]) => [key, aggregate(subset.map(row => read(row, key)), fn)]));
+
+  const summary: ListAggregates = { totals: summarize(rows) };
+  if (groupBy) {
+    summary.groups = Object.fromEntries(groupRows(rows, row => read(row, groupBy)).map(group =>
+      [group.key, { count: group.rows.length, values: summarize(group.rows) }]
+    ));
+  }
+  return summary;
+}
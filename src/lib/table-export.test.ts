@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+import { createCsv, createPdf, createXlsx, toFileName, type ExportTable } from './table-export';
+
+const table: ExportTable = {
+  title: 'Orders',
+  columns: [{ header: 'Name' }, { header: 'Note' }, { header: 'Total' }, { header: 'Date' }],
+  rows: [
+    ['Ada', 'says "hi", twice', 12.5, new Date('2024-01-15T10:30:00Z')],
+    ['Bob', 'line\nbreak', null, { nested: true }],
+  ],
+};
+
+describe('createCsv', () => {
+  it('writes RFC 4180 records, quoting only the fields that need it', async () => {
+    const csv = await createCsv(table).text();
+    expect(csv).toBe(
+      'Name,Note,Total,Date\r\n' +
+      'Ada,"says ""hi"", twice",12.5,2024-01-15T10:30:00.000Z\r\n' +
+      'Bob,"line\nbreak",,"{""nested"":true}"\r\n'
+    );
+  });
+
+  it('uses the delimiter given and can start with a byte order mark', async () => {
+    const bytes = new Uint8Array(await createCsv(table, { delimiter: ';', bom: true }).arrayBuffer());
+    expect([...bytes.slice(0, 3)]).toEqual([0xef, 0xbb, 0xbf]);
+    const csv = new TextDecoder().decode(bytes.slice(3));
+    expect(csv.split('\r\n')[1]).toBe('Ada;"says ""hi"", twice";12.5;2024-01-15T10:30:00.000Z');
+  });
+});
+
+describe('toFileName', () => {
+  it('names files after the title and the day', () => {
+    expect(toFileName('Order Items!', 'csv')).toMatch(/^order-items-\d{4}-\d{2}-\d{2}\.csv$/);
+    expect(toFileName('', 'pdf')).toMatch(/^data-/);
+  });
+});
+
+/**
+ * Computes a CRC-32 bit by bit, independently of the table-driven implementation under test.
+ */
+const referenceCrc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Reads a stored (uncompressed) ZIP archive through its central directory, checking every header on the way.
+ */
+const readZip = async (blob: Blob): Promise<Record<string, string>> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  expect(position + view.getUint32(end + 12, true)).toBe(end);
+
+  const files: Record<string, string> = {};
+  for (let entry = 0; entry < count; entry++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const name = new TextDecoder().decode(bytes.slice(position + 46, position + 46 + nameLength));
+    const local = view.getUint32(position + 42, true);
+
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    expect(view.getUint16(local + 8, true)).toBe(0); // Stored
+    expect(view.getUint32(local + 14, true)).toBe(crc);
+    expect(view.getUint32(local + 18, true)).toBe(size);
+    const data = bytes.slice(local + 30 + nameLength, local + 30 + nameLength + size);
+    expect(referenceCrc32(data)).toBe(crc);
+
+    files[name] = new TextDecoder().decode(data);
+    position += 46 + nameLength;
+  }
+  return files;
+};
+
+describe('createXlsx', () => {
+  const workbook: ExportTable = {
+    title: 'Orders: Q1/Q2',
+    columns: [
+      { header: 'Customer' },
+      { header: 'Total', type: 'number', format: '$#,##0.00', width: 70 },
+      { header: 'Ordered', type: 'date' },
+      { header: 'Paid' },
+      { header: 'Reference', type: 'string' },
+    ],
+    rows: [
+      ['Ada & <Co>', 12.5, '2024-01-15', true, '2024-01-15'],
+      ['Bob', '$1,200.00', '2024-01-15T10:30:00', false, null],
+    ],
+  };
+
+  it('writes a ZIP archive of the workbook parts with valid checksums', async () => {
+    expect(referenceCrc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    const files = await readZip(createXlsx(workbook));
+    expect(Object.keys(files)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/worksheets/sheet1.xml',
+      'xl/styles.xml',
+    ]);
+    expect(files['xl/workbook.xml']).toContain('<sheet name="Orders  Q1 Q2" sheetId="1" r:id="rId1"/>');
+  });
+
+  it('writes typed cells with the number formats of their columns', async () => {
+    const files = await readZip(createXlsx(workbook));
+    const sheet = files['xl/worksheets/sheet1.xml'];
+    expect(sheet).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Customer</t></is></c>');
+    expect(sheet).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">Ada &amp; &lt;Co&gt;</t></is></c>');
+    expect(sheet).toContain('<c r="B2" s="4"><v>12.5</v></c>');
+    expect(sheet).toContain('<c r="B3" s="4"><v>1200</v></c>');
+    expect(sheet).toContain('<c r="C2" s="2"><v>45306</v></c>');
+    expect(sheet).toContain('<c r="C3" s="3"><v>45306.4375</v></c>');
+    expect(sheet).toContain('<c r="D2" t="b"><v>1</v></c>');
+    expect(sheet).toContain('<c r="E2" t="inlineStr"><is><t xml:space="preserve">2024-01-15</t></is></c>');
+    expect(sheet).not.toContain('r="E3"');
+    expect(sheet).toContain('<col min="2" max="2" width="10" customWidth="1"/>');
+    expect(files['xl/styles.xml']).toContain('<numFmt numFmtId="166" formatCode="$#,##0.00"/>');
+    expect(files['xl/styles.xml']).toContain('<xf numFmtId="166" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>');
+  });
+
+  it('freezes the header row and the leading columns', async () => {
+    const headerOnly = (await readZip(createXlsx(workbook)))['xl/worksheets/sheet1.xml'];
+    expect(headerOnly).toContain('<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>');
+    const withColumns = (await readZip(createXlsx({ ...workbook, frozenColumns: 2 })))['xl/worksheets/sheet1.xml'];
+    expect(withColumns).toContain('<pane xSplit="2" ySplit="1" topLeftCell="C2" activePane="bottomRight" state="frozen"/>');
+  });
+});
+
+describe('createPdf', () => {
+  const read = async (blob: Blob) => new TextDecoder('latin1').decode(await blob.arrayBuffer());
+  const document = (rowCount: number): ExportTable => ({
+    title: 'Orders',
+    columns: [{ header: 'Customer' }, { header: 'Total' }],
+    rows: Array.from({ length: rowCount }, (_, index) => [`Customer ${index + 1}`, index + 1]),
+    filters: ['Status: Pending'],
+    locale: 'en-US',
+  });
+
+  it('breaks rows across pages, repeating the headers and numbering each page', async () => {
+    const pdf = await read(createPdf(document(100)));
+    expect(pdf).toContain('/Count 3');
+    expect(pdf.match(/\(Customer\) Tj/g)).toHaveLength(3);
+    ['Page 1 of 3', 'Page 2 of 3', 'Page 3 of 3'].forEach(label => expect(pdf).toContain(`(${label}) Tj`));
+    for (let index = 1; index <= 100; index++) {
+      expect(pdf.match(new RegExp(`\\(Customer ${index}\\) Tj`, 'g'))).toHaveLength(1);
+    }
+    expect(pdf.indexOf('(Customer 31) Tj')).toBeLessThan(pdf.indexOf('(Page 1 of 3) Tj'));
+    expect(pdf.indexOf('(Customer 32) Tj')).toBeGreaterThan(pdf.indexOf('(Page 1 of 3) Tj'));
+    expect(pdf).toContain('(Filters: Status: Pending) Tj');
+  });
+
+  it('fits a short table on one page, and says when there are no rows', async () => {
+    expect(await read(createPdf(document(3)))).toContain('/Count 1');
+    const empty = await read(createPdf(document(0)));
+    expect(empty).toContain('/Count 1');
+    expect(empty).toContain('(No rows) Tj');
+  });
+
+  it('writes a cross-reference table pointing at every object', async () => {
+    const pdf = await read(createPdf(document(40)));
+    const xref = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(pdf)![1]);
+    expect(pdf.slice(xref, xref + 4)).toBe('xref');
+    const offsets = [...pdf.slice(xref).matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+    expect(offsets.length).toBeGreaterThan(5);
+    offsets.forEach((offset, index) => expect(pdf.startsWith(`${index + 1} 0 obj\n`, offset)).toBe(true));
+  });
+});
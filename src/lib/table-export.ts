@@ -0,0 +1,740 @@
+/**
+ * @file table-export.ts
+ * @description Client-side exports of `DataTable` rows to CSV files (RFC 4180), XLSX workbooks and PDF documents,
+ * written without dependencies: an XLSX file is a ZIP archive of SpreadsheetML parts (stored uncompressed here),
+ * and the PDF uses the standard Helvetica fonts, which every PDF reader provides.
+ */
+
+/**
+ * @typedef ExportCellType
+ * @description How the values of a column are written: as text, numbers, dates or booleans. Without a type, each
+ * value is written by its own type (`Date` objects and ISO date strings as dates).
+ */
+export type ExportCellType = 'string' | 'number' | 'date' | 'boolean';
+
+/**
+ * @interface ExportColumn
+ * @description A column of an exported table.
+ * @property {string} header - The header text.
+ * @property {ExportCellType} [type] - How values are written (default: by the type of each value).
+ * @property {string} [format] - XLSX: the Excel number format of the column's number cells (e.g., "$#,##0.00").
+ * @property {number} [width=150] - The column width in pixels; PDF columns share the page width in proportion.
+ */
+export interface ExportColumn {
+  header: string;
+  type?: ExportCellType;
+  format?: string;
+  width?: number;
+}
+
+/**
+ * @interface ExportTable
+ * @description A table to export.
+ * @property {string} title - The title: the PDF heading and the XLSX sheet name.
+ * @property {ExportColumn[]} columns - The columns.
+ * @property {unknown[][]} rows - The values of each row, one per column.
+ * @property {string[]} [filters=[]] - Descriptions of the filters applied, listed under the PDF heading.
+ * @property {number} [frozenColumns=0] - XLSX: the number of leading columns kept in view when scrolling sideways.
+ * @property {string} [locale] - The locale numbers and dates are formatted for in PDFs (default: the user's).
+ * @property {Date} [exportedAt=new Date()] - When the table was exported, shown in PDFs.
+ */
+export interface ExportTable {
+  title: string;
+  columns: ExportColumn[];
+  rows: unknown[][];
+  filters?: string[];
+  frozenColumns?: number;
+  locale?: string;
+  exportedAt?: Date;
+}
+
+/**
+ * @interface CsvOptions
+ * @description Options of CSV exports.
+ * @property {string} [delimiter=","] - The field separator (e.g., ";" for Excel in locales using decimal commas).
+ * @property {boolean} [bom=false] - Whether the file starts with a byte order mark, which Excel needs to read it as
+ *   UTF-8 (without it, accented characters are garbled).
+ */
+export interface CsvOptions {
+  delimiter?: string;
+  bom?: boolean;
+}
+
+/**
+ * @typedef Cell
+ * @description A value converted for export. Dates note whether they have a time of day.
+ */
+type Cell =
+  | { type: 'string'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'date'; value: Date; time: boolean }
+  | { type: 'boolean'; value: boolean };
+
+/**
+ * @const ISO_DATE
+ * @description Matches ISO 8601 dates (`YYYY-MM-DD`), optionally with a time (`THH:mm[:ss[.sss]]` and a zone).
+ */
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * @const DEFAULT_WIDTH
+ * @description The width of columns without one, in pixels.
+ */
+const DEFAULT_WIDTH = 150;
+
+/**
+ * @function toDate
+ * @description Reads a date value. Date-only ISO strings are read as local days (not UTC midnight).
+ * @param {unknown} value - A `Date`, an ISO string or a timestamp.
+ * @returns {{ value: Date; time: boolean } | null} The date and whether it has a time of day, or null if invalid.
+ */
+const toDate = (value: unknown): { value: Date; time: boolean } | null => {
+  let date: Date;
+  if (value instanceof Date) {
+    date = value;
+  } else if (typeof value === 'string') {
+    const match = ISO_DATE.exec(value);
+    if (!match) return null;
+    date = match[4] ? new Date(value) : new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  } else if (typeof value === 'number') {
+    date = new Date(value);
+  } else {
+    return null;
+  }
+  if (isNaN(date.getTime())) return null;
+  const time = date.getHours() !== 0 || date.getMinutes() !== 0 || date.getSeconds() !== 0;
+  return { value: date, time };
+};
+
+/**
+ * @function toCell
+ * @description Converts a value for export as the given type. Values that do not fit the type are written as text.
+ * @param {unknown} value - The value.
+ * @param {ExportCellType} [type] - How it is written (default: by its own type).
+ * @returns {Cell | null} The cell, or null for empty values.
+ */
+const toCell = (value: unknown, type?: ExportCellType): Cell | null => {
+  if (value === null || value === undefined || value === '') return null;
+
+  switch (type ?? (value instanceof Date ? 'date' : typeof value)) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : parseFloat(String(value).replace(/[^\d.eE+-]/g, ''));
+      if (isFinite(number)) return { type: 'number', value: number };
+      break;
+    }
+    case 'boolean':
+      return { type: 'boolean', value: Boolean(value) };
+    case 'date': {
+      const date = toDate(value);
+      if (date) return { type: 'date', ...date };
+      break;
+    }
+    case 'string':
+      if (!type) {
+        // Untyped strings holding ISO dates are dates
+        const date = toDate(value);
+        if (date) return { type: 'date', ...date };
+      }
+      break;
+  }
+  return { type: 'string', value: String(value) };
+};
+
+/**
+ * @function downloadFile
+ * @description Saves a file generated in the browser (through a temporary link).
+ * @param {Blob} blob - The file contents.
+ * @param {string} fileName - The file name.
+ */
+export function downloadFile(blob: Blob, fileName: string): void {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
+
+/**
+ * @function toFileName
+ * @description Names an export after its title and the current day (e.g., "transactions-2026-01-31.xlsx").
+ * @param {string} title - The table title.
+ * @param {string} extension - The file extension, without the dot.
+ * @returns {string} The file name.
+ */
+export function toFileName(title: string, extension: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'data';
+  const now = new Date();
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${slug}-${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}.${extension}`;
+}
+
+// =============================================================================
+// CSV Files
+// =============================================================================
+
+/**
+ * @function toCsvField
+ * @description Writes a value as a CSV field: numbers and booleans as written in JavaScript, dates as ISO strings,
+ * objects as JSON. Fields holding the delimiter, quotes or line breaks are quoted, with quotes doubled.
+ * @param {unknown} value - The value.
+ * @param {string} delimiter - The field separator.
+ * @returns {string} The field.
+ */
+const toCsvField = (value: unknown, delimiter: string): string => {
+  let text: string;
+  if (value === null || value === undefined) {
+    text = '';
+  } else if (value instanceof Date) {
+    text = isNaN(value.getTime()) ? '' : value.toISOString();
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+  const needsQuotes = text.includes(delimiter) || /["\r\n]/.test(text);
+  return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * @function createCsv
+ * @description Creates a CSV file of a table (RFC 4180): a header row, then one record per row, with CRLF line
+ * breaks.
+ * @param {ExportTable} table - The table (only its columns and rows are used).
+ * @param {CsvOptions} [options={}] - The delimiter, and whether to start with a byte order mark.
+ * @returns {Blob} The file.
+ * @example
+ * downloadFile(createCsv(table, { delimiter: ';', bom: true }), 'orders.csv');
+ */
+export function createCsv(table: ExportTable, options: CsvOptions = {}): Blob {
+  const { delimiter = ',', bom = false } = options;
+  const records = [
+    table.columns.map(column => toCsvField(column.header, delimiter)),
+    ...table.rows.map(row => table.columns.map((_, index) => toCsvField(row[index], delimiter))),
+  ];
+  const csv = records.map(fields => fields.join(delimiter)).join('\r\n') + '\r\n';
+  return new Blob([bom ? `\ufeff${csv}` : csv], { type: 'text/csv;charset=utf-8' });
+}
+
+// =============================================================================
+// XLSX Workbooks
+// =============================================================================
+
+/**
+ * @const CRC_TABLE
+ * @description Lookup table of the CRC-32 checksum used by ZIP archives.
+ */
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+/**
+ * @function crc32
+ * @description Computes the CRC-32 checksum of data.
+ * @param {Uint8Array} data - The data.
+ * @returns {number} The checksum.
+ */
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * @function createZip
+ * @description Creates a ZIP archive of files, stored without compression.
+ * @param {Record<string, string>} files - The contents of each file (UTF-8 text), by path.
+ * @returns {Blob} The archive.
+ */
+const createZip = (files: Record<string, string>): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  // DOS date and time of the entries (the archive is created now)
+  const now = new Date();
+  const time = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+  const date = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  for (const [path, contents] of Object.entries(files)) {
+    const name = encoder.encode(path);
+    const data = encoder.encode(contents);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true); // Local file header signature
+    localView.setUint16(4, 20, true); // Version needed to extract (2.0)
+    localView.setUint16(6, 0x0800, true); // Flags: UTF-8 names
+    localView.setUint16(8, 0, true); // Compression: stored
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, data.length, true); // Compressed size
+    localView.setUint32(22, data.length, true); // Uncompressed size
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true); // Central directory header signature
+    centralView.setUint16(4, 20, true); // Version made by
+    centralView.setUint16(6, 20, true); // Version needed to extract
+    centralView.setUint16(8, 0x0800, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true); // Offset of the local header
+    central.set(name, 46);
+
+    parts.push(local, data);
+    directory.push(central);
+    offset += local.length + data.length;
+  }
+
+  const directorySize = directory.reduce((size, entry) => size + entry.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true); // End of central directory signature
+  endView.setUint16(8, directory.length, true); // Entries on this disk
+  endView.setUint16(10, directory.length, true); // Entries in total
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true); // Offset of the central directory
+
+  return new Blob([...parts, ...directory, end], { type: 'application/zip' });
+};
+
+/**
+ * @function escapeXml
+ * @description Escapes text for XML content and attributes, dropping characters XML cannot hold.
+ * @param {string} text - The text.
+ * @returns {string} The escaped text.
+ */
+const escapeXml = (text: string): string =>
+  text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * @function columnName
+ * @description Gets the letters of a spreadsheet column (0 is "A", 26 is "AA").
+ * @param {number} index - The column index.
+ * @returns {string} The column letters.
+ */
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+/**
+ * @function toSerialDate
+ * @description Converts a date to an Excel serial date (days since 1899-12-30, in local time).
+ * @param {Date} date - The date.
+ * @returns {number} The serial date.
+ */
+const toSerialDate = (date: Date): number =>
+  (Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds()) -
+    Date.UTC(1899, 11, 30)) / 86400000;
+
+/**
+ * @const XML_HEADER
+ * @description The declaration every SpreadsheetML part starts with.
+ */
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+/**
+ * @function createXlsx
+ * @description Creates an XLSX workbook of a table: one sheet with a bold, frozen header row, typed cells (numbers,
+ * dates and booleans stay sortable and summable in Excel), the columns' number formats and their widths.
+ * @param {ExportTable} table - The table.
+ * @returns {Blob} The workbook.
+ * @example
+ * downloadFile(createXlsx({ title: 'Orders', columns: [{ header: 'Total', format: '$#,##0.00' }], rows: [[99.5]] }), 'orders.xlsx');
+ */
+export function createXlsx(table: ExportTable): Blob {
+  const { columns, rows, frozenColumns = 0 } = table;
+
+  // Cell styles: 0 is the default, 1 the header, 2 and 3 dates without and with a time, then one per number format
+  const numberFormats = [...new Set(columns.flatMap(column => (column.format ? [column.format] : [])))];
+  const numberStyle = (column: ExportColumn) => (column.format ? 4 + numberFormats.indexOf(column.format) : 0);
+
+  const styleOf = (cell: Cell, column: ExportColumn): number => {
+    if (cell.type === 'date') return cell.time ? 3 : 2;
+    if (cell.type === 'number') return numberStyle(column);
+    return 0;
+  };
+
+  const writeCell = (cell: Cell | null, column: ExportColumn, ref: string): string => {
+    if (!cell) return '';
+    const style = styleOf(cell, column);
+    const s = style ? ` s="${style}"` : '';
+    switch (cell.type) {
+      case 'number': return `<c r="${ref}"${s}><v>${cell.value}</v></c>`;
+      case 'date': return `<c r="${ref}"${s}><v>${toSerialDate(cell.value)}</v></c>`;
+      case 'boolean': return `<c r="${ref}" t="b"><v>${cell.value ? 1 : 0}</v></c>`;
+      case 'string': return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell.value)}</t></is></c>`;
+    }
+  };
+
+  const headerRow = `<row r="1">${columns.map((column, index) =>
+    `<c r="${columnName(index)}1" s="1" t="inlineStr"><is><t xml:space="preserve">${escapeXml(column.header)}</t></is></c>`
+  ).join('')}</row>`;
+  const dataRows = rows.map((row, rowIndex) => {
+    const r = rowIndex + 2;
+    return `<row r="${r}">${columns.map((column, index) =>
+      writeCell(toCell(row[index], column.type), column, `${columnName(index)}${r}`)
+    ).join('')}</row>`;
+  });
+
+  // Freeze the header row, and the leading columns if any
+  const topLeftCell = `${columnName(frozenColumns)}2`;
+  const pane = frozenColumns > 0
+    ? `<pane xSplit="${frozenColumns}" ySplit="1" topLeftCell="${topLeftCell}" activePane="bottomRight" state="frozen"/>`
+    : `<pane ySplit="1" topLeftCell="${topLeftCell}" activePane="bottomLeft" state="frozen"/>`;
+
+  // Excel widths are in characters; about 7 pixels each
+  const cols = columns.map((column, index) =>
+    `<col min="${index + 1}" max="${index + 1}" width="${Math.round((column.width ?? DEFAULT_WIDTH) / 7)}" customWidth="1"/>`
+  ).join('');
+
+  const sheet = XML_HEADER +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetViews><sheetView workbookViewId="0">${pane}</sheetView></sheetViews>` +
+    (cols ? `<cols>${cols}</cols>` : '') +
+    `<sheetData>${headerRow}${dataRows.join('')}</sheetData>` +
+    '</worksheet>';
+
+  const styles = XML_HEADER +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<numFmts count="${2 + numberFormats.length}">` +
+    '<numFmt numFmtId="164" formatCode="yyyy-mm-dd"/>' +
+    '<numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm"/>' +
+    numberFormats.map((format, index) => `<numFmt numFmtId="${166 + index}" formatCode="${escapeXml(format)}"/>`).join('') +
+    '</numFmts>' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    `<cellXfs count="${4 + numberFormats.length}">` +
+    '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+    '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+    '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+    numberFormats.map((_, index) =>
+      `<xf numFmtId="${166 + index}" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>`
+    ).join('') +
+    '</cellXfs>' +
+    '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+    '</styleSheet>';
+
+  // Sheet names are at most 31 characters, without []:*?/\
+  const sheetName = table.title.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet1';
+
+  return new Blob([createZip({
+    '[Content_Types].xml': XML_HEADER +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      '</Types>',
+    '_rels/.rels': XML_HEADER +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>',
+    'xl/workbook.xml': XML_HEADER +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>',
+    'xl/_rels/workbook.xml.rels': XML_HEADER +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      '</Relationships>',
+    'xl/worksheets/sheet1.xml': sheet,
+    'xl/styles.xml': styles,
+  })], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
+
+// =============================================================================
+// PDF Documents
+// =============================================================================
+
+/**
+ * @const PAGE
+ * @description Layout of PDF pages (A4 landscape), in points.
+ */
+const PAGE = {
+  width: 842,
+  height: 595,
+  margin: 36,
+  fontSize: 8,
+  rowHeight: 14,
+  padding: 4,
+};
+
+/**
+ * @const HELVETICA_WIDTHS
+ * @description Widths of the printable ASCII characters (space to "~") in Helvetica and Helvetica-Bold, in
+ * thousandths of the font size. Other characters are measured as wide as a digit.
+ */
+const HELVETICA_WIDTHS = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+  ],
+};
+
+/**
+ * @const WIN_ANSI
+ * @description Characters outside Latin-1 that the fonts' WinAnsi encoding has, by their code in it. Other
+ * characters are replaced (`≥` and `≤` by `>=` and `<=`, the rest by "?").
+ */
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a,
+  '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+  '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+/**
+ * @function toWinAnsi
+ * @description Encodes text for the PDF fonts: one character (code 0-255) per byte, whitespace as spaces.
+ * @param {string} text - The text.
+ * @returns {string} The encoded text.
+ */
+const toWinAnsi = (text: string): string =>
+  text
+    .replace(/\s+/g, ' ')
+    .replace(/≥/g, '>=')
+    .replace(/≤/g, '<=')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, char => (char in WIN_ANSI ? String.fromCharCode(WIN_ANSI[char]) : '?'));
+
+/**
+ * @function measure
+ * @description Measures encoded text in a font, in points.
+ * @param {string} text - The text (encoded with `toWinAnsi`).
+ * @param {number} size - The font size.
+ * @param {boolean} [bold=false] - Whether the text is bold.
+ * @returns {number} The width.
+ */
+const measure = (text: string, size: number, bold = false): number => {
+  const widths = bold ? HELVETICA_WIDTHS.bold : HELVETICA_WIDTHS.regular;
+  let width = 0;
+  for (let i = 0; i < text.length; i++) width += widths[text.charCodeAt(i) - 32] ?? 556;
+  return (width * size) / 1000;
+};
+
+/**
+ * @function truncate
+ * @description Shortens encoded text to a width, ending it with an ellipsis.
+ * @param {string} text - The text (encoded with `toWinAnsi`).
+ * @param {number} maxWidth - The available width, in points.
+ * @param {number} size - The font size.
+ * @param {boolean} [bold=false] - Whether the text is bold.
+ * @returns {string} The text, shortened if needed.
+ */
+const truncate = (text: string, maxWidth: number, size: number, bold = false): string => {
+  if (measure(text, size, bold) <= maxWidth) return text;
+  const ellipsis = String.fromCharCode(WIN_ANSI['…']);
+  let end = text.length;
+  while (end > 0 && measure(text.slice(0, end) + ellipsis, size, bold) > maxWidth) end--;
+  return end > 0 ? text.slice(0, end) + ellipsis : '';
+};
+
+/**
+ * @function wrap
+ * @description Breaks encoded text into lines that fit a width, between words.
+ * @param {string} text - The text (encoded with `toWinAnsi`).
+ * @param {number} maxWidth - The available width, in points.
+ * @param {number} size - The font size.
+ * @returns {string[]} The lines.
+ */
+const wrap = (text: string, maxWidth: number, size: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(' ')) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && measure(candidate, size) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.map(entry => truncate(entry, maxWidth, size));
+};
+
+/**
+ * @function pdfString
+ * @description Writes encoded text as a PDF string literal.
+ * @param {string} text - The text (encoded with `toWinAnsi`).
+ * @returns {string} The string literal.
+ */
+const pdfString = (text: string): string => `(${text.replace(/[\\()]/g, '\\$&')})`;
+
+/**
+ * @function formatCell
+ * @description Formats a cell as text for a PDF.
+ * @param {Cell | null} cell - The cell.
+ * @param {string} [locale] - The locale numbers and dates are formatted for.
+ * @returns {string} The text.
+ */
+const formatCell = (cell: Cell | null, locale?: string): string => {
+  if (!cell) return '';
+  switch (cell.type) {
+    case 'number': return cell.value.toLocaleString(locale, { maximumFractionDigits: 2 });
+    case 'date': return cell.value.toLocaleString(locale, cell.time ? { dateStyle: 'medium', timeStyle: 'short' } : { dateStyle: 'medium' });
+    case 'boolean': return cell.value ? 'Yes' : 'No';
+    case 'string': return cell.value;
+  }
+};
+
+/**
+ * @function createPdf
+ * @description Creates a PDF document of a table, on as many A4 landscape pages as needed: the title, the time of
+ * the export and the filters applied head the first page, the column headers are repeated on every page, and each
+ * page is numbered. Columns share the page width in proportion to their widths; text that does not fit a cell is
+ * shortened, and numbers are aligned right.
+ * @param {ExportTable} table - The table.
+ * @returns {Blob} The document.
+ * @example
+ * downloadFile(createPdf({ title: 'Orders', columns, rows, filters: ['Status: Pending'] }), 'orders.pdf');
+ */
+export function createPdf(table: ExportTable): Blob {
+  const { columns, rows, filters = [], locale, exportedAt = new Date() } = table;
+  const { width, height, margin, fontSize, rowHeight, padding } = PAGE;
+  const contentWidth = width - margin * 2;
+  const bottom = margin + 16; // Above the footer
+
+  // Column positions, scaled to the page width
+  const totalWidth = columns.reduce((sum, column) => sum + (column.width ?? DEFAULT_WIDTH), 0);
+  const widths = columns.map(column => ((column.width ?? DEFAULT_WIDTH) / (totalWidth || 1)) * contentWidth);
+  const lefts = widths.map((_, index) => margin + widths.slice(0, index).reduce((sum, w) => sum + w, 0));
+
+  const cells = rows.map(row => columns.map((column, index) => toCell(row[index], column.type)));
+  const title = toWinAnsi(table.title);
+  const timestamp = toWinAnsi(`Exported ${exportedAt.toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' })} · ${rows.length} ${rows.length === 1 ? 'row' : 'rows'}`);
+  const filterLines = wrap(toWinAnsi(`Filters: ${filters.length > 0 ? filters.join('; ') : 'none'}`), contentWidth, fontSize);
+
+  const text = (value: string, x: number, y: number, size: number, bold = false) =>
+    `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td ${pdfString(value)} Tj ET`;
+
+  // Lay the rows out on pages
+  const pages: string[][] = [];
+  let rowIndex = 0;
+  do {
+    const ops: string[] = [];
+    let y = height - margin;
+
+    if (pages.length === 0) {
+      y -= 16;
+      ops.push('0 g', text(title, margin, y, 16, true));
+      y -= 16;
+      ops.push('0.4 g', text(timestamp, margin, y, fontSize));
+      for (const line of filterLines) {
+        y -= fontSize + 4;
+        ops.push(text(line, margin, y, fontSize));
+      }
+      y -= 12;
+    }
+
+    // Header row
+    ops.push('0.93 g', `${margin} ${(y - rowHeight).toFixed(2)} ${contentWidth} ${rowHeight} re f`, '0 g');
+    columns.forEach((column, index) => {
+      const label = truncate(toWinAnsi(column.header), widths[index] - padding * 2, fontSize, true);
+      ops.push(text(label, lefts[index] + padding, y - rowHeight + 4, fontSize, true));
+    });
+    y -= rowHeight;
+
+    if (rows.length === 0) {
+      ops.push('0.4 g', text('No rows', margin + padding, y - rowHeight + 4, fontSize));
+      y -= rowHeight;
+    }
+
+    for (; rowIndex < rows.length && y - rowHeight >= bottom; rowIndex++) {
+      if (rowIndex % 2 === 1) {
+        ops.push('0.97 g', `${margin} ${(y - rowHeight).toFixed(2)} ${contentWidth} ${rowHeight} re f`);
+      }
+      ops.push('0 g');
+      cells[rowIndex].forEach((cell, index) => {
+        const value = truncate(toWinAnsi(formatCell(cell, locale)), widths[index] - padding * 2, fontSize);
+        const x = cell?.type === 'number'
+          ? lefts[index] + widths[index] - padding - measure(value, fontSize)
+          : lefts[index] + padding;
+        ops.push(text(value, x, y - rowHeight + 4, fontSize));
+      });
+      y -= rowHeight;
+    }
+
+    ops.push('0.8 G 0.5 w', `${margin} ${y.toFixed(2)} m ${width - margin} ${y.toFixed(2)} l S`);
+    pages.push(ops);
+  } while (rowIndex < rows.length);
+
+  // Footers, once the number of pages is known
+  pages.forEach((ops, index) => {
+    const label = `Page ${index + 1} of ${pages.length}`;
+    ops.push('0.4 g', text(truncate(title, contentWidth / 2, fontSize), margin, margin, fontSize));
+    ops.push(text(label, width - margin - measure(label, fontSize), margin, fontSize));
+  });
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 document info, then a page and its contents for each page
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${6 + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title ${pdfString(title)} >>`,
+  ];
+  pages.forEach((ops, index) => {
+    const stream = ops.join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${7 + index * 2} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  // Every character is one byte, so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(pdf.length);
+  for (let i = 0; i < pdf.length; i++) bytes[i] = pdf.charCodeAt(i);
+  return new Blob([bytes], { type: 'application/pdf' });
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createFilterMatcher,
+  isConditionActive,
+  isFilterGroup,
+  matchesFilter,
+  MAX_REGEX_LENGTH,
+  parseRegex,
+  type FilterCondition,
+} from './table-filters';
+
+const row = { status: 'pending', total: 42, name: 'Wireless Mouse', active: false, createdAt: '2024-01-15T10:30:00' };
+const and = (...conditions: FilterCondition[]) => matchesFilter(row, { combinator: 'and', conditions });
+
+describe('matchesFilter', () => {
+  it('matches each condition type', () => {
+    expect(and({ key: 'status', type: 'enum', values: ['pending', 'shipped'] })).toBe(true);
+    expect(and({ key: 'total', type: 'number', min: 10, max: 42 })).toBe(true);
+    expect(and({ key: 'total', type: 'number', min: 43 })).toBe(false);
+    expect(and({ key: 'createdAt', type: 'date', from: '2024-01-15', to: '2024-01-15' })).toBe(true);
+    expect(and({ key: 'name', type: 'text', operator: 'contains', value: 'MOUSE' })).toBe(true);
+    expect(and({ key: 'name', type: 'text', operator: 'regex', value: '^wire' })).toBe(true);
+    expect(and({ key: 'active', type: 'boolean', value: true })).toBe(false);
+  });
+
+  it('compares date-only values as days, whatever the time zone', () => {
+    const timeZone = process.env.TZ;
+    process.env.TZ = 'America/New_York'; // West of UTC, where "2024-01-15" parsed as UTC midnight is January 14
+    try {
+      expect(matchesFilter({ dueDate: '2024-01-15' }, {
+        combinator: 'and',
+        conditions: [{ key: 'dueDate', type: 'date', from: '2024-01-15', to: '2024-01-15' }],
+      })).toBe(true);
+    } finally {
+      if (timeZone === undefined) delete process.env.TZ;
+      else process.env.TZ = timeZone;
+    }
+  });
+
+  it('combines conditions with AND or OR', () => {
+    const conditions: FilterCondition[] = [
+      { key: 'status', type: 'enum', values: ['shipped'] },
+      { key: 'total', type: 'number', max: 50 },
+    ];
+    expect(matchesFilter(row, { combinator: 'and', conditions })).toBe(false);
+    expect(matchesFilter(row, { combinator: 'or', conditions })).toBe(true);
+  });
+
+  it('ignores inactive conditions', () => {
+    const invalidRegex: FilterCondition = { key: 'name', type: 'text', operator: 'regex', value: '(' };
+    expect(isConditionActive(invalidRegex)).toBe(false);
+    expect(isConditionActive({ key: 'status', type: 'enum', values: [] })).toBe(false);
+    expect(matchesFilter(row, { combinator: 'or', conditions: [invalidRegex] })).toBe(true);
+  });
+});
+
+describe('createFilterMatcher', () => {
+  it('checks many rows against a filter compiled once', () => {
+    const rows = [{ name: 'Wireless Mouse' }, { name: 'USB Cable' }, { name: 'Wired Keyboard' }];
+    const condition: FilterCondition = { key: 'name', type: 'text', operator: 'regex', value: '^wire' };
+    const matches = createFilterMatcher({ combinator: 'and', conditions: [condition] });
+    condition.value = 'cable'; // The pattern was compiled when the matcher was created
+    expect(rows.filter(matches)).toEqual([rows[0], rows[2]]);
+  });
+
+  it('matches every row without active conditions', () => {
+    const matches = createFilterMatcher({ combinator: 'and', conditions: [{ key: 'status', type: 'enum', values: [] }] });
+    expect(matches({ status: 'pending' })).toBe(true);
+  });
+});
+
+describe('isFilterGroup', () => {
+  it('accepts well-formed filters', () => {
+    expect(isFilterGroup({ combinator: 'or', conditions: [] })).toBe(true);
+    expect(isFilterGroup({
+      combinator: 'and',
+      conditions: [
+        { key: 'status', type: 'enum', values: ['pending'] },
+        { key: 'total', type: 'number', min: 10 },
+        { key: 'createdAt', type: 'date', to: '2024-01-31' },
+        { key: 'name', type: 'text', operator: 'regex', value: '^wire' },
+        { key: 'active', type: 'boolean', value: false },
+      ],
+    })).toBe(true);
+  });
+
+  it('rejects malformed filters', () => {
+    expect(isFilterGroup(null)).toBe(false);
+    expect(isFilterGroup({ combinator: 'xor', conditions: [] })).toBe(false);
+    expect(isFilterGroup({ combinator: 'and' })).toBe(false);
+    expect(isFilterGroup({ combinator: 'and', conditions: [{ key: 'status', type: 'enum', values: 'pending' }] })).toBe(false);
+    expect(isFilterGroup({ combinator: 'and', conditions: [{ key: 'total', type: 'number', min: '10' }] })).toBe(false);
+    expect(isFilterGroup({ combinator: 'and', conditions: [{ key: 'name', type: 'text', operator: 'like', value: 'a' }] })).toBe(false);
+    expect(isFilterGroup({ combinator: 'and', conditions: [{ type: 'boolean', value: true }] })).toBe(false);
+    expect(isFilterGroup({ combinator: 'and', conditions: [{ key: 'name', type: 'unknown' }] })).toBe(false);
+  });
+});
+
+describe('parseRegex', () => {
+  it('compiles safe patterns, case-insensitively', () => {
+    expect(parseRegex('^wire')?.test('Wireless')).toBe(true);
+    expect(parseRegex('^ORD-\\d{4}$')?.test('ord-1234')).toBe(true);
+    expect(parseRegex('(ab)+c')).not.toBeNull();
+    expect(parseRegex('[a-z(+)]+@(gmail|yahoo)\\.com')).not.toBeNull();
+    expect(parseRegex('(?:x+)?y')).not.toBeNull();
+  });
+
+  it('rejects invalid patterns and patterns prone to catastrophic backtracking', () => {
+    expect(parseRegex('(')).toBeNull();
+    expect(parseRegex('(a+)+$')).toBeNull();
+    expect(parseRegex('(a|aa)*b')).toBeNull();
+    expect(parseRegex('((a)*)*')).toBeNull();
+    expect(parseRegex('(?<word>\\w+\\s?){2,}')).toBeNull();
+    expect(parseRegex('(a)\\1')).toBeNull();
+    expect(parseRegex('a'.repeat(MAX_REGEX_LENGTH + 1))).toBeNull();
+  });
+
+  it('leaves conditions with unsafe patterns inactive', () => {
+    const condition: FilterCondition = { key: 'name', type: 'text', operator: 'regex', value: '(a+)+$' };
+    expect(isConditionActive(condition)).toBe(false);
+    expect(matchesFilter({ name: 'a'.repeat(40) + '!' }, { combinator: 'and', conditions: [condition] })).toBe(true);
+  });
+});
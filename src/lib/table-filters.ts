@@ -0,0 +1,299 @@
+/**
+ * @file table-filters.ts
+ * @description The filter model of `DataTable`. A column declares how it can be filtered (`ColumnFilterConfig`),
+ * and the table's filter is a `FilterGroup`: a list of conditions on columns, combined with AND or OR.
+ * Matching (`createFilterMatcher`) is shared by the table (client mode) and the mock backend (server mode, through the
+ * `filter` parameter).
+ */
+
+/**
+ * @interface FilterOption
+ * @description A value an enum column can be filtered on.
+ * @property {string} value - The value, as stored in the row (compared as a string).
+ * @property {string} label - The text shown to the user.
+ */
+export interface FilterOption {
+  value: string;
+  label: string;
+}
+
+/**
+ * @typedef ColumnFilterConfig
+ * @description How a column can be filtered:
+ * - `enum`: the value is one of `options`
+ * - `number`: the value is within a range
+ * - `date`: the value (a `Date` or ISO string) is within a range of days
+ * - `text`: the value contains a text, or matches a regular expression
+ * - `boolean`: the value is true or false
+ */
+export type ColumnFilterConfig =
+  | { type: 'enum'; options: FilterOption[] }
+  | { type: 'number' | 'date' | 'text' | 'boolean' };
+
+/**
+ * @typedef FilterCondition
+ * @description A condition on one column. Conditions without a value yet (e.g., an enum condition with no value
+ * checked) are inactive and match every row. Date bounds are days (`YYYY-MM-DD`), both inclusive.
+ */
+export type FilterCondition =
+  | { key: string; type: 'enum'; values: string[] }
+  | { key: string; type: 'number'; min?: number; max?: number }
+  | { key: string; type: 'date'; from?: string; to?: string }
+  | { key: string; type: 'text'; operator: 'contains' | 'regex'; value: string }
+  | { key: string; type: 'boolean'; value: boolean };
+
+/**
+ * @interface FilterGroup
+ * @description The filter of a table.
+ * @property {'and' | 'or'} combinator - Whether rows must match all conditions (`and`) or any of them (`or`).
+ * @property {FilterCondition[]} conditions - The conditions.
+ */
+export interface FilterGroup {
+  combinator: 'and' | 'or';
+  conditions: FilterCondition[];
+}
+
+/**
+ * @const EMPTY_FILTER
+ * @description A filter without conditions, which matches every row.
+ */
+export const EMPTY_FILTER: FilterGroup = { combinator: 'and', conditions: [] };
+
+/**
+ * @function createCondition
+ * @description Creates an (inactive) condition for a column, to be edited by the user.
+ * @param {string} key - The column key.
+ * @param {ColumnFilterConfig} config - How the column can be filtered.
+ * @returns {FilterCondition} The condition.
+ */
+export function createCondition(key: string, config: ColumnFilterConfig): FilterCondition {
+  switch (config.type) {
+    case 'enum': return { key, type: 'enum', values: [] };
+    case 'number': return { key, type: 'number' };
+    case 'date': return { key, type: 'date' };
+    case 'text': return { key, type: 'text', operator: 'contains', value: '' };
+    case 'boolean': return { key, type: 'boolean', value: true };
+  }
+}
+
+/**
+ * @function isFilterCondition
+ * @description Checks that a value has the shape of a condition (its type and the values that type expects).
+ * @param {any} value - The value.
+ * @returns {boolean} True if the value is a condition.
+ */
+const isFilterCondition = (value: any): value is FilterCondition => {
+  const isBound = (bound: unknown, type: 'number' | 'string') => bound === undefined || typeof bound === type;
+  if (typeof value?.key !== 'string') return false;
+  switch (value.type) {
+    case 'enum': return Array.isArray(value.values) && value.values.every((item: unknown) => typeof item === 'string');
+    case 'number': return isBound(value.min, 'number') && isBound(value.max, 'number');
+    case 'date': return isBound(value.from, 'string') && isBound(value.to, 'string');
+    case 'text': return (value.operator === 'contains' || value.operator === 'regex') && typeof value.value === 'string';
+    case 'boolean': return typeof value.value === 'boolean';
+    default: return false;
+  }
+};
+
+/**
+ * @function isFilterGroup
+ * @description Checks that a value read from outside the app (e.g., a shared link) is a well-formed filter.
+ * It does not check that the conditions' columns exist.
+ * @param {unknown} value - The value.
+ * @returns {boolean} True if the value is a filter.
+ */
+export function isFilterGroup(value: unknown): value is FilterGroup {
+  const filter = value as FilterGroup | null;
+  return (filter?.combinator === 'and' || filter?.combinator === 'or')
+    && Array.isArray(filter.conditions) && filter.conditions.every(isFilterCondition);
+}
+
+/**
+ * @const MAX_REGEX_LENGTH
+ * @description Longest pattern accepted in a `regex` text condition.
+ */
+export const MAX_REGEX_LENGTH = 100;
+
+/**
+ * @function isSafePattern
+ * @description Checks that a pattern cannot take exponential time on some inputs (catastrophic backtracking), as
+ * patterns come from users and links and run against every row, in the browser and on the server. Rejects patterns
+ * longer than `MAX_REGEX_LENGTH`, backreferences, and repeated groups that contain a quantifier or an alternation
+ * (e.g., `(a+)+`, `(a|ab)*`). Some harmless patterns are rejected too.
+ * @param {string} pattern - The pattern.
+ * @returns {boolean} True if the pattern is safe to run.
+ */
+const isSafePattern = (pattern: string): boolean => {
+  if (pattern.length > MAX_REGEX_LENGTH) return false;
+  const groups: boolean[] = []; // For each open group: whether it contains a quantifier or an alternation
+  const markGroup = () => {
+    if (groups.length > 0) groups[groups.length - 1] = true;
+  };
+  let repeatable = false; // Whether the previous atom is a group that must not be repeated
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] ?? '')) return false; // Backreference
+      i++;
+      repeatable = false;
+    } else if (char === '[') {
+      // Skip the character class, where quantifiers and groups have no meaning
+      i += pattern[i + 1] === '^' ? 2 : 1;
+      if (pattern[i] === ']') i++;
+      while (i < pattern.length && pattern[i] !== ']') i += pattern[i] === '\\' ? 2 : 1;
+      repeatable = false;
+    } else if (char === '(') {
+      groups.push(false);
+      // Skip the group kind: (?:, (?=, (?!, (?<=, (?<!, (?<name>
+      if (pattern[i + 1] === '?') {
+        i += 2;
+        if (pattern[i] === '<' && pattern[i + 1] !== '=' && pattern[i + 1] !== '!') {
+          while (i < pattern.length && pattern[i] !== '>') i++;
+        } else if (pattern[i] === '<') {
+          i++;
+        }
+      }
+      repeatable = false;
+    } else if (char === ')') {
+      repeatable = groups.pop() ?? false;
+      if (repeatable) markGroup();
+    } else if (char === '|') {
+      markGroup();
+      repeatable = false;
+    } else if (char === '*' || char === '+' || char === '?' || char === '{') {
+      if (repeatable && char !== '?') return false;
+      markGroup();
+      if (char === '{') {
+        while (i < pattern.length && pattern[i] !== '}') i++;
+      }
+      repeatable = false;
+    } else {
+      repeatable = false;
+    }
+  }
+  return true;
+};
+
+/**
+ * @function parseRegex
+ * @description Compiles the pattern of a `regex` text condition (case-insensitive), if it is safe to run
+ * (see `isSafePattern`).
+ * @param {string} pattern - The pattern.
+ * @returns {RegExp | null} The regular expression, or null if the pattern is invalid or unsafe.
+ */
+export function parseRegex(pattern: string): RegExp | null {
+  if (!isSafePattern(pattern)) return null;
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * @function isConditionActive
+ * @description Checks whether a condition restricts the rows. Inactive conditions (no value yet, or an invalid or
+ * unsafe regular expression) are ignored.
+ * @param {FilterCondition} condition - The condition.
+ * @returns {boolean} True if the condition is active.
+ */
+export function isConditionActive(condition: FilterCondition): boolean {
+  switch (condition.type) {
+    case 'enum': return condition.values.length > 0;
+    case 'number': return condition.min !== undefined || condition.max !== undefined;
+    case 'date': return !!condition.from || !!condition.to;
+    case 'text': return condition.value !== '' && (condition.operator === 'contains' || parseRegex(condition.value) !== null);
+    case 'boolean': return true;
+  }
+}
+
+/**
+ * @function getField
+ * @description Reads a possibly nested field (e.g., `customer.name`) from a row.
+ * @param {Record<string, any>} row - The row.
+ * @param {string} path - Dot-separated field path.
+ * @returns {any} The field value.
+ */
+const getField = (row: Record<string, any>, path: string): any =>
+  path.split('.').reduce((obj: any, key) => obj?.[key], row);
+
+/**
+ * @function toDay
+ * @description Gets the local day (`YYYY-MM-DD`) of a date value, for comparison with date bounds. Date-only strings
+ * are already days: parsing them would read them as UTC midnight, the previous day west of UTC.
+ * @param {any} value - A `Date`, an ISO string or a timestamp.
+ * @returns {string | null} The day, or null if the value is not a valid date.
+ */
+const toDay = (value: any): string | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) return null;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * @function matchesCondition
+ * @description Checks a row against one (active) condition.
+ * @param {Record<string, any>} row - The row.
+ * @param {FilterCondition} condition - The condition.
+ * @param {RegExp | null} regex - The compiled pattern of a `regex` text condition (null for other conditions).
+ * @returns {boolean} True if the row matches.
+ */
+const matchesCondition = (row: Record<string, any>, condition: FilterCondition, regex: RegExp | null): boolean => {
+  const value = getField(row, condition.key);
+  switch (condition.type) {
+    case 'enum':
+      return condition.values.includes(String(value));
+    case 'number': {
+      const number = typeof value === 'number' ? value : parseFloat(value);
+      if (isNaN(number)) return false;
+      return (condition.min === undefined || number >= condition.min) && (condition.max === undefined || number <= condition.max);
+    }
+    case 'date': {
+      const day = toDay(value);
+      if (!day) return false;
+      return (!condition.from || day >= condition.from) && (!condition.to || day <= condition.to);
+    }
+    case 'text': {
+      const text = value === null || value === undefined ? '' : String(value);
+      return condition.operator === 'regex'
+        ? regex!.test(text)
+        : text.toLowerCase().includes(condition.value.toLowerCase());
+    }
+    case 'boolean':
+      return Boolean(value) === condition.value;
+  }
+};
+
+/**
+ * @function createFilterMatcher
+ * @description Prepares a filter for checking many rows: the active conditions are picked and their regular
+ * expressions compiled once, rather than for every row. A filter without active conditions matches every row.
+ * @param {FilterGroup} filter - The filter.
+ * @returns {(row: Record<string, any>) => boolean} Checks a row against the filter.
+ * @example
+ * rows.filter(createFilterMatcher({ combinator: 'or', conditions: [{ key: 'status', type: 'enum', values: ['pending'] }] }))
+ */
+export function createFilterMatcher(filter: FilterGroup): (row: Record<string, any>) => boolean {
+  const active = filter.conditions.filter(isConditionActive).map(condition => ({
+    condition,
+    regex: condition.type === 'text' && condition.operator === 'regex' ? parseRegex(condition.value) : null,
+  }));
+  if (active.length === 0) return () => true;
+  return filter.combinator === 'or'
+    ? row => active.some(({ condition, regex }) => matchesCondition(row, condition, regex))
+    : row => active.every(({ condition, regex }) => matchesCondition(row, condition, regex));
+}
+
+/**
+ * @function matchesFilter
+ * @description Checks a row against a filter. To check many rows, use `createFilterMatcher`.
+ * @param {Record<string, any>} row - The row.
+ * @param {FilterGroup} filter - The filter.
+ * @returns {boolean} True if the row matches.
+ */
+export function matchesFilter(row: Record<string, any>, filter: FilterGroup): boolean {
+  return createFilterMatcher(filter)(row);
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { sortRows } from './table-sort';
+
+const ids = (rows: Array<{ id: number }>) => rows.map(row => row.id);
+
+describe('sortRows', () => {
+  it('compares values by type', () => {
+    const rows = [
+      { id: 1, amount: '$1,200.00', name: 'Item 10', date: '2024-03-01' },
+      { id: 2, amount: '$950.00', name: 'Item 2', date: new Date('2024-01-15T00:00:00Z') },
+      { id: 3, amount: '$80.50', name: 'item 1', date: '2024-02-10T12:00:00Z' },
+    ];
+    expect(ids(sortRows(rows, [{ value: row => row.amount, direction: 'asc', type: 'number' }]))).toEqual([3, 2, 1]);
+    expect(ids(sortRows(rows, [{ value: row => row.name, direction: 'asc' }]))).toEqual([3, 2, 1]);
+    expect(ids(sortRows(rows, [{ value: row => row.date, direction: 'desc' }]))).toEqual([1, 3, 2]);
+  });
+
+  it('breaks ties with the following criteria and keeps the order of equal rows', () => {
+    const rows = [
+      { id: 1, status: 'b', total: 5 },
+      { id: 2, status: 'a', total: 5 },
+      { id: 3, status: 'b', total: 9 },
+      { id: 4, status: 'a', total: 5 },
+    ];
+    const sorted = sortRows(rows, [
+      { value: row => row.status, direction: 'asc' },
+      { value: row => row.total, direction: 'desc' },
+    ]);
+    expect(ids(sorted)).toEqual([2, 4, 3, 1]);
+  });
+
+  it('places empty values last (or first) in either direction', () => {
+    const rows = [{ id: 1, value: null }, { id: 2, value: 3 }, { id: 3, value: '' }, { id: 4, value: 1 }];
+    expect(ids(sortRows(rows, [{ value: row => row.value, direction: 'desc' }]))).toEqual([2, 4, 1, 3]);
+    expect(ids(sortRows(rows, [{ value: row => row.value, direction: 'asc', nulls: 'first' }]))).toEqual([1, 3, 4, 2]);
+  });
+
+  it('uses custom comparators', () => {
+    const order = ['low', 'medium', 'high'];
+    const rows = [{ id: 1, priority: 'high' }, { id: 2, priority: 'low' }, { id: 3, priority: 'medium' }];
+    const sorted = sortRows(rows, [{
+      value: row => row.priority,
+      direction: 'asc',
+      compare: (a, b) => order.indexOf(a) - order.indexOf(b),
+    }]);
+    expect(ids(sorted)).toEqual([2, 3, 1]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import {
+  TOTP_PERIOD,
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  verifySecondFactor,
+  verifyTotp,
+} from './totp';
+
+// The SHA-1 seed of RFC 6238 appendix B ("12345678901234567890"), base32-encoded
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('generateTotp', () => {
+  it('matches the RFC 6238 test vectors (last 6 digits)', async () => {
+    const vectors: [number, string][] = [
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1111111111, '050471'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+      [20000000000, '353130'],
+    ];
+    for (const [seconds, code] of vectors) {
+      expect(await generateTotp(RFC_SECRET, seconds * 1000)).toBe(code);
+    }
+  });
+
+  it('accepts the secrets it generates', async () => {
+    const secret = generateTotpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(await generateTotp(secret)).toMatch(/^\d{6}$/);
+  });
+});
+
+describe('verifyTotp', () => {
+  const timestamp = 1111111111 * 1000;
+
+  it('accepts codes of the adjacent periods only', async () => {
+    const previous = await generateTotp(RFC_SECRET, timestamp - TOTP_PERIOD * 1000);
+    const older = await generateTotp(RFC_SECRET, timestamp - 2 * TOTP_PERIOD * 1000);
+    expect(await verifyTotp(RFC_SECRET, '050471', { timestamp })).toBe(true);
+    expect(await verifyTotp(RFC_SECRET, previous, { timestamp })).toBe(true);
+    expect(await verifyTotp(RFC_SECRET, older, { timestamp })).toBe(false);
+    expect(await verifyTotp(RFC_SECRET, previous, { timestamp, window: 0 })).toBe(false);
+  });
+
+  it('ignores spaces and rejects malformed codes', async () => {
+    expect(await verifyTotp(RFC_SECRET, '050 471', { timestamp })).toBe(true);
+    expect(await verifyTotp(RFC_SECRET, '05047', { timestamp })).toBe(false);
+    expect(await verifyTotp(RFC_SECRET, '050471x', { timestamp })).toBe(false);
+  });
+});
+
+describe('buildOtpauthUri', () => {
+  it('encodes the label and issuer for authenticator apps', () => {
+    expect(buildOtpauthUri({ secret: RFC_SECRET, accountName: 'ada@example.com', issuer: 'Radix Dashboard' }))
+      .toBe(`otpauth://totp/Radix%20Dashboard%3Aada%40example.com?secret=${RFC_SECRET}&issuer=Radix%20Dashboard&algorithm=SHA1&digits=6&period=30`);
+  });
+});
+
+describe('recovery codes', () => {
+  it('generates distinct codes in the xxxxx-xxxxx format', () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    codes.forEach(code => expect(code).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/));
+  });
+
+  it('normalizes the case, spaces and dashes of entered codes', () => {
+    expect(normalizeRecoveryCode(' ABCDE FGHIJ ')).toBe('abcde-fghij');
+    expect(normalizeRecoveryCode('abcdefghij')).toBe('abcde-fghij');
+  });
+});
+
+describe('verifySecondFactor', () => {
+  it('accepts a current TOTP code and keeps the recovery codes', async () => {
+    const secret = generateTotpSecret();
+    const result = await verifySecondFactor(secret, ['abcde-fghij'], await generateTotp(secret));
+    expect(result).toEqual({ valid: true, recoveryCodes: ['abcde-fghij'] });
+  });
+
+  it('consumes a recovery code, so it works only once', async () => {
+    const secret = generateTotpSecret();
+    const first = await verifySecondFactor(secret, ['abcde-fghij', 'klmno-pqrst'], 'ABCDEFGHIJ');
+    expect(first).toEqual({ valid: true, recoveryCodes: ['klmno-pqrst'] });
+    const second = await verifySecondFactor(secret, first.recoveryCodes, 'abcde-fghij');
+    expect(second).toEqual({ valid: false, recoveryCodes: ['klmno-pqrst'] });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * @file totp.ts
+ * @description Time-based one-time passwords (TOTP, RFC 6238) as used by authenticator apps:
+ * 6-digit codes derived from a shared base32 secret with HMAC-SHA1 over 30-second steps.
+ * Also provides the `otpauth://` enrollment URI and single-use recovery codes.
+ * Verification belongs on the server; it runs in the browser only in demo mode and in the mock backend.
+ */
+
+/**
+ * @const TOTP_PERIOD
+ * @description Length of a time step, in seconds.
+ */
+export const TOTP_PERIOD = 30;
+
+/**
+ * @const TOTP_DIGITS
+ * @description Number of digits in a code.
+ */
+export const TOTP_DIGITS = 6;
+
+/**
+ * @const TOTP_ISSUER
+ * @description Issuer name shown next to the account in authenticator apps.
+ */
+export const TOTP_ISSUER = 'Radix Dashboard';
+
+/**
+ * @const BASE32_ALPHABET
+ * @description RFC 4648 base32 alphabet, used for TOTP secrets.
+ */
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * @function base32Encode
+ * @description Encodes bytes as unpadded base32.
+ * @param {Uint8Array} bytes - The bytes to encode.
+ * @returns {string} The encoded string.
+ */
+const base32Encode = (bytes: Uint8Array): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+};
+
+/**
+ * @function base32Decode
+ * @description Decodes a base32 string. Case, spaces and padding are ignored.
+ * @param {string} input - The encoded string.
+ * @returns {Uint8Array} The decoded bytes.
+ * @throws {Error} If the string contains characters outside the base32 alphabet.
+ */
+const base32Decode = (input: string): Uint8Array => {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 character in TOTP secret');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+/**
+ * @function generateTotpSecret
+ * @description Generates a random base32 secret for enrollment.
+ * @param {number} [byteLength=20] - Secret length in bytes (160 bits, as recommended by RFC 4226).
+ * @returns {string} The base32-encoded secret.
+ */
+export function generateTotpSecret(byteLength = 20): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/**
+ * @function generateTotp
+ * @description Computes the code for a secret at a point in time.
+ * @param {string} secret - The base32-encoded secret.
+ * @param {number} [timestamp=Date.now()] - The time, in milliseconds since the Unix epoch.
+ * @returns {Promise<string>} The zero-padded code.
+ */
+export async function generateTotp(secret: string, timestamp: number = Date.now()): Promise<string> {
+  const counter = Math.floor(timestamp / 1000 / TOTP_PERIOD);
+  const message = new ArrayBuffer(8);
+  const view = new DataView(message);
+  view.setUint32(0, Math.floor(counter / 2 ** 32));
+  view.setUint32(4, counter >>> 0);
+
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+
+  // Dynamic truncation (RFC 4226, section 5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * @function verifyTotp
+ * @description Checks a code against a secret, accepting neighbouring time steps to tolerate clock drift.
+ * @param {string} secret - The base32-encoded secret.
+ * @param {string} code - The code entered by the user. Spaces are ignored.
+ * @param {{ window?: number; timestamp?: number }} [options] - `window`: how many steps before and after the
+ *   current one are accepted (default 1); `timestamp`: the time to verify at (default now).
+ * @returns {Promise<boolean>} True if the code is valid.
+ */
+export async function verifyTotp(
+  secret: string,
+  code: string,
+  { window = 1, timestamp = Date.now() }: { window?: number; timestamp?: number } = {}
+): Promise<boolean> {
+  const normalized = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) return false;
+  for (let step = -window; step <= window; step++) {
+    if ((await generateTotp(secret, timestamp + step * TOTP_PERIOD * 1000)) === normalized) return true;
+  }
+  return false;
+}
+
+/**
+ * @function buildOtpauthUri
+ * @description Builds the `otpauth://totp/...` URI that authenticator apps import (usually as a QR code).
+ * @param {{ secret: string; accountName: string; issuer: string }} params - The secret, the account label (e.g., the email) and the issuer name.
+ * @returns {string} The enrollment URI.
+ */
+export function buildOtpauthUri({ secret, accountName, issuer }: { secret: string; accountName: string; issuer: string }): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  // Encoded by hand: authenticator apps expect `%20` for spaces, not the `+` produced by URLSearchParams
+  const query = [
+    `secret=${secret}`,
+    `issuer=${encodeURIComponent(issuer)}`,
+    'algorithm=SHA1',
+    `digits=${TOTP_DIGITS}`,
+    `period=${TOTP_PERIOD}`,
+  ].join('&');
+  return `otpauth://totp/${label}?${query}`;
+}
+
+/**
+ * @function generateRecoveryCodes
+ * @description Generates single-use recovery codes (`xxxxx-xxxxx`, lowercase base32) for signing in without the authenticator.
+ * @param {number} [count=10] - Number of codes.
+ * @returns {string[]} The codes.
+ */
+export function generateRecoveryCodes(count = 10): string[] {
+  return Array.from({ length: count }, () => {
+    const code = base32Encode(crypto.getRandomValues(new Uint8Array(7))).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+/**
+ * @function normalizeRecoveryCode
+ * @description Normalizes a recovery code as typed by the user (case, spaces, missing dash) for comparison.
+ * @param {string} code - The entered code.
+ * @returns {string} The normalized code.
+ */
+export function normalizeRecoveryCode(code: string): string {
+  const compact = code.toLowerCase().replace(/[\s-]/g, '');
+  return compact.length === 10 ? `${compact.slice(0, 5)}-${compact.slice(5)}` : compact;
+}
+
+/**
+ * @function verifySecondFactor
+ * @description Verifies the second sign-in step: either a TOTP code or one of the unused recovery codes.
+ * A recovery code that matches is consumed.
+ * @param {string} secret - The base32-encoded TOTP secret.
+ * @param {string[]} recoveryCodes - The unused recovery codes.
+ * @param {string} code - The code entered by the user.
+ * @returns {Promise<{ valid: boolean; recoveryCodes: string[] }>} Whether the code is valid, and the recovery codes left afterwards.
+ */
+export async function verifySecondFactor(
+  secret: string,
+  recoveryCodes: string[],
+  code: string
+): Promise<{ valid: boolean; recoveryCodes: string[] }> {
+  if (await verifyTotp(secret, code)) return { valid: true, recoveryCodes };
+  const recoveryCode = normalizeRecoveryCode(code);
+  if (recoveryCodes.includes(recoveryCode)) {
+    return { valid: true, recoveryCodes: recoveryCodes.filter(existing => existing !== recoveryCode) };
+  }
+  return { valid: false, recoveryCodes };
+}
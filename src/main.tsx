@@ -3,20 +3,50 @@
  * @description This is the main entry point for the React application.
  * It sets up the React DOM, wraps the App component with BrowserRouter for routing,
  * and enables React StrictMode. It also imports necessary global styles.
+ * When mocking is enabled, the in-process mock backend is installed before the first render,
+ * and encrypted storage is decrypted before any component reads it.
  */
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import { BrowserRouter } from 'react-router-dom'
 import App from './App.tsx'
+import { apiClient } from './lib/api-client'
+import { storage } from './lib/secure-storage'
 import '@radix-ui/themes/styles.css' // Radix UI global styles
 import './index.css' // Custom global styles
 
-// Mount the application to the DOM
-// The root element with ID 'root' is expected to be in the public/index.html file.
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <BrowserRouter>
-      <App />
-    </BrowserRouter>
-  </React.StrictMode>,
-)
\ No newline at end of file
+/**
+ * @function enableMocking
+ * @description Installs the mock backend if `VITE_MOCK_API` is `'true'`, or if it is unset and no `VITE_API_URL` is configured.
+ * The mock module is imported dynamically so it is not loaded when a real backend is used.
+ * @returns {Promise<void>} Resolves once the API client is ready.
+ */
+async function enableMocking(): Promise<void> {
+  const { VITE_MOCK_API, VITE_API_URL } = import.meta.env
+  const useMocks = VITE_MOCK_API === 'true' || (VITE_MOCK_API === undefined && !VITE_API_URL)
+  if (!useMocks) return
+
+  const { installMockServer } = await import('./mocks')
+  installMockServer(apiClient)
+}
+
+/**
+ * @function render
+ * @description Mounts the application to the DOM.
+ * The root element with ID 'root' is expected to be in the public/index.html file.
+ */
+function render(): void {
+  ReactDOM.createRoot(document.getElementById('root')!).render(
+    <React.StrictMode>
+      <BrowserRouter>
+        <App />
+      </BrowserRouter>
+    </React.StrictMode>,
+  )
+}
+
+// If the mock backend or the storage cannot be set up (e.g., the mock module fails to load), the app starts anyway
+// rather than leaving a blank page: its pages then report the requests that fail.
+Promise.all([enableMocking(), storage.utils.ready()])
+  .catch(error => console.error('Failed to prepare the mock backend or storage; starting without them.', error))
+  .then(render)
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { MockServer } from './mock-server';
+import { registerAuthRoutes } from './auth';
+
+const fixtures = {
+  users: [{ id: '1', email: 'ada@example.com', name: 'Ada', role: 'admin', status: 'active' }],
+  twoFactor: [{ id: '1', secret: 'JBSWY3DPEHPK3PXP', recoveryCodes: ['aaaa-bbbb'] }],
+};
+
+const createServer = () => registerAuthRoutes(new MockServer(fixtures, { persist: false }));
+
+describe('mock auth routes', () => {
+  it('keeps two-factor secrets out of the collection routes', async () => {
+    const server = createServer();
+    expect((await server.handle('GET', '/api/twoFactor')).status).toBe(404);
+    expect((await server.handle('GET', '/api/twoFactor/1')).status).toBe(404);
+    expect((await server.handle('PUT', '/api/twoFactor/1', { secret: 'attacker' })).status).toBe(404);
+    expect((await server.handle('DELETE', '/api/twoFactor/1')).status).toBe(404);
+  });
+
+  it('still uses the secrets to require a second factor', async () => {
+    const { body } = await createServer().handle('POST', '/api/auth/login', { email: 'ada@example.com', password: 'x' });
+    expect(body.data.twoFactorRequired).toBe(true);
+  });
+
+  it('signs in users without two-factor authentication', async () => {
+    const { status, body } = await createServer().handle('POST', '/api/auth/login', { email: 'new@example.com', password: 'x' });
+    expect(status).toBe(200);
+    expect(body.data.user.twoFactorEnabled).toBe(false);
+  });
+});
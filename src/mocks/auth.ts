@@ -0,0 +1,227 @@
+/**
+ * @file auth.ts
+ * @description Authentication routes for the mock backend. Issues unsigned JWTs so the client-side
+ * session lifecycle (expiry decoding, silent refresh, 401 retry) can be exercised without a server.
+ * Any password is accepted; signing in with an unknown email provisions a new user.
+ * Two-factor authentication (TOTP and recovery codes) is supported per user. Secrets live in a separate, private
+ * `twoFactor` collection keyed by user ID, so they are not returned with the user list nor dropped when the Users page
+ * saves a user, and the generic collection routes do not serve them.
+ */
+import type { AuthResult, TwoFactorChallenge, TwoFactorSetup, User } from '../types';
+import { base64UrlEncode, decodeJwt, isTokenExpired } from '../lib/jwt';
+import { buildOtpauthUri, generateRecoveryCodes, generateTotpSecret, TOTP_ISSUER, verifySecondFactor, verifyTotp } from '../lib/totp';
+import { MockServer, MockRequest, MockResponse, MockDatabase, mockError } from './mock-server';
+
+/**
+ * @interface MockAuthOptions
+ * @description Options for the mock authentication routes.
+ * @property {number} [accessTokenTtl=900] - Access token lifetime in seconds (15 minutes by default).
+ * @property {number} [refreshTokenTtl=604800] - Refresh token lifetime in seconds (7 days by default).
+ */
+export interface MockAuthOptions {
+  accessTokenTtl?: number;
+  refreshTokenTtl?: number;
+}
+
+/**
+ * @function createToken
+ * @description Creates an unsigned JWT-shaped token. The signature segment is a placeholder.
+ * @param {string} userId - The `sub` claim.
+ * @param {'access' | 'refresh' | 'mfa'} type - The token type, stored in the `typ` claim. `mfa` tokens identify a sign-in awaiting its second factor.
+ * @param {number} ttl - Lifetime in seconds.
+ * @returns {string} The encoded token.
+ */
+const createToken = (userId: string, type: 'access' | 'refresh' | 'mfa', ttl: number): string => {
+  const iat = Math.floor(Date.now() / 1000);
+  const header = base64UrlEncode(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  const payload = base64UrlEncode(JSON.stringify({ sub: userId, typ: type, iat, exp: iat + ttl, jti: crypto.randomUUID() }));
+  return `${header}.${payload}.mock-signature`;
+};
+
+/**
+ * @function toAuthUser
+ * @description Maps a stored user record to the public `User` returned by the auth endpoints.
+ * @param {Record<string, any>} record - The stored user.
+ * @param {boolean} [twoFactorEnabled=false] - Whether the user has completed two-factor enrollment.
+ * @returns {User} The authenticated user.
+ */
+const toAuthUser = (record: Record<string, any>, twoFactorEnabled = false): User => ({
+  id: record.id,
+  email: record.email,
+  name: record.name,
+  avatar: record.avatar,
+  role: record.role,
+  permissions: record.permissions,
+  twoFactorEnabled,
+});
+
+/**
+ * @function getTwoFactor
+ * @description Reads a user's two-factor record (`secret`, `pendingSecret`, `recoveryCodes`) from the `twoFactor` collection.
+ * @param {MockDatabase} db - The database.
+ * @param {string} userId - The user ID.
+ * @returns {Record<string, any> | undefined} The record, if the user has started or completed enrollment.
+ */
+const getTwoFactor = (db: MockDatabase, userId: string): Record<string, any> | undefined =>
+  (db.twoFactor || []).find(record => record.id === userId);
+
+/**
+ * @function setTwoFactor
+ * @description Replaces (or, with null, removes) a user's two-factor record.
+ * @param {MockDatabase} db - The database.
+ * @param {string} userId - The user ID.
+ * @param {Record<string, any> | null} record - The new record.
+ */
+const setTwoFactor = (db: MockDatabase, userId: string, record: Record<string, any> | null): void => {
+  db.twoFactor = (db.twoFactor || []).filter(existing => existing.id !== userId);
+  if (record) db.twoFactor.push({ ...record, id: userId });
+};
+
+/**
+ * @function createUserRecord
+ * @description Builds a user record for the `users` collection with the defaults used by the Users page.
+ * @param {string} email - The user's email.
+ * @param {string} name - The user's display name.
+ * @returns {{ id: string } & Record<string, any>} The new record.
+ */
+const createUserRecord = (email: string, name: string): { id: string } & Record<string, any> => {
+  const now = new Date().toISOString();
+  return {
+    id: Date.now().toString(),
+    name,
+    email,
+    role: 'user',
+    department: 'Unassigned',
+    status: 'active',
+    lastLogin: now,
+    createdAt: now,
+    permissions: ['profile:write'],
+  };
+};
+
+/**
+ * @function registerAuthRoutes
+ * @description Adds `POST /api/auth/login`, `/register`, `/refresh` and `/logout` to a mock server, plus the two-factor
+ * routes `POST /api/auth/2fa/verify`, `/2fa/setup`, `/2fa/enable` and `/2fa/disable`.
+ * Users are read from and added to the server's `users` collection; two-factor secrets are kept in `twoFactor`, which
+ * is made private.
+ * @param {MockServer} server - The server to extend.
+ * @param {MockAuthOptions} [options={}] - Token lifetimes.
+ * @returns {MockServer} The server, for chaining.
+ */
+export function registerAuthRoutes(server: MockServer, options: MockAuthOptions = {}): MockServer {
+  const accessTokenTtl = options.accessTokenTtl ?? 15 * 60;
+  const refreshTokenTtl = options.refreshTokenTtl ?? 7 * 24 * 60 * 60;
+
+  const issue = (record: Record<string, any>, db: MockDatabase): MockResponse => {
+    const accessToken = createToken(record.id, 'access', accessTokenTtl);
+    const data: AuthResult = {
+      user: toAuthUser(record, !!getTwoFactor(db, record.id)?.secret),
+      accessToken,
+      refreshToken: createToken(record.id, 'refresh', refreshTokenTtl),
+      expiresAt: new Date(Date.now() + accessTokenTtl * 1000).toISOString(),
+    };
+    return { status: 200, body: { success: true, data } };
+  };
+
+  const findUser = ({ db }: MockRequest, email: string) =>
+    (db.users || []).find(user => String(user.email).toLowerCase() === email.toLowerCase());
+
+  // Resolves the user of a token of the given type, or null if the token is missing, expired or of another type
+  const findTokenUser = ({ db }: MockRequest, token: unknown, type: 'access' | 'mfa') => {
+    const payload = typeof token === 'string' ? decodeJwt(token) : null;
+    if (!payload || payload.typ !== type || isTokenExpired(token as string)) return null;
+    return (db.users || []).find(user => user.id === payload.sub) || null;
+  };
+
+  const findBearerUser = (request: MockRequest) =>
+    findTokenUser(request, request.headers.get('Authorization')?.replace(/^Bearer\s+/i, ''), 'access');
+
+  return server
+    .hideCollection('twoFactor')
+    .route('POST', '/api/auth/login', request => {
+      const { email, password } = request.body || {};
+      if (!email || !password) return mockError(400, 'VALIDATION_ERROR', 'Email and password are required');
+
+      let record = findUser(request, email);
+      if (!record) {
+        record = createUserRecord(email, email.split('@')[0]);
+        (request.db.users ||= []).push(record);
+      }
+      if (record.status === 'suspended') return mockError(403, 'ACCOUNT_SUSPENDED', 'This account has been suspended');
+      if (getTwoFactor(request.db, record.id)?.secret) {
+        const data: TwoFactorChallenge = { twoFactorRequired: true, challengeToken: createToken(record.id, 'mfa', 5 * 60) };
+        return { status: 200, body: { success: true, data } };
+      }
+      record.lastLogin = new Date().toISOString();
+      return issue(record, request.db);
+    })
+    .route('POST', '/api/auth/2fa/verify', async request => {
+      const { challengeToken, code } = request.body || {};
+      const record = findTokenUser(request, challengeToken, 'mfa');
+      const twoFactor = record && getTwoFactor(request.db, record.id);
+      if (!record || !twoFactor?.secret) {
+        return mockError(401, 'INVALID_CHALLENGE', 'This sign-in attempt has expired. Please sign in again.');
+      }
+
+      const result = await verifySecondFactor(twoFactor.secret, twoFactor.recoveryCodes || [], String(code || ''));
+      if (!result.valid) return mockError(401, 'INVALID_CODE', 'Invalid verification code');
+      setTwoFactor(request.db, record.id, { ...twoFactor, recoveryCodes: result.recoveryCodes });
+      record.lastLogin = new Date().toISOString();
+      return issue(record, request.db);
+    })
+    .route('POST', '/api/auth/2fa/setup', request => {
+      const record = findBearerUser(request);
+      if (!record) return mockError(401, 'UNAUTHORIZED', 'Authentication required');
+
+      const secret = generateTotpSecret();
+      setTwoFactor(request.db, record.id, { recoveryCodes: [], ...getTwoFactor(request.db, record.id), pendingSecret: secret });
+      const data: TwoFactorSetup = { secret, otpauthUri: buildOtpauthUri({ secret, accountName: record.email, issuer: TOTP_ISSUER }) };
+      return { status: 200, body: { success: true, data } };
+    })
+    .route('POST', '/api/auth/2fa/enable', async request => {
+      const record = findBearerUser(request);
+      if (!record) return mockError(401, 'UNAUTHORIZED', 'Authentication required');
+      const pendingSecret = getTwoFactor(request.db, record.id)?.pendingSecret;
+      if (!pendingSecret) return mockError(409, 'NO_PENDING_SETUP', 'Start the setup again to get a new secret');
+      if (!(await verifyTotp(pendingSecret, String(request.body?.code || '')))) {
+        return mockError(400, 'INVALID_CODE', 'Invalid verification code');
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      setTwoFactor(request.db, record.id, { secret: pendingSecret, recoveryCodes });
+      return { status: 200, body: { success: true, data: { recoveryCodes } } };
+    })
+    .route('POST', '/api/auth/2fa/disable', async request => {
+      const record = findBearerUser(request);
+      if (!record) return mockError(401, 'UNAUTHORIZED', 'Authentication required');
+      const twoFactor = getTwoFactor(request.db, record.id);
+      if (twoFactor?.secret) {
+        const result = await verifySecondFactor(twoFactor.secret, twoFactor.recoveryCodes || [], String(request.body?.code || ''));
+        if (!result.valid) return mockError(400, 'INVALID_CODE', 'Invalid verification code');
+      }
+      setTwoFactor(request.db, record.id, null);
+      return { status: 200, body: { success: true } };
+    })
+    .route('POST', '/api/auth/register', request => {
+      const { email, password, name } = request.body || {};
+      if (!email || !password || !name) return mockError(400, 'VALIDATION_ERROR', 'All fields are required');
+      if (findUser(request, email)) return mockError(409, 'EMAIL_IN_USE', 'An account with this email already exists');
+
+      const record = createUserRecord(email, name);
+      (request.db.users ||= []).push(record);
+      return issue(record, request.db);
+    })
+    .route('POST', '/api/auth/refresh', request => {
+      const refreshToken = request.body?.refreshToken;
+      const payload = typeof refreshToken === 'string' ? decodeJwt(refreshToken) : null;
+      if (!payload || payload.typ !== 'refresh' || isTokenExpired(refreshToken)) {
+        return mockError(401, 'INVALID_REFRESH_TOKEN', 'Refresh token is invalid or has expired');
+      }
+
+      const record = (request.db.users || []).find(user => user.id === payload.sub);
+      if (!record) return mockError(401, 'INVALID_REFRESH_TOKEN', 'User no longer exists');
+      return issue(record, request.db);
+    })
+    .route('POST', '/api/auth/logout', () => ({ status: 200, body: { success: true } }));
+}
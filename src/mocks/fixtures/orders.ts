@@ -0,0 +1,155 @@
+/**
+ * @file orders.ts
+ * @description Mock customer orders served by the mock backend under `/api/orders`.
+ */
+import type { Order } from '../../pages/dashboard/Orders';
+
+/**
+ * @const mockOrders
+ * @description An array of mock order data used for demonstration purposes.
+ */
+export const mockOrders: Order[] = [
+  {
+    id: '1',
+    orderNumber: 'ORD-2024-001',
+    customer: {
+      name: 'John Doe',
+      email: 'john.doe@example.com'
+    },
+    items: [
+      { id: '1', name: 'Wireless Headphones', quantity: 1, price: 99.99 },
+      { id: '2', name: 'Phone Case', quantity: 2, price: 19.99 }
+    ],
+    total: 139.97,
+    status: 'delivered',
+    paymentMethod: 'Credit Card',
+    shippingAddress: '123 Main St, New York, NY 10001',
+    createdAt: '2024-03-15T10:30:00',
+    updatedAt: '2024-03-18T14:20:00'
+  },
+  {
+    id: '2',
+    orderNumber: 'ORD-2024-002',
+    customer: {
+      name: 'Jane Smith',
+      email: 'jane.smith@example.com'
+    },
+    items: [
+      { id: '3', name: 'Smart Watch', quantity: 1, price: 249.99 }
+    ],
+    total: 249.99,
+    status: 'shipped',
+    paymentMethod: 'PayPal',
+    shippingAddress: '456 Oak Ave, Los Angeles, CA 90001',
+    createdAt: '2024-03-16T09:15:00',
+    updatedAt: '2024-03-17T11:45:00'
+  },
+  {
+    id: '3',
+    orderNumber: 'ORD-2024-003',
+    customer: {
+      name: 'Bob Johnson',
+      email: 'bob.johnson@example.com'
+    },
+    items: [
+      { id: '4', name: 'Running Shoes', quantity: 1, price: 89.99 },
+      { id: '5', name: 'Sports Socks', quantity: 3, price: 12.99 }
+    ],
+    total: 128.96,
+    status: 'processing',
+    paymentMethod: 'Credit Card',
+    shippingAddress: '789 Pine St, Chicago, IL 60601',
+    createdAt: '2024-03-17T14:20:00',
+    updatedAt: '2024-03-17T14:20:00'
+  },
+  {
+    id: '4',
+    orderNumber: 'ORD-2024-004',
+    customer: {
+      name: 'Alice Williams',
+      email: 'alice.williams@example.com'
+    },
+    items: [
+      { id: '6', name: 'Laptop Backpack', quantity: 1, price: 49.99 },
+      { id: '7', name: 'Water Bottle', quantity: 2, price: 19.99 }
+    ],
+    total: 89.97,
+    status: 'pending',
+    paymentMethod: 'Debit Card',
+    shippingAddress: '321 Elm St, Houston, TX 77001',
+    createdAt: '2024-03-18T08:45:00',
+    updatedAt: '2024-03-18T08:45:00'
+  },
+  {
+    id: '5',
+    orderNumber: 'ORD-2024-005',
+    customer: {
+      name: 'Charlie Brown',
+      email: 'charlie.brown@example.com'
+    },
+    items: [
+      { id: '8', name: 'Bluetooth Speaker', quantity: 1, price: 79.99 }
+    ],
+    total: 79.99,
+    status: 'cancelled',
+    paymentMethod: 'Credit Card',
+    shippingAddress: '654 Maple Dr, Phoenix, AZ 85001',
+    createdAt: '2024-03-18T11:30:00',
+    updatedAt: '2024-03-18T15:00:00'
+  },
+  {
+    id: '6',
+    orderNumber: 'ORD-2024-006',
+    customer: {
+      name: 'Eva Davis',
+      email: 'eva.davis@example.com'
+    },
+    items: [
+      { id: '9', name: 'Yoga Mat', quantity: 1, price: 29.99 },
+      { id: '10', name: 'Resistance Bands', quantity: 1, price: 24.99 }
+    ],
+    total: 54.98,
+    status: 'shipped',
+    paymentMethod: 'Apple Pay',
+    shippingAddress: '987 Cedar Ln, Seattle, WA 98101',
+    createdAt: '2024-03-19T13:00:00',
+    updatedAt: '2024-03-20T09:30:00'
+  },
+  {
+    id: '7',
+    orderNumber: 'ORD-2024-007',
+    customer: {
+      name: 'Frank Miller',
+      email: 'frank.miller@example.com'
+    },
+    items: [
+      { id: '11', name: 'Coffee Maker', quantity: 1, price: 149.99 },
+      { id: '12', name: 'Coffee Beans', quantity: 2, price: 14.99 }
+    ],
+    total: 179.97,
+    status: 'processing',
+    paymentMethod: 'Credit Card',
+    shippingAddress: '147 Birch Rd, Boston, MA 02101',
+    createdAt: '2024-03-20T10:15:00',
+    updatedAt: '2024-03-20T10:15:00'
+  },
+  {
+    id: '8',
+    orderNumber: 'ORD-2024-008',
+    customer: {
+      name: 'Grace Wilson',
+      email: 'grace.wilson@example.com'
+    },
+    items: [
+      { id: '13', name: 'Desk Lamp', quantity: 1, price: 39.99 },
+      { id: '14', name: 'Notebook Set', quantity: 1, price: 12.99 }
+    ],
+    total: 52.98,
+    status: 'delivered',
+    paymentMethod: 'PayPal',
+    shippingAddress: '258 Spruce Ave, Denver, CO 80201',
+    createdAt: '2024-03-14T16:45:00',
+    updatedAt: '2024-03-17T10:00:00'
+  }
+  // ... more mock orders
+]
@@ -0,0 +1,124 @@
+/**
+ * @file products.ts
+ * @description Mock product catalog served by the mock backend under `/api/products`.
+ */
+import type { Product } from '../../pages/dashboard/Products';
+
+/**
+ * @const mockProducts
+ * @description An array of mock product data used for demonstration purposes.
+ */
+export const mockProducts: Product[] = [
+  {
+    id: '1',
+    name: 'Wireless Headphones',
+    sku: 'WH-001',
+    category: 'Electronics',
+    price: 99.99,
+    stock: 150,
+    status: 'active',
+    description: 'High-quality wireless headphones with noise cancellation',
+    createdAt: '2024-01-15',
+    updatedAt: '2024-03-15'
+  },
+  {
+    id: '2',
+    name: 'Smart Watch',
+    sku: 'SW-002',
+    category: 'Electronics',
+    price: 249.99,
+    stock: 75,
+    status: 'active',
+    createdAt: '2024-01-20',
+    updatedAt: '2024-03-10'
+  },
+  {
+    id: '3',
+    name: 'Running Shoes',
+    sku: 'RS-003',
+    category: 'Footwear',
+    price: 89.99,
+    stock: 200,
+    status: 'active',
+    createdAt: '2024-02-01',
+    updatedAt: '2024-03-18'
+  },
+  {
+    id: '4',
+    name: 'Laptop Backpack',
+    sku: 'LB-004',
+    category: 'Accessories',
+    price: 49.99,
+    stock: 0,
+    status: 'active',
+    createdAt: '2024-02-05',
+    updatedAt: '2024-03-20'
+  },
+  {
+    id: '5',
+    name: 'Bluetooth Speaker',
+    sku: 'BS-005',
+    category: 'Electronics',
+    price: 79.99,
+    stock: 100,
+    status: 'draft',
+    createdAt: '2024-02-10',
+    updatedAt: '2024-03-19'
+  },
+  {
+    id: '6',
+    name: 'Yoga Mat',
+    sku: 'YM-006',
+    category: 'Sports',
+    price: 29.99,
+    stock: 300,
+    status: 'active',
+    createdAt: '2024-02-15',
+    updatedAt: '2024-03-15'
+  },
+  {
+    id: '7',
+    name: 'Coffee Maker',
+    sku: 'CM-007',
+    category: 'Appliances',
+    price: 149.99,
+    stock: 50,
+    status: 'active',
+    createdAt: '2024-02-20',
+    updatedAt: '2024-03-16'
+  },
+  {
+    id: '8',
+    name: 'Desk Lamp',
+    sku: 'DL-008',
+    category: 'Furniture',
+    price: 39.99,
+    stock: 120,
+    status: 'archived',
+    createdAt: '2024-02-25',
+    updatedAt: '2024-03-01'
+  },
+  {
+    id: '9',
+    name: 'Water Bottle',
+    sku: 'WB-009',
+    category: 'Accessories',
+    price: 19.99,
+    stock: 500,
+    status: 'active',
+    createdAt: '2024-03-01',
+    updatedAt: '2024-03-18'
+  },
+  {
+    id: '10',
+    name: 'Gaming Mouse',
+    sku: 'GM-010',
+    category: 'Electronics',
+    price: 69.99,
+    stock: 80,
+    status: 'active',
+    createdAt: '2024-03-05',
+    updatedAt: '2024-03-20'
+  }
+  // ... more mock products
+]
@@ -0,0 +1,115 @@
+/**
+ * @file systems.ts
+ * @description Mock tracked systems served by the mock backend under `/api/systems`.
+ */
+import type { System } from '../../pages/dashboard/Tracking';
+
+/**
+ * @const mockSystems
+ * @description An array of mock system data used for demonstration purposes.
+ */
+export const mockSystems: System[] = [
+  {
+    id: 'SYS001',
+    name: 'DESKTOP-MAIN',
+    ipAddress: '192.168.1.100',
+    type: 'desktop',
+    os: 'Windows',
+    osVersion: '11 Pro',
+    status: 'online',
+    cpuUsage: 45,
+    memoryUsage: 72,
+    diskUsage: 65,
+    uptime: 168,
+    lastSeen: new Date(),
+    department: 'Engineering',
+    location: 'Building A - Floor 3',
+    alerts: 0
+  },
+  {
+    id: 'SYS002',
+    name: 'WEB-SERVER-01',
+    ipAddress: '10.0.0.50',
+    type: 'server',
+    os: 'Ubuntu',
+    osVersion: '22.04 LTS',
+    status: 'online',
+    cpuUsage: 78,
+    memoryUsage: 85,
+    diskUsage: 82,
+    uptime: 720,
+    lastSeen: new Date(),
+    department: 'IT Operations',
+    location: 'Data Center',
+    alerts: 2
+  },
+  {
+    id: 'SYS003',
+    name: 'LAPTOP-SALES-03',
+    ipAddress: '192.168.1.155',
+    type: 'laptop',
+    os: 'macOS',
+    osVersion: 'Sonoma 14.2',
+    status: 'warning',
+    cpuUsage: 92,
+    memoryUsage: 88,
+    diskUsage: 95,
+    uptime: 48,
+    lastSeen: new Date(Date.now() - 1000 * 60 * 5),
+    department: 'Sales',
+    location: 'Remote',
+    alerts: 3
+  },
+  {
+    id: 'SYS004',
+    name: 'DB-SERVER-02',
+    ipAddress: '10.0.0.52',
+    type: 'server',
+    os: 'CentOS',
+    osVersion: '8.5',
+    status: 'online',
+    cpuUsage: 32,
+    memoryUsage: 45,
+    diskUsage: 78,
+    uptime: 2160,
+    lastSeen: new Date(),
+    department: 'IT Operations',
+    location: 'Data Center',
+    alerts: 0
+  },
+  {
+    id: 'SYS005',
+    name: 'DESKTOP-HR-01',
+    ipAddress: '192.168.1.201',
+    type: 'desktop',
+    os: 'Windows',
+    osVersion: '10 Pro',
+    status: 'offline',
+    cpuUsage: 0,
+    memoryUsage: 0,
+    diskUsage: 0,
+    uptime: 0,
+    lastSeen: new Date(Date.now() - 1000 * 60 * 60 * 2),
+    department: 'Human Resources',
+    location: 'Building B - Floor 2',
+    alerts: 1
+  },
+  {
+    id: 'SYS006',
+    name: 'MOBILE-DEV-01',
+    ipAddress: '192.168.1.180',
+    type: 'mobile',
+    os: 'iOS',
+    osVersion: '17.2',
+    status: 'online',
+    cpuUsage: 25,
+    memoryUsage: 40,
+    diskUsage: 35,
+    uptime: 24,
+    lastSeen: new Date(),
+    department: 'Development',
+    location: 'Mobile',
+    alerts: 0
+  }
+  // ... more mock systems
+];
@@ -0,0 +1,109 @@
+/**
+ * @file transactions.ts
+ * @description Mock financial transactions served by the mock backend under `/api/transactions`.
+ */
+import type { Transaction } from '../../pages/dashboard/Transactions';
+
+/**
+ * @const mockTransactions
+ * @description An array of mock transaction data used for demonstration purposes.
+ */
+export const mockTransactions: Transaction[] = [
+  {
+    id: 'TXN001',
+    date: new Date('2024-06-13T10:30:00'),
+    description: 'Salary Payment',
+    type: 'deposit',
+    amount: 5000.00,
+    status: 'completed',
+    from: 'Acme Corp',
+    to: 'Main Account',
+    reference: 'SAL-2024-06',
+    category: 'Income'
+  },
+  {
+    id: 'TXN002',
+    date: new Date('2024-06-12T15:45:00'),
+    description: 'Rent Payment',
+    type: 'withdrawal',
+    amount: 1500.00,
+    status: 'completed',
+    from: 'Main Account',
+    to: 'Landlord LLC',
+    reference: 'RENT-06-2024',
+    category: 'Housing'
+  },
+  {
+    id: 'TXN003',
+    date: new Date('2024-06-12T09:20:00'),
+    description: 'Transfer to Savings',
+    type: 'transfer',
+    amount: 1000.00,
+    status: 'completed',
+    from: 'Main Account',
+    to: 'Savings Account',
+    reference: 'TRF-2024-0612',
+    category: 'Savings'
+  },
+  {
+    id: 'TXN004',
+    date: new Date('2024-06-11T14:30:00'),
+    description: 'Online Purchase',
+    type: 'withdrawal',
+    amount: 89.99,
+    status: 'completed',
+    from: 'Main Account',
+    to: 'Amazon',
+    reference: 'AMZ-123456',
+    category: 'Shopping'
+  },
+  {
+    id: 'TXN005',
+    date: new Date('2024-06-11T11:00:00'),
+    description: 'Freelance Payment',
+    type: 'deposit',
+    amount: 1200.00,
+    status: 'pending',
+    from: 'Client XYZ',
+    to: 'Main Account',
+    reference: 'INV-2024-045',
+    category: 'Income'
+  },
+  {
+    id: 'TXN006',
+    date: new Date('2024-06-10T16:20:00'),
+    description: 'Failed Transfer',
+    type: 'transfer',
+    amount: 500.00,
+    status: 'failed',
+    from: 'Main Account',
+    to: 'External Bank',
+    reference: 'TRF-FAIL-001',
+    category: 'Transfer'
+  },
+  {
+    id: 'TXN007',
+    date: new Date('2024-06-10T08:15:00'),
+    description: 'Utility Bill',
+    type: 'withdrawal',
+    amount: 120.50,
+    status: 'completed',
+    from: 'Main Account',
+    to: 'Power Company',
+    reference: 'UTIL-06-2024',
+    category: 'Utilities'
+  },
+  {
+    id: 'TXN008',
+    date: new Date('2024-06-09T13:45:00'),
+    description: 'Restaurant',
+    type: 'withdrawal',
+    amount: 65.30,
+    status: 'completed',
+    from: 'Main Account',
+    to: 'The Grill House',
+    reference: 'REST-0609',
+    category: 'Food & Dining'
+  }
+  // ... more mock transactions
+];
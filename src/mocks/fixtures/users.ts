@@ -0,0 +1,100 @@
+/**
+ * @file users.ts
+ * @description Mock users and roles served by the mock backend under `/api/users` and `/api/roles`.
+ */
+import type { User, Role } from '../../pages/dashboard/Users';
+import { ROLE_PERMISSIONS } from '../../lib/permissions';
+
+/**
+ * @const mockUsers
+ * @description An array of mock user data for demonstration.
+ */
+export const mockUsers: User[] = [
+  {
+    id: '1',
+    name: 'John Doe',
+    email: 'john.doe@example.com',
+    role: 'admin',
+    department: 'Engineering',
+    status: 'active',
+    avatar: 'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=400',
+    lastLogin: new Date('2024-06-13T10:30:00'),
+    createdAt: new Date('2023-01-15'),
+    permissions: ['users:write', 'billing:write', 'settings:write']
+  },
+  {
+    id: '2',
+    name: 'Jane Smith',
+    email: 'jane.smith@example.com',
+    role: 'moderator',
+    department: 'Marketing',
+    status: 'active',
+    avatar: 'https://images.unsplash.com/photo-1494790108377-be9c29b29330?w=400',
+    lastLogin: new Date('2024-06-12T15:45:00'),
+    createdAt: new Date('2023-03-20'),
+    permissions: ['users:view', 'content:write']
+  },
+  {
+    id: '3',
+    name: 'Bob Wilson',
+    email: 'bob.wilson@example.com',
+    role: 'user',
+    department: 'Sales',
+    status: 'inactive',
+    lastLogin: new Date('2024-05-20T09:15:00'),
+    createdAt: new Date('2023-06-10'),
+    permissions: ['profile:write']
+  },
+  {
+    id: '4',
+    name: 'Alice Brown',
+    email: 'alice.brown@example.com',
+    role: 'admin',
+    department: 'HR',
+    status: 'active',
+    avatar: 'https://images.unsplash.com/photo-1438761681033-6461ffad8d80?w=400',
+    lastLogin: new Date('2024-06-13T08:00:00'),
+    createdAt: new Date('2022-11-28'),
+    permissions: ['users:write', 'billing:write', 'settings:write']
+  },
+  {
+    id: '5',
+    name: 'Charlie Davis',
+    email: 'charlie.davis@example.com',
+    role: 'user',
+    department: 'Engineering',
+    status: 'suspended',
+    lastLogin: new Date('2024-04-10T14:20:00'),
+    createdAt: new Date('2023-08-15'),
+    permissions: ['profile:write']
+  }
+]
+
+/**
+ * @const mockRoles
+ * @description An array of mock roles with their permissions.
+ */
+export const mockRoles: Role[] = [
+  {
+    id: '1',
+    name: 'Administrator',
+    description: 'Full system access with all permissions',
+    permissions: ROLE_PERMISSIONS.admin,
+    userCount: 2
+  },
+  {
+    id: '2',
+    name: 'Moderator',
+    description: 'Can manage content, products and orders, and view users',
+    permissions: ROLE_PERMISSIONS.moderator,
+    userCount: 1
+  },
+  {
+    id: '3',
+    name: 'User',
+    description: 'Basic user with limited permissions',
+    permissions: ROLE_PERMISSIONS.user,
+    userCount: 2
+  }
+  // ... more mock roles
+];
@@ -0,0 +1,63 @@
+/**
+ * @file index.ts
+ * @description Entry point for the mock backend. Creates a `MockServer` seeded with the demo fixtures
+ * and routes the shared `apiClient` through it. Loaded lazily from `main.tsx` so it is only
+ * downloaded when mocking is enabled.
+ */
+import type { ApiClient } from '../lib/api-client';
+import { MockServer, MockServerOptions } from './mock-server';
+import { registerAuthRoutes, MockAuthOptions } from './auth';
+import { mockOrders } from './fixtures/orders';
+import { mockProducts } from './fixtures/products';
+import { mockUsers, mockRoles } from './fixtures/users';
+import { mockTransactions } from './fixtures/transactions';
+import { mockSystems } from './fixtures/systems';
+
+/**
+ * @const fixtures
+ * @description The collections served by the mock backend, keyed by REST resource name.
+ */
+export const fixtures = {
+  orders: mockOrders,
+  products: mockProducts,
+  users: mockUsers,
+  roles: mockRoles,
+  transactions: mockTransactions,
+  systems: mockSystems,
+};
+
+/**
+ * @function createMockServer
+ * @description Creates a mock server seeded with the demo fixtures, including the authentication routes.
+ * @param {MockServerOptions & MockAuthOptions} [options={}] - Server options and token lifetimes.
+ * @returns {MockServer} The mock server.
+ */
+export const createMockServer = (options: MockServerOptions & MockAuthOptions = {}): MockServer => {
+  const { accessTokenTtl, refreshTokenTtl, ...serverOptions } = options;
+  return registerAuthRoutes(new MockServer(fixtures, serverOptions), { accessTokenTtl, refreshTokenTtl });
+};
+
+/**
+ * @function installMockServer
+ * @description Routes all requests made by `client` through a new mock server.
+ * Latency, error rate and access token lifetime are read from `VITE_MOCK_LATENCY`, `VITE_MOCK_ERROR_RATE`
+ * and `VITE_MOCK_TOKEN_TTL`.
+ * The server is also exposed as `window.__mockServer` so it can be tuned from the browser console.
+ * @param {ApiClient} client - The API client to intercept.
+ * @returns {MockServer} The installed mock server.
+ */
+export const installMockServer = (client: ApiClient): MockServer => {
+  const env = import.meta.env;
+  const server = createMockServer({
+    latency: env.VITE_MOCK_LATENCY !== undefined ? Number(env.VITE_MOCK_LATENCY) : undefined,
+    errorRate: env.VITE_MOCK_ERROR_RATE !== undefined ? Number(env.VITE_MOCK_ERROR_RATE) : undefined,
+    accessTokenTtl: env.VITE_MOCK_TOKEN_TTL !== undefined ? Number(env.VITE_MOCK_TOKEN_TTL) : undefined,
+  });
+  client.configure({ fetch: server.fetch });
+  window.__mockServer = server;
+  console.info('MockServer: API requests are being served by the in-process mock backend.');
+  return server;
+};
+
+export { MockServer };
+export type { MockServerOptions, MockAuthOptions };
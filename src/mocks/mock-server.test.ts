@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { MockServer } from './mock-server';
+
+const fixtures = {
+  orders: [
+    { id: '1', customer: { name: 'Ada' }, status: 'pending', total: 120 },
+    { id: '2', customer: { name: 'Bob' }, status: 'shipped', total: 80 },
+    { id: '3', customer: { name: 'Cy' }, status: 'pending', total: 45.5 },
+  ],
+};
+
+const createServer = () => new MockServer(fixtures, { persist: false, latency: 0, latencyJitter: 0 });
+
+describe('MockServer collection routes', () => {
+  it('lists a collection as a paginated response', async () => {
+    const { status, body } = await createServer().handle('GET', '/api/orders?page=2&limit=2');
+    expect(status).toBe(200);
+    expect(body.data.map((order: any) => order.id)).toEqual(['3']);
+    expect(body.pagination).toEqual({ page: 2, limit: 2, total: 3, totalPages: 2 });
+  });
+
+  it('searches, filters and sorts lists', async () => {
+    const server = createServer();
+    const sorted = await server.handle('GET', '/api/orders?status=pending&sortBy=total&sortOrder=asc');
+    expect(sorted.body.data.map((order: any) => order.id)).toEqual(['3', '1']);
+
+    const searched = await server.handle('GET', '/api/orders?search=bob');
+    expect(searched.body.data.map((order: any) => order.id)).toEqual(['2']);
+    expect((await server.handle('GET', '/api/orders?search=status')).body.data).toEqual([]);
+
+    const filter = JSON.stringify({ combinator: 'and', conditions: [{ key: 'total', type: 'number', min: 50 }] });
+    const filtered = await server.handle('GET', `/api/orders?filter=${encodeURIComponent(filter)}`);
+    expect(filtered.body.data.map((order: any) => order.id)).toEqual(['1', '2']);
+  });
+
+  it('rejects invalid filters and aggregates', async () => {
+    const server = createServer();
+    expect((await server.handle('GET', '/api/orders?filter=nope')).status).toBe(400);
+    for (const filter of ['{}', '[]', '{"combinator":"and","conditions":[{"key":"total","type":"range"}]}']) {
+      const { status, body } = await server.handle('GET', `/api/orders?filter=${encodeURIComponent(filter)}`);
+      expect(status).toBe(400);
+      expect(body.error).toBe('INVALID_FILTER');
+    }
+    expect((await server.handle('GET', '/api/orders?aggregate=total:median')).body.error).toBe('INVALID_AGGREGATE');
+  });
+
+  it('computes aggregates in total and per group', async () => {
+    const { body } = await createServer().handle('GET', '/api/orders?aggregate=total:sum&groupBy=status');
+    expect(body.aggregates.totals).toEqual({ total: 245.5 });
+    expect(body.aggregates.groups.pending).toEqual({ count: 2, values: { total: 165.5 } });
+  });
+
+  it('creates, reads, updates and deletes records', async () => {
+    const server = createServer();
+    const created = await server.handle('POST', '/api/orders', { id: '4', status: 'pending', total: 10 });
+    expect(created.status).toBe(201);
+    expect((await server.handle('POST', '/api/orders', { id: '4' })).status).toBe(409);
+
+    const patched = await server.handle('PATCH', '/api/orders/4', { status: 'shipped' });
+    expect(patched.body.data).toEqual({ id: '4', status: 'shipped', total: 10 });
+    const replaced = await server.handle('PUT', '/api/orders/4', { total: 20 });
+    expect(replaced.body.data).toEqual({ id: '4', total: 20 });
+
+    expect((await server.handle('DELETE', '/api/orders/4')).status).toBe(200);
+    expect((await server.handle('GET', '/api/orders/4')).status).toBe(404);
+  });
+
+  it('answers 404 for unknown collections and paths', async () => {
+    const server = createServer();
+    expect((await server.handle('GET', '/api/unknown')).status).toBe(404);
+    expect((await server.handle('GET', '/api/orders/1/items')).status).toBe(404);
+    expect((await server.handle('GET', '/other')).status).toBe(404);
+  });
+
+  it('does not serve private collections', async () => {
+    const withSecrets = { ...fixtures, secrets: [{ id: '1', value: 'hunter2' }] };
+    const server = new MockServer(withSecrets, { persist: false })
+      .hideCollection('secrets')
+      .route('GET', '/api/secret-count', ({ db }) => ({ status: 200, body: { count: db.secrets.length } }));
+    for (const [method, url] of [['GET', '/api/secrets'], ['GET', '/api/secrets/1'], ['PUT', '/api/secrets/1'], ['DELETE', '/api/secrets/1']]) {
+      expect((await server.handle(method, url, {})).status).toBe(404);
+    }
+    expect((await server.handle('POST', '/api/secrets', { id: '2' })).status).toBe(404);
+    expect((await server.handle('GET', '/api/secret-count')).body).toEqual({ count: 1 });
+  });
+
+  it('prefers custom routes over collection routes', async () => {
+    const server = createServer().route('GET', '/api/orders', () => ({ status: 200, body: { custom: true } }));
+    expect((await server.handle('GET', '/api/orders')).body).toEqual({ custom: true });
+  });
+});
@@ -0,0 +1,459 @@
+/**
+ * @file mock-server.ts
+ * @description An in-process fake REST backend. It exposes a `fetch`-compatible function that the
+ * API client can use in place of the network, so the UI exercises the real request path offline.
+ * Features:
+ * - Generic REST routes for every registered collection (`GET/POST /api/:resource`, `GET/PUT/PATCH/DELETE /api/:resource/:id`),
+ *   except private ones (e.g., secrets), which only custom routes can read.
+ * - Paginated, searchable, sortable and filterable list responses (`PaginatedResponse`), with aggregates on request.
+ * - Custom routes for endpoints that are not plain collections (e.g., authentication).
+ * - Mutations persisted in `sessionStorage` for the lifetime of the browser tab.
+ * - Configurable latency and random error injection.
+ * - Requests carrying an expired bearer token are rejected with 401, like a real API would.
+ */
+import type { ApiResponse, ListAggregates, PaginatedResponse } from '../types';
+import { isTokenExpired } from '../lib/jwt';
+import { createFilterMatcher, isFilterGroup } from '../lib/table-filters';
+import { sortRows } from '../lib/table-sort';
+import { AGGREGATE_FUNCTIONS, summarizeRows, type AggregateFunction } from '../lib/table-aggregates';
+
+/**
+ * @typedef MockRecord
+ * @description A stored record. Every record must have a string `id`.
+ */
+type MockRecord = { id: string } & Record<string, any>;
+
+/**
+ * @typedef MockDatabase
+ * @description The in-memory database, keyed by collection name (e.g., `orders`).
+ */
+export type MockDatabase = Record<string, MockRecord[]>;
+
+/**
+ * @interface MockServerOptions
+ * @description Runtime options for the mock server.
+ * @property {number} [latency=300] - Base response delay in milliseconds.
+ * @property {number} [latencyJitter=200] - Random extra delay (0 to this value) added to each response.
+ * @property {number} [errorRate=0] - Probability (0 to 1) that a request fails with a simulated 500 error.
+ * @property {boolean} [persist=true] - Whether mutations are saved to `sessionStorage`.
+ * @property {string} [basePath='/api'] - Path prefix for all routes.
+ */
+export interface MockServerOptions {
+  latency?: number;
+  latencyJitter?: number;
+  errorRate?: number;
+  persist?: boolean;
+  basePath?: string;
+}
+
+/**
+ * @interface MockResponse
+ * @description A response produced by a route handler.
+ * @property {number} status - HTTP status code.
+ * @property {any} [body] - Response body, serialized as JSON.
+ */
+export interface MockResponse {
+  status: number;
+  body?: any;
+}
+
+/**
+ * @interface MockRequest
+ * @description A request as seen by a custom route handler.
+ * @property {string} method - HTTP method (upper case).
+ * @property {string} path - Request path without the query string.
+ * @property {URLSearchParams} params - Query parameters.
+ * @property {any} [body] - Parsed JSON body.
+ * @property {Headers} headers - Request headers.
+ * @property {MockDatabase} db - The live database; handlers may mutate it.
+ */
+export interface MockRequest {
+  method: string;
+  path: string;
+  params: URLSearchParams;
+  body?: any;
+  headers: Headers;
+  db: MockDatabase;
+}
+
+/**
+ * @typedef MockRouteHandler
+ * @description Handles a custom route and returns its response, or a promise of it (e.g., for handlers using WebCrypto).
+ */
+export type MockRouteHandler = (request: MockRequest) => MockResponse | Promise<MockResponse>;
+
+/**
+ * @const STORAGE_KEY
+ * @description `sessionStorage` key used to persist the mock database.
+ */
+const STORAGE_KEY = 'radix_dashboard_mock_db';
+
+/**
+ * @const RESERVED_PARAMS
+ * @description Query parameters with special meaning; all other parameters are treated as equality filters.
+ */
+const RESERVED_PARAMS = new Set(['page', 'limit', 'search', 'sortBy', 'sortOrder', 'filter', 'aggregate', 'groupBy']);
+
+/**
+ * @function clone
+ * @description Deep-clones a value through JSON, which also converts `Date` objects to ISO strings
+ * exactly as a real server response would.
+ * @param {T} value - The value to clone.
+ * @returns {T} The cloned value.
+ */
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * @function getField
+ * @description Reads a possibly nested field (e.g., `customer.name`) from a record.
+ * @param {Record<string, any>} record - The record to read from.
+ * @param {string} path - Dot-separated field path.
+ * @returns {any} The field value.
+ */
+const getField = (record: Record<string, any>, path: string): any =>
+  path.split('.').reduce((obj: any, key) => obj?.[key], record);
+
+/**
+ * @function matchesSearch
+ * @description Tells whether any field value of a record (including nested values, but not field names) contains the
+ * search term, like the client-side search of the `DataTable`.
+ * @param {unknown} value - The record or a value in it.
+ * @param {string} search - The lowercase search term.
+ * @returns {boolean} Whether the term was found.
+ */
+const matchesSearch = (value: unknown, search: string): boolean => {
+  if (value === null || value === undefined) return false;
+  if (typeof value === 'object') return Object.values(value).some(item => matchesSearch(item, search));
+  return String(value).toLowerCase().includes(search);
+};
+
+/**
+ * @function mockError
+ * @description Builds an error response in the `ApiResponse` envelope format.
+ * @param {number} status - HTTP status code.
+ * @param {string} code - Machine-readable error code.
+ * @param {string} message - Human-readable error message.
+ * @returns {MockResponse} The error response.
+ */
+export const mockError = (status: number, code: string, message: string): MockResponse => ({
+  status,
+  body: { success: false, error: code, message } satisfies ApiResponse,
+});
+
+/**
+ * @class MockServer
+ * @description Fake REST backend serving a set of collections.
+ */
+export class MockServer {
+  private db: MockDatabase;
+  private fixtures: MockDatabase;
+  private options: Required<MockServerOptions>;
+  private routes: Array<{ method: string; path: string; handler: MockRouteHandler }> = [];
+  private privateCollections = new Set<string>();
+
+  /**
+   * @constructor
+   * @param {Record<string, Array<{ id: string }>>} fixtures - Initial data, keyed by collection name.
+   * @param {MockServerOptions} [options={}] - Server options.
+   */
+  constructor(fixtures: Record<string, Array<{ id: string }>>, options: MockServerOptions = {}) {
+    this.fixtures = clone(fixtures) as MockDatabase;
+    this.options = {
+      latency: 300,
+      latencyJitter: 200,
+      errorRate: 0,
+      persist: true,
+      basePath: '/api',
+    };
+    this.configure(options);
+    this.db = this.load();
+  }
+
+  /**
+   * @function configure
+   * @description Updates the server options at runtime (e.g., to raise the error rate from the console).
+   * @param {MockServerOptions} options - The options to change.
+   */
+  configure(options: MockServerOptions): void {
+    Object.entries(options).forEach(([key, value]) => {
+      if (value !== undefined) (this.options as Record<string, any>)[key] = value;
+    });
+  }
+
+  /**
+   * @function route
+   * @description Registers a handler for an exact method and path (e.g., `POST /api/auth/login`).
+   * Custom routes take precedence over the generic collection routes. The database is persisted
+   * after every non-GET custom request.
+   * @param {string} method - HTTP method.
+   * @param {string} path - Full request path, including the base path.
+   * @param {MockRouteHandler} handler - The route handler.
+   * @returns {this} The server, for chaining.
+   */
+  route(method: string, path: string, handler: MockRouteHandler): this {
+    this.routes.push({ method: method.toUpperCase(), path, handler });
+    return this;
+  }
+
+  /**
+   * @function hideCollection
+   * @description Makes a collection private: the generic collection routes answer 404 for it, as if it did not
+   * exist, so only custom routes (through `MockRequest.db`) can read or change it. Use it for data the API must never
+   * expose as is, such as secrets.
+   * @param {string} name - The collection name (e.g., `twoFactor`).
+   * @returns {this} The server, for chaining.
+   */
+  hideCollection(name: string): this {
+    this.privateCollections.add(name);
+    return this;
+  }
+
+  /**
+   * @function reset
+   * @description Restores the original fixtures and clears persisted mutations.
+   */
+  reset(): void {
+    this.db = clone(this.fixtures);
+    if (typeof sessionStorage !== 'undefined') sessionStorage.removeItem(STORAGE_KEY);
+  }
+
+  /**
+   * @private
+   * @function load
+   * @description Loads the persisted database, falling back to the fixtures.
+   * @returns {MockDatabase} The database.
+   */
+  private load(): MockDatabase {
+    if (this.options.persist && typeof sessionStorage !== 'undefined') {
+      try {
+        const saved = sessionStorage.getItem(STORAGE_KEY);
+        // Collections added to the fixtures after the session started are still served
+        if (saved) return { ...clone(this.fixtures), ...JSON.parse(saved) };
+      } catch (e) {
+        console.warn('MockServer: Failed to load persisted data, using fixtures.', e);
+      }
+    }
+    return clone(this.fixtures);
+  }
+
+  /**
+   * @private
+   * @function save
+   * @description Persists the database to `sessionStorage` if enabled.
+   */
+  private save(): void {
+    if (!this.options.persist || typeof sessionStorage === 'undefined') return;
+    try {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(this.db));
+    } catch (e) {
+      console.warn('MockServer: Failed to persist data.', e);
+    }
+  }
+
+  /**
+   * @private
+   * @function list
+   * @description Handles `GET /:resource`. Supports `search`, `sortBy`, `sortOrder` (comma-separated for
+   * several sort levels), `page`, `limit`, `filter` (a `FilterGroup` as JSON) and equality filters on any other
+   * parameter. Without `limit`, all matching records are returned. `aggregate` (one `field:function` pair per field,
+   * e.g., `total:sum,items:count`) adds the aggregates of all matching records to the response; `groupBy` adds the
+   * number of records and the aggregates of each group of records with the same value in that field.
+   * @param {MockRecord[]} records - The collection.
+   * @param {URLSearchParams} params - The query parameters.
+   * @returns {MockResponse} A `PaginatedResponse`.
+   */
+  private list(records: MockRecord[], params: URLSearchParams): MockResponse {
+    let result = records;
+
+    const search = params.get('search')?.toLowerCase();
+    if (search) {
+      result = result.filter(record => matchesSearch(record, search));
+    }
+
+    new Set(params.keys()).forEach(key => {
+      if (RESERVED_PARAMS.has(key)) return;
+      const allowed = params.getAll(key);
+      result = result.filter(record => allowed.includes(String(getField(record, key))));
+    });
+
+    const filter = params.get('filter');
+    if (filter) {
+      let group: unknown;
+      try {
+        group = JSON.parse(filter);
+      } catch {
+        return mockError(400, 'INVALID_FILTER', 'The filter parameter is not valid JSON');
+      }
+      if (!isFilterGroup(group)) {
+        return mockError(400, 'INVALID_FILTER', 'The filter parameter is not a valid filter');
+      }
+      result = result.filter(createFilterMatcher(group));
+    }
+
+    const sortBy = params.get('sortBy');
+    if (sortBy) {
+      const directions = params.get('sortOrder')?.split(',') ?? [];
+      result = sortRows(result, sortBy.split(',').map((key, index) => ({
+        value: (record: MockRecord) => getField(record, key),
+        direction: directions[index] === 'desc' ? 'desc' as const : 'asc' as const,
+      })));
+    }
+
+    let aggregates: ListAggregates | undefined;
+    const aggregate = params.get('aggregate');
+    const groupBy = params.get('groupBy');
+    if (aggregate || groupBy) {
+      const fields: Record<string, AggregateFunction> = {};
+      for (const entry of aggregate?.split(',') ?? []) {
+        const [field, fn] = entry.split(':');
+        if (!field || !AGGREGATE_FUNCTIONS.includes(fn as AggregateFunction)) {
+          return mockError(400, 'INVALID_AGGREGATE', `The aggregate "${entry}" is not valid`);
+        }
+        fields[field] = fn as AggregateFunction;
+      }
+      aggregates = summarizeRows(result, fields, getField, groupBy);
+    }
+
+    const total = result.length;
+    const limit = Math.max(1, Number(params.get('limit')) || total || 1);
+    const page = Math.max(1, Number(params.get('page')) || 1);
+    const data = result.slice((page - 1) * limit, page * limit);
+
+    const body: PaginatedResponse<MockRecord> = {
+      success: true,
+      data,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+      aggregates,
+    };
+    return { status: 200, body };
+  }
+
+  /**
+   * @function handle
+   * @description Routes a request to the matching collection handler.
+   * @param {string} method - HTTP method.
+   * @param {string} url - Request URL (absolute or path-only).
+   * @param {any} [body] - Parsed JSON body.
+   * @param {Headers} [headers] - Request headers.
+   * @returns {Promise<MockResponse>} The response.
+   */
+  async handle(method: string, url: string, body?: any, headers: Headers = new Headers()): Promise<MockResponse> {
+    const { pathname, searchParams } = new URL(url, 'http://mock.local');
+    const { basePath } = this.options;
+
+    const token = headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    if (token && isTokenExpired(token)) {
+      return mockError(401, 'TOKEN_EXPIRED', 'Access token has expired');
+    }
+
+    const custom = this.routes.find(route => route.method === method && route.path === pathname);
+    if (custom) {
+      const response = await custom.handler({ method, path: pathname, params: searchParams, body, headers, db: this.db });
+      if (method !== 'GET') this.save();
+      return response;
+    }
+
+    if (!pathname.startsWith(`${basePath}/`)) {
+      return mockError(404, 'NOT_FOUND', `No mock route for ${method} ${pathname}`);
+    }
+
+    const [resource, id, ...rest] = pathname.slice(basePath.length + 1).split('/').filter(Boolean);
+    const records = this.privateCollections.has(resource) ? undefined : this.db[resource];
+    if (!Array.isArray(records) || rest.length > 0) {
+      return mockError(404, 'NOT_FOUND', `No mock route for ${method} ${pathname}`);
+    }
+
+    if (!id) {
+      if (method === 'GET') return this.list(records, searchParams);
+      if (method === 'POST') {
+        if (!body || typeof body !== 'object') return mockError(400, 'INVALID_BODY', 'Request body must be a JSON object');
+        const record: MockRecord = { ...clone(body), id: body.id ? String(body.id) : Date.now().toString() };
+        if (records.some(existing => existing.id === record.id)) {
+          return mockError(409, 'CONFLICT', `A record with id "${record.id}" already exists`);
+        }
+        records.push(record);
+        this.save();
+        return { status: 201, body: { success: true, data: record } };
+      }
+      return mockError(405, 'METHOD_NOT_ALLOWED', `${method} is not supported on ${pathname}`);
+    }
+
+    const index = records.findIndex(record => record.id === id);
+    if (index === -1) return mockError(404, 'NOT_FOUND', `${resource} "${id}" not found`);
+
+    switch (method) {
+      case 'GET':
+        return { status: 200, body: { success: true, data: records[index] } };
+      case 'PUT':
+      case 'PATCH': {
+        if (!body || typeof body !== 'object') return mockError(400, 'INVALID_BODY', 'Request body must be a JSON object');
+        const base = method === 'PATCH' ? records[index] : {};
+        const updated: MockRecord = { ...base, ...clone(body), id };
+        if ('updatedAt' in records[index] && !('updatedAt' in body)) {
+          updated.updatedAt = new Date().toISOString();
+        }
+        records[index] = updated;
+        this.save();
+        return { status: 200, body: { success: true, data: updated } };
+      }
+      case 'DELETE':
+        records.splice(index, 1);
+        this.save();
+        return { status: 200, body: { success: true, data: { id } } };
+      default:
+        return mockError(405, 'METHOD_NOT_ALLOWED', `${method} is not supported on ${pathname}`);
+    }
+  }
+
+  /**
+   * @function fetch
+   * @description A `fetch`-compatible function backed by this server. Applies the configured latency and
+   * error rate, and rejects with an `AbortError` if the request signal is aborted. Requests to other origins
+   * (e.g., an external OIDC provider) are passed through to the real `fetch`.
+   * @param {RequestInfo | URL} input - The request URL or `Request`.
+   * @param {RequestInit} [init] - Request options.
+   * @returns {Promise<Response>} The mock response.
+   */
+  fetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    if (new URL(url, window.location.origin).origin !== window.location.origin) {
+      return fetch(input, init);
+    }
+    const method = (init.method || (input instanceof Request ? input.method : 'GET')).toUpperCase();
+    const signal = init.signal;
+    const headers = new Headers(init.headers ?? (input instanceof Request ? input.headers : undefined));
+
+    const delay = this.options.latency + Math.random() * this.options.latencyJitter;
+    await new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('The operation was aborted.', 'AbortError'));
+        return;
+      }
+      const timer = setTimeout(resolve, delay);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('The operation was aborted.', 'AbortError'));
+      }, { once: true });
+    });
+
+    let result: MockResponse | null = null;
+    if (Math.random() < this.options.errorRate) {
+      result = mockError(500, 'MOCK_ERROR', 'Simulated server error');
+    }
+
+    let body: any;
+    if (!result && typeof init.body === 'string' && init.body) {
+      try {
+        body = JSON.parse(init.body);
+      } catch {
+        result = mockError(400, 'INVALID_JSON', 'Request body is not valid JSON');
+      }
+    }
+    result = result || await this.handle(method, url, body, headers);
+
+    return new Response(result.body === undefined ? null : JSON.stringify(result.body), {
+      status: result.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * @file AuthCallback.tsx
+ * @description This file defines the OAuth/OIDC callback page, served at `/auth/callback`.
+ * Sign-in providers redirect here with an authorization code; the page hands the URL parameters to
+ * `AuthProvider`, which validates them and exchanges the code, then navigates to the page the
+ * user was going to. Errors are shown with a link back to the login page.
+ */
+import { useEffect, useRef, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { Container, Card, Flex, Heading, Text, Button, Callout, Spinner } from '@radix-ui/themes'
+import { ExclamationTriangleIcon } from '@radix-ui/react-icons'
+import { useAuth } from '../../lib/auth-context'
+
+/**
+ * @function AuthCallback
+ * @description A component that completes a sign-in started with an external provider.
+ * @returns {JSX.Element} The rendered callback page.
+ */
+export default function AuthCallback() {
+  const { completeProviderLogin } = useAuth(); // Auth context for finishing the provider sign-in
+  const navigate = useNavigate(); // React Router hook for navigation
+  const [searchParams] = useSearchParams(); // Hook to access the callback's query parameters
+  const [error, setError] = useState<string | null>(null); // Error message if the sign-in fails
+  const hasRun = useRef(false); // The authorization code is single-use, so the exchange must run only once
+
+  useEffect(() => {
+    if (hasRun.current) return;
+    hasRun.current = true;
+
+    completeProviderLogin(searchParams).then(result => {
+      if (result.success) {
+        navigate(result.returnTo || '/dashboard', { replace: true });
+      } else {
+        setError(result.error || 'Sign-in failed. Please try again.');
+      }
+    });
+  }, [completeProviderLogin, searchParams, navigate]);
+
+  return (
+    <Flex align="center" justify="center" style={{ minHeight: '100vh' }}>
+      <Container size="1">
+        <Card size="4" style={{ width: '100%' }}>
+          {error ? (
+            <Flex direction="column" gap="4">
+              <Heading size="6" align="center">Sign-in failed</Heading>
+              <Callout.Root color="red" role="alert">
+                <Callout.Icon>
+                  <ExclamationTriangleIcon />
+                </Callout.Icon>
+                <Callout.Text>{error}</Callout.Text>
+              </Callout.Root>
+              <Button size="3" onClick={() => navigate('/login', { replace: true })}>
+                Back to sign in
+              </Button>
+            </Flex>
+          ) : (
+            <Flex direction="column" align="center" gap="3">
+              <Spinner size="3" />
+              <Text color="gray">Completing sign-in...</Text>
+            </Flex>
+          )}
+        </Card>
+      </Container>
+    </Flex>
+  )
+}
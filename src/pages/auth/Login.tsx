@@ -1,14 +1,16 @@
 /**
  * @file Login.tsx
  * @description This file defines the Login page component.
- * It allows users to sign in using their email and password.
+ * It allows users to sign in using their email and password, or with an external provider
+ * (e.g., Google or GitHub) when the current auth mode supports one.
  * It includes form validation, handles login attempts, displays errors,
  * and provides links for password recovery and registration.
+ * Accounts with two-factor authentication get a second step asking for an authenticator or recovery code.
  */
 import { useState } from 'react'
 import { Link, useNavigate } from 'react-router-dom'
 import { Container, Card, Flex, Heading, Text, TextField, Button, Separator, Box, IconButton, Callout } from '@radix-ui/themes'
-import { EnvelopeClosedIcon, LockClosedIcon, SunIcon, MoonIcon, EyeOpenIcon, EyeClosedIcon, ExclamationTriangleIcon } from '@radix-ui/react-icons'
+import { EnvelopeClosedIcon, LockClosedIcon, SunIcon, MoonIcon, EyeOpenIcon, EyeClosedIcon, ExclamationTriangleIcon, MobileIcon } from '@radix-ui/react-icons'
 import { useTheme } from '../../lib/theme-context'
 import { useAuth } from '../../lib/auth-context'
 import { validateEmail, validatePassword } from '../../lib/validation' // Validation utilities
@@ -36,7 +38,7 @@ type LoginErrors = {
  */
 export default function Login() {
   const { theme, toggleTheme } = useTheme(); // Theme context for light/dark mode toggle
-  const { login } = useAuth(); // Auth context for login functionality
+  const { login, authMode, providers, loginWithProvider } = useAuth(); // Auth context for login functionality
   const navigate = useNavigate(); // React Router hook for navigation
 
   const [email, setEmail] = useState(''); // State for email input
@@ -44,6 +46,28 @@ export default function Login() {
   const [showPassword, setShowPassword] = useState(false); // State to toggle password visibility
   const [isLoading, setIsLoading] = useState(false); // State to manage loading status during login
   const [errors, setErrors] = useState<LoginErrors>({}); // State for storing form errors
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(false); // True once the password was accepted but a second factor is required
+
+  /**
+   * @function handleProviderLogin
+   * @description Starts a sign-in with an external provider. Redirect-based providers leave the page;
+   * others sign in immediately and navigate to the dashboard.
+   * @param {string} providerId - The provider to sign in with.
+   */
+  const handleProviderLogin = async (providerId: string) => {
+    setErrors({});
+    setIsLoading(true);
+
+    const result = await loginWithProvider(providerId);
+
+    if (result.redirecting) return; // The browser is navigating to the provider
+    if (result.success) {
+      navigate('/dashboard');
+    } else {
+      setErrors({ general: result.error });
+      setIsLoading(false);
+    }
+  };
 
   /**
    * @function handleSubmit
@@ -73,6 +97,9 @@ export default function Login() {
 
     if (result.success) {
       navigate('/dashboard'); // Navigate to dashboard on successful login
+    } else if (result.twoFactorRequired) {
+      setNeedsTwoFactor(true); // Ask for the authenticator or recovery code
+      setIsLoading(false);
     } else {
       // Set general error from login attempt (e.g., "Invalid credentials")
       setErrors({ general: result.error });
@@ -94,6 +121,15 @@ export default function Login() {
       
       <Container size="1"> {/* Container for width constraint */}
         <Card size="4" style={{ width: '100%' }} maxWidth="400px"> {/* Card takes full width of container, but max width */}
+          {needsTwoFactor ? (
+            <TwoFactorStep
+              onVerified={() => navigate('/dashboard')}
+              onCancel={() => {
+                setNeedsTwoFactor(false);
+                setPassword('');
+              }}
+            />
+          ) : (
           <form onSubmit={handleSubmit}>
             <Flex direction="column" gap="4">
               <Flex direction="column" align="center" gap="2" mb="4">
@@ -110,79 +146,94 @@ export default function Login() {
               </Callout.Root>
             )}
 
-            <Flex direction="column" gap="3">
-              <Box>
-                <Text as="div" size="2" weight="medium" mb="1"> {/* display: 'block', marginBottom: '4px' */}
-                  Email
-                </Text>
-                <TextField.Root 
-                  placeholder="Enter your email"
-                  type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  color={errors.email ? "red" : undefined}
-                  variant={errors.email ? "soft" : undefined}
-                >
-                  <TextField.Slot>
-                    <EnvelopeClosedIcon height="16" width="16" />
-                  </TextField.Slot>
-                </TextField.Root>
-                {errors.email && (
-                  <Text size="1" color="red" mt="1">{errors.email}</Text>
-                )}
-              </Box>
-
-              <Box>
-                <Flex justify="between" align="center" mb="1">
-                  <Text size="2" weight="medium">
-                    Password
+            {/* Password sign-in is not available when users sign in through an identity provider */}
+            {authMode !== 'oidc' && (
+              <>
+              <Flex direction="column" gap="3">
+                <Box>
+                  <Text as="div" size="2" weight="medium" mb="1"> {/* display: 'block', marginBottom: '4px' */}
+                    Email
                   </Text>
-                  <Link to="/forgot-password" asChild>
-                    <Text size="1" color="gray" style={{ cursor: 'pointer' }}>Forgot password?</Text>
-                  </Link>
-                </Flex>
-                <TextField.Root 
-                  placeholder="Enter your password" 
-                  type={showPassword ? "text" : "password"}
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  color={errors.password ? "red" : undefined}
-                  variant={errors.password ? "soft" : undefined}
-                >
-                  <TextField.Slot>
-                    <LockClosedIcon height="16" width="16" />
-                  </TextField.Slot>
-                  <TextField.Slot side="right">
-                    <IconButton
-                      size="1"
-                      variant="ghost"
-                      type="button"
-                      onClick={() => setShowPassword(!showPassword)}
-                    >
-                      {showPassword ? <EyeClosedIcon /> : <EyeOpenIcon />}
-                    </IconButton>
-                  </TextField.Slot>
-                </TextField.Root>
-                {errors.password && (
-                  <Text size="1" color="red" mt="1">{errors.password}</Text>
-                )}
-              </Box>
-            </Flex>
+                  <TextField.Root 
+                    placeholder="Enter your email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    color={errors.email ? "red" : undefined}
+                    variant={errors.email ? "soft" : undefined}
+                  >
+                    <TextField.Slot>
+                      <EnvelopeClosedIcon height="16" width="16" />
+                    </TextField.Slot>
+                  </TextField.Root>
+                  {errors.email && (
+                    <Text size="1" color="red" mt="1">{errors.email}</Text>
+                  )}
+                </Box>
 
-            <Button size="3" mt="2" type="submit" loading={isLoading}> {/* marginTop: '8px' -> mt="2" */}
-              Sign In
-            </Button>
+                <Box>
+                  <Flex justify="between" align="center" mb="1">
+                    <Text size="2" weight="medium">
+                      Password
+                    </Text>
+                    <Link to="/forgot-password" asChild>
+                      <Text size="1" color="gray" style={{ cursor: 'pointer' }}>Forgot password?</Text>
+                    </Link>
+                  </Flex>
+                  <TextField.Root 
+                    placeholder="Enter your password" 
+                    type={showPassword ? "text" : "password"}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    color={errors.password ? "red" : undefined}
+                    variant={errors.password ? "soft" : undefined}
+                  >
+                    <TextField.Slot>
+                      <LockClosedIcon height="16" width="16" />
+                    </TextField.Slot>
+                    <TextField.Slot side="right">
+                      <IconButton
+                        size="1"
+                        variant="ghost"
+                        type="button"
+                        onClick={() => setShowPassword(!showPassword)}
+                      >
+                        {showPassword ? <EyeClosedIcon /> : <EyeOpenIcon />}
+                      </IconButton>
+                    </TextField.Slot>
+                  </TextField.Root>
+                  {errors.password && (
+                    <Text size="1" color="red" mt="1">{errors.password}</Text>
+                  )}
+                </Box>
+              </Flex>
 
-            <Separator my="4" />
-
-            <Flex direction="column" gap="2">
-              <Button variant="outline" size="3" type="button">
-                Continue with Google
-              </Button>
-              <Button variant="outline" size="3" type="button">
-                Continue with GitHub
+              <Button size="3" mt="2" type="submit" loading={isLoading}> {/* marginTop: '8px' -> mt="2" */}
+                Sign In
               </Button>
-            </Flex>
+              </>
+            )}
+
+            {providers.length > 0 && (
+              <>
+                {authMode !== 'oidc' && <Separator my="4" />}
+
+                <Flex direction="column" gap="2">
+                  {providers.map(provider => (
+                    <Button
+                      key={provider.id}
+                      variant="outline"
+                      size="3"
+                      type="button"
+                      disabled={isLoading}
+                      onClick={() => handleProviderLogin(provider.id)}
+                    >
+                      Continue with {provider.name}
+                    </Button>
+                  ))}
+                </Flex>
+              </>
+            )}
 
             <Flex justify="center" gap="1" mt="4">
               <Text size="2" color="gray">
@@ -196,8 +247,120 @@ export default function Login() {
             </Flex>
           </Flex>
         </form>
+          )}
         </Card>
       </Container>
     </Flex>
   )
-}
\ No newline at end of file
+}
+
+/**
+ * @interface TwoFactorStepProps
+ * @description Defines the props for the TwoFactorStep component.
+ * @property {() => void} onVerified - Called once the code has been accepted and the user is signed in.
+ * @property {() => void} onCancel - Called when the user goes back to the email and password form.
+ */
+interface TwoFactorStepProps {
+  onVerified: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * @function TwoFactorStep
+ * @description The second sign-in step for accounts with two-factor authentication.
+ * Accepts either a 6-digit code from the authenticator app or one of the account's recovery codes.
+ * @param {TwoFactorStepProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered verification form.
+ */
+function TwoFactorStep({ onVerified, onCancel }: TwoFactorStepProps) {
+  const { verifyTwoFactor, cancelTwoFactor } = useAuth();
+  const [code, setCode] = useState(''); // The entered TOTP or recovery code
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false); // Switches the input between the two kinds of code
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) {
+      setError(useRecoveryCode ? 'Enter one of your recovery codes' : 'Enter the code from your authenticator app');
+      return;
+    }
+
+    setError(null);
+    setIsVerifying(true);
+    const result = await verifyTwoFactor(code.trim());
+    if (result.success) {
+      onVerified();
+    } else {
+      setError(result.error || 'Verification failed. Please try again.');
+      setCode('');
+      setIsVerifying(false);
+    }
+  };
+
+  const handleCancel = () => {
+    cancelTwoFactor();
+    onCancel();
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <Flex direction="column" gap="4">
+        <Flex direction="column" align="center" gap="2" mb="4">
+          <Heading size="6">Two-factor authentication</Heading>
+          <Text color="gray" align="center">
+            {useRecoveryCode
+              ? 'Enter one of the recovery codes you saved when you set up two-factor authentication.'
+              : 'Enter the 6-digit code from your authenticator app.'}
+          </Text>
+        </Flex>
+
+        {error && (
+          <Callout.Root color="red" role="alert">
+            <Callout.Icon>
+              <ExclamationTriangleIcon />
+            </Callout.Icon>
+            <Callout.Text>{error}</Callout.Text>
+          </Callout.Root>
+        )}
+
+        <TextField.Root
+          size="3"
+          autoFocus
+          placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          autoComplete="one-time-code"
+          maxLength={useRecoveryCode ? 11 : 6}
+        >
+          <TextField.Slot>
+            {useRecoveryCode ? <LockClosedIcon height="16" width="16" /> : <MobileIcon height="16" width="16" />}
+          </TextField.Slot>
+        </TextField.Root>
+
+        <Button size="3" type="submit" loading={isVerifying}>
+          Verify
+        </Button>
+
+        <Flex justify="between" mt="2">
+          <Button
+            variant="ghost"
+            size="2"
+            type="button"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setCode('');
+              setError(null);
+            }}
+          >
+            {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+          </Button>
+          <Button variant="ghost" size="2" color="gray" type="button" onClick={handleCancel}>
+            Back to sign in
+          </Button>
+        </Flex>
+      </Flex>
+    </form>
+  )
+}
@@ -60,7 +60,7 @@ type RegisterErrors = {
  */
 export default function Register() {
   const { theme, toggleTheme } = useTheme(); // Theme context for light/dark mode
-  const { register } = useAuth(); // Auth context for registration functionality
+  const { register, providers, loginWithProvider } = useAuth(); // Auth context for registration functionality
   const navigate = useNavigate(); // React Router hook for navigation
 
   const [formData, setFormData] = useState<RegisterFormData>({
@@ -75,6 +75,27 @@ export default function Register() {
   const [isLoading, setIsLoading] = useState(false); // Manage loading state during registration
   const [errors, setErrors] = useState<RegisterErrors>({}); // Store form validation errors
 
+  /**
+   * @function handleProviderLogin
+   * @description Signs up with an external provider. Redirect-based providers leave the page;
+   * others sign in immediately and navigate to the dashboard.
+   * @param {string} providerId - The provider to sign up with.
+   */
+  const handleProviderLogin = async (providerId: string) => {
+    setErrors({});
+    setIsLoading(true);
+
+    const result = await loginWithProvider(providerId);
+
+    if (result.redirecting) return; // The browser is navigating to the provider
+    if (result.success) {
+      navigate('/dashboard');
+    } else {
+      setErrors({ general: result.error });
+      setIsLoading(false);
+    }
+  };
+
   /**
    * @function handleSubmit
    * @description Handles the registration form submission.
@@ -272,16 +293,26 @@ export default function Register() {
               Create Account
             </Button>
 
-            <Separator my="4" />
+            {providers.length > 0 && (
+              <>
+                <Separator my="4" />
 
-            <Flex direction="column" gap="2">
-              <Button variant="outline" size="3" type="button">
-                Continue with Google
-              </Button>
-              <Button variant="outline" size="3" type="button">
-                Continue with GitHub
-              </Button>
-            </Flex>
+                <Flex direction="column" gap="2">
+                  {providers.map(provider => (
+                    <Button
+                      key={provider.id}
+                      variant="outline"
+                      size="3"
+                      type="button"
+                      disabled={isLoading}
+                      onClick={() => handleProviderLogin(provider.id)}
+                    >
+                      Continue with {provider.name}
+                    </Button>
+                  ))}
+                </Flex>
+              </>
+            )}
 
             <Flex justify="center" gap="1" mt="4">
               <Text size="2" color="gray">
@@ -3,7 +3,9 @@
  * @description This file defines the Orders page component for the dashboard.
  * It displays a list of customer orders using a DataTable, allowing users to
  * view order details, update status, and perform other order-related actions.
- * All data displayed is currently mock data.
+ * Data is loaded from `/api/orders` one page at a time (the table runs in server mode, so searching, sorting
+ * and paging happen on the server), which is served by the in-process mock backend in demo mode.
+ * Each order can be expanded in place to list its line items in a nested table.
  */
 import { useState } from 'react'
 import {
@@ -30,7 +32,12 @@ import {
   CubeIcon as PackageIcon,
   ReloadIcon
 } from '@radix-ui/react-icons'
-import DataTable from '../../components/DataTable' // Reusable DataTable component
+import DataTable, { toListParams, type DataTableQuery } from '../../components/DataTable' // Reusable DataTable component
+import { useQuery, useMutation } from '../../lib/query'
+import { apiClient } from '../../lib/api-client'
+import type { ApiResponse, PaginatedResponse } from '../../types'
+import { useToast } from '../../components/notifications/toast-context'
+import { Can } from '../../lib/auth-context'
 
 /**
  * @interface OrderItem
@@ -67,7 +74,7 @@ type OrderStatus = 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancell
  * @property {string} createdAt - ISO date string representing when the order was created.
  * @property {string} updatedAt - ISO date string representing when the order was last updated.
  */
-interface Order {
+export interface Order {
   id: string;
   orderNumber: string;
   customer: {
@@ -83,169 +90,59 @@ interface Order {
   updatedAt: string; // Should ideally be Date object or ISO string
 }
 
-// TODO: Replace mockOrders with actual data fetched from an API or data source.
 /**
- * @const mockOrders
- * @description An array of mock order data used for demonstration purposes.
+ * @const ORDERS_QUERY_KEY
+ * @description Cache key prefix for the order pages, shared by the query and the status mutation.
  */
-const mockOrders: Order[] = [
-  {
-    id: '1',
-    orderNumber: 'ORD-2024-001',
-    customer: {
-      name: 'John Doe',
-      email: 'john.doe@example.com'
-    },
-    items: [
-      { id: '1', name: 'Wireless Headphones', quantity: 1, price: 99.99 },
-      { id: '2', name: 'Phone Case', quantity: 2, price: 19.99 }
-    ],
-    total: 139.97,
-    status: 'delivered',
-    paymentMethod: 'Credit Card',
-    shippingAddress: '123 Main St, New York, NY 10001',
-    createdAt: '2024-03-15T10:30:00',
-    updatedAt: '2024-03-18T14:20:00'
-  },
-  {
-    id: '2',
-    orderNumber: 'ORD-2024-002',
-    customer: {
-      name: 'Jane Smith',
-      email: 'jane.smith@example.com'
-    },
-    items: [
-      { id: '3', name: 'Smart Watch', quantity: 1, price: 249.99 }
-    ],
-    total: 249.99,
-    status: 'shipped',
-    paymentMethod: 'PayPal',
-    shippingAddress: '456 Oak Ave, Los Angeles, CA 90001',
-    createdAt: '2024-03-16T09:15:00',
-    updatedAt: '2024-03-17T11:45:00'
-  },
-  {
-    id: '3',
-    orderNumber: 'ORD-2024-003',
-    customer: {
-      name: 'Bob Johnson',
-      email: 'bob.johnson@example.com'
-    },
-    items: [
-      { id: '4', name: 'Running Shoes', quantity: 1, price: 89.99 },
-      { id: '5', name: 'Sports Socks', quantity: 3, price: 12.99 }
-    ],
-    total: 128.96,
-    status: 'processing',
-    paymentMethod: 'Credit Card',
-    shippingAddress: '789 Pine St, Chicago, IL 60601',
-    createdAt: '2024-03-17T14:20:00',
-    updatedAt: '2024-03-17T14:20:00'
-  },
-  {
-    id: '4',
-    orderNumber: 'ORD-2024-004',
-    customer: {
-      name: 'Alice Williams',
-      email: 'alice.williams@example.com'
-    },
-    items: [
-      { id: '6', name: 'Laptop Backpack', quantity: 1, price: 49.99 },
-      { id: '7', name: 'Water Bottle', quantity: 2, price: 19.99 }
-    ],
-    total: 89.97,
-    status: 'pending',
-    paymentMethod: 'Debit Card',
-    shippingAddress: '321 Elm St, Houston, TX 77001',
-    createdAt: '2024-03-18T08:45:00',
-    updatedAt: '2024-03-18T08:45:00'
-  },
-  {
-    id: '5',
-    orderNumber: 'ORD-2024-005',
-    customer: {
-      name: 'Charlie Brown',
-      email: 'charlie.brown@example.com'
-    },
-    items: [
-      { id: '8', name: 'Bluetooth Speaker', quantity: 1, price: 79.99 }
-    ],
-    total: 79.99,
-    status: 'cancelled',
-    paymentMethod: 'Credit Card',
-    shippingAddress: '654 Maple Dr, Phoenix, AZ 85001',
-    createdAt: '2024-03-18T11:30:00',
-    updatedAt: '2024-03-18T15:00:00'
-  },
-  {
-    id: '6',
-    orderNumber: 'ORD-2024-006',
-    customer: {
-      name: 'Eva Davis',
-      email: 'eva.davis@example.com'
-    },
-    items: [
-      { id: '9', name: 'Yoga Mat', quantity: 1, price: 29.99 },
-      { id: '10', name: 'Resistance Bands', quantity: 1, price: 24.99 }
-    ],
-    total: 54.98,
-    status: 'shipped',
-    paymentMethod: 'Apple Pay',
-    shippingAddress: '987 Cedar Ln, Seattle, WA 98101',
-    createdAt: '2024-03-19T13:00:00',
-    updatedAt: '2024-03-20T09:30:00'
-  },
-  {
-    id: '7',
-    orderNumber: 'ORD-2024-007',
-    customer: {
-      name: 'Frank Miller',
-      email: 'frank.miller@example.com'
-    },
-    items: [
-      { id: '11', name: 'Coffee Maker', quantity: 1, price: 149.99 },
-      { id: '12', name: 'Coffee Beans', quantity: 2, price: 14.99 }
-    ],
-    total: 179.97,
-    status: 'processing',
-    paymentMethod: 'Credit Card',
-    shippingAddress: '147 Birch Rd, Boston, MA 02101',
-    createdAt: '2024-03-20T10:15:00',
-    updatedAt: '2024-03-20T10:15:00'
-  },
-  {
-    id: '8',
-    orderNumber: 'ORD-2024-008',
-    customer: {
-      name: 'Grace Wilson',
-      email: 'grace.wilson@example.com'
-    },
-    items: [
-      { id: '13', name: 'Desk Lamp', quantity: 1, price: 39.99 },
-      { id: '14', name: 'Notebook Set', quantity: 1, price: 12.99 }
-    ],
-    total: 52.98,
-    status: 'delivered',
-    paymentMethod: 'PayPal',
-    shippingAddress: '258 Spruce Ave, Denver, CO 80201',
-    createdAt: '2024-03-14T16:45:00',
-    updatedAt: '2024-03-17T10:00:00'
-  }
-  // ... more mock orders
-]
+const ORDERS_QUERY_KEY = ['orders']
+
+/**
+ * @function fetchOrders
+ * @description Fetches one page of orders from `GET /api/orders`.
+ * @param {DataTableQuery} query - The page, sort, search and filters requested by the table.
+ * @param {{ signal: AbortSignal }} context - Query context with the abort signal.
+ * @returns {Promise<PaginatedResponse<Order>>} The page of orders with its pagination metadata.
+ */
+const fetchOrders = (query: DataTableQuery, { signal }: { signal: AbortSignal }): Promise<PaginatedResponse<Order>> =>
+  apiClient.get<PaginatedResponse<Order>>('/api/orders', toListParams(query), { signal });
+
+/**
+ * @function updateOrderStatus
+ * @description Persists a new status for an order with `PATCH /api/orders/:id`.
+ * @param {{ id: string; status: OrderStatus }} variables - The order ID and its new status.
+ * @returns {Promise<Order | undefined>} The updated order.
+ */
+const updateOrderStatus = async ({ id, status }: { id: string; status: OrderStatus }): Promise<Order | undefined> => {
+  const response = await apiClient.patch<ApiResponse<Order>>(`/api/orders/${id}`, { status });
+  return response.data;
+};
 
 /**
  * @function Orders
  * @description The main component for the Orders page.
  * It displays a table of orders, allows viewing order details in a dialog,
  * and provides actions for each order (e.g., updating status).
- * Currently uses mock data.
+ * Data is loaded through `useQuery` and status changes are applied optimistically with `useMutation`.
  * @returns {JSX.Element} The rendered Orders page.
  */
 export default function Orders() {
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const [orders, _setOrders] = useState<Order[]>(mockOrders); // State for orders data, initialized with mock data
-                                                          // `_setOrders` would be used if fetching/updating data
+  const { showToast } = useToast();
+  const [tableQuery, setTableQuery] = useState<DataTableQuery | null>(null); // Reported by the table once mounted
+  const ordersKey = [...ORDERS_QUERY_KEY, tableQuery];
+  const { data: ordersPage, error, refetch } = useQuery(
+    ordersKey,
+    context => fetchOrders(tableQuery!, context),
+    { staleTime: 30 * 1000, enabled: tableQuery !== null }
+  );
+  const statusMutation = useMutation(updateOrderStatus, {
+    optimisticUpdate: {
+      queryKey: ordersKey,
+      updater: (current: PaginatedResponse<Order> | null, { id, status }) =>
+        current && { ...current, data: (current.data || []).map(order => order.id === id ? { ...order, status } : order) }
+    },
+    invalidateQueries: [ORDERS_QUERY_KEY],
+    onError: (error) => showToast({ type: 'error', title: 'Failed to update order', description: error.message })
+  });
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null); // State for the currently viewed order details
   const [isDetailsOpen, setIsDetailsOpen] = useState(false); // State to control the visibility of the order details dialog
   const [selectedRows, setSelectedRows] = useState<Order[]>([]); // State for rows selected in the DataTable
@@ -271,6 +168,7 @@ export default function Orders() {
       key: 'customer.name',
       header: 'Customer',
       sortable: true,
+      groupable: true,
       render: (_: any, order: any) => (
         <Box>
           <Text size="2">{order.customer.name}</Text>
@@ -281,6 +179,7 @@ export default function Orders() {
     {
       key: 'items',
       header: 'Items',
+      exportValue: (items: OrderItem[]) => items.reduce((sum, item) => sum + item.quantity, 0), // A count, not the objects
       render: (items: OrderItem[]) => (
         <Text size="2">{items.reduce((sum, item) => sum + item.quantity, 0)} items</Text>
       )
@@ -289,6 +188,10 @@ export default function Orders() {
       key: 'total',
       header: 'Total',
       sortable: true,
+      filter: { type: 'number' as const },
+      exportFormat: '$#,##0.00',
+      aggregate: 'sum' as const,
+      renderAggregate: (total: number) => `$${total.toFixed(2)}`,
       render: (total: any) => (
         <Text size="2" weight="medium">${total.toFixed(2)}</Text>
       )
@@ -306,6 +209,17 @@ export default function Orders() {
       key: 'status',
       header: 'Status',
       sortable: true,
+      groupable: true,
+      filter: {
+        type: 'enum' as const,
+        options: [
+          { value: 'pending', label: 'Pending' },
+          { value: 'processing', label: 'Processing' },
+          { value: 'shipped', label: 'Shipped' },
+          { value: 'delivered', label: 'Delivered' },
+          { value: 'cancelled', label: 'Cancelled' }
+        ]
+      },
       render: (status: any) => {
         const statusConfig = {
           pending: { color: 'orange' as const, icon: <ClockIcon /> },
@@ -329,10 +243,63 @@ export default function Orders() {
       key: 'updatedAt',
       header: 'Last Updated',
       sortable: true,
+      filter: { type: 'date' as const },
       render: (date: any) => new Date(date).toLocaleDateString()
     }
   ]
 
+  /**
+   * @const itemColumns
+   * @description Configuration for the columns of the nested DataTable listing an order's line items.
+   */
+  const itemColumns = [
+    {
+      key: 'name',
+      header: 'Product'
+    },
+    {
+      key: 'quantity',
+      header: 'Quantity',
+      align: 'right' as const,
+      aggregate: 'sum' as const
+    },
+    {
+      key: 'price',
+      header: 'Unit Price',
+      align: 'right' as const,
+      exportFormat: '$#,##0.00',
+      render: (price: number) => `$${price.toFixed(2)}`
+    },
+    {
+      key: 'subtotal',
+      header: 'Subtotal',
+      align: 'right' as const,
+      exportFormat: '$#,##0.00',
+      aggregate: 'sum' as const,
+      render: (subtotal: number) => `$${subtotal.toFixed(2)}`,
+      renderAggregate: (subtotal: number) => `$${subtotal.toFixed(2)}`
+    }
+  ]
+
+  /**
+   * @function renderItems
+   * @description Renders the line items of an expanded order in a nested DataTable, with their subtotals.
+   * @param {Order} order - The expanded order.
+   * @returns {JSX.Element} The nested table.
+   */
+  const renderItems = (order: Order) => (
+    <Box py="2">
+      <DataTable
+        data={order.items.map(item => ({ ...item, subtotal: item.price * item.quantity }))}
+        columns={itemColumns}
+        searchPlaceholder="Search items..."
+        title={`Order ${order.orderNumber} items`}
+        emptyMessage="No items in this order"
+        showColumnToggle={false}
+      />
+    </Box>
+  );
+
   /**
    * @function handleViewDetails
    * @description Sets the selected order and opens the details dialog.
@@ -345,17 +312,13 @@ export default function Orders() {
 
   /**
    * @function handleUpdateStatus
-   * @description Placeholder function to simulate updating an order's status.
-   * In a real application, this would involve an API call.
+   * @description Updates an order's status. The table reflects the change immediately and
+   * rolls back if the update fails.
    * @param {string} orderId - The ID of the order to update.
    * @param {OrderStatus} newStatus - The new status for the order.
    */
   const handleUpdateStatus = (orderId: string, newStatus: OrderStatus) => {
-    // In a real app, this would update the order status via an API call
-    // and then potentially update the local state or re-fetch data.
-    console.log(`Updating order ${orderId} to status ${newStatus}`);
-    // Example of updating local state (for demo purposes, not fully implemented here):
-    // setOrders(prevOrders => prevOrders.map(o => o.id === orderId ? {...o, status: newStatus} : o));
+    statusMutation.mutate({ id: orderId, status: newStatus });
   };
 
   /**
@@ -377,34 +340,36 @@ export default function Orders() {
           <EyeOpenIcon />
           View Details
         </DropdownMenu.Item>
-        <DropdownMenu.Separator />
-        <DropdownMenu.Sub>
-          <DropdownMenu.SubTrigger>
-            Update Status
-          </DropdownMenu.SubTrigger>
-          <DropdownMenu.SubContent>
-            <DropdownMenu.Item onClick={() => handleUpdateStatus(order.id, 'pending')}>
-              <ClockIcon />
-              Pending
-            </DropdownMenu.Item>
-            <DropdownMenu.Item onClick={() => handleUpdateStatus(order.id, 'processing')}>
-              <ReloadIcon />
-              Processing
-            </DropdownMenu.Item>
-            <DropdownMenu.Item onClick={() => handleUpdateStatus(order.id, 'shipped')}>
-              <PackageIcon />
-              Shipped
-            </DropdownMenu.Item>
-            <DropdownMenu.Item onClick={() => handleUpdateStatus(order.id, 'delivered')}>
-              <CheckIcon />
-              Delivered
-            </DropdownMenu.Item>
-            <DropdownMenu.Item onClick={() => handleUpdateStatus(order.id, 'cancelled')}>
-              <Cross2Icon />
-              Cancelled
-            </DropdownMenu.Item>
-          </DropdownMenu.SubContent>
-        </DropdownMenu.Sub>
+        <Can permission="orders:write">
+          <DropdownMenu.Separator />
+          <DropdownMenu.Sub>
+            <DropdownMenu.SubTrigger>
+              Update Status
+            </DropdownMenu.SubTrigger>
+            <DropdownMenu.SubContent>
+              <DropdownMenu.Item onClick={() => handleUpdateStatus(order.id, 'pending')}>
+                <ClockIcon />
+                Pending
+              </DropdownMenu.Item>
+              <DropdownMenu.Item onClick={() => handleUpdateStatus(order.id, 'processing')}>
+                <ReloadIcon />
+                Processing
+              </DropdownMenu.Item>
+              <DropdownMenu.Item onClick={() => handleUpdateStatus(order.id, 'shipped')}>
+                <PackageIcon />
+                Shipped
+              </DropdownMenu.Item>
+              <DropdownMenu.Item onClick={() => handleUpdateStatus(order.id, 'delivered')}>
+                <CheckIcon />
+                Delivered
+              </DropdownMenu.Item>
+              <DropdownMenu.Item onClick={() => handleUpdateStatus(order.id, 'cancelled')}>
+                <Cross2Icon />
+                Cancelled
+              </DropdownMenu.Item>
+            </DropdownMenu.SubContent>
+          </DropdownMenu.Sub>
+        </Can>
       </DropdownMenu.Content>
     </DropdownMenu.Root>
   )
@@ -417,11 +382,13 @@ export default function Orders() {
           <Text color="gray">Manage and track customer orders</Text>
         </Box>
         <Flex gap="3">
-          {selectedRows.length > 0 && (
-            <Button variant="soft">
-              Process ({selectedRows.length})
-            </Button>
-          )}
+          <Can permission="orders:write">
+            {selectedRows.length > 0 && (
+              <Button variant="soft">
+                Process ({selectedRows.length})
+              </Button>
+            )}
+          </Can>
           <Button variant="soft">
             <DownloadIcon />
             Export
@@ -430,12 +397,20 @@ export default function Orders() {
       </Flex>
 
       <DataTable
-        data={orders}
+        mode="server"
+        response={ordersPage}
+        onQueryChange={setTableQuery}
+        loading={!ordersPage && !error} // Also before the first request, and while a new key is idle
+        error={error && { message: `Failed to load orders: ${error.message}` }}
+        onRetry={refetch}
         columns={columns}
         searchPlaceholder="Search orders..."
+        title="Orders"
+        viewId="orders"
         selectable
         onSelectionChange={setSelectedRows}
         actions={actions}
+        renderExpanded={renderItems}
       />
 
       {/* Order Details Dialog */}
@@ -522,9 +497,11 @@ export default function Orders() {
                     Close
                   </Button>
                 </Dialog.Close>
-                <Button>
-                  Update Order
-                </Button>
+                <Can permission="orders:write">
+                  <Button>
+                    Update Order
+                  </Button>
+                </Can>
               </Flex>
             </Box>
           )}
@@ -3,8 +3,9 @@
  * @description This file defines the Products page component for the dashboard.
  * It allows users to manage their product catalog, including viewing, adding,
  * editing, and deleting products. It features a DataTable for displaying products
- * and dialogs for create/edit/delete operations.
- * All data displayed is currently mock data.
+ * and dialogs for create/edit/delete operations, offered to users allowed to manage products (`products:write`),
+ * who can also edit prices, stock and statuses inline in the table.
+ * Data is loaded from `/api/products`, which is served by the in-process mock backend in demo mode.
  */
 import { useState } from 'react'
 import {
@@ -31,7 +32,13 @@ import {
   CopyIcon,
   EyeOpenIcon
 } from '@radix-ui/react-icons'
-import DataTable from '../../components/DataTable' // Reusable DataTable component
+import DataTable, { type DataTableRowChange } from '../../components/DataTable' // Reusable DataTable component
+import { validators } from '../../components/ui/FormField'
+import { useQuery, useMutation } from '../../lib/query'
+import { apiClient } from '../../lib/api-client'
+import type { ApiResponse, PaginatedResponse } from '../../types'
+import { useToast } from '../../components/notifications/toast-context'
+import { Can, useCan } from '../../lib/auth-context'
 
 /**
  * @typedef {'active' | 'draft' | 'archived'} ProductStatus
@@ -53,7 +60,7 @@ type ProductStatus = 'active' | 'draft' | 'archived';
  * @property {string} createdAt - ISO date string representing when the product was created.
  * @property {string} updatedAt - ISO date string representing when the product was last updated.
  */
-interface Product {
+export interface Product {
   id: string;
   name: string;
   sku: string;
@@ -66,126 +73,6 @@ interface Product {
   updatedAt: string; // Should ideally be Date object or ISO string
 }
 
-// TODO: Replace mockProducts with actual data fetched from an API or data source.
-/**
- * @const mockProducts
- * @description An array of mock product data used for demonstration purposes.
- */
-const mockProducts: Product[] = [
-  {
-    id: '1',
-    name: 'Wireless Headphones',
-    sku: 'WH-001',
-    category: 'Electronics',
-    price: 99.99,
-    stock: 150,
-    status: 'active',
-    description: 'High-quality wireless headphones with noise cancellation',
-    createdAt: '2024-01-15',
-    updatedAt: '2024-03-15'
-  },
-  {
-    id: '2',
-    name: 'Smart Watch',
-    sku: 'SW-002',
-    category: 'Electronics',
-    price: 249.99,
-    stock: 75,
-    status: 'active',
-    createdAt: '2024-01-20',
-    updatedAt: '2024-03-10'
-  },
-  {
-    id: '3',
-    name: 'Running Shoes',
-    sku: 'RS-003',
-    category: 'Footwear',
-    price: 89.99,
-    stock: 200,
-    status: 'active',
-    createdAt: '2024-02-01',
-    updatedAt: '2024-03-18'
-  },
-  {
-    id: '4',
-    name: 'Laptop Backpack',
-    sku: 'LB-004',
-    category: 'Accessories',
-    price: 49.99,
-    stock: 0,
-    status: 'active',
-    createdAt: '2024-02-05',
-    updatedAt: '2024-03-20'
-  },
-  {
-    id: '5',
-    name: 'Bluetooth Speaker',
-    sku: 'BS-005',
-    category: 'Electronics',
-    price: 79.99,
-    stock: 100,
-    status: 'draft',
-    createdAt: '2024-02-10',
-    updatedAt: '2024-03-19'
-  },
-  {
-    id: '6',
-    name: 'Yoga Mat',
-    sku: 'YM-006',
-    category: 'Sports',
-    price: 29.99,
-    stock: 300,
-    status: 'active',
-    createdAt: '2024-02-15',
-    updatedAt: '2024-03-15'
-  },
-  {
-    id: '7',
-    name: 'Coffee Maker',
-    sku: 'CM-007',
-    category: 'Appliances',
-    price: 149.99,
-    stock: 50,
-    status: 'active',
-    createdAt: '2024-02-20',
-    updatedAt: '2024-03-16'
-  },
-  {
-    id: '8',
-    name: 'Desk Lamp',
-    sku: 'DL-008',
-    category: 'Furniture',
-    price: 39.99,
-    stock: 120,
-    status: 'archived',
-    createdAt: '2024-02-25',
-    updatedAt: '2024-03-01'
-  },
-  {
-    id: '9',
-    name: 'Water Bottle',
-    sku: 'WB-009',
-    category: 'Accessories',
-    price: 19.99,
-    stock: 500,
-    status: 'active',
-    createdAt: '2024-03-01',
-    updatedAt: '2024-03-18'
-  },
-  {
-    id: '10',
-    name: 'Gaming Mouse',
-    sku: 'GM-010',
-    category: 'Electronics',
-    price: 69.99,
-    stock: 80,
-    status: 'active',
-    createdAt: '2024-03-05',
-    updatedAt: '2024-03-20'
-  }
-  // ... more mock products
-]
-
 /**
  * @typedef ProductFormData
  * @description Defines the structure for the product form data (used for create/edit).
@@ -208,6 +95,46 @@ type ProductFormData = {
   description: string;
 };
 
+/**
+ * @const PRODUCTS_QUERY_KEY
+ * @description Cache key for the product list, invalidated after every mutation.
+ */
+const PRODUCTS_QUERY_KEY = ['products']
+
+/**
+ * @function fetchProducts
+ * @description Fetches the product catalog from `GET /api/products`.
+ * @param {{ signal: AbortSignal }} context - Query context with the abort signal.
+ * @returns {Promise<Product[]>} The products.
+ */
+const fetchProducts = async ({ signal }: { signal: AbortSignal }): Promise<Product[]> => {
+  const response = await apiClient.get<PaginatedResponse<Product>>('/api/products', undefined, { signal });
+  return response.data || [];
+};
+
+/**
+ * @function saveProduct
+ * @description Creates a product with `POST /api/products`, or replaces an existing one with `PUT /api/products/:id`.
+ * @param {{ id?: string; product: Omit<Product, 'id'> }} variables - The product ID (omitted for new products) and its data.
+ * @returns {Promise<Product | undefined>} The saved product.
+ */
+const saveProduct = async ({ id, product }: { id?: string; product: Omit<Product, 'id'> }): Promise<Product | undefined> => {
+  const response = id
+    ? await apiClient.put<ApiResponse<Product>>(`/api/products/${id}`, { ...product, id })
+    : await apiClient.post<ApiResponse<Product>>('/api/products', product);
+  return response.data;
+};
+
+/**
+ * @function deleteProducts
+ * @description Deletes one or more products with `DELETE /api/products/:id`.
+ * @param {string[]} ids - IDs of the products to delete.
+ * @returns {Promise<void>}
+ */
+const deleteProducts = async (ids: string[]): Promise<void> => {
+  await Promise.all(ids.map(id => apiClient.delete(`/api/products/${id}`)));
+};
+
 /**
  * @function Products
  * @description The main component for the Products page.
@@ -217,7 +144,21 @@ type ProductFormData = {
  * @returns {JSX.Element} The rendered Products page.
  */
 export default function Products() {
-  const [products, setProducts] = useState<Product[]>(mockProducts); // Holds the list of products
+  const { showToast } = useToast();
+  const canManageProducts = useCan()('products:write'); // Whether the current user may create, edit and delete products
+  const { data: products, isLoading, error } = useQuery(PRODUCTS_QUERY_KEY, fetchProducts, { staleTime: 30 * 1000, persist: true });
+  const saveMutation = useMutation(saveProduct, {
+    invalidateQueries: [PRODUCTS_QUERY_KEY],
+    onError: (error) => showToast({ type: 'error', title: 'Failed to save product', description: error.message })
+  });
+  const deleteMutation = useMutation(deleteProducts, {
+    optimisticUpdate: {
+      queryKey: PRODUCTS_QUERY_KEY,
+      updater: (current: Product[] | null, ids) => (current || []).filter(product => !ids.includes(product.id))
+    },
+    invalidateQueries: [PRODUCTS_QUERY_KEY],
+    onError: (error) => showToast({ type: 'error', title: 'Failed to delete products', description: error.message })
+  });
   const [isCreateOpen, setIsCreateOpen] = useState(false); // Controls visibility of the create product dialog
   const [isEditOpen, setIsEditOpen] = useState(false); // Controls visibility of the edit product dialog
   const [isDeleteOpen, setIsDeleteOpen] = useState(false); // Controls visibility of the delete confirmation dialog
@@ -265,6 +206,9 @@ export default function Products() {
       key: 'price',
       header: 'Price',
       sortable: true,
+      exportFormat: '$#,##0.00',
+      editor: { type: 'number' as const, step: 0.01 },
+      validators: [validators.required, validators.min(0)],
       render: (price: any) => (
         <Text size="2" weight="medium">
           ${price.toFixed(2)}
@@ -275,6 +219,8 @@ export default function Products() {
       key: 'stock',
       header: 'Stock',
       sortable: true,
+      editor: { type: 'number' as const, step: 1 },
+      validators: [validators.required, validators.integer, validators.min(0)],
       render: (stock: any) => (
         <Flex align="center" gap="2">
           <Text size="2">{stock}</Text>
@@ -295,6 +241,14 @@ export default function Products() {
       key: 'status',
       header: 'Status',
       sortable: true,
+      editor: {
+        type: 'select' as const,
+        options: [
+          { value: 'active', label: 'Active' },
+          { value: 'draft', label: 'Draft' },
+          { value: 'archived', label: 'Archived' }
+        ]
+      },
       render: (status: any) => (
         <Badge 
           color={status === 'active' ? 'green' : status === 'draft' ? 'blue' : 'gray'}
@@ -315,25 +269,25 @@ export default function Products() {
   /**
    * @function handleCreate
    * @description Handles the creation of a new product.
-   * It takes the current `formData`, adds a new product to the `products` state,
+   * It sends the current `formData` to `POST /api/products`,
    * closes the create dialog, and resets the form.
-   * In a real app, this would involve an API call.
    */
   const handleCreate = () => {
     // TODO: Add validation for formData before creating.
-    const newProduct: Product = {
-      id: String(Date.now()), // Simple ID generation for mock data
-      name: formData.name,
-      sku: formData.sku,
-      category: formData.category,
-      price: parseFloat(formData.price),
-      stock: parseInt(formData.stock),
-      status: formData.status,
-      description: formData.description,
-      createdAt: new Date().toISOString().split('T')[0],
-      updatedAt: new Date().toISOString().split('T')[0]
-    }
-    setProducts([...products, newProduct])
+    const today = new Date().toISOString().split('T')[0]
+    saveMutation.mutate({
+      product: {
+        name: formData.name,
+        sku: formData.sku,
+        category: formData.category,
+        price: parseFloat(formData.price) || 0,
+        stock: parseInt(formData.stock) || 0,
+        status: formData.status,
+        description: formData.description,
+        createdAt: today,
+        updatedAt: today
+      }
+    })
     setIsCreateOpen(false)
     resetForm()
   }
@@ -341,28 +295,27 @@ export default function Products() {
   /**
    * @function handleEdit
    * @description Handles editing an existing product.
-   * It updates the product in the `products` state based on `selectedProduct` and `formData`,
+   * It sends the `selectedProduct` merged with `formData` to `PUT /api/products/:id`,
    * closes the edit dialog, and resets the form.
-   * In a real app, this would involve an API call.
    */
   const handleEdit = () => {
     if (!selectedProduct) return;
     // TODO: Add validation for formData before editing.
-    setProducts(products.map(product =>
-      product.id === selectedProduct.id
-        ? {
-            ...product,
-            name: formData.name,
-            sku: formData.sku,
-            category: formData.category,
-            price: parseFloat(formData.price) || 0, // Ensure price is a number
-            stock: parseInt(formData.stock) || 0,   // Ensure stock is a number
-            status: formData.status,
-            description: formData.description,
-            updatedAt: new Date().toISOString().split('T')[0] // Update timestamp
-          }
-        : product
-    ));
+    const { id, ...product } = selectedProduct;
+    saveMutation.mutate({
+      id,
+      product: {
+        ...product,
+        name: formData.name,
+        sku: formData.sku,
+        category: formData.category,
+        price: parseFloat(formData.price) || 0, // Ensure price is a number
+        stock: parseInt(formData.stock) || 0,   // Ensure stock is a number
+        status: formData.status,
+        description: formData.description,
+        updatedAt: new Date().toISOString().split('T')[0] // Update timestamp
+      }
+    });
     setIsEditOpen(false);
     resetForm();
   };
@@ -370,12 +323,11 @@ export default function Products() {
   /**
    * @function handleDelete
    * @description Handles the deletion of a single product.
-   * It removes the `selectedProduct` from the `products` state and closes the delete dialog.
-   * In a real app, this would involve an API call.
+   * It deletes the `selectedProduct` through the API (removing it from the list optimistically) and closes the delete dialog.
    */
   const handleDelete = () => {
     if (!selectedProduct) return;
-    setProducts(products.filter(product => product.id !== selectedProduct.id));
+    deleteMutation.mutate([selectedProduct.id]);
     setIsDeleteOpen(false);
     setSelectedProduct(null); // Clear selected product
   };
@@ -383,15 +335,28 @@ export default function Products() {
   /**
    * @function handleBulkDelete
    * @description Handles the deletion of multiple products selected in the DataTable.
-   * It filters out the selected products from the `products` state.
-   * In a real app, this would involve multiple API calls or a bulk delete API endpoint.
+   * Each selected product is deleted through the API; the list is updated optimistically.
    */
   const handleBulkDelete = () => {
-    const selectedIds = new Set(selectedRows.map(row => row.id));
-    setProducts(products.filter(product => !selectedIds.has(product.id)));
+    deleteMutation.mutate(selectedRows.map(row => row.id));
     setSelectedRows([]); // Clear selection
   };
 
+  /**
+   * @function handleRowsChange
+   * @description Saves the products edited inline in the DataTable with `PUT /api/products/:id`, updating their
+   * timestamp. Rejects if any of them fails to save, so the table keeps the edits.
+   * @param {DataTableRowChange<Product>[]} changes - The edited products.
+   * @returns {Promise<void>}
+   */
+  const handleRowsChange = async (changes: DataTableRowChange<Product>[]): Promise<void> => {
+    const updatedAt = new Date().toISOString().split('T')[0];
+    await Promise.all(changes.map(({ updated: { id, ...product } }) =>
+      saveMutation.mutateAsync({ id, product: { ...product, updatedAt } })
+    ));
+    showToast({ type: 'success', title: `${changes.length} ${changes.length === 1 ? 'product' : 'products'} saved` });
+  };
+
   /**
    * @function resetForm
    * @description Resets the `formData` state to its initial empty/default values
@@ -458,19 +423,21 @@ export default function Products() {
           <EyeOpenIcon />
           View Details
         </DropdownMenu.Item>
-        <DropdownMenu.Item onClick={() => openEditDialog(product)}>
-          <Pencil1Icon />
-          Edit
-        </DropdownMenu.Item>
-        <DropdownMenu.Item onClick={() => alert(`Duplicating ${product.name}`)}> {/* Placeholder for duplicate action */}
-          <CopyIcon />
-          Duplicate
-        </DropdownMenu.Item>
-        <DropdownMenu.Separator />
-        <DropdownMenu.Item color="red" onClick={() => openDeleteDialog(product)}>
-          <TrashIcon />
-          Delete
-        </DropdownMenu.Item>
+        <Can permission="products:write">
+          <DropdownMenu.Item onClick={() => openEditDialog(product)}>
+            <Pencil1Icon />
+            Edit
+          </DropdownMenu.Item>
+          <DropdownMenu.Item onClick={() => alert(`Duplicating ${product.name}`)}> {/* Placeholder for duplicate action */}
+            <CopyIcon />
+            Duplicate
+          </DropdownMenu.Item>
+          <DropdownMenu.Separator />
+          <DropdownMenu.Item color="red" onClick={() => openDeleteDialog(product)}>
+            <TrashIcon />
+            Delete
+          </DropdownMenu.Item>
+        </Can>
       </DropdownMenu.Content>
     </DropdownMenu.Root>
   );
@@ -489,7 +456,7 @@ export default function Products() {
           <Text color="gray">Manage your product catalog</Text>
         </Box>
         <Flex gap="3">
-          {selectedRows.length > 0 && (
+          {selectedRows.length > 0 && canManageProducts && (
             <Button color="red" variant="soft" onClick={handleBulkDelete}>
               <TrashIcon />
               Delete ({selectedRows.length})
@@ -499,20 +466,25 @@ export default function Products() {
             <DownloadIcon />
             Export
           </Button>
-          <Button onClick={() => setIsCreateOpen(true)}>
-            <PlusIcon />
-            Add Product
-          </Button>
+          <Can permission="products:write">
+            <Button onClick={() => setIsCreateOpen(true)}>
+              <PlusIcon />
+              Add Product
+            </Button>
+          </Can>
         </Flex>
       </Flex>
 
       <DataTable
-        data={products}
+        data={products || []}
         columns={columns}
         searchPlaceholder="Search products..."
+        title="Products"
+        emptyMessage={isLoading ? 'Loading products...' : error ? `Failed to load products: ${error.message}` : undefined}
         selectable
         onSelectionChange={setSelectedRows}
         actions={actions}
+        onRowsChange={canManageProducts ? handleRowsChange : undefined}
       />
 
       {/* Create Product Dialog */}
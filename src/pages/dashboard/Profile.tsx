@@ -12,6 +12,7 @@ import { useAuth } from '../../lib/auth-context' // Auth context for user data a
 import { useTheme } from '../../lib/theme-context' // Theme context for current theme info
 import { validateEmail, validateName, validatePassword, validatePasswordMatch } from '../../lib/validation' // Validation utilities
 import PasswordStrengthIndicator from '../../components/PasswordStrengthIndicator' // Component for password strength
+import { useStoredState } from '../../lib/stored-state' // Preferences persisted in secure storage
 
 /**
  * @typedef ProfileFormData
@@ -110,12 +111,12 @@ export default function Profile() {
   const [passwordSuccess, setPasswordSuccess] = useState(false); // Success state for password change
   const [passwordErrors, setPasswordErrors] = useState<PasswordFormErrors>({}); // Errors for password form
 
-  // --- State for User Preferences/Settings ---
-  const [settings, setSettings] = useState<UserSettingsData>({
+  // --- State for User Preferences/Settings (saved as they change) ---
+  const [settings, setSettings] = useStoredState<UserSettingsData>('user_settings', {
     emailNotifications: true,
     marketingEmails: false,
-    themePreference: 'system', // Default or load from user preferences via API
-    language: 'en', // Default or load from user preferences via API
+    themePreference: 'system',
+    language: 'en',
   });
 
   /**
@@ -199,8 +200,7 @@ export default function Profile() {
     // }
   };
 
-  // TODO: Implement handleSettingsSubmit if these settings need to be saved to a backend.
-  // const handleSettingsSubmit = async () => { ... }
+  // TODO: Also save `settings` to the backend (e.g., `apiClient.put('/api/users/me/settings', settings)`) to share them across devices.
 
   return (
     <Box>
@@ -420,7 +420,7 @@ export default function Profile() {
                       </Flex>
                       <Switch
                         checked={settings.emailNotifications}
-                        onCheckedChange={(checked) => setSettings({...settings, emailNotifications: checked})}
+                        onCheckedChange={(checked) => setSettings(current => ({...current, emailNotifications: checked}))}
                       />
                     </Flex>
                     
@@ -436,7 +436,7 @@ export default function Profile() {
                       </Flex>
                       <Switch
                         checked={settings.marketingEmails}
-                        onCheckedChange={(checked) => setSettings({...settings, marketingEmails: checked})}
+                        onCheckedChange={(checked) => setSettings(current => ({...current, marketingEmails: checked}))}
                       />
                     </Flex>
                   </Flex>
@@ -451,7 +451,7 @@ export default function Profile() {
                         <Text weight="medium">Theme Preference</Text>
                         <Badge color="blue" variant="soft">Current: {theme}</Badge>
                       </Flex>
-                      <Select.Root value={settings.themePreference} onValueChange={(value: any) => setSettings({...settings, themePreference: value})}>
+                      <Select.Root value={settings.themePreference} onValueChange={(value: any) => setSettings(current => ({...current, themePreference: value}))}>
                         <Select.Trigger />
                         <Select.Content>
                           <Select.Item value="system">System</Select.Item>
@@ -466,7 +466,7 @@ export default function Profile() {
                         <GlobeIcon />
                         <Text weight="medium">Language</Text>
                       </Flex>
-                      <Select.Root value={settings.language} onValueChange={(value) => setSettings({...settings, language: value})}>
+                      <Select.Root value={settings.language} onValueChange={(value) => setSettings(current => ({...current, language: value}))}>
                         <Select.Trigger />
                         <Select.Content>
                           <Select.Item value="en">English</Select.Item>
@@ -25,7 +25,9 @@ import {
   IconButton,
   Dialog,
   TextArea,
-  Callout
+  Callout,
+  Code,
+  Progress
 } from '@radix-ui/themes'
 import { 
   GearIcon, 
@@ -39,7 +41,10 @@ import {
   EyeNoneIcon,
   ReloadIcon,
   InfoCircledIcon,
-  MixerHorizontalIcon
+  MixerHorizontalIcon,
+  DownloadIcon,
+  CheckCircledIcon,
+  ArchiveIcon
 } from '@radix-ui/react-icons'
 import { useToast } from '../../components/notifications/toast-context' // Toast notifications
 import { ThemeSelector } from '../../components/ThemeSelector' // Theme selection dialog
@@ -50,7 +55,10 @@ import {
   EnhancedSwitch
 } from '../../components/ui/FormField' // Enhanced form components
 import { LoadingOverlay, Skeleton } from '../../components/ui/LoadingSpinner' // Loading indicators
-import { storage } from '../../lib/secure-storage' // Secure storage utility
+import { storage, type StorageNamespace } from '../../lib/secure-storage' // Secure storage utility
+import { useAuth } from '../../lib/auth-context' // Two-factor enrollment and session timeout
+import { useStoredState } from '../../lib/stored-state' // Preferences persisted in secure storage
+import type { TwoFactorSetup } from '../../types'
 
 /**
  * @typedef GeneralSettingsData
@@ -94,8 +102,7 @@ type NotificationSettingsData = {
  * @description Structure for security-related settings.
  */
 type SecuritySettingsData = {
-  twoFactorEnabled: boolean;
-  sessionTimeout: string; // e.g., '30' minutes
+  sessionTimeout: string; // Minutes of inactivity before automatic sign-out (e.g., '30'), or 'never'
   ipWhitelist: string[];
 };
 
@@ -132,6 +139,7 @@ type WebhookData = {
 export default function Settings() {
   const { showToast } = useToast(); // Hook for displaying toast notifications
   const { theme, availableThemes } = useTheme(); // Theme context for current theme and available themes
+  const { sessionTimeout, setSessionTimeout } = useAuth(); // Inactivity timeout enforced by AuthProvider
   const [isLoading, setIsLoading] = useState(false); // Global loading state for operations like saving general settings
 
   // --- State for different settings categories ---
@@ -144,14 +152,15 @@ export default function Settings() {
     timeFormat: '12h'
   });
 
-  const [appearanceSettings, setAppearanceSettings] = useState<AppearanceSettingsData>({
+  // Appearance and notification preferences are saved as they change, and stay in sync across tabs
+  const [appearanceSettings, setAppearanceSettings] = useStoredState<AppearanceSettingsData>('appearance', {
     sidebarCollapsed: false,
     compactMode: false,
     showAnimations: true,
     highlightColor: 'blue'
   });
 
-  const [notificationSettings, setNotificationSettings] = useState<NotificationSettingsData>({
+  const [notificationSettings, setNotificationSettings] = useStoredState<NotificationSettingsData>('notifications', {
     emailNotifications: true,
     pushNotifications: false,
     smsNotifications: false,
@@ -161,8 +170,7 @@ export default function Settings() {
   });
 
   const [securitySettings, setSecuritySettings] = useState<SecuritySettingsData>({
-    twoFactorEnabled: false,
-    sessionTimeout: '30', // Default to 30 minutes
+    sessionTimeout: sessionTimeout === null ? 'never' : String(sessionTimeout),
     ipWhitelist: ['192.168.1.1', '10.0.0.1'] // Example IP addresses
   });
 
@@ -189,7 +197,7 @@ export default function Settings() {
    */
   const handleSaveGeneral = async () => {
     setIsLoading(true);
-    // TODO: Replace with actual API call to save generalSettings
+    // TODO: Replace with `apiClient.put('/api/settings/general', generalSettings)` (see src/lib/api-client.ts)
     await new Promise(resolve => setTimeout(resolve, 2000)); // Simulate API delay
     showToast({
       type: 'success',
@@ -199,38 +207,12 @@ export default function Settings() {
     setIsLoading(false);
   };
 
-  /**
-   * @function handleSaveAppearance
-   * @description Simulates saving appearance settings and shows a toast.
-   */
-  const handleSaveAppearance = () => {
-    // TODO: Implement saving appearanceSettings (e.g., to localStorage or backend)
-    showToast({
-      type: 'success',
-      title: 'Appearance updated',
-      description: 'Your appearance preferences have been saved'
-    });
-  };
-
-  /**
-   * @function handleSaveNotifications
-   * @description Simulates saving notification settings and shows a toast.
-   */
-  const handleSaveNotifications = () => {
-    // TODO: Implement saving notificationSettings
-    showToast({
-      type: 'success',
-      title: 'Notification preferences saved',
-      description: 'Your notification settings have been updated'
-    });
-  };
-
   /**
    * @function handleSaveSecurity
-   * @description Simulates saving security settings and shows a toast.
+   * @description Applies the session timeout (in every open tab) and shows a toast.
    */
   const handleSaveSecurity = () => {
-    // TODO: Implement saving securitySettings
+    setSessionTimeout(securitySettings.sessionTimeout === 'never' ? null : Number(securitySettings.sessionTimeout));
     showToast({
       type: 'success',
       title: 'Security settings updated',
@@ -244,7 +226,7 @@ export default function Settings() {
    * @param {string} name - The name for the new API key.
    */
   const createApiKey = (name: string) => {
-    // TODO: In a real app, the key would be generated by the backend.
+    // TODO: In a real app, the key would be generated by the backend via `apiClient.post('/api/keys', { name })`.
     const newKey: ApiKeyData = {
       id: Date.now().toString(),
       name,
@@ -306,6 +288,10 @@ export default function Settings() {
               <Link2Icon />
               Integrations
             </Tabs.Trigger>
+            <Tabs.Trigger value="storage">
+              <ArchiveIcon />
+              Storage
+            </Tabs.Trigger>
             <Tabs.Trigger value="demo">
               <InfoCircledIcon />
               Component Demo
@@ -448,7 +434,7 @@ export default function Settings() {
                         </Box>
                         <Switch
                           checked={appearanceSettings.sidebarCollapsed}
-                          onCheckedChange={(checked) => setAppearanceSettings({...appearanceSettings, sidebarCollapsed: checked})}
+                          onCheckedChange={(checked) => setAppearanceSettings(settings => ({...settings, sidebarCollapsed: checked}))}
                         />
                       </Flex>
 
@@ -461,7 +447,7 @@ export default function Settings() {
                       </Box>
                       <Switch
                         checked={appearanceSettings.compactMode}
-                        onCheckedChange={(checked) => setAppearanceSettings({...appearanceSettings, compactMode: checked})}
+                        onCheckedChange={(checked) => setAppearanceSettings(settings => ({...settings, compactMode: checked}))}
                       />
                     </Flex>
 
@@ -474,7 +460,7 @@ export default function Settings() {
                       </Box>
                       <Switch
                         checked={appearanceSettings.showAnimations}
-                        onCheckedChange={(checked) => setAppearanceSettings({...appearanceSettings, showAnimations: checked})}
+                        onCheckedChange={(checked) => setAppearanceSettings(settings => ({...settings, showAnimations: checked}))}
                       />
                     </Flex>
 
@@ -482,7 +468,7 @@ export default function Settings() {
 
                     <Box>
                       <Text weight="medium" mb="2">Highlight Color</Text>
-                      <Select.Root value={appearanceSettings.highlightColor} onValueChange={(value) => setAppearanceSettings({...appearanceSettings, highlightColor: value})}>
+                      <Select.Root value={appearanceSettings.highlightColor} onValueChange={(value) => setAppearanceSettings(settings => ({...settings, highlightColor: value}))}>
                         <Select.Trigger />
                         <Select.Content>
                           <Select.Item value="blue">Blue</Select.Item>
@@ -496,59 +482,10 @@ export default function Settings() {
                   </Flex>
 
                   <Flex justify="end">
-                    <Button onClick={handleSaveAppearance}>Save Changes</Button>
+                    <Text size="2" color="gray">Changes are saved automatically</Text>
                   </Flex>
                 </Flex>
               </Card>
-
-              <Card>
-                <Flex direction="column" gap="4">
-                  <Heading size="4">Storage Information</Heading>
-                  
-                  <Box>
-                    <Text size="2" color="gray" mb="2">
-                      Secure storage usage and availability
-                    </Text>
-                    
-                    {(() => {
-                      const storageInfo = storage.utils.getInfo()
-                      return (
-                        <Flex direction="column" gap="2">
-                          <Flex justify="between">
-                            <Text size="2">Storage Available:</Text>
-                            <Badge color="green">Available</Badge>
-                          </Flex>
-                          <Flex justify="between">
-                            <Text size="2">Total Items:</Text>
-                            <Text size="2">{storageInfo.totalItems}</Text>
-                          </Flex>
-                          <Flex justify="between">
-                            <Text size="2">Used Space:</Text>
-                            <Text size="2">{storageInfo.totalSize} KB</Text>
-                          </Flex>
-                        </Flex>
-                      )
-                    })()}
-                    
-                    <Button 
-                      size="1" 
-                      variant="soft" 
-                      color="red" 
-                      mt="3"
-                      onClick={() => {
-                        storage.utils.clearAll()
-                        showToast({
-                          type: 'success',
-                          title: 'Storage cleared',
-                          description: 'All stored data has been removed'
-                        })
-                      }}
-                    >
-                      Clear All Data
-                    </Button>
-                  </Box>
-                </Flex>
-              </Card>
               </Flex>
             </Tabs.Content>
 
@@ -566,7 +503,7 @@ export default function Settings() {
                       </Box>
                       <Switch
                         checked={notificationSettings.emailNotifications}
-                        onCheckedChange={(checked) => setNotificationSettings({...notificationSettings, emailNotifications: checked})}
+                        onCheckedChange={(checked) => setNotificationSettings(settings => ({...settings, emailNotifications: checked}))}
                       />
                     </Flex>
 
@@ -579,7 +516,7 @@ export default function Settings() {
                       </Box>
                       <Switch
                         checked={notificationSettings.pushNotifications}
-                        onCheckedChange={(checked) => setNotificationSettings({...notificationSettings, pushNotifications: checked})}
+                        onCheckedChange={(checked) => setNotificationSettings(settings => ({...settings, pushNotifications: checked}))}
                       />
                     </Flex>
 
@@ -592,7 +529,7 @@ export default function Settings() {
                       </Box>
                       <Switch
                         checked={notificationSettings.smsNotifications}
-                        onCheckedChange={(checked) => setNotificationSettings({...notificationSettings, smsNotifications: checked})}
+                        onCheckedChange={(checked) => setNotificationSettings(settings => ({...settings, smsNotifications: checked}))}
                       />
                     </Flex>
 
@@ -605,7 +542,7 @@ export default function Settings() {
                       </Box>
                       <Switch
                         checked={notificationSettings.weeklyDigest}
-                        onCheckedChange={(checked) => setNotificationSettings({...notificationSettings, weeklyDigest: checked})}
+                        onCheckedChange={(checked) => setNotificationSettings(settings => ({...settings, weeklyDigest: checked}))}
                       />
                     </Flex>
 
@@ -618,7 +555,7 @@ export default function Settings() {
                       </Box>
                       <Switch
                         checked={notificationSettings.instantAlerts}
-                        onCheckedChange={(checked) => setNotificationSettings({...notificationSettings, instantAlerts: checked})}
+                        onCheckedChange={(checked) => setNotificationSettings(settings => ({...settings, instantAlerts: checked}))}
                       />
                     </Flex>
 
@@ -631,13 +568,13 @@ export default function Settings() {
                       </Box>
                       <Switch
                         checked={notificationSettings.marketingEmails}
-                        onCheckedChange={(checked) => setNotificationSettings({...notificationSettings, marketingEmails: checked})}
+                        onCheckedChange={(checked) => setNotificationSettings(settings => ({...settings, marketingEmails: checked}))}
                       />
                     </Flex>
                   </Flex>
 
                   <Flex justify="end">
-                    <Button onClick={handleSaveNotifications}>Save Changes</Button>
+                    <Text size="2" color="gray">Changes are saved automatically</Text>
                   </Flex>
                 </Flex>
               </Card>
@@ -651,21 +588,15 @@ export default function Settings() {
                     <Heading size="4">Security Settings</Heading>
                     
                     <Flex direction="column" gap="4">
-                      <Flex justify="between" align="center">
-                        <Box>
-                          <Text weight="medium">Two-Factor Authentication</Text>
-                          <Text size="2" color="gray">Add an extra layer of security to your account</Text>
-                        </Box>
-                        <Switch
-                          checked={securitySettings.twoFactorEnabled}
-                          onCheckedChange={(checked) => setSecuritySettings({...securitySettings, twoFactorEnabled: checked})}
-                        />
-                      </Flex>
+                      <TwoFactorSettings />
 
                       <Separator />
 
                       <Box>
-                        <Text weight="medium" mb="2">Session Timeout</Text>
+                        <Flex direction="column" mb="2">
+                          <Text weight="medium">Session Timeout</Text>
+                          <Text size="2" color="gray">Sign out automatically after this period of inactivity</Text>
+                        </Flex>
                         <Select.Root value={securitySettings.sessionTimeout} onValueChange={(value) => setSecuritySettings({...securitySettings, sessionTimeout: value})}>
                           <Select.Trigger />
                           <Select.Content>
@@ -823,6 +754,11 @@ export default function Settings() {
               </Card>
             </Tabs.Content>
 
+            {/* Storage Settings */}
+            <Tabs.Content value="storage">
+              <StorageSettings />
+            </Tabs.Content>
+
             {/* Component Demo Tab */}
             <Tabs.Content value="demo">
               <Flex direction="column" gap="6">
@@ -972,6 +908,253 @@ export default function Settings() {
   )
 }
 
+/**
+ * @function downloadRecoveryCodes
+ * @description Saves recovery codes as a text file.
+ * @param {string[]} codes - The recovery codes.
+ * @param {string} accountName - The account the codes belong to, written in the file header.
+ */
+const downloadRecoveryCodes = (codes: string[], accountName: string) => {
+  const text = [
+    `Radix Dashboard recovery codes for ${accountName}`,
+    'Each code can be used once to sign in without your authenticator app. Keep them somewhere safe.',
+    '',
+    ...codes,
+    '',
+  ].join('\n');
+  const blob = new Blob([text], { type: 'text/plain;charset=utf-8;' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = 'radix-dashboard-recovery-codes.txt';
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
+
+/**
+ * @function TwoFactorSettings
+ * @description A sub-component within the Settings page to manage two-factor authentication.
+ * Enabling it is a three-step dialog: the new secret is shown (as an `otpauth://` link and for manual entry),
+ * a first code from the authenticator app is verified, and the recovery codes are shown for download.
+ * Disabling it requires a current code or a recovery code.
+ * @returns {JSX.Element} The rendered two-factor authentication settings.
+ */
+function TwoFactorSettings() {
+  const { user, twoFactorAvailable, setupTwoFactor, enableTwoFactor, disableTwoFactor } = useAuth();
+  const { showToast } = useToast();
+  const [dialog, setDialog] = useState<'enable' | 'disable' | null>(null); // Which dialog is open
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null); // The enrollment in progress
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null); // Shown once, after enabling
+  const [code, setCode] = useState(''); // The code entered in either dialog
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const isEnabled = !!user?.twoFactorEnabled;
+
+  /**
+   * @function closeDialog
+   * @description Closes the open dialog and discards its state, including the secret and recovery codes.
+   */
+  const closeDialog = () => {
+    setDialog(null);
+    setSetup(null);
+    setRecoveryCodes(null);
+    setCode('');
+    setError(null);
+  };
+
+  /**
+   * @function handleStartSetup
+   * @description Requests a new secret and opens the enrollment dialog.
+   */
+  const handleStartSetup = async () => {
+    setIsBusy(true);
+    const result = await setupTwoFactor();
+    setIsBusy(false);
+    if (!result.success || !result.setup) {
+      showToast({ type: 'error', title: 'Two-factor setup failed', description: result.error });
+      return;
+    }
+    setSetup(result.setup);
+    setDialog('enable');
+  };
+
+  /**
+   * @function handleEnable
+   * @description Verifies the first code from the authenticator app and shows the recovery codes.
+   */
+  const handleEnable = async () => {
+    setIsBusy(true);
+    const result = await enableTwoFactor(code.trim());
+    setIsBusy(false);
+    if (!result.success) {
+      setError(result.error || 'Invalid verification code');
+      return;
+    }
+    setError(null);
+    setRecoveryCodes(result.recoveryCodes || []);
+    showToast({ type: 'success', title: 'Two-factor authentication enabled' });
+  };
+
+  /**
+   * @function handleDisable
+   * @description Disables two-factor authentication after checking the entered code.
+   */
+  const handleDisable = async () => {
+    setIsBusy(true);
+    const result = await disableTwoFactor(code.trim());
+    setIsBusy(false);
+    if (!result.success) {
+      setError(result.error || 'Invalid verification code');
+      return;
+    }
+    closeDialog();
+    showToast({ type: 'success', title: 'Two-factor authentication disabled' });
+  };
+
+  return (
+    <>
+      <Flex justify="between" align="center">
+        <Box>
+          <Text weight="medium">Two-Factor Authentication</Text>
+          <Text as="div" size="2" color="gray">
+            {twoFactorAvailable
+              ? 'Require a code from an authenticator app when signing in'
+              : 'Managed by your sign-in provider'}
+          </Text>
+        </Box>
+        {twoFactorAvailable && (
+          <Flex align="center" gap="3">
+            <Badge color={isEnabled ? 'green' : 'gray'}>{isEnabled ? 'Enabled' : 'Disabled'}</Badge>
+            {isEnabled ? (
+              <Button variant="soft" color="red" onClick={() => setDialog('disable')}>Disable</Button>
+            ) : (
+              <Button onClick={handleStartSetup} loading={isBusy && !dialog}>Enable</Button>
+            )}
+          </Flex>
+        )}
+      </Flex>
+
+      {/* Enrollment Dialog */}
+      <Dialog.Root open={dialog === 'enable'} onOpenChange={(open) => !open && closeDialog()}>
+        <Dialog.Content maxWidth="500px">
+          <Dialog.Title>Set up two-factor authentication</Dialog.Title>
+          {recoveryCodes ? (
+            <Flex direction="column" gap="4">
+              <Callout.Root color="green">
+                <Callout.Icon>
+                  <CheckCircledIcon />
+                </Callout.Icon>
+                <Callout.Text>
+                  Two-factor authentication is on. Save these recovery codes: each one signs you in once if you lose
+                  your authenticator app. They will not be shown again.
+                </Callout.Text>
+              </Callout.Root>
+              <Card>
+                <Box style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '8px' }}>
+                  {recoveryCodes.map((recoveryCode) => (
+                    <Code key={recoveryCode} size="3" variant="ghost">{recoveryCode}</Code>
+                  ))}
+                </Box>
+              </Card>
+              <Flex gap="3" justify="end">
+                <Button
+                  variant="soft"
+                  onClick={() => {
+                    navigator.clipboard.writeText(recoveryCodes.join('\n'))
+                    showToast({ type: 'success', title: 'Copied to clipboard' })
+                  }}
+                >
+                  <CopyIcon />
+                  Copy
+                </Button>
+                <Button variant="soft" onClick={() => downloadRecoveryCodes(recoveryCodes, user?.email || '')}>
+                  <DownloadIcon />
+                  Download
+                </Button>
+                <Button onClick={closeDialog}>Done</Button>
+              </Flex>
+            </Flex>
+          ) : setup && (
+            <Flex direction="column" gap="4">
+              <Box>
+                <Text as="div" weight="medium" mb="1">1. Add your account to an authenticator app</Text>
+                <Text as="div" size="2" color="gray" mb="2">
+                  On a phone, <a href={setup.otpauthUri}>open this link</a> in your authenticator app,
+                  or enter the key below manually. It is time-based and 6 digits long.
+                </Text>
+                <Flex align="center" gap="2">
+                  <Code size="3" style={{ wordBreak: 'break-all' }}>{setup.secret.match(/.{1,4}/g)?.join(' ')}</Code>
+                  <IconButton
+                    size="1"
+                    variant="ghost"
+                    onClick={() => {
+                      navigator.clipboard.writeText(setup.secret)
+                      showToast({ type: 'success', title: 'Copied to clipboard' })
+                    }}
+                  >
+                    <CopyIcon />
+                  </IconButton>
+                </Flex>
+                <Text as="div" size="1" color="gray" mt="2" style={{ wordBreak: 'break-all' }}>
+                  {setup.otpauthUri}
+                </Text>
+              </Box>
+
+              <Separator size="4" />
+
+              <Box>
+                <Text as="div" weight="medium" mb="2">2. Enter the code shown in the app</Text>
+                <TextField.Root
+                  placeholder="123456"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  onKeyDown={(e) => e.key === 'Enter' && handleEnable()}
+                />
+                {error && <Text size="1" color="red" mt="1">{error}</Text>}
+              </Box>
+
+              <Flex gap="3" justify="end">
+                <Button variant="soft" color="gray" onClick={closeDialog}>Cancel</Button>
+                <Button onClick={handleEnable} loading={isBusy} disabled={code.trim().length !== 6}>
+                  Verify and Enable
+                </Button>
+              </Flex>
+            </Flex>
+          )}
+        </Dialog.Content>
+      </Dialog.Root>
+
+      {/* Disable Dialog */}
+      <Dialog.Root open={dialog === 'disable'} onOpenChange={(open) => !open && closeDialog()}>
+        <Dialog.Content maxWidth="450px">
+          <Dialog.Title>Disable two-factor authentication</Dialog.Title>
+          <Dialog.Description size="2" mb="4">
+            Enter a code from your authenticator app, or one of your recovery codes, to confirm.
+          </Dialog.Description>
+          <TextField.Root
+            placeholder="123456 or xxxxx-xxxxx"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoComplete="one-time-code"
+            onKeyDown={(e) => e.key === 'Enter' && handleDisable()}
+          />
+          {error && <Text size="1" color="red" mt="1">{error}</Text>}
+          <Flex gap="3" mt="4" justify="end">
+            <Button variant="soft" color="gray" onClick={closeDialog}>Cancel</Button>
+            <Button color="red" onClick={handleDisable} loading={isBusy} disabled={!code.trim()}>
+              Disable
+            </Button>
+          </Flex>
+        </Dialog.Content>
+      </Dialog.Root>
+    </>
+  )
+}
+
 /**
  * @function StorageInfoDisplay
  * @description A sub-component within the Settings page to display information
@@ -1086,4 +1269,161 @@ function StorageInfoDisplay() {
       </Callout.Root>
     </Flex>
   );
-}
\ No newline at end of file
+}
+
+/**
+ * @const STORAGE_NAMESPACES
+ * @description The storage namespaces listed in the Storage tab, with a label and what they hold.
+ */
+const STORAGE_NAMESPACES: { namespace: StorageNamespace; label: string; description: string }[] = [
+  { namespace: 'auth', label: 'Authentication', description: 'Your session tokens and profile' },
+  { namespace: 'session', label: 'Session', description: 'Data kept for the current session' },
+  { namespace: 'preferences', label: 'Preferences', description: 'Theme and settings' },
+  { namespace: 'generic', label: 'Application data', description: 'Other data saved by the dashboard' },
+  { namespace: 'cache', label: 'Cache', description: 'Copies of server data for faster loading' },
+];
+
+/**
+ * @function formatBytes
+ * @description Formats a size for display (B, KB or MB).
+ * @param {number} bytes - The size.
+ * @returns {string} The formatted size.
+ */
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+/**
+ * @function StorageSettings
+ * @description A sub-component within the Settings page that shows how much storage each namespace uses against
+ * its quota, and where it is stored, and lets the user clear a namespace. The authentication namespace is cleared
+ * by signing out instead, so the session is ended properly.
+ * @returns {JSX.Element} The rendered storage settings.
+ */
+function StorageSettings() {
+  const { showToast } = useToast();
+  const [storageInfo, setStorageInfo] = useState(() => storage.utils.getInfo());
+
+  /**
+   * @function handleClearNamespace
+   * @description Removes every item of a namespace and refreshes the usage.
+   * @param {StorageNamespace} namespace - The namespace to clear.
+   * @param {string} label - The namespace label, for the confirmation toast.
+   */
+  const handleClearNamespace = (namespace: StorageNamespace, label: string) => {
+    try {
+      const removed = storage.utils.clearNamespace(namespace);
+      setStorageInfo(storage.utils.getInfo());
+      showToast({
+        type: 'success',
+        title: `${label} cleared`,
+        description: `${removed} item(s) removed.`
+      });
+    } catch (error) {
+      console.error('Failed to clear storage namespace:', error);
+      showToast({ type: 'error', title: 'Storage Error', description: `Could not clear ${label.toLowerCase()}.` });
+    }
+  };
+
+  /**
+   * @function handleCleanup
+   * @description Removes expired items from every namespace and refreshes the usage.
+   */
+  const handleCleanup = () => {
+    const removed = storage.utils.cleanup();
+    setStorageInfo(storage.utils.getInfo());
+    showToast({ type: 'info', title: 'Storage Cleanup', description: `${removed} expired item(s) removed.` });
+  };
+
+  return (
+    <Card>
+      <Flex direction="column" gap="5">
+        <Flex justify="between" align="start" gap="3" wrap="wrap">
+          <Box>
+            <Heading size="4" mb="1">Storage</Heading>
+            <Text size="2" color="gray">
+              Data saved in this browser, by category. When a category reaches its quota, its least recently used
+              items are removed; when the browser runs out of space, cached data is removed first.
+            </Text>
+          </Box>
+          <Flex gap="2">
+            <Button variant="soft" onClick={() => setStorageInfo(storage.utils.getInfo())}>
+              <ReloadIcon />
+              Refresh
+            </Button>
+            <Button variant="soft" onClick={handleCleanup}>
+              Cleanup Expired
+            </Button>
+          </Flex>
+        </Flex>
+
+        <Table.Root>
+          <Table.Header>
+            <Table.Row>
+              <Table.ColumnHeaderCell>Category</Table.ColumnHeaderCell>
+              <Table.ColumnHeaderCell>Items</Table.ColumnHeaderCell>
+              <Table.ColumnHeaderCell>Usage</Table.ColumnHeaderCell>
+              <Table.ColumnHeaderCell>Stored In</Table.ColumnHeaderCell>
+              <Table.ColumnHeaderCell>Actions</Table.ColumnHeaderCell>
+            </Table.Row>
+          </Table.Header>
+          <Table.Body>
+            {STORAGE_NAMESPACES.map(({ namespace, label, description }) => {
+              const usage = storageInfo.namespaces[namespace];
+              const percent = usage.quota ? Math.min(100, (usage.size / usage.quota) * 100) : null;
+              return (
+                <Table.Row key={namespace}>
+                  <Table.Cell>
+                    <Text size="2" weight="medium">{label}</Text>
+                    <Text as="p" size="1" color="gray">{description}</Text>
+                  </Table.Cell>
+                  <Table.Cell>{usage.totalItems}</Table.Cell>
+                  <Table.Cell>
+                    <Flex direction="column" gap="1">
+                      <Text size="2">
+                        {formatBytes(usage.size)}
+                        {usage.quota !== undefined && <Text color="gray"> of {formatBytes(usage.quota)}</Text>}
+                      </Text>
+                      {percent !== null && (
+                        <Progress value={percent} size="1" color={percent >= 90 ? 'red' : percent >= 70 ? 'orange' : 'blue'} />
+                      )}
+                    </Flex>
+                  </Table.Cell>
+                  <Table.Cell>
+                    <Badge variant="soft" color="gray">{usage.backend}</Badge>
+                  </Table.Cell>
+                  <Table.Cell>
+                    {namespace === 'auth' ? (
+                      <Text size="1" color="gray">Sign out to clear</Text>
+                    ) : (
+                      <Button
+                        size="1"
+                        variant="soft"
+                        color="red"
+                        disabled={usage.totalItems === 0}
+                        onClick={() => handleClearNamespace(namespace, label)}
+                      >
+                        <TrashIcon />
+                        Clear
+                      </Button>
+                    )}
+                  </Table.Cell>
+                </Table.Row>
+              );
+            })}
+          </Table.Body>
+        </Table.Root>
+
+        <Flex gap="4" wrap="wrap">
+          <Badge color="blue" variant="soft">Total Items: {storageInfo.totalItems}</Badge>
+          <Badge color="green" variant="soft">Used Space: {storageInfo.totalSize} KB</Badge>
+          {storageInfo.expiredItems.length > 0 && (
+            <Badge color="orange" variant="soft">Expired Items: {storageInfo.expiredItems.length}</Badge>
+          )}
+        </Flex>
+      </Flex>
+    </Card>
+  );
+}
@@ -3,7 +3,8 @@
  * @description This file defines the System Tracking page component for the dashboard.
  * It provides a user interface for monitoring the status and performance of various
  * network systems or devices. Features include filtering, different view modes (grid/list),
- * and actions for individual systems. All data is currently mock data with simulated real-time updates.
+ * and actions for individual systems. Systems are loaded from `/api/systems` (served by the in-process
+ * mock backend in demo mode) and their metrics receive simulated real-time updates.
  */
 import { useState, useEffect } from 'react'
 import {
@@ -37,6 +38,9 @@ import {
   BellIcon
 } from '@radix-ui/react-icons'
 import { useToast } from '../../components/notifications/toast-context' // For showing toast messages
+import { useQuery, queryCache } from '../../lib/query'
+import { apiClient } from '../../lib/api-client'
+import type { PaginatedResponse } from '../../types'
 
 /**
  * @typedef {'desktop' | 'server' | 'laptop' | 'mobile'} SystemType
@@ -69,7 +73,7 @@ type SystemStatus = 'online' | 'offline' | 'warning';
  * @property {string} location - Physical or logical location of the system.
  * @property {number} alerts - Number of active alerts for this system.
  */
-interface System {
+export interface System {
   id: string;
   name: string;
   ipAddress: string;
@@ -87,116 +91,22 @@ interface System {
   alerts: number;
 }
 
-// TODO: Replace mockSystems with actual data fetched from an API or data source.
 /**
- * @const mockSystems
- * @description An array of mock system data used for demonstration purposes.
+ * @const SYSTEMS_QUERY_KEY
+ * @description Cache key for the system list. The simulated metric updates write to this cache entry.
  */
-const mockSystems: System[] = [
-  {
-    id: 'SYS001',
-    name: 'DESKTOP-MAIN',
-    ipAddress: '192.168.1.100',
-    type: 'desktop',
-    os: 'Windows',
-    osVersion: '11 Pro',
-    status: 'online',
-    cpuUsage: 45,
-    memoryUsage: 72,
-    diskUsage: 65,
-    uptime: 168,
-    lastSeen: new Date(),
-    department: 'Engineering',
-    location: 'Building A - Floor 3',
-    alerts: 0
-  },
-  {
-    id: 'SYS002',
-    name: 'WEB-SERVER-01',
-    ipAddress: '10.0.0.50',
-    type: 'server',
-    os: 'Ubuntu',
-    osVersion: '22.04 LTS',
-    status: 'online',
-    cpuUsage: 78,
-    memoryUsage: 85,
-    diskUsage: 82,
-    uptime: 720,
-    lastSeen: new Date(),
-    department: 'IT Operations',
-    location: 'Data Center',
-    alerts: 2
-  },
-  {
-    id: 'SYS003',
-    name: 'LAPTOP-SALES-03',
-    ipAddress: '192.168.1.155',
-    type: 'laptop',
-    os: 'macOS',
-    osVersion: 'Sonoma 14.2',
-    status: 'warning',
-    cpuUsage: 92,
-    memoryUsage: 88,
-    diskUsage: 95,
-    uptime: 48,
-    lastSeen: new Date(Date.now() - 1000 * 60 * 5),
-    department: 'Sales',
-    location: 'Remote',
-    alerts: 3
-  },
-  {
-    id: 'SYS004',
-    name: 'DB-SERVER-02',
-    ipAddress: '10.0.0.52',
-    type: 'server',
-    os: 'CentOS',
-    osVersion: '8.5',
-    status: 'online',
-    cpuUsage: 32,
-    memoryUsage: 45,
-    diskUsage: 78,
-    uptime: 2160,
-    lastSeen: new Date(),
-    department: 'IT Operations',
-    location: 'Data Center',
-    alerts: 0
-  },
-  {
-    id: 'SYS005',
-    name: 'DESKTOP-HR-01',
-    ipAddress: '192.168.1.201',
-    type: 'desktop',
-    os: 'Windows',
-    osVersion: '10 Pro',
-    status: 'offline',
-    cpuUsage: 0,
-    memoryUsage: 0,
-    diskUsage: 0,
-    uptime: 0,
-    lastSeen: new Date(Date.now() - 1000 * 60 * 60 * 2),
-    department: 'Human Resources',
-    location: 'Building B - Floor 2',
-    alerts: 1
-  },
-  {
-    id: 'SYS006',
-    name: 'MOBILE-DEV-01',
-    ipAddress: '192.168.1.180',
-    type: 'mobile',
-    os: 'iOS',
-    osVersion: '17.2',
-    status: 'online',
-    cpuUsage: 25,
-    memoryUsage: 40,
-    diskUsage: 35,
-    uptime: 24,
-    lastSeen: new Date(),
-    department: 'Development',
-    location: 'Mobile',
-    alerts: 0
-  }
-  // ... more mock systems
-];
+const SYSTEMS_QUERY_KEY = ['systems']
+
+/**
+ * @function fetchSystems
+ * @description Fetches the tracked systems from `GET /api/systems`, converting the ISO `lastSeen` strings back into `Date` objects.
+ * @param {{ signal: AbortSignal }} context - Query context with the abort signal.
+ * @returns {Promise<System[]>} The systems.
+ */
+const fetchSystems = async ({ signal }: { signal: AbortSignal }): Promise<System[]> => {
+  const response = await apiClient.get<PaginatedResponse<System>>('/api/systems', undefined, { signal });
+  return (response.data || []).map(system => ({ ...system, lastSeen: new Date(system.lastSeen) }));
+};
 
 /**
  * @function Tracking
@@ -207,7 +117,8 @@ const mockSystems: System[] = [
  */
 export default function Tracking() {
   const { showToast } = useToast(); // Hook for displaying toast notifications
-  const [systems, setSystems] = useState<System[]>(mockSystems); // State for the list of systems
+  const { data, isFetching, refetch } = useQuery(SYSTEMS_QUERY_KEY, fetchSystems); // The list of systems
+  const systems = data || [];
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid'); // State for current view mode
   const [statusFilter, setStatusFilter] = useState('all'); // Filter by system status
   const [typeFilter, setTypeFilter] = useState('all'); // Filter by system type
@@ -217,7 +128,8 @@ export default function Tracking() {
   // Effect to simulate real-time updates to system metrics (CPU, memory)
   useEffect(() => {
     const interval = setInterval(() => {
-      setSystems(prevSystems => prevSystems.map(system => {
+      if (!queryCache.getQueryData(SYSTEMS_QUERY_KEY)) return; // Nothing to update until the first load completes
+      queryCache.setQueryData<System[]>(SYSTEMS_QUERY_KEY, prevSystems => (prevSystems || []).map(system => {
         // Only update 'online' systems for more realistic simulation
         if (system.status === 'online') {
           return {
@@ -393,7 +305,7 @@ export default function Tracking() {
             <Heading size="8" mb="2">System Tracking</Heading>
             <Text color="gray">Monitor and manage network systems in real-time</Text>
           </Box>
-          <Button>
+          <Button onClick={() => refetch()} disabled={isFetching}>
             <UpdateIcon />
             Refresh All
           </Button>
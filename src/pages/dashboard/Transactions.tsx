@@ -1,9 +1,9 @@
 /**
  * @file Transactions.tsx
  * @description This file defines the Transactions page component for the dashboard.
- * It displays a list of financial transactions, provides filtering options,
+ * It displays a list of financial transactions, filterable by column in the table's filter bar,
  * summary statistics, and actions like exporting or sharing transaction reports.
- * All data displayed is currently mock data.
+ * Data is loaded from `/api/transactions`, which is served by the in-process mock backend in demo mode.
  */
 import { useState } from 'react'
 import { Box, Card, Flex, Heading, Text, Badge, Button, TextField, Select, Dialog, Checkbox, Grid } from '@radix-ui/themes'
@@ -11,12 +11,14 @@ import {
   ArrowUpIcon,
   ArrowDownIcon,
   ArrowRightIcon,
-  CalendarIcon,
   Share1Icon,
   DownloadIcon
 } from '@radix-ui/react-icons'
 import DataTable from '../../components/DataTable' // Reusable DataTable component
 import { useToast } from '../../components/notifications/toast-context' // For toast notifications
+import { useQuery } from '../../lib/query'
+import { apiClient } from '../../lib/api-client'
+import type { PaginatedResponse } from '../../types'
 
 /**
  * @typedef {'deposit' | 'withdrawal' | 'transfer'} TransactionType
@@ -44,7 +46,7 @@ type TransactionStatus = 'completed' | 'pending' | 'failed';
  * @property {string} reference - A reference number or code for the transaction.
  * @property {string} category - Category of the transaction (e.g., 'Income', 'Housing').
  */
-interface Transaction {
+export interface Transaction {
   id: string;
   date: Date;
   description: string;
@@ -57,110 +59,16 @@ interface Transaction {
   category: string;
 }
 
-// TODO: Replace mockTransactions with actual data fetched from an API or data source.
 /**
- * @const mockTransactions
- * @description An array of mock transaction data used for demonstration purposes.
+ * @function fetchTransactions
+ * @description Fetches the transaction list from `GET /api/transactions`, converting the ISO `date` strings back into `Date` objects.
+ * @param {{ signal: AbortSignal }} context - Query context with the abort signal.
+ * @returns {Promise<Transaction[]>} The transactions.
  */
-const mockTransactions: Transaction[] = [
-  {
-    id: 'TXN001',
-    date: new Date('2024-06-13T10:30:00'),
-    description: 'Salary Payment',
-    type: 'deposit',
-    amount: 5000.00,
-    status: 'completed',
-    from: 'Acme Corp',
-    to: 'Main Account',
-    reference: 'SAL-2024-06',
-    category: 'Income'
-  },
-  {
-    id: 'TXN002',
-    date: new Date('2024-06-12T15:45:00'),
-    description: 'Rent Payment',
-    type: 'withdrawal',
-    amount: 1500.00,
-    status: 'completed',
-    from: 'Main Account',
-    to: 'Landlord LLC',
-    reference: 'RENT-06-2024',
-    category: 'Housing'
-  },
-  {
-    id: 'TXN003',
-    date: new Date('2024-06-12T09:20:00'),
-    description: 'Transfer to Savings',
-    type: 'transfer',
-    amount: 1000.00,
-    status: 'completed',
-    from: 'Main Account',
-    to: 'Savings Account',
-    reference: 'TRF-2024-0612',
-    category: 'Savings'
-  },
-  {
-    id: 'TXN004',
-    date: new Date('2024-06-11T14:30:00'),
-    description: 'Online Purchase',
-    type: 'withdrawal',
-    amount: 89.99,
-    status: 'completed',
-    from: 'Main Account',
-    to: 'Amazon',
-    reference: 'AMZ-123456',
-    category: 'Shopping'
-  },
-  {
-    id: 'TXN005',
-    date: new Date('2024-06-11T11:00:00'),
-    description: 'Freelance Payment',
-    type: 'deposit',
-    amount: 1200.00,
-    status: 'pending',
-    from: 'Client XYZ',
-    to: 'Main Account',
-    reference: 'INV-2024-045',
-    category: 'Income'
-  },
-  {
-    id: 'TXN006',
-    date: new Date('2024-06-10T16:20:00'),
-    description: 'Failed Transfer',
-    type: 'transfer',
-    amount: 500.00,
-    status: 'failed',
-    from: 'Main Account',
-    to: 'External Bank',
-    reference: 'TRF-FAIL-001',
-    category: 'Transfer'
-  },
-  {
-    id: 'TXN007',
-    date: new Date('2024-06-10T08:15:00'),
-    description: 'Utility Bill',
-    type: 'withdrawal',
-    amount: 120.50,
-    status: 'completed',
-    from: 'Main Account',
-    to: 'Power Company',
-    reference: 'UTIL-06-2024',
-    category: 'Utilities'
-  },
-  {
-    id: 'TXN008',
-    date: new Date('2024-06-09T13:45:00'),
-    description: 'Restaurant',
-    type: 'withdrawal',
-    amount: 65.30,
-    status: 'completed',
-    from: 'Main Account',
-    to: 'The Grill House',
-    reference: 'REST-0609',
-    category: 'Food & Dining'
-  }
-  // ... more mock transactions
-];
+const fetchTransactions = async ({ signal }: { signal: AbortSignal }): Promise<Transaction[]> => {
+  const response = await apiClient.get<PaginatedResponse<Transaction>>('/api/transactions', undefined, { signal });
+  return (response.data || []).map(transaction => ({ ...transaction, date: new Date(transaction.date) }));
+};
 
 /**
  * @function Transactions
@@ -171,15 +79,8 @@ const mockTransactions: Transaction[] = [
  */
 export default function Transactions() {
   const { showToast } = useToast(); // Hook for displaying toast notifications
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const [transactions, _setTransactions] = useState<Transaction[]>(mockTransactions); // State for transactions, initialized with mock data.
-                                                                                // `_setTransactions` would be used if data can be updated/refetched.
-  // --- Filter States ---
-  const [dateRange, setDateRange] = useState('all'); // Filter by date range
-  const [typeFilter, setTypeFilter] = useState('all'); // Filter by transaction type
-  const [statusFilter, setStatusFilter] = useState('all'); // Filter by transaction status
-  // TODO: Add state for amount range filter if it needs to be controlled.
-
+  const { data, isLoading, error, refetch } = useQuery(['transactions'], fetchTransactions, { staleTime: 30 * 1000 });
+  const transactions = data || []; // Transactions from the API (empty while loading)
   // --- Dialog States ---
   const [showShareDialog, setShowShareDialog] = useState(false); // Controls visibility of the share dialog
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null); // For transaction details dialog
@@ -230,20 +131,6 @@ export default function Transactions() {
     }
   };
 
-  /**
-   * @function handleExport
-   * @description Placeholder function to simulate exporting transaction data. Shows a toast.
-   * @param {'csv' | 'excel' | 'pdf'} format - The desired export format.
-   */
-  const handleExport = (format: 'csv' | 'excel' | 'pdf') => {
-    // TODO: Implement actual export logic (e.g., generate file and trigger download)
-    showToast({
-      type: 'success',
-      title: `Exporting to ${format.toUpperCase()}`,
-      description: 'Your transaction report will be downloaded shortly.'
-    });
-  };
-
   /**
    * @function handleShare
    * @description Opens the share dialog.
@@ -277,6 +164,15 @@ export default function Transactions() {
       key: 'type',
       header: 'Type',
       width: '60px',
+      groupable: true,
+      filter: {
+        type: 'enum' as const,
+        options: [
+          { value: 'deposit', label: 'Deposits' },
+          { value: 'withdrawal', label: 'Withdrawals' },
+          { value: 'transfer', label: 'Transfers' }
+        ]
+      },
       render: (value: Transaction['type']) => (
         <Box style={{ color: value === 'deposit' ? 'var(--green-9)' : value === 'withdrawal' ? 'var(--red-9)' : 'var(--blue-9)' }}>
           {getTypeIcon(value)}
@@ -287,6 +183,7 @@ export default function Transactions() {
       key: 'date',
       header: 'Date',
       sortable: true,
+      filter: { type: 'date' as const },
       render: (value: Date) => (
         <Text size="2">{value.toLocaleDateString()} {value.toLocaleTimeString()}</Text>
       )
@@ -294,7 +191,8 @@ export default function Transactions() {
     {
       key: 'description',
       header: 'Description',
-      sortable: true
+      sortable: true,
+      filter: { type: 'text' as const }
     },
     {
       key: 'from',
@@ -310,6 +208,10 @@ export default function Transactions() {
       key: 'amount',
       header: 'Amount',
       sortable: true,
+      filter: { type: 'number' as const },
+      exportFormat: '$#,##0.00',
+      aggregate: 'sum' as const,
+      renderAggregate: (total: number) => `$${total.toFixed(2)}`,
       align: 'right' as const,
       render: (value: number, row: Transaction) => (
         <Text 
@@ -324,6 +226,15 @@ export default function Transactions() {
     {
       key: 'status',
       header: 'Status',
+      groupable: true,
+      filter: {
+        type: 'enum' as const,
+        options: [
+          { value: 'completed', label: 'Completed' },
+          { value: 'pending', label: 'Pending' },
+          { value: 'failed', label: 'Failed' }
+        ]
+      },
       render: (value: Transaction['status']) => (
         <Badge color={getStatusColor(value)} variant="soft">
           {value}
@@ -333,6 +244,8 @@ export default function Transactions() {
     {
       key: 'category',
       header: 'Category',
+      groupable: true,
+      filter: { type: 'text' as const },
       render: (value: string) => (
         <Badge variant="outline" size="1">
           {value}
@@ -382,70 +295,19 @@ export default function Transactions() {
           </Card>
         </Grid>
 
-        {/* Filters */}
-        <Card>
-          <Flex gap="3" align="end" wrap="wrap">
-            <Box>
-              <Text size="2" weight="medium" mb="1">Date Range</Text>
-              <Select.Root value={dateRange} onValueChange={setDateRange}>
-                <Select.Trigger>
-                  <CalendarIcon />
-                </Select.Trigger>
-                <Select.Content>
-                  <Select.Item value="all">All Time</Select.Item>
-                  <Select.Item value="today">Today</Select.Item>
-                  <Select.Item value="week">This Week</Select.Item>
-                  <Select.Item value="month">This Month</Select.Item>
-                  <Select.Item value="year">This Year</Select.Item>
-                </Select.Content>
-              </Select.Root>
-            </Box>
-            
-            <Box>
-              <Text size="2" weight="medium" mb="1">Type</Text>
-              <Select.Root value={typeFilter} onValueChange={setTypeFilter}>
-                <Select.Trigger />
-                <Select.Content>
-                  <Select.Item value="all">All Types</Select.Item>
-                  <Select.Item value="deposit">Deposits</Select.Item>
-                  <Select.Item value="withdrawal">Withdrawals</Select.Item>
-                  <Select.Item value="transfer">Transfers</Select.Item>
-                </Select.Content>
-              </Select.Root>
-            </Box>
-            
-            <Box>
-              <Text size="2" weight="medium" mb="1">Status</Text>
-              <Select.Root value={statusFilter} onValueChange={setStatusFilter}>
-                <Select.Trigger />
-                <Select.Content>
-                  <Select.Item value="all">All Status</Select.Item>
-                  <Select.Item value="completed">Completed</Select.Item>
-                  <Select.Item value="pending">Pending</Select.Item>
-                  <Select.Item value="failed">Failed</Select.Item>
-                </Select.Content>
-              </Select.Root>
-            </Box>
-            
-            <Box style={{ flex: 1 }} minWidth="200px">
-              <Text size="2" weight="medium" mb="1">Amount Range</Text>
-              <Flex gap="2">
-                <TextField.Root placeholder="Min" type="number" />
-                <TextField.Root placeholder="Max" type="number" />
-              </Flex>
-            </Box>
-          </Flex>
-        </Card>
-
         {/* Transactions Table */}
         <Card>
           <DataTable
             data={transactions}
             columns={columns}
             searchPlaceholder="Search transactions..."
+            title="Transactions"
+            loading={isLoading}
+            error={error && { message: `Failed to load transactions: ${error.message}` }}
+            onRetry={refetch}
+            paging="infinite" // The ledger can hold 100k rows: scroll through them with only the visible rows rendered
             onRowClick={setSelectedTransaction}
             selectable
-            onExport={handleExport}
             onShare={handleShare}
           />
         </Card>
@@ -4,7 +4,8 @@
  * It provides a tabbed interface for managing users, roles, permissions, and viewing activity logs.
  * Features include listing users with filtering, bulk actions, creating/editing users via dialogs,
  * and displaying roles with their associated permissions.
- * All data and some functionalities (like activity log) are currently mocked.
+ * Users and roles are loaded from `/api/users` and `/api/roles` (served by the in-process mock backend in demo mode);
+ * the activity log is still mocked.
  */
 import { useState } from 'react'
 import {
@@ -40,12 +41,11 @@ import {
 // DropdownMenu from @radix-ui/themes is now correctly imported above.
 import DataTable from '../../components/DataTable' // Reusable DataTable component
 import { useToast } from '../../components/notifications/toast-context' // For toast notifications
-
-/**
- * @typedef {'admin' | 'moderator' | 'user'} UserRole
- * @description Represents the possible roles a user can have.
- */
-type UserRole = 'admin' | 'moderator' | 'user';
+import { useQuery, useMutation } from '../../lib/query'
+import { apiClient } from '../../lib/api-client'
+import { PERMISSIONS } from '../../lib/permissions'
+import { Can, useCan } from '../../lib/auth-context'
+import type { ApiResponse, PaginatedResponse, UserRole } from '../../types'
 
 /**
  * @typedef {'active' | 'inactive' | 'suspended'} UserStatus
@@ -67,7 +67,7 @@ type UserStatus = 'active' | 'inactive' | 'suspended';
  * @property {Date} createdAt - Date when the user account was created.
  * @property {string[]} permissions - A list of permission strings assigned to the user (can be derived from role).
  */
-interface User {
+export interface User {
   id: string;
   name: string;
   email: string;
@@ -89,7 +89,7 @@ interface User {
  * @property {string[]} permissions - An array of permission strings associated with this role.
  * @property {number} userCount - The number of users currently assigned to this role.
  */
-interface Role {
+export interface Role {
   id: string;
   name: string;
   description: string;
@@ -97,113 +97,84 @@ interface Role {
   userCount: number;
 }
 
-// TODO: Replace mockUsers, mockRoles, and allPermissions with actual data from an API or data source.
 /**
- * @const mockUsers
- * @description An array of mock user data for demonstration.
+ * @const USERS_QUERY_KEY
+ * @description Cache key for the user list, invalidated after every user mutation.
+ */
+const USERS_QUERY_KEY = ['users']
+
+/**
+ * @const ROLES_QUERY_KEY
+ * @description Cache key for the role list.
+ */
+const ROLES_QUERY_KEY = ['roles']
+
+/**
+ * @function reviveUser
+ * @description Converts the ISO date strings of a user received over JSON back into `Date` objects.
+ * @param {User} user - The user as returned by the API.
+ * @returns {User} The user with `lastLogin` and `createdAt` as `Date` objects.
+ */
+const reviveUser = (user: User): User => ({
+  ...user,
+  lastLogin: new Date(user.lastLogin),
+  createdAt: new Date(user.createdAt)
+});
+
+/**
+ * @function fetchUsers
+ * @description Fetches the user list from `GET /api/users`.
+ * @param {{ signal: AbortSignal }} context - Query context with the abort signal.
+ * @returns {Promise<User[]>} The users.
  */
-const mockUsers: User[] = [
-  {
-    id: '1',
-    name: 'John Doe',
-    email: 'john.doe@example.com',
-    role: 'admin',
-    department: 'Engineering',
-    status: 'active',
-    avatar: 'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=400',
-    lastLogin: new Date('2024-06-13T10:30:00'),
-    createdAt: new Date('2023-01-15'),
-    permissions: ['users.manage', 'billing.manage', 'settings.manage']
-  },
-  {
-    id: '2',
-    name: 'Jane Smith',
-    email: 'jane.smith@example.com',
-    role: 'moderator',
-    department: 'Marketing',
-    status: 'active',
-    avatar: 'https://images.unsplash.com/photo-1494790108377-be9c29b29330?w=400',
-    lastLogin: new Date('2024-06-12T15:45:00'),
-    createdAt: new Date('2023-03-20'),
-    permissions: ['users.view', 'content.manage']
-  },
-  {
-    id: '3',
-    name: 'Bob Wilson',
-    email: 'bob.wilson@example.com',
-    role: 'user',
-    department: 'Sales',
-    status: 'inactive',
-    lastLogin: new Date('2024-05-20T09:15:00'),
-    createdAt: new Date('2023-06-10'),
-    permissions: ['profile.edit']
-  },
-  {
-    id: '4',
-    name: 'Alice Brown',
-    email: 'alice.brown@example.com',
-    role: 'admin',
-    department: 'HR',
-    status: 'active',
-    avatar: 'https://images.unsplash.com/photo-1438761681033-6461ffad8d80?w=400',
-    lastLogin: new Date('2024-06-13T08:00:00'),
-    createdAt: new Date('2022-11-28'),
-    permissions: ['users.manage', 'billing.manage', 'settings.manage']
-  },
-  {
-    id: '5',
-    name: 'Charlie Davis',
-    email: 'charlie.davis@example.com',
-    role: 'user',
-    department: 'Engineering',
-    status: 'suspended',
-    lastLogin: new Date('2024-04-10T14:20:00'),
-    createdAt: new Date('2023-08-15'),
-    permissions: ['profile.edit']
-  }
-]
-
-const mockRoles: Role[] = [
-  {
-    id: '1',
-    name: 'Administrator',
-    description: 'Full system access with all permissions',
-    permissions: ['users.manage', 'billing.manage', 'settings.manage', 'content.manage'],
-    userCount: 2
-  },
-  {
-    id: '2',
-    name: 'Moderator',
-    description: 'Can manage content and view users',
-    permissions: ['users.view', 'content.manage'],
-    userCount: 1
-  },
-  {
-    id: '3',
-    name: 'User',
-    description: 'Basic user with limited permissions',
-    permissions: ['profile.edit'],
-    userCount: 2
-  }
-  // ... more mock roles
-];
+const fetchUsers = async ({ signal }: { signal: AbortSignal }): Promise<User[]> => {
+  const response = await apiClient.get<PaginatedResponse<User>>('/api/users', undefined, { signal });
+  return (response.data || []).map(reviveUser);
+};
 
 /**
- * @const allPermissions
- * @description A comprehensive list of all available permissions in the system,
- * grouped by category. Used for displaying the permissions matrix.
+ * @function fetchRoles
+ * @description Fetches the role list from `GET /api/roles`.
+ * @param {{ signal: AbortSignal }} context - Query context with the abort signal.
+ * @returns {Promise<Role[]>} The roles.
  */
-const allPermissions = [
-  { id: 'users.manage', name: 'Manage Users (Create, Edit, Delete)', category: 'Users' },
-  { id: 'users.view', name: 'View User List and Profiles', category: 'Users' },
-  { id: 'billing.manage', name: 'Manage Subscriptions and Invoices', category: 'Billing' },
-  { id: 'billing.view', name: 'View Billing', category: 'Billing' },
-  { id: 'settings.manage', name: 'Manage Settings', category: 'Settings' },
-  { id: 'content.manage', name: 'Manage Content', category: 'Content' },
-  { id: 'content.view', name: 'View Content', category: 'Content' },
-  { id: 'profile.edit', name: 'Edit Own Profile Details', category: 'Profile' }
-  // ... more permissions
-];
+const fetchRoles = async ({ signal }: { signal: AbortSignal }): Promise<Role[]> => {
+  const response = await apiClient.get<PaginatedResponse<Role>>('/api/roles', undefined, { signal });
+  return response.data || [];
+};
+
+/**
+ * @function saveUser
+ * @description Creates a user with `POST /api/users`, or updates an existing one with `PATCH /api/users/:id`.
+ * @param {{ id?: string; user: Partial<User> }} variables - The user ID (omitted for new users) and the fields to save.
+ * @returns {Promise<User | undefined>} The saved user.
+ */
+const saveUser = async ({ id, user }: { id?: string; user: Partial<User> }): Promise<User | undefined> => {
+  const response = id
+    ? await apiClient.patch<ApiResponse<User>>(`/api/users/${id}`, user)
+    : await apiClient.post<ApiResponse<User>>('/api/users', user);
+  return response.data && reviveUser(response.data);
+};
+
+/**
+ * @function deleteUsers
+ * @description Deletes one or more users with `DELETE /api/users/:id`.
+ * @param {string[]} ids - IDs of the users to delete.
+ * @returns {Promise<void>}
+ */
+const deleteUsers = async (ids: string[]): Promise<void> => {
+  await Promise.all(ids.map(id => apiClient.delete(`/api/users/${id}`)));
+};
+
+/**
+ * @function updateUsersRole
+ * @description Assigns a role to one or more users with `PATCH /api/users/:id`.
+ * @param {{ ids: string[]; role: UserRole }} variables - IDs of the users and the role to assign.
+ * @returns {Promise<void>}
+ */
+const updateUsersRole = async ({ ids, role }: { ids: string[]; role: UserRole }): Promise<void> => {
+  await Promise.all(ids.map(id => apiClient.patch(`/api/users/${id}`, { role })));
+};
 
 /**
  * @function Users
@@ -214,22 +185,51 @@ const allPermissions = [
  */
 export default function Users() {
   const { showToast } = useToast(); // Hook for displaying toast notifications
+  const canManageUsers = useCan()('users:write'); // Whether the current user may create, edit and delete users
 
   // --- State Management ---
-  const [users, setUsers] = useState<User[]>(mockUsers); // List of all users
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const [roles, _setRoles] = useState<Role[]>(mockRoles); // List of all roles (_setRoles would be used if roles are editable)
+  const { data: users, isLoading, error } = useQuery(USERS_QUERY_KEY, fetchUsers, { staleTime: 30 * 1000 }); // List of all users
+  const { data: roles } = useQuery(ROLES_QUERY_KEY, fetchRoles, { staleTime: 5 * 60 * 1000 }); // List of all roles
+  const saveUserMutation = useMutation(saveUser, {
+    invalidateQueries: [USERS_QUERY_KEY],
+    onSuccess: (user, { id, user: userData }) => showToast({
+      type: 'success',
+      title: id ? 'User updated' : 'User created',
+      description: `${user?.name || userData.name} has been ${id ? 'updated' : 'added'}.`
+    }),
+    onError: (error) => showToast({ type: 'error', title: 'Failed to save user', description: error.message })
+  });
+  const deleteUsersMutation = useMutation(deleteUsers, {
+    optimisticUpdate: {
+      queryKey: USERS_QUERY_KEY,
+      updater: (current: User[] | null, ids) => (current || []).filter(user => !ids.includes(user.id))
+    },
+    invalidateQueries: [USERS_QUERY_KEY],
+    onSuccess: (_, ids) => showToast(ids.length === 1
+      ? { type: 'success', title: 'User Deleted', description: 'The user has been removed from the system.' }
+      : { type: 'success', title: 'Users Deleted', description: `${ids.length} user(s) have been removed.` }),
+    onError: (error) => showToast({ type: 'error', title: 'Failed to delete users', description: error.message })
+  });
+  const roleMutation = useMutation(updateUsersRole, {
+    optimisticUpdate: {
+      queryKey: USERS_QUERY_KEY,
+      updater: (current: User[] | null, { ids, role }) =>
+        (current || []).map(user => ids.includes(user.id) ? { ...user, role } : user)
+    },
+    invalidateQueries: [USERS_QUERY_KEY],
+    onSuccess: (_, { ids, role }) => showToast({
+      type: 'success',
+      title: 'Roles Updated',
+      description: `Updated role to "${role}" for ${ids.length} user(s).`
+    }),
+    onError: (error) => showToast({ type: 'error', title: 'Failed to update roles', description: error.message })
+  });
   const [selectedUsers, setSelectedUsers] = useState<User[]>([]); // Users selected in the DataTable for bulk actions
   const [showUserDialog, setShowUserDialog] = useState(false); // Controls visibility of the create/edit user dialog
   const [showBulkImport, setShowBulkImport] = useState(false); // Controls visibility of the bulk import dialog
   const [editingUser, setEditingUser] = useState<User | null>(null); // Stores the user being edited, or null if creating
   const [activeTab, setActiveTab] = useState('users'); // Currently active tab ('users', 'roles', 'activity')
 
-  // Filter states for the users table
-  const [roleFilter, setRoleFilter] = useState('all');
-  const [statusFilter, setStatusFilter] = useState('all');
-  const [departmentFilter, setDepartmentFilter] = useState('all');
-
   // --- User CRUD and Bulk Action Handlers ---
 
   /**
@@ -237,7 +237,7 @@ export default function Users() {
    * @description Handles creation or update of a user.
    * If `editingUser` is present, it updates that user; otherwise, creates a new user.
    * Data is taken from a form (not explicitly passed here, assumes form state is read within).
-   * Shows a toast notification on success.
+   * The change is sent to the API and a toast notification is shown once it succeeds.
    * @param {Partial<User>} userData - The user data from the form. For new users, some fields might be defaulted.
    */
   const handleCreateOrUpdateUser = (userData: Partial<User>) => {
@@ -245,12 +245,10 @@ export default function Users() {
     // For simplicity, using passed userData and some defaults.
     if (editingUser) {
       // Update existing user
-      setUsers(users.map(u => u.id === editingUser.id ? { ...u, ...userData, updatedAt: new Date() } : u));
-      showToast({ type: 'success', title: 'User updated', description: `${userData.name || editingUser.name} has been updated.` });
+      saveUserMutation.mutate({ id: editingUser.id, user: userData });
     } else {
       // Create new user
-      const newUser: User = {
-        id: Date.now().toString(), // Simple ID for mock
+      const newUser: Omit<User, 'id'> = {
         name: userData.name || 'New User',
         email: userData.email || `newuser${Date.now()}@example.com`,
         role: userData.role || 'user',
@@ -258,11 +256,10 @@ export default function Users() {
         status: 'active',
         lastLogin: new Date(),
         createdAt: new Date(),
-        permissions: userData.permissions || ['profile.edit'],
+        permissions: userData.permissions || ['profile:write'],
         avatar: userData.avatar
       };
-      setUsers([...users, newUser]);
-      showToast({ type: 'success', title: 'User created', description: `${newUser.name} has been added.` });
+      saveUserMutation.mutate({ user: newUser });
     }
     setShowUserDialog(false); // Close dialog
     setEditingUser(null); // Reset editing state
@@ -274,17 +271,12 @@ export default function Users() {
 
   /**
    * @function handleDeleteUser
-   * @description Deletes a user by their ID. Shows a toast notification.
+   * @description Deletes a user by their ID through the API. A toast notification is shown once it succeeds.
    * @param {string} userId - The ID of the user to delete.
    */
   const handleDeleteUser = (userId: string) => {
     // TODO: Add confirmation dialog before actual deletion
-    setUsers(users.filter(user => user.id !== userId));
-    showToast({
-      type: 'success',
-      title: 'User Deleted',
-      description: 'The user has been removed from the system.'
-    });
+    deleteUsersMutation.mutate([userId]);
   };
 
   /**
@@ -294,13 +286,8 @@ export default function Users() {
   const handleBulkDelete = () => {
     // TODO: Add confirmation dialog
     const idsToDelete = selectedUsers.map(u => u.id);
-    setUsers(users.filter(user => !idsToDelete.includes(user.id)));
     setSelectedUsers([]); // Clear selection
-    showToast({
-      type: 'success',
-      title: 'Users Deleted',
-      description: `${idsToDelete.length} user(s) have been removed.`
-    });
+    deleteUsersMutation.mutate(idsToDelete);
   };
 
   /**
@@ -310,15 +297,8 @@ export default function Users() {
    */
   const handleBulkRoleChange = (newRole: UserRole) => {
     const idsToUpdate = selectedUsers.map(u => u.id);
-    setUsers(users.map(user =>
-      idsToUpdate.includes(user.id) ? { ...user, role: newRole, updatedAt: new Date() } : user
-    ));
     setSelectedUsers([]); // Clear selection
-    showToast({
-      type: 'success',
-      title: 'Roles Updated',
-      description: `Updated role to "${newRole}" for ${idsToUpdate.length} user(s).`
-    });
+    roleMutation.mutate({ ids: idsToUpdate, role: newRole });
   };
 
   // --- Helper Functions ---
@@ -349,6 +329,7 @@ export default function Users() {
     {
       key: 'user',
       header: 'User',
+      exportValue: (_: any, row: User) => `${row.name} <${row.email}>`, // The row has no "user" field
       render: (_: any, row: User) => (
         <Flex align="center" gap="3">
           <Avatar
@@ -367,6 +348,14 @@ export default function Users() {
     {
       key: 'role',
       header: 'Role',
+      filter: {
+        type: 'enum' as const,
+        options: [
+          { value: 'admin', label: 'Admin' },
+          { value: 'moderator', label: 'Moderator' },
+          { value: 'user', label: 'User' }
+        ]
+      },
       render: (value: User['role']) => (
         <Badge color={value === 'admin' ? 'red' : value === 'moderator' ? 'blue' : 'gray'}>
           {value}
@@ -376,11 +365,23 @@ export default function Users() {
     {
       key: 'department',
       header: 'Department',
-      sortable: true
+      sortable: true,
+      filter: {
+        type: 'enum' as const,
+        options: ['Engineering', 'Marketing', 'Sales', 'HR'].map(department => ({ value: department, label: department }))
+      }
     },
     {
       key: 'status',
       header: 'Status',
+      filter: {
+        type: 'enum' as const,
+        options: [
+          { value: 'active', label: 'Active' },
+          { value: 'inactive', label: 'Inactive' },
+          { value: 'suspended', label: 'Suspended' }
+        ]
+      },
       render: (value: User['status']) => (
         <Badge 
           color={value === 'active' ? 'green' : value === 'inactive' ? 'gray' : 'red'}
@@ -413,26 +414,30 @@ export default function Users() {
         </IconButton>
       </DropdownMenu.Trigger>
       <DropdownMenu.Content>
-        <DropdownMenu.Item onClick={() => {
-          setEditingUser(user)
-          setShowUserDialog(true)
-        }}>
-          <Pencil1Icon />
-          Edit
-        </DropdownMenu.Item>
+        <Can permission="users:write">
+          <DropdownMenu.Item onClick={() => {
+            setEditingUser(user)
+            setShowUserDialog(true)
+          }}>
+            <Pencil1Icon />
+            Edit
+          </DropdownMenu.Item>
+        </Can>
         <DropdownMenu.Item>
           <ActivityLogIcon />
           View Activity
         </DropdownMenu.Item>
-        <DropdownMenu.Item>
-          <LockClosedIcon />
-          Reset Password
-        </DropdownMenu.Item>
-        <DropdownMenu.Separator />
-        <DropdownMenu.Item color="red" onClick={() => handleDeleteUser(user.id)}>
-          <TrashIcon />
-          Delete
-        </DropdownMenu.Item>
+        <Can permission="users:write">
+          <DropdownMenu.Item>
+            <LockClosedIcon />
+            Reset Password
+          </DropdownMenu.Item>
+          <DropdownMenu.Separator />
+          <DropdownMenu.Item color="red" onClick={() => handleDeleteUser(user.id)}>
+            <TrashIcon />
+            Delete
+          </DropdownMenu.Item>
+        </Can>
       </DropdownMenu.Content>
     </DropdownMenu.Root>
   )
@@ -445,19 +450,21 @@ export default function Users() {
             <Heading size="8" mb="2">User Management</Heading>
             <Text color="gray">Manage users, roles, and permissions</Text>
           </Box>
-          <Flex gap="2">
-            <Button variant="soft" onClick={() => setShowBulkImport(true)}>
-              <UploadIcon />
-              Import Users
-            </Button>
-            <Button onClick={() => {
-              setEditingUser(null)
-              setShowUserDialog(true)
-            }}>
-              <PlusIcon />
-              Add User
-            </Button>
-          </Flex>
+          <Can permission="users:write">
+            <Flex gap="2">
+              <Button variant="soft" onClick={() => setShowBulkImport(true)}>
+                <UploadIcon />
+                Import Users
+              </Button>
+              <Button onClick={() => {
+                setEditingUser(null)
+                setShowUserDialog(true)
+              }}>
+                <PlusIcon />
+                Add User
+              </Button>
+            </Flex>
+          </Can>
         </Flex>
 
         <Tabs.Root value={activeTab} onValueChange={setActiveTab}>
@@ -471,44 +478,8 @@ export default function Users() {
             {/* Users Tab */}
             <Tabs.Content value="users">
               <Flex direction="column" gap="4">
-                {/* Filters */}
-                <Card>
-                  <Flex gap="3" wrap="wrap">
-                    <Select.Root value={roleFilter} onValueChange={setRoleFilter}>
-                      <Select.Trigger placeholder="Role" />
-                      <Select.Content>
-                        <Select.Item value="all">All Roles</Select.Item>
-                        <Select.Item value="admin">Admin</Select.Item>
-                        <Select.Item value="moderator">Moderator</Select.Item>
-                        <Select.Item value="user">User</Select.Item>
-                      </Select.Content>
-                    </Select.Root>
-                    
-                    <Select.Root value={statusFilter} onValueChange={setStatusFilter}>
-                      <Select.Trigger placeholder="Status" />
-                      <Select.Content>
-                        <Select.Item value="all">All Status</Select.Item>
-                        <Select.Item value="active">Active</Select.Item>
-                        <Select.Item value="inactive">Inactive</Select.Item>
-                        <Select.Item value="suspended">Suspended</Select.Item>
-                      </Select.Content>
-                    </Select.Root>
-                    
-                    <Select.Root value={departmentFilter} onValueChange={setDepartmentFilter}>
-                      <Select.Trigger placeholder="Department" />
-                      <Select.Content>
-                        <Select.Item value="all">All Departments</Select.Item>
-                        <Select.Item value="Engineering">Engineering</Select.Item>
-                        <Select.Item value="Marketing">Marketing</Select.Item>
-                        <Select.Item value="Sales">Sales</Select.Item>
-                        <Select.Item value="HR">HR</Select.Item>
-                      </Select.Content>
-                    </Select.Root>
-                  </Flex>
-                </Card>
-
                 {/* Bulk Actions */}
-                {selectedUsers.length > 0 && (
+                {selectedUsers.length > 0 && canManageUsers && (
                   <Card>
                     <Flex justify="between" align="center">
                       <Text size="2">
@@ -535,9 +506,12 @@ export default function Users() {
                 {/* Users Table */}
                 <Card>
                   <DataTable
-                    data={users}
+                    data={users || []}
                     columns={userColumns}
                     searchPlaceholder="Search users..."
+                    title="Users"
+                    emptyMessage={isLoading ? 'Loading users...' : error ? `Failed to load users: ${error.message}` : undefined}
+                    viewId="users"
                     selectable
                     onSelectionChange={setSelectedUsers}
                     actions={userActions}
@@ -559,7 +533,7 @@ export default function Users() {
                   </Flex>
                   
                   <Flex direction="column" gap="3">
-                    {roles.map((role) => (
+                    {(roles || []).map((role) => (
                       <Card key={role.id} variant="surface">
                         <Flex justify="between" align="start">
                           <Box>
@@ -594,7 +568,7 @@ export default function Users() {
                           <Table.ColumnHeaderCell>
                             Permission
                           </Table.ColumnHeaderCell>
-                          {roles.map((role) => (
+                          {(roles || []).map((role) => (
                             <Table.ColumnHeaderCell key={role.id} style={{ textAlign: 'center' }}>
                               {role.name}
                             </Table.ColumnHeaderCell>
@@ -602,13 +576,13 @@ export default function Users() {
                         </Table.Row>
                       </Table.Header>
                       <Table.Body>
-                        {allPermissions.map((permission) => (
+                        {PERMISSIONS.map((permission) => (
                           <Table.Row key={permission.id}>
                             <Table.Cell>
                               <Text size="2">{permission.name}</Text>
                               <Text size="1" color="gray"> ({permission.category})</Text>
                             </Table.Cell>
-                            {roles.map((role) => (
+                            {(roles || []).map((role) => (
                               <Table.Cell key={role.id} style={{ textAlign: 'center' }}>
                                 {role.permissions.includes(permission.id) && (
                                   <CheckCircledIcon style={{ color: 'var(--green-9)' }} />
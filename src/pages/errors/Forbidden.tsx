@@ -0,0 +1,67 @@
+/**
+ * @file Forbidden.tsx
+ * @description This file defines the 403 Forbidden error page component.
+ * It is displayed when a signed-in user navigates directly to a page their role does not grant access to
+ * (`ProtectedRoute` redirects here and passes the refused path as `state.from`).
+ */
+import { useLocation, useNavigate } from 'react-router-dom'
+import { Container, Flex, Heading, Text, Button, Box, Code } from '@radix-ui/themes'
+import { HomeIcon, LockClosedIcon } from '@radix-ui/react-icons'
+import { useAuth } from '../../lib/auth-context'
+
+/**
+ * @function Forbidden
+ * @description A component that renders the 403 Forbidden error page.
+ * It explains that the current account lacks access and offers to return to the dashboard or the previous page.
+ * @returns {JSX.Element} The rendered 403 Forbidden page.
+ */
+export default function Forbidden() {
+  const { user } = useAuth(); // The signed-in user, to show which account was refused
+  const navigate = useNavigate(); // React Router hook for navigation
+  const location = useLocation();
+  const from = (location.state as { from?: string } | null)?.from; // The page that was refused, if known
+
+  return (
+    <Flex align="center" justify="center" style={{ minHeight: '100vh' }}>
+      <Container size="2">
+        <Flex direction="column" align="center" gap="6" style={{ width: '100%' }}>
+          {/* 403 Illustration */}
+          <Box>
+            <Text size="9" weight="bold" style={{ fontSize: '120px', color: 'var(--gray-9)' }} align="center">
+              403
+            </Text>
+          </Box>
+
+          {/* Error Message */}
+          <Flex direction="column" align="center" gap="2">
+            <Heading size="7">
+              <Flex align="center" gap="2">
+                <LockClosedIcon width="24" height="24" />
+                Access denied
+              </Flex>
+            </Heading>
+            <Text size="3" color="gray" align="center">
+              {from ? <>You don't have permission to view <Code>{from}</Code>.</> : "You don't have permission to view this page."}
+            </Text>
+            {user && (
+              <Text size="2" color="gray" align="center">
+                Signed in as {user.email}{user.role ? ` (${user.role})` : ''}. Ask an administrator if you need access.
+              </Text>
+            )}
+          </Flex>
+
+          {/* Back to Dashboard */}
+          <Flex gap="3" mt="4">
+            <Button size="3" onClick={() => navigate('/dashboard')}>
+              <HomeIcon />
+              Back to Dashboard
+            </Button>
+            <Button size="3" variant="soft" onClick={() => window.history.back()}>
+              Go Back
+            </Button>
+          </Flex>
+        </Flex>
+      </Container>
+    </Flex>
+  )
+}
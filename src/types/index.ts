@@ -10,6 +10,12 @@
 // Core Application Types
 // =============================================================================
 
+/**
+ * @typedef {'admin' | 'moderator' | 'user'} UserRole
+ * @description The roles a user can have. Each role grants a set of permissions (see `ROLE_PERMISSIONS` in lib/permissions.ts).
+ */
+export type UserRole = 'admin' | 'moderator' | 'user';
+
 /**
  * @interface User
  * @description Represents a user in the application.
@@ -17,7 +23,9 @@
  * @property {string} email - User's email address (should be unique).
  * @property {string} name - User's full name or display name.
  * @property {string} [avatar] - URL to the user's avatar image.
- * @property {'admin' | 'user' | 'moderator'} [role] - The role of the user, determining permissions.
+ * @property {UserRole} [role] - The role of the user, determining permissions. Users without a role are treated as `user`.
+ * @property {string[]} [permissions] - Permissions granted in addition to those of the role (e.g., `orders:write`).
+ * @property {boolean} [twoFactorEnabled] - Whether signing in requires a TOTP or recovery code.
  * @property {string} [createdAt] - ISO date string of when the user account was created.
  * @property {string} [updatedAt] - ISO date string of when the user account was last updated.
  * @property {string} [lastLoginAt] - ISO date string of the user's last login.
@@ -27,7 +35,9 @@ export interface User {
   email: string;
   name: string;
   avatar?: string;
-  role?: 'admin' | 'user' | 'moderator';
+  role?: UserRole;
+  permissions?: string[];
+  twoFactorEnabled?: boolean;
   createdAt?: string;
   updatedAt?: string;
   lastLoginAt?: string;
@@ -38,14 +48,63 @@ export interface User {
  * @description Represents an active user session.
  * @property {User} user - The authenticated user object.
  * @property {string} token - The authentication token (e.g., JWT).
+ * @property {string} [refreshToken] - Long-lived token used to obtain a new `token` before it expires.
  * @property {string} expiresAt - ISO date string indicating when the session/token expires.
  */
 export interface Session {
   user: User;
   token: string;
+  refreshToken?: string;
   expiresAt: string;
 }
 
+/**
+ * @interface AuthTokens
+ * @description The token pair returned by the login, register and refresh endpoints.
+ * @property {string} accessToken - Short-lived JWT sent as a bearer token with API requests.
+ * @property {string} refreshToken - Long-lived token exchanged for a new access token.
+ * @property {string} [expiresAt] - ISO date string of the access token's expiry, if the server reports it.
+ */
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt?: string;
+}
+
+/**
+ * @interface AuthResult
+ * @extends AuthTokens
+ * @description The payload returned by the login and register endpoints.
+ * @property {User} user - The authenticated user.
+ */
+export interface AuthResult extends AuthTokens {
+  user: User;
+}
+
+/**
+ * @interface TwoFactorChallenge
+ * @description Returned by the login endpoint instead of an `AuthResult` when the account has two-factor
+ * authentication enabled. The challenge token is exchanged, together with a code, at `POST /api/auth/2fa/verify`.
+ * @property {true} twoFactorRequired - Discriminates the challenge from an `AuthResult`.
+ * @property {string} challengeToken - Short-lived token identifying the half-completed sign-in.
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+/**
+ * @interface TwoFactorSetup
+ * @description An enrollment in progress, returned by `POST /api/auth/2fa/setup`.
+ * Two-factor authentication is enabled only once a code generated from the secret has been verified.
+ * @property {string} secret - The base32 TOTP secret, for manual entry in an authenticator app.
+ * @property {string} otpauthUri - The `otpauth://totp/...` URI encoding the secret (usually shown as a QR code).
+ */
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
 /**
  * @interface ApiResponse
  * @description A generic structure for API responses.
@@ -72,6 +131,7 @@ export interface ApiResponse<T = any> {
  * @property {number} pagination.limit - The number of items per page.
  * @property {number} pagination.total - The total number of items available.
  * @property {number} pagination.totalPages - The total number of pages.
+ * @property {ListAggregates} [aggregates] - Aggregates over all matching items, when requested (`aggregate` parameter).
  */
 export interface PaginatedResponse<T> extends ApiResponse<T[]> {
   pagination: {
@@ -80,6 +140,21 @@ export interface PaginatedResponse<T> extends ApiResponse<T[]> {
     total: number;
     totalPages: number;
   };
+  aggregates?: ListAggregates;
+}
+
+/**
+ * @interface ListAggregates
+ * @description Aggregates (sum, average, count, minimum or maximum) of fields over the items of a list, in total and
+ * for each group of items with the same value in the grouped field.
+ * @property {Record<string, number | null>} totals - The aggregate of each field over all items (null when no item
+ *   has a value).
+ * @property {Record<string, { count: number; values: Record<string, number | null> }>} [groups] - When grouping, the
+ *   number of items and the aggregates of each group, by group value (as a string; empty for items without one).
+ */
+export interface ListAggregates {
+  totals: Record<string, number | null>;
+  groups?: Record<string, { count: number; values: Record<string, number | null> }>;
 }
 
 // =============================================================================
@@ -564,6 +639,7 @@ export interface StorageItem<T = any> {
   timestamp: number;
   expiresAt?: number;
   version: string;
+  schemaVersion?: number;
 }
 
 /**
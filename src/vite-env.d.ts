@@ -0,0 +1,39 @@
+/// <reference types="vite/client" />
+
+/**
+ * @interface ImportMetaEnv
+ * @description Environment variables exposed to the client by Vite (must be prefixed with `VITE_`).
+ * @property {string} [VITE_API_URL] - Base URL prepended to relative API request URLs.
+ * @property {string} [VITE_AUTH_MODE] - Authentication mode: `'mock'` (default, demo user without a backend), `'jwt'` or `'oidc'`.
+ * @property {string} [VITE_AUTH_STORAGE] - Where the session (tokens and user) is kept: `'local'` (default, shared by all tabs),
+ *   `'session'` (per tab, ended when the tab closes) or `'memory'` (ended on reload).
+ * @property {string} [VITE_OIDC_PROVIDERS] - JSON array of OAuth 2.0 / OIDC provider configurations used in `'oidc'` mode
+ *   (e.g., `[{"id":"stub","name":"Stub IdP","issuer":"http://localhost:9400","clientId":"radix-dashboard"}]`).
+ * @property {string} [VITE_MOCK_API] - `'true'` or `'false'` to force the in-process mock backend on or off.
+ *   When unset, the mock backend is used only if `VITE_API_URL` is not set.
+ * @property {string} [VITE_MOCK_LATENCY] - Base latency of mock responses in milliseconds.
+ * @property {string} [VITE_MOCK_ERROR_RATE] - Probability (0 to 1) that a mock request fails.
+ * @property {string} [VITE_MOCK_TOKEN_TTL] - Lifetime of mock access tokens in seconds (useful for testing token refresh).
+ */
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  readonly VITE_AUTH_MODE?: string;
+  readonly VITE_AUTH_STORAGE?: string;
+  readonly VITE_OIDC_PROVIDERS?: string;
+  readonly VITE_MOCK_API?: string;
+  readonly VITE_MOCK_LATENCY?: string;
+  readonly VITE_MOCK_ERROR_RATE?: string;
+  readonly VITE_MOCK_TOKEN_TTL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
+
+/**
+ * @interface Window
+ * @property {MockServer} [__mockServer] - The in-process mock backend, when installed (for debugging from the console).
+ */
+interface Window {
+  __mockServer?: import('./mocks/mock-server').MockServer;
+}
@@ -1,7 +1,11 @@
-import { defineConfig } from 'vite'
+import { defineConfig } from 'vitest/config'
 import react from '@vitejs/plugin-react'
 
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
-})
\ No newline at end of file
+  // Tests run once with `npm test`; happy-dom provides the browser APIs the app relies on (window, storage, fetch)
+  test: {
+    environment: 'happy-dom',
+  },
+})